@@ -6,6 +6,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { RefreshCw, TrendingUp, TrendingDown, Minus, AlertCircle } from "lucide-react"
+import { detectZones } from "@/lib/levels"
 
 interface HistoricalData {
   date: string
@@ -19,7 +20,7 @@ interface HistoricalData {
 
 interface SupportResistance {
   level: number
-  strength: number
+  strength: number // 0-100
   type: "support" | "resistance"
 }
 
@@ -67,7 +68,7 @@ export function AnalysisChart() {
 
     try {
       console.log(`Fetching historical data for ${selectedSymbol}, ${selectedDays} days...`)
-      const response = await fetch(`/api/nse/historical?symbol=${selectedSymbol}&days=${selectedDays}`)
+      const response = await fetch(`/api/nse/historical?symbol=${selectedSymbol}&days=${selectedDays}&adjusted=true`)
       console.log("Historical response status:", response.status)
 
       if (!response.ok) {
@@ -95,62 +96,23 @@ export function AnalysisChart() {
     fetchData()
   }, [fetchData])
 
-  // Calculate support and resistance levels
+  // Support and resistance zones from the pivot-clustering engine, strongest first. Selections are often short,
+  // so a single clear swing still counts as a level
   const calculateSupportResistance = useCallback((selectedData: HistoricalData[]): SupportResistance[] => {
-    if (selectedData.length < 5) return []
-
-    const levels: SupportResistance[] = []
-    const tolerance = 0.02 // 2% tolerance for level grouping
-
-    // Find pivot highs and lows
-    for (let i = 2; i < selectedData.length - 2; i++) {
-      const current = selectedData[i]
-      const prev2 = selectedData[i - 2]
-      const prev1 = selectedData[i - 1]
-      const next1 = selectedData[i + 1]
-      const next2 = selectedData[i + 2]
-
-      // Check for pivot high (resistance)
-      if (
-        current.high > prev2.high &&
-        current.high > prev1.high &&
-        current.high > next1.high &&
-        current.high > next2.high
-      ) {
-        levels.push({
-          level: current.high,
-          strength: 1,
-          type: "resistance",
-        })
-      }
-
-      // Check for pivot low (support)
-      if (current.low < prev2.low && current.low < prev1.low && current.low < next1.low && current.low < next2.low) {
-        levels.push({
-          level: current.low,
-          strength: 1,
-          type: "support",
-        })
-      }
-    }
-
-    // Group similar levels and increase strength
-    const groupedLevels: SupportResistance[] = []
-
-    levels.forEach((level) => {
-      const existing = groupedLevels.find(
-        (gl) => gl.type === level.type && Math.abs(gl.level - level.level) / level.level < tolerance,
-      )
-
-      if (existing) {
-        existing.strength += 1
-        existing.level = (existing.level + level.level) / 2 // Average the levels
-      } else {
-        groupedLevels.push({ ...level })
-      }
-    })
-
-    return groupedLevels.sort((a, b) => b.strength - a.strength)
+    const bars = selectedData.map(({ date, open, high, low, close, volume }) => ({
+      timestamp: Date.parse(date),
+      open,
+      high,
+      low,
+      close,
+      volume,
+    }))
+
+    return detectZones(bars, { pivotStrength: 2, minTouches: 1 }).map((zone) => ({
+      level: zone.price,
+      strength: zone.strength,
+      type: zone.kind,
+    }))
   }, [])
 
   // Calculate analysis for selected range
@@ -163,8 +125,9 @@ export function AnalysisChart() {
       const high = Math.max(...selectedData.map((d) => d.high))
       const low = Math.min(...selectedData.map((d) => d.low))
 
-      const priceChange = endCandle.close - startCandle.open
-      const priceChangePercent = (priceChange / startCandle.open) * 100
+      // Close to close on adjusted data, so splits, bonuses and dividends inside the range don't read as moves
+      const priceChange = endCandle.close - startCandle.close
+      const priceChangePercent = (priceChange / startCandle.close) * 100
 
       // Calculate volatility (standard deviation of daily returns)
       const dailyReturns = selectedData
@@ -209,7 +172,7 @@ export function AnalysisChart() {
       return {
         startDate: startCandle.date,
         endDate: endCandle.date,
-        startPrice: startCandle.open,
+        startPrice: startCandle.close,
         endPrice: endCandle.close,
         priceChange,
         priceChangePercent,
@@ -300,7 +263,7 @@ export function AnalysisChart() {
       analysis.supportLevels.forEach((support, index) => {
         const y = padding.top + chartHeight - (support.level - minPrice) * priceScale
         ctx.strokeStyle = `rgba(34, 197, 94, ${0.8 - index * 0.2})` // Green with decreasing opacity
-        ctx.lineWidth = 2 + support.strength
+        ctx.lineWidth = 1 + support.strength / 25
         ctx.setLineDash([5, 5])
         ctx.beginPath()
         ctx.moveTo(padding.left, y)
@@ -318,7 +281,7 @@ export function AnalysisChart() {
       analysis.resistanceLevels.forEach((resistance, index) => {
         const y = padding.top + chartHeight - (resistance.level - minPrice) * priceScale
         ctx.strokeStyle = `rgba(239, 68, 68, ${0.8 - index * 0.2})` // Red with decreasing opacity
-        ctx.lineWidth = 2 + resistance.strength
+        ctx.lineWidth = 1 + resistance.strength / 25
         ctx.setLineDash([5, 5])
         ctx.beginPath()
         ctx.moveTo(padding.left, y)
@@ -1,4 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { getCandleHistory, isCandleInterval } from "@/lib/candles"
+import { getLatestSession, getMarketStatus } from "@/lib/market-calendar"
 
 interface IntradayData {
   timestamp: number
@@ -9,87 +11,12 @@ interface IntradayData {
   volume: number
 }
 
-const BASE_PRICES: { [key: string]: number } = {
-  RELIANCE: 2450.75,
-  TCS: 3890.2,
-  HDFCBANK: 1685.3,
-  INFY: 1456.85,
-  ITC: 462.15,
-  SBIN: 598.4,
-  BHARTIARTL: 912.65,
-  KOTAKBANK: 1798.9,
-  LT: 2856.75,
-  ASIANPAINT: 3124.5,
-  MARUTI: 9500.25,
-  HCLTECH: 1234.6,
-  AXISBANK: 1098.45,
-  ICICIBANK: 945.8,
-  WIPRO: 398.75,
-  NESTLEIND: 2234.5,
-  HINDUNILVR: 2567.3,
-  BAJFINANCE: 6789.4,
-  TATASTEEL: 134.6,
-  SUNPHARMA: 1123.8,
-}
-
-function generateIntradayData(symbol: string, interval: number): IntradayData[] {
-  const data: IntradayData[] = []
-  const basePrice = BASE_PRICES[symbol] || 1000
-  let currentPrice = basePrice
-
-  // Generate data for market hours (9:15 AM to 3:30 PM)
-  const now = new Date()
-  const marketStart = new Date(now)
-  marketStart.setHours(9, 15, 0, 0)
-  const marketEnd = new Date(now)
-  marketEnd.setHours(15, 30, 0, 0)
-
-  // If current time is before market start, use previous day
-  if (now < marketStart) {
-    marketStart.setDate(marketStart.getDate() - 1)
-    marketEnd.setDate(marketEnd.getDate() - 1)
-  }
-
-  const totalMinutes = (marketEnd.getTime() - marketStart.getTime()) / (1000 * 60)
-  const dataPoints = Math.floor(totalMinutes / interval)
-
-  for (let i = 0; i < dataPoints; i++) {
-    const time = new Date(marketStart.getTime() + i * interval * 60 * 1000)
-
-    // Generate realistic price movement
-    const volatility = 0.002 // 0.2% volatility per interval
-    const randomFactor = (Math.random() - 0.5) * volatility
-    const trendFactor = Math.sin(i / 20) * 0.0005 // Small trend component
-
-    const open = currentPrice
-    const change = open * (randomFactor + trendFactor)
-    const close = open + change
-
-    const high = Math.max(open, close) * (1 + Math.random() * 0.003)
-    const low = Math.min(open, close) * (1 - Math.random() * 0.003)
-
-    const volume = Math.floor(Math.random() * 100000) + 10000
-
-    data.push({
-      timestamp: Math.floor(time.getTime() / 1000),
-      open: Number(open.toFixed(2)),
-      high: Number(high.toFixed(2)),
-      low: Number(low.toFixed(2)),
-      close: Number(close.toFixed(2)),
-      volume,
-    })
-
-    currentPrice = close
-  }
-
-  return data
-}
-
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const symbol = searchParams.get("symbol")?.toUpperCase()
     const interval = Number.parseInt(searchParams.get("interval") || "5") // minutes
+    const candleInterval = interval === 60 ? "1h" : `${interval}m`
 
     if (!symbol) {
       return NextResponse.json(
@@ -101,10 +28,34 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Simulate API delay
-    await new Promise((resolve) => setTimeout(resolve, 200))
+    if (!isCandleInterval(candleInterval) || candleInterval === "1d") {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interval must be 1, 5, 15, 30 or 60 minutes",
+        },
+        { status: 400 },
+      )
+    }
+
+    // Today's session once it has opened, else the last one before the weekend or holiday
+    const session = getLatestSession()
+    if (!session) {
+      return NextResponse.json({ success: false, error: "No recent trading session" }, { status: 404 })
+    }
+
+    const history = await getCandleHistory(symbol, candleInterval, { from: session.open, to: session.close })
 
-    const intradayData = generateIntradayData(symbol, interval)
+    const intradayData: IntradayData[] = history.candles
+      .filter((candle) => candle.timestamp >= session.open && candle.timestamp < session.close)
+      .map((candle) => ({
+        timestamp: Math.floor(candle.timestamp / 1000),
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        volume: candle.volume,
+      }))
 
     return NextResponse.json({
       success: true,
@@ -112,6 +63,9 @@ export async function GET(request: NextRequest) {
       symbol,
       interval,
       count: intradayData.length,
+      session: { date: session.date, kind: session.kind, open: session.open, close: session.close },
+      market: getMarketStatus(),
+      provenance: history.provenance,
       timestamp: new Date().toISOString(),
     })
   } catch (error) {
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { clearAlertEvents } from "@/lib/alerts"
+import { isWorkspaceUserId } from "@/lib/workspace"
+import { checkRateLimit, rateLimitExceeded, rateLimitHeaders } from "@/lib/rate-limit"
+
+// Empties the event log; rules keep their cooldowns
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = new URL(request.url).searchParams.get("userId")
+    if (!isWorkspaceUserId(userId)) {
+      return NextResponse.json(
+        { success: false, error: "userId must be 8-64 letters, digits, dashes or underscores" },
+        { status: 400 },
+      )
+    }
+
+    const rateLimit = checkRateLimit(request, "alerts")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    await clearAlertEvents(userId)
+    return NextResponse.json({ success: true }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    console.error("Error in alert events API:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,177 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  alertRuleStatus,
+  changeAlertRules,
+  ensureAlertEngine,
+  getUserAlerts,
+  MAX_ALERT_RULES,
+  parseAlertRule,
+} from "@/lib/alerts"
+import { isWorkspaceUserId } from "@/lib/workspace"
+import { checkRateLimit, rateLimitExceeded, rateLimitHeaders } from "@/lib/rate-limit"
+
+const invalidUserId = () =>
+  NextResponse.json(
+    { success: false, error: "userId must be 8-64 letters, digits, dashes or underscores" },
+    { status: 400 },
+  )
+
+function handleError(method: string, error: unknown) {
+  console.error(`Error in alerts API (${method}):`, error)
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error",
+    },
+    { status: 500 },
+  )
+}
+
+// The user's rules with their current status, and the event log, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const userId = new URL(request.url).searchParams.get("userId")
+    if (!isWorkspaceUserId(userId)) return invalidUserId()
+
+    const rateLimit = checkRateLimit(request, "alerts")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    const { rules, log } = await getUserAlerts(userId)
+    const now = Date.now()
+
+    return NextResponse.json(
+      {
+        success: true,
+        rules: rules.map((rule) => ({
+          ...rule,
+          status: alertRuleStatus(rule, log.states[rule.id], now),
+          lastTriggeredAt: log.states[rule.id]?.lastTriggeredAt ?? null,
+          triggerCount: log.states[rule.id]?.triggerCount ?? 0,
+        })),
+        events: [...log.events].reverse(),
+        timestamp: now,
+      },
+      { headers: rateLimitHeaders(rateLimit) },
+    )
+  } catch (error) {
+    return handleError("GET", error)
+  }
+}
+
+// Body: `{ rule: { symbol, condition, repeat?, cooldownMinutes?, expiresAt?, note? } }`
+export async function POST(request: NextRequest) {
+  try {
+    const userId = new URL(request.url).searchParams.get("userId")
+    if (!isWorkspaceUserId(userId)) return invalidUserId()
+
+    const rateLimit = checkRateLimit(request, "alerts")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = parseAlertRule(body?.rule)
+    if ("error" in parsed) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 400 })
+    }
+
+    await ensureAlertEngine()
+    let full = false
+    const rules = await changeAlertRules(userId, (current) => {
+      full = current.length >= MAX_ALERT_RULES
+      // Ids come from the client so its optimistic copy keeps matching; a clash just replaces the old rule
+      return full ? current : [...current.filter((rule) => rule.id !== parsed.rule.id), parsed.rule]
+    })
+    if (full) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_ALERT_RULES} alerts per user` },
+        { status: 409, headers: rateLimitHeaders(rateLimit) },
+      )
+    }
+
+    return NextResponse.json({ success: true, rule: parsed.rule, rules }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleError("POST", error)
+  }
+}
+
+// Body: `{ id, changes: { enabled?, repeat?, cooldownMinutes?, expiresAt?, note?, condition? } }`
+export async function PATCH(request: NextRequest) {
+  try {
+    const userId = new URL(request.url).searchParams.get("userId")
+    if (!isWorkspaceUserId(userId)) return invalidUserId()
+
+    const rateLimit = checkRateLimit(request, "alerts")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    const body = await request.json().catch(() => null)
+    if (typeof body?.id !== "string" || !body.changes || typeof body.changes !== "object") {
+      return NextResponse.json({ success: false, error: "id and changes are required" }, { status: 400 })
+    }
+
+    await ensureAlertEngine()
+    // Looked up and validated against the stored rules inside the write, which is skipped unless both pass
+    const outcome: { status: 200 | 400 | 404; error?: string } = { status: 200 }
+    const rules = await changeAlertRules(userId, (current) => {
+      const rule = current.find((existing) => existing.id === body.id)
+      if (!rule) {
+        outcome.status = 404
+        outcome.error = "Alert not found"
+        return current
+      }
+      // The id, symbol and creation time stay; everything else is re-validated as a whole rule
+      const parsed = parseAlertRule({ ...rule, ...body.changes, id: rule.id, symbol: rule.symbol })
+      if ("error" in parsed) {
+        outcome.status = 400
+        outcome.error = parsed.error
+        return current
+      }
+      const updated = { ...parsed.rule, createdAt: rule.createdAt }
+      return current.map((existing) => (existing.id === rule.id ? updated : existing))
+    })
+
+    if (outcome.status !== 200) {
+      return NextResponse.json(
+        { success: false, error: outcome.error },
+        { status: outcome.status, headers: rateLimitHeaders(rateLimit) },
+      )
+    }
+
+    return NextResponse.json(
+      { success: true, rule: rules.find((rule) => rule.id === body.id), rules },
+      { headers: rateLimitHeaders(rateLimit) },
+    )
+  } catch (error) {
+    return handleError("PATCH", error)
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const userId = searchParams.get("userId")
+    const id = searchParams.get("id")
+    if (!isWorkspaceUserId(userId)) return invalidUserId()
+    if (!id) {
+      return NextResponse.json({ success: false, error: "id parameter is required" }, { status: 400 })
+    }
+
+    const rateLimit = checkRateLimit(request, "alerts")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    await ensureAlertEngine()
+    const rules = await changeAlertRules(userId, (current) =>
+      current.some((rule) => rule.id === id) ? current.filter((rule) => rule.id !== id) : current,
+    )
+    return NextResponse.json({ success: true, rules }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleError("DELETE", error)
+  }
+}
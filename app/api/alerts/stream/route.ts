@@ -0,0 +1,123 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ensureAlertEngine, getAlertLog, subscribeAlertEvents, type AlertEvent } from "@/lib/alerts"
+import { isWorkspaceUserId } from "@/lib/workspace"
+import { checkRateLimit, rateLimitExceeded } from "@/lib/rate-limit"
+
+// Streams must never be cached or statically rendered
+export const dynamic = "force-dynamic"
+
+const HEARTBEAT_INTERVAL = 15000
+// A firing reaches the stream through both the replay and the live feed within moments, so ids older than
+// this can no longer arrive twice and are forgotten
+const DEDUPE_WINDOW = 60 * 1000
+
+function handleError(error: unknown) {
+  console.error("Error in alert stream API:", error)
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error",
+    },
+    { status: 500 },
+  )
+}
+
+// Server-Sent Events feed: `event: alert` per firing, `event: heartbeat` every 15s. `since` (ms) replays the
+// firings a reconnecting client missed
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const userId = searchParams.get("userId")
+  const since = Number(searchParams.get("since")) || Date.now()
+
+  if (!isWorkspaceUserId(userId)) {
+    return NextResponse.json(
+      { success: false, error: "userId must be 8-64 letters, digits, dashes or underscores" },
+      { status: 400 },
+    )
+  }
+
+  const rateLimit = checkRateLimit(request, "stream")
+  if (!rateLimit.allowed) {
+    return rateLimitExceeded(rateLimit)
+  }
+
+  try {
+    await ensureAlertEngine()
+  } catch (error) {
+    return handleError(error)
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false
+      let unsubscribe = () => {}
+      let heartbeat: ReturnType<typeof setInterval> | null = null
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        unsubscribe()
+        if (heartbeat) clearInterval(heartbeat)
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the runtime
+        }
+      }
+      cleanup = close
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch (error) {
+          console.error("Error writing to alert stream:", error)
+          close()
+        }
+      }
+
+      controller.enqueue(encoder.encode("retry: 3000\n\n"))
+      send("ready", { userId })
+
+      // Listening starts before the replay so nothing fired meanwhile is lost; either path may see an event first
+      const sent = new Map<string, number>()
+      const sendAlert = (event: AlertEvent) => {
+        if (sent.has(event.id)) return
+        sent.set(event.id, event.triggeredAt)
+        send("alert", event)
+
+        const cutoff = Date.now() - DEDUPE_WINDOW
+        sent.forEach((triggeredAt, id) => {
+          if (triggeredAt < cutoff) sent.delete(id)
+        })
+      }
+
+      unsubscribe = subscribeAlertEvents(userId, sendAlert)
+      heartbeat = setInterval(() => send("heartbeat", { timestamp: Date.now() }), HEARTBEAT_INTERVAL)
+      request.signal.addEventListener("abort", close)
+
+      try {
+        const log = await getAlertLog(userId)
+        log.events.filter((event) => event.triggeredAt > since).forEach(sendAlert)
+      } catch (error) {
+        console.error(`Error replaying alerts for ${userId}:`, error)
+      }
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -0,0 +1,92 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DAY_MS, getTimeframeHistory, getTimeframeLookbackMs, isTimeframe, TIMEFRAMES } from "@/lib/candles"
+import { checkRateLimit, rateLimitExceeded, rateLimitHeaders } from "@/lib/rate-limit"
+
+const MAX_LIMIT = 5000
+const MAX_CLOCK_SKEW_MS = 60 * 1000
+
+// Accepts epoch milliseconds or anything Date.parse understands, e.g. "2024-06-03"
+function parseTime(value: string | null): number | undefined | null {
+  if (!value) return undefined
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value)
+  return Number.isFinite(time) ? time : null
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const symbol = searchParams.get("symbol")
+    const interval = searchParams.get("interval") || "1d"
+    const from = parseTime(searchParams.get("from"))
+    const to = parseTime(searchParams.get("to"))
+    const limit = searchParams.get("limit") ? Number.parseInt(searchParams.get("limit") as string) : undefined
+    const adjusted = searchParams.get("adjusted") !== "false"
+
+    if (!symbol) {
+      return NextResponse.json({ success: false, error: "Symbol parameter is required" }, { status: 400 })
+    }
+
+    if (!isTimeframe(interval)) {
+      return NextResponse.json(
+        { success: false, error: `Interval must be one of ${TIMEFRAMES.join(", ")}` },
+        { status: 400 },
+      )
+    }
+
+    if (from === null || to === null) {
+      return NextResponse.json({ success: false, error: "from and to must be dates or epoch milliseconds" }, { status: 400 })
+    }
+
+    // Outside the provider's lookback there is nothing to fetch, and a simulated fallback would be unbounded
+    const now = Date.now()
+    const oldest = now - getTimeframeLookbackMs(interval)
+    if (to !== undefined && to > now + MAX_CLOCK_SKEW_MS) {
+      return NextResponse.json({ success: false, error: "to cannot be in the future" }, { status: 400 })
+    }
+    if ((from !== undefined && from < oldest) || (to !== undefined && to < oldest)) {
+      const days = Math.floor((now - oldest) / DAY_MS)
+      return NextResponse.json(
+        { success: false, error: `${interval} bars only go back ${days} days` },
+        { status: 400 },
+      )
+    }
+
+    if (limit !== undefined && !(limit > 0 && limit <= MAX_LIMIT)) {
+      return NextResponse.json({ success: false, error: `limit must be between 1 and ${MAX_LIMIT}` }, { status: 400 })
+    }
+
+    const rateLimit = checkRateLimit(request, "candles")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    // Serves the local store after fetching only what it is missing; higher timeframes are resampled
+    const history = await getTimeframeHistory(symbol, interval, { from, to, limit, adjusted })
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: history.candles,
+        symbol: history.symbol,
+        interval: history.interval,
+        adjusted: history.adjusted,
+        gaps: history.gaps,
+        provenance: history.provenance,
+        errors: history.errors,
+        count: history.candles.length,
+        timestamp: Date.now(),
+      },
+      { headers: rateLimitHeaders(rateLimit) },
+    )
+  } catch (error) {
+    console.error("Error in candles API:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 },
+    )
+  }
+}
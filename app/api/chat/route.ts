@@ -1,15 +1,83 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { getSymbolLevels, type SymbolLevels } from "@/lib/levels/history"
+import type { LevelZone } from "@/lib/levels"
+import { isSimulated } from "@/lib/market-data/provenance"
+import { toBaseSymbol } from "@/lib/market-data/symbols"
+import { checkRateLimit, rateLimitExceeded, rateLimitHeaders } from "@/lib/rate-limit"
+
+const LEVEL_KEYWORDS = ["support", "resistance", "level", "zone"]
+
+const formatRupees = (value: number) =>
+  `₹${value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+function describeZone(zone: LevelZone): string {
+  const touched = new Date(zone.lastTouch).toLocaleDateString("en-IN", { day: "numeric", month: "short" })
+  const band = `${formatRupees(zone.low)} – ${formatRupees(zone.high)}`
+  return `${band} (strength ${zone.strength}, ${zone.touches} touches, last ${touched})`
+}
+
+// Zones from the support/resistance engine, nearest first
+function describeLevels(levels: SymbolLevels): string {
+  const { nearest, zones } = levels
+  const list = (side: LevelZone[], none: string) =>
+    side.length > 0 ? side.slice(0, 3).map((zone) => `• ${describeZone(zone)}`).join("\n") : none
+  const below = zones.filter((zone) => zone.price <= nearest.price).sort((a, b) => b.price - a.price)
+  const above = zones.filter((zone) => zone.price > nearest.price).sort((a, b) => a.price - b.price)
+
+  return `📐 **${toBaseSymbol(levels.symbol)} Support & Resistance (${levels.interval})**
+
+Last close: ${formatRupees(nearest.price)}
+
+**Resistance:**
+${list(above, "• None detected above")}
+
+**Support:**
+${list(below, "• None detected below")}
+
+Zones cluster swing highs and lows from the last ${levels.bars} bars; strength weighs touches, volume and recency.`
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { message } = await request.json()
+    const { message, symbol } = await request.json()
+    const lowerMessage = message.toLowerCase()
+
+    // Level questions about the instrument on screen are answered from its candles, in the same budget as /api/levels
+    if (typeof symbol === "string" && symbol && LEVEL_KEYWORDS.some((word) => lowerMessage.includes(word))) {
+      const rateLimit = checkRateLimit(request, "levels")
+      if (!rateLimit.allowed) {
+        return rateLimitExceeded(rateLimit)
+      }
+
+      try {
+        const levels = await getSymbolLevels(symbol, "1d")
+        // Zones found in a random walk would read as real analysis, so none are given
+        const simulated = isSimulated(levels.provenance)
+        const response = simulated
+          ? `📐 **${toBaseSymbol(levels.symbol)} Support & Resistance**
+
+Only simulated price history is available right now, so no levels are shown. Please ask again shortly.`
+          : describeLevels(levels)
+        return NextResponse.json(
+          {
+            success: true,
+            response,
+            levels: simulated ? null : levels,
+            simulated,
+            timestamp: new Date().toISOString(),
+          },
+          { headers: rateLimitHeaders(rateLimit) },
+        )
+      } catch (error) {
+        console.error(`Levels unavailable for ${symbol}:`, error)
+      }
+    }
 
     // Simulate AI processing delay
     await new Promise((resolve) => setTimeout(resolve, 1000))
 
     // Generate contextual response based on message content
     let response = ""
-    const lowerMessage = message.toLowerCase()
 
     if (lowerMessage.includes("nifty") || lowerMessage.includes("index")) {
       response = `📊 **Nifty 50 Analysis**
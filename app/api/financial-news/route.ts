@@ -1,4 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { createCache } from "@/lib/cache"
+import { asCached, createProvenance, weakestProvenance, type Provenance } from "@/lib/market-data"
+import { checkRateLimit, rateLimitExceeded, rateLimitHeaders } from "@/lib/rate-limit"
 
 interface NewsArticle {
   id: string
@@ -11,48 +14,18 @@ interface NewsArticle {
   category: string
   imageUrl?: string
   author?: string
+  provenance: Provenance
 }
 
 const NEWS_API_KEY = process.env.NEWS_API_KEY || "demo"
 const FINNHUB_API_KEY = process.env.FINNHUB_API_KEY || "demo"
 
-// Rate limiting
-const requestCounts = new Map<string, { count: number; resetTime: number }>()
-const RATE_LIMIT = 30 // requests per minute
-const RATE_WINDOW = 60 * 1000 // 1 minute
-
-function checkRateLimit(ip: string): boolean {
-  const now = Date.now()
-  const userRequests = requestCounts.get(ip)
-
-  if (!userRequests || now > userRequests.resetTime) {
-    requestCounts.set(ip, { count: 1, resetTime: now + RATE_WINDOW })
-    return true
-  }
-
-  if (userRequests.count >= RATE_LIMIT) {
-    return false
-  }
-
-  userRequests.count++
-  return true
-}
-
 // Cache for news data
-const cache = new Map<string, { data: NewsArticle[]; timestamp: number }>()
-const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes
-
-function getCachedNews(key: string): NewsArticle[] | null {
-  const cached = cache.get(key)
-  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-    return cached.data
-  }
-  return null
-}
-
-function setCachedNews(key: string, data: NewsArticle[]) {
-  cache.set(key, { data, timestamp: Date.now() })
-}
+const cache = createCache<NewsArticle[]>({
+  namespace: "news",
+  ttl: 5 * 60 * 1000, // 5 minutes
+  maxEntries: 100,
+})
 
 // Simple sentiment analysis
 function analyzeSentiment(text: string): "positive" | "negative" | "neutral" {
@@ -206,6 +179,7 @@ async function fetchNewsAPI(): Promise<NewsArticle[]> {
         category: categorizeNews(article.title, article.description),
         imageUrl: article.urlToImage,
         author: article.author,
+        provenance: createProvenance("live", new Date(article.publishedAt).getTime() || Date.now()),
       }))
   } catch (error) {
     console.error("Error fetching NewsAPI:", error)
@@ -245,6 +219,7 @@ async function fetchFinnhubNews(): Promise<NewsArticle[]> {
         sentiment: analyzeSentiment(`${article.headline} ${article.summary}`),
         category: categorizeNews(article.headline, article.summary),
         imageUrl: article.image,
+        provenance: createProvenance("live", article.datetime * 1000),
       }))
   } catch (error) {
     console.error("Error fetching Finnhub news:", error)
@@ -312,7 +287,10 @@ function generateFallbackNews(): NewsArticle[] {
     },
   ]
 
-  return fallbackArticles
+  return fallbackArticles.map((article) => ({
+    ...article,
+    provenance: createProvenance("simulated", new Date(article.publishedAt).getTime()),
+  }))
 }
 
 export async function GET(request: NextRequest) {
@@ -321,29 +299,27 @@ export async function GET(request: NextRequest) {
     const category = searchParams.get("category") || "all"
     const sentiment = searchParams.get("sentiment") || "all"
 
-    // Rate limiting check
-    const clientIP = request.headers.get("x-forwarded-for") || "unknown"
-    if (!checkRateLimit(clientIP)) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Rate limit exceeded. Please try again later.",
-        },
-        { status: 429 },
-      )
+    const rateLimit = checkRateLimit(request, "news")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
     }
 
     // Check cache first
-    const cacheKey = `news-${category}-${sentiment}`
-    const cachedNews = getCachedNews(cacheKey)
+    const cacheKey = `${category}-${sentiment}`
+    const cachedNews = await cache.get(cacheKey)
     if (cachedNews) {
-      return NextResponse.json({
-        success: true,
-        data: cachedNews,
-        cached: true,
-        count: cachedNews.length,
-        timestamp: new Date().toISOString(),
-      })
+      const articles = cachedNews.map(asCached)
+      return NextResponse.json(
+        {
+          success: true,
+          data: articles,
+          provenance: weakestProvenance(articles.map((article) => article.provenance)),
+          cached: true,
+          count: cachedNews.length,
+          timestamp: new Date().toISOString(),
+        },
+        { headers: rateLimitHeaders(rateLimit) },
+      )
     }
 
     // Fetch from multiple sources
@@ -382,24 +358,28 @@ export async function GET(request: NextRequest) {
     filteredArticles = filteredArticles.slice(0, 20)
 
     // Cache the results
-    setCachedNews(cacheKey, filteredArticles)
+    await cache.set(cacheKey, filteredArticles)
 
     // Get metadata for filtering
     const categories = [...new Set(uniqueArticles.map((article) => article.category))].sort()
     const sentiments = [...new Set(uniqueArticles.map((article) => article.sentiment))].sort()
 
-    return NextResponse.json({
-      success: true,
-      data: filteredArticles,
-      metadata: {
-        totalArticles: filteredArticles.length,
-        categories,
-        sentiments,
-        sources: [...new Set(filteredArticles.map((article) => article.source))],
-        lastUpdated: new Date().toISOString(),
+    return NextResponse.json(
+      {
+        success: true,
+        data: filteredArticles,
+        provenance: weakestProvenance(filteredArticles.map((article) => article.provenance)),
+        metadata: {
+          totalArticles: filteredArticles.length,
+          categories,
+          sentiments,
+          sources: [...new Set(filteredArticles.map((article) => article.source))],
+          lastUpdated: new Date().toISOString(),
+        },
+        timestamp: new Date().toISOString(),
       },
-      timestamp: new Date().toISOString(),
-    })
+      { headers: rateLimitHeaders(rateLimit) },
+    )
   } catch (error) {
     console.error("Error fetching financial news:", error)
 
@@ -409,6 +389,7 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({
       success: true,
       data: fallbackNews,
+      provenance: weakestProvenance(fallbackNews.map((article) => article.provenance)),
       fallback: true,
       error: "News APIs temporarily unavailable",
       count: fallbackNews.length,
@@ -1,141 +1,18 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { createCache } from "@/lib/cache"
+import { asCached, createProviderChain, getQuote, isSimulated, type Quote } from "@/lib/market-data"
+import { checkRateLimit, rateLimitExceeded, rateLimitHeaders } from "@/lib/rate-limit"
 
-interface FinnhubQuote {
-  c: number // Current price
-  d: number // Change
-  dp: number // Percent change
-  h: number // High price of the day
-  l: number // Low price of the day
-  o: number // Open price of the day
-  pc: number // Previous close price
-  t: number // Timestamp
-}
-
-interface FinnhubProfile {
-  country: string
-  currency: string
-  exchange: string
-  ipo: string
-  marketCapitalization: number
-  name: string
-  phone: string
-  shareOutstanding: number
-  ticker: string
-  weburl: string
-  logo: string
-  finnhubIndustry: string
-}
-
-const FINNHUB_API_KEY = process.env.FINNHUB_API_KEY || "demo"
-const BASE_URL = "https://finnhub.io/api/v1"
-
-// Rate limiting
-const requestCounts = new Map<string, { count: number; resetTime: number }>()
-const RATE_LIMIT = 60 // requests per minute
-const RATE_WINDOW = 60 * 1000 // 1 minute in milliseconds
-
-function checkRateLimit(ip: string): boolean {
-  const now = Date.now()
-  const userRequests = requestCounts.get(ip)
-
-  if (!userRequests || now > userRequests.resetTime) {
-    requestCounts.set(ip, { count: 1, resetTime: now + RATE_WINDOW })
-    return true
-  }
-
-  if (userRequests.count >= RATE_LIMIT) {
-    return false
-  }
-
-  userRequests.count++
-  return true
-}
+// Finnhub first, simulation when the API is unavailable
+const FINNHUB_CHAIN = createProviderChain(["finnhub", "simulated"])
 
 // Cache for API responses
-const cache = new Map<string, { data: any; timestamp: number }>()
-const CACHE_DURATION = 30 * 1000 // 30 seconds
-
-function getCachedData(key: string) {
-  const cached = cache.get(key)
-  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-    return cached.data
-  }
-  return null
-}
-
-function setCachedData(key: string, data: any) {
-  cache.set(key, { data, timestamp: Date.now() })
-}
-
-async function fetchFinnhubQuote(symbol: string): Promise<FinnhubQuote | null> {
-  try {
-    const response = await fetch(`${BASE_URL}/quote?symbol=${symbol}&token=${FINNHUB_API_KEY}`, {
-      headers: {
-        Accept: "application/json",
-      },
-      next: { revalidate: 30 },
-    })
-
-    if (!response.ok) {
-      throw new Error(`Finnhub API error: ${response.status}`)
-    }
-
-    const data = await response.json()
-
-    // Check if we got valid data
-    if (data.c === 0 && data.d === 0 && data.dp === 0) {
-      return null
-    }
-
-    return data
-  } catch (error) {
-    console.error("Error fetching Finnhub quote:", error)
-    return null
-  }
-}
-
-async function fetchFinnhubProfile(symbol: string): Promise<FinnhubProfile | null> {
-  try {
-    const response = await fetch(`${BASE_URL}/stock/profile2?symbol=${symbol}&token=${FINNHUB_API_KEY}`, {
-      headers: {
-        Accept: "application/json",
-      },
-      next: { revalidate: 3600 }, // Cache profile for 1 hour
-    })
-
-    if (!response.ok) {
-      throw new Error(`Finnhub Profile API error: ${response.status}`)
-    }
-
-    const data = await response.json()
-    return data.name ? data : null
-  } catch (error) {
-    console.error("Error fetching Finnhub profile:", error)
-    return null
-  }
-}
-
-// Fallback data generator for when APIs fail
-function generateFallbackData(symbol: string) {
-  const basePrice = Math.random() * 2000 + 100
-  const change = (Math.random() - 0.5) * 50
-  const changePercent = (change / basePrice) * 100
-
-  return {
-    symbol: symbol.replace(".NS", ""),
-    price: Number(basePrice.toFixed(2)),
-    change: Number(change.toFixed(2)),
-    changePercent: Number(changePercent.toFixed(2)),
-    high: Number((basePrice * 1.05).toFixed(2)),
-    low: Number((basePrice * 0.95).toFixed(2)),
-    open: Number((basePrice * 0.99).toFixed(2)),
-    previousClose: Number((basePrice - change).toFixed(2)),
-    volume: Math.floor(Math.random() * 10000000) + 1000000,
-    marketCap: Math.floor(basePrice * 1000000000),
-    companyName: `${symbol.replace(".NS", "")} Limited`,
-    source: "Simulated Data - API Unavailable",
-  }
-}
+const cache = createCache<Quote>({
+  namespace: "finnhub-quote",
+  ttl: 30 * 1000, // 30 seconds
+  staleTtl: 30 * 1000,
+  shouldStore: (quote) => !isSimulated(quote.provenance), // Retry Finnhub next time rather than replay a simulation
+})
 
 export async function GET(request: NextRequest) {
   try {
@@ -152,93 +29,32 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Rate limiting check
-    const clientIP = request.headers.get("x-forwarded-for") || "unknown"
-    if (!checkRateLimit(clientIP)) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Rate limit exceeded. Please try again later.",
-        },
-        { status: 429 },
-      )
+    const rateLimit = checkRateLimit(request, "finnhub")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
     }
 
-    // Check cache first
-    const cacheKey = `quote-${symbol}`
-    const cachedData = getCachedData(cacheKey)
-    if (cachedData) {
-      return NextResponse.json({
-        success: true,
-        data: cachedData,
-        cached: true,
-        timestamp: new Date().toISOString(),
-      })
-    }
-
-    // Convert NSE symbol format for Finnhub
-    const finnhubSymbol = symbol.includes(".NS") ? symbol : `${symbol}.NS`
+    const { value: quote, status } = await cache.getOrLoad(symbol, () => getQuote(symbol, FINNHUB_CHAIN))
 
-    // Fetch quote and profile data
-    const [quoteData, profileData] = await Promise.all([
-      fetchFinnhubQuote(finnhubSymbol),
-      fetchFinnhubProfile(finnhubSymbol),
-    ])
-
-    if (quoteData && quoteData.c > 0) {
-      // We have valid API data
-      const responseData = {
-        symbol: symbol.replace(".NS", ""),
-        price: Number(quoteData.c.toFixed(2)),
-        change: Number(quoteData.d.toFixed(2)),
-        changePercent: Number(quoteData.dp.toFixed(2)),
-        high: Number(quoteData.h.toFixed(2)),
-        low: Number(quoteData.l.toFixed(2)),
-        open: Number(quoteData.o.toFixed(2)),
-        previousClose: Number(quoteData.pc.toFixed(2)),
-        volume: Math.floor(Math.random() * 10000000) + 1000000, // Finnhub doesn't provide volume for Indian stocks
-        marketCap: profileData?.marketCapitalization || 0,
-        companyName: profileData?.name || `${symbol.replace(".NS", "")} Limited`,
-        exchange: profileData?.exchange || "NSE",
-        industry: profileData?.finnhubIndustry || "Unknown",
-        source: "Finnhub API - Live Data",
-      }
-
-      // Cache the successful response
-      setCachedData(cacheKey, responseData)
-
-      return NextResponse.json({
+    return NextResponse.json(
+      {
         success: true,
-        data: responseData,
+        data: status === "miss" ? quote : asCached(quote),
+        cached: status !== "miss",
+        fallback: quote.source === "simulated",
         timestamp: new Date().toISOString(),
-      })
-    } else {
-      // API failed or returned invalid data, use fallback
-      const fallbackData = generateFallbackData(symbol)
-
-      // Cache fallback data for shorter duration
-      setCachedData(cacheKey, fallbackData)
-
-      return NextResponse.json({
-        success: true,
-        data: fallbackData,
-        fallback: true,
-        timestamp: new Date().toISOString(),
-      })
-    }
+      },
+      { headers: rateLimitHeaders(rateLimit) },
+    )
   } catch (error) {
     console.error("Error in Finnhub quote API:", error)
 
-    // Return fallback data on any error
-    const symbol = new URL(request.url).searchParams.get("symbol") || "UNKNOWN"
-    const fallbackData = generateFallbackData(symbol)
-
-    return NextResponse.json({
-      success: true,
-      data: fallbackData,
-      fallback: true,
-      error: "API temporarily unavailable",
-      timestamp: new Date().toISOString(),
-    })
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "API temporarily unavailable",
+      },
+      { status: 500 },
+    )
   }
 }
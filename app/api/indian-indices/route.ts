@@ -1,64 +1,19 @@
 import { type NextRequest, NextResponse } from "next/server"
-
-interface MarketIndex {
-  symbol: string
-  name: string
-  price: number
-  change: number
-  pChange: number
-  isPositive: boolean
-  lastUpdate: number
-  source: string
-}
+import { createCache } from "@/lib/cache"
+import { asCached, createProvenance, isSimulated, type MarketIndex } from "@/lib/market-data"
+import { checkRateLimit, rateLimitExceeded, rateLimitHeaders } from "@/lib/rate-limit"
 
 // Cache for API responses to avoid rate limiting
-const cacheMap = new Map<string, { data: any; timestamp: number }>()
-const CACHE_DURATION = 60000 // 1 minute cache for indices
-
-// Rate limiting storage
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
-
-// Rate limiting function
-function checkRateLimit(ip: string, maxRequests = 5, windowMs = 120000): boolean {
-  const now = Date.now()
-  const key = `indices-${ip}`
-
-  if (!rateLimitMap.has(key)) {
-    rateLimitMap.set(key, { count: 1, resetTime: now + windowMs })
-    return true
-  }
-
-  const limit = rateLimitMap.get(key)!
-
-  if (now > limit.resetTime) {
-    rateLimitMap.set(key, { count: 1, resetTime: now + windowMs })
-    return true
-  }
-
-  if (limit.count >= maxRequests) {
-    return false
-  }
-
-  limit.count++
-  return true
-}
-
-// Get cached data
-function getCachedData(key: string, maxAge = 60000): any | null {
-  const cached = cacheMap.get(key)
-  if (cached && Date.now() - cached.timestamp < maxAge) {
-    return cached.data
-  }
-  return null
-}
-
-// Set cached data
-function setCachedData(key: string, data: any): void {
-  cacheMap.set(key, { data, timestamp: Date.now() })
-}
+const cache = createCache<MarketIndex[]>({
+  namespace: "indian-indices",
+  ttl: 60000, // 1 minute cache for indices
+  staleTtl: 60000,
+  // Simulated levels are regenerated per request so real ones show as soon as Yahoo answers again
+  shouldStore: (indices) => !indices.some((index) => isSimulated(index.provenance)),
+})
 
 // Enhanced simulation with realistic Indian market data
-function generateSimulatedIndices() {
+function generateSimulatedIndices(): MarketIndex[] {
   const baseIndices = [
     { symbol: "NIFTY", name: "Nifty 50", basePrice: 24781.1, baseChange: 125.5 },
     { symbol: "BANKNIFTY", name: "Bank Nifty", basePrice: 51667.75, baseChange: -245.3 },
@@ -84,14 +39,15 @@ function generateSimulatedIndices() {
       isPositive: change >= 0,
       lastUpdate: Date.now(),
       source: "Enhanced Simulation",
+      provenance: createProvenance("simulated"),
     }
   })
 }
 
 // Fetch real data with enhanced error handling
-async function fetchRealIndicesData(): Promise<any[]> {
+async function fetchRealIndicesData(): Promise<MarketIndex[]> {
   const symbols = ["^NSEI", "^NSEBANK", "^CNXFIN", "^BSESN"]
-  const results = []
+  const results: MarketIndex[] = []
 
   for (let i = 0; i < symbols.length; i++) {
     try {
@@ -141,6 +97,7 @@ async function fetchRealIndicesData(): Promise<any[]> {
           const previous = meta.previousClose || meta.chartPreviousClose
           const change = current - previous
           const changePercent = (change / previous) * 100
+          const asOf = meta.regularMarketTime ? meta.regularMarketTime * 1000 : Date.now()
 
           results.push({
             symbol: symbols[i].replace("^", ""),
@@ -149,8 +106,9 @@ async function fetchRealIndicesData(): Promise<any[]> {
             change: Number.parseFloat(change.toFixed(2)),
             pChange: Number.parseFloat(changePercent.toFixed(2)),
             isPositive: change >= 0,
-            lastUpdate: Date.now(),
+            lastUpdate: asOf,
             source: "Yahoo Finance API",
+            provenance: createProvenance("delayed", asOf),
           })
         }
       }
@@ -175,58 +133,26 @@ function getIndexName(symbol: string): string {
 
 export async function GET(request: NextRequest) {
   try {
-    const ip = request.ip || request.headers.get("x-forwarded-for") || "unknown"
-
-    // Check rate limit
-    if (!checkRateLimit(ip)) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Rate limit exceeded. Please try again later.",
-          indices: generateSimulatedIndices(), // Provide fallback data
-        },
-        { status: 429 },
-      )
-    }
-
-    // Check cache first
-    const cacheKey = "indian-indices"
-    const cachedData = getCachedData(cacheKey, 60000) // 1 minute cache
-
-    if (cachedData) {
-      return NextResponse.json({
-        success: true,
-        indices: cachedData,
-        cached: true,
-        timestamp: Date.now(),
-      })
+    const rateLimit = checkRateLimit(request, "indices")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
     }
 
-    // Try to fetch real data
-    const realData = await fetchRealIndicesData()
-
-    if (realData.length > 0) {
-      // Cache the successful response
-      setCachedData(cacheKey, realData)
-
-      return NextResponse.json({
-        success: true,
-        indices: realData,
-        cached: false,
-        timestamp: Date.now(),
-      })
-    } else {
-      // Fallback to simulation if no real data
-      const simulatedData = generateSimulatedIndices()
-      setCachedData(cacheKey, simulatedData)
+    // Try real data, falling back to simulation when every index fails
+    const { value: indices, status } = await cache.getOrLoad("indices", async () => {
+      const realData = await fetchRealIndicesData()
+      return realData.length > 0 ? realData : generateSimulatedIndices()
+    })
 
-      return NextResponse.json({
+    return NextResponse.json(
+      {
         success: true,
-        indices: simulatedData,
-        cached: false,
+        indices: status === "miss" ? indices : indices.map(asCached),
+        cached: status !== "miss",
         timestamp: Date.now(),
-      })
-    }
+      },
+      { headers: rateLimitHeaders(rateLimit) },
+    )
   } catch (error) {
     console.error("Error in indian-indices API:", error)
 
@@ -0,0 +1,110 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  CHART_INTERVALS,
+  CHART_RANGES,
+  fetchRealChartData,
+  generateSimulatedChart,
+  isChartInterval,
+  isChartRange,
+  type ChartResponse,
+} from "@/lib/market-data/chart"
+import { loadCachedChart } from "@/lib/market-data/chart-cache"
+import { priceProviderCandles } from "@/lib/corporate-actions"
+import { parseStudies, runStudy } from "@/lib/indicators"
+import type { ChartData } from "@/lib/market-data/types"
+import { checkRateLimit, rateLimitExceeded, rateLimitHeaders } from "@/lib/rate-limit"
+
+const DEFAULT_STUDIES = "rsi:14,ema:20,macd:12,26,9"
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const symbol = searchParams.get("symbol")
+    const range = searchParams.get("range") || "6mo"
+    const interval = searchParams.get("interval") || "1d"
+    const adjusted = searchParams.get("adjusted") !== "false"
+
+    if (!symbol) {
+      return NextResponse.json({ success: false, error: "Symbol parameter is required" }, { status: 400 })
+    }
+
+    if (!isChartRange(range) || !isChartInterval(interval)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `range must be one of ${CHART_RANGES.join(", ")} and interval one of ${CHART_INTERVALS.join(", ")}`,
+        },
+        { status: 400 },
+      )
+    }
+
+    const rateLimit = checkRateLimit(request, "indicators")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    let studies
+    try {
+      studies = parseStudies(searchParams.get("studies") || DEFAULT_STUDIES)
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : "Invalid studies parameter" },
+        { status: 400 },
+      )
+    }
+
+    // Same bars as /api/yahoo-chart draws, so studies line up with the chart and don't jump at splits
+    let chart: ChartResponse
+    let candles: ChartData[]
+    let fallback = false
+    try {
+      chart = (await loadCachedChart(symbol, range, interval, () => fetchRealChartData(symbol, range, interval))).value
+      candles = await priceProviderCandles(symbol, chart.data, adjusted)
+    } catch (error) {
+      console.error(`Error fetching chart data for ${symbol}:`, error)
+      // Not cached: a simulated fallback would otherwise be served as a hit to /api/yahoo-chart too
+      chart = generateSimulatedChart(symbol, range, interval)
+      candles = chart.data
+      fallback = true
+    }
+
+    // Series are index-aligned with `candles`; warm-up bars are null
+    const results = studies.map((study) => {
+      const result = runStudy(candles, study)
+      return {
+        id: result.id,
+        label: result.label,
+        params: result.params,
+        placement: result.placement,
+        series: Object.fromEntries(result.lines.map((line) => [line.key, line.values])),
+      }
+    })
+
+    return NextResponse.json(
+      {
+        success: true,
+        symbol: chart.symbol,
+        range,
+        interval,
+        adjusted,
+        ...(fallback ? { fallback: true } : {}),
+        source: chart.source,
+        provenance: chart.provenance,
+        candles,
+        studies: results,
+        timestamp: Date.now(),
+      },
+      { headers: rateLimitHeaders(rateLimit) },
+    )
+  } catch (error) {
+    console.error("Error in indicators API:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,69 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isTimeframe, TIMEFRAMES } from "@/lib/candles"
+import { getSymbolLevels } from "@/lib/levels/history"
+import { checkRateLimit, rateLimitExceeded, rateLimitHeaders } from "@/lib/rate-limit"
+
+const MIN_BARS = 30
+const MAX_BARS = 2000
+
+// Optional whole-number parameter within [min, max]; null when present but invalid
+function parseBounded(value: string | null, min: number, max: number): number | undefined | null {
+  if (value === null) return undefined
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : null
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const symbol = searchParams.get("symbol")
+    const interval = searchParams.get("interval") || "1d"
+    const bars = parseBounded(searchParams.get("bars"), MIN_BARS, MAX_BARS)
+    const pivotStrength = parseBounded(searchParams.get("pivotStrength"), 1, 10)
+    const maxZones = parseBounded(searchParams.get("maxZones"), 1, 20)
+
+    if (!symbol) {
+      return NextResponse.json({ success: false, error: "Symbol parameter is required" }, { status: 400 })
+    }
+
+    if (!isTimeframe(interval)) {
+      return NextResponse.json(
+        { success: false, error: `Interval must be one of ${TIMEFRAMES.join(", ")}` },
+        { status: 400 },
+      )
+    }
+
+    if (bars === null || pivotStrength === null || maxZones === null) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `bars must be ${MIN_BARS}-${MAX_BARS}, pivotStrength 1-10 and maxZones 1-20`,
+        },
+        { status: 400 },
+      )
+    }
+
+    const rateLimit = checkRateLimit(request, "levels")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    // Zones strongest first, plus the nearest either side of the latest close
+    const levels = await getSymbolLevels(symbol, interval, { bars, pivotStrength, maxZones })
+
+    return NextResponse.json(
+      { success: true, ...levels, timestamp: Date.now() },
+      { headers: rateLimitHeaders(rateLimit) },
+    )
+  } catch (error) {
+    console.error("Error in levels API:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 },
+    )
+  }
+}
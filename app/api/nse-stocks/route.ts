@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server"
+import { createCache } from "@/lib/cache"
 
 interface NSEStock {
   symbol: string
@@ -797,25 +798,16 @@ const NSE_STOCKS: NSEStock[] = [
 ]
 
 // Cache for stock data
-const cache = new Map<string, { data: NSEStock[]; timestamp: number }>()
-const CACHE_DURATION = 24 * 60 * 60 * 1000 // 24 hours for stock list
-
-function getCachedStocks(): NSEStock[] | null {
-  const cached = cache.get("nse-stocks")
-  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
-    return cached.data
-  }
-  return null
-}
-
-function setCachedStocks(data: NSEStock[]) {
-  cache.set("nse-stocks", { data, timestamp: Date.now() })
-}
+const cache = createCache<NSEStock[]>({
+  namespace: "nse-stocks",
+  ttl: 24 * 60 * 60 * 1000, // 24 hours for stock list
+  maxEntries: 1,
+})
 
 export async function GET() {
   try {
     // Check cache first
-    const cachedStocks = getCachedStocks()
+    const cachedStocks = await cache.get("all")
     if (cachedStocks) {
       return NextResponse.json({
         success: true,
@@ -830,7 +822,7 @@ export async function GET() {
     const stocks = NSE_STOCKS.sort((a, b) => a.name.localeCompare(b.name))
 
     // Cache the data
-    setCachedStocks(stocks)
+    await cache.set("all", stocks)
 
     // Get unique sectors and market caps for filtering
     const sectors = [...new Set(stocks.map((stock) => stock.sector))].sort()
@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isTimeframe, TIMEFRAMES } from "@/lib/candles"
+import { getSymbolPatterns } from "@/lib/patterns/history"
+import { checkRateLimit, rateLimitExceeded, rateLimitHeaders } from "@/lib/rate-limit"
+
+const MIN_BARS = 30
+const MAX_BARS = 2000
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const symbol = searchParams.get("symbol")
+    const interval = searchParams.get("interval") || "1d"
+    const barsParam = searchParams.get("bars")
+    const confidenceParam = searchParams.get("minConfidence")
+    const bars = barsParam === null ? undefined : Number(barsParam)
+    const minConfidence = confidenceParam === null ? undefined : Number(confidenceParam)
+
+    if (!symbol) {
+      return NextResponse.json({ success: false, error: "Symbol parameter is required" }, { status: 400 })
+    }
+
+    if (!isTimeframe(interval)) {
+      return NextResponse.json(
+        { success: false, error: `Interval must be one of ${TIMEFRAMES.join(", ")}` },
+        { status: 400 },
+      )
+    }
+
+    if (bars !== undefined && !(Number.isInteger(bars) && bars >= MIN_BARS && bars <= MAX_BARS)) {
+      return NextResponse.json(
+        { success: false, error: `bars must be a whole number from ${MIN_BARS} to ${MAX_BARS}` },
+        { status: 400 },
+      )
+    }
+
+    if (minConfidence !== undefined && !(minConfidence >= 0 && minConfidence <= 1)) {
+      return NextResponse.json({ success: false, error: "minConfidence must be between 0 and 1" }, { status: 400 })
+    }
+
+    const rateLimit = checkRateLimit(request, "patterns")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    // Most recent first; each match carries its turning points so clients can draw it
+    const patterns = await getSymbolPatterns(symbol, interval, { bars, minConfidence })
+
+    return NextResponse.json(
+      { success: true, ...patterns, timestamp: Date.now() },
+      { headers: rateLimitHeaders(rateLimit) },
+    )
+  } catch (error) {
+    console.error("Error in patterns API:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 },
+    )
+  }
+}
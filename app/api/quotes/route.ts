@@ -0,0 +1,83 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getQuotes, type Quote } from "@/lib/market-data"
+import { getCachedQuote, setCachedQuote } from "@/lib/market-data/quote-cache"
+import { checkRateLimit, rateLimitExceeded, rateLimitHeaders } from "@/lib/rate-limit"
+
+const MAX_SYMBOLS = 50
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const symbols = Array.from(
+      new Set(
+        (searchParams.get("symbols") || "")
+          .split(",")
+          .map((symbol) => symbol.trim().toUpperCase())
+          .filter(Boolean),
+      ),
+    )
+
+    if (symbols.length === 0) {
+      return NextResponse.json({ success: false, error: "Symbols parameter is required" }, { status: 400 })
+    }
+
+    if (symbols.length > MAX_SYMBOLS) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_SYMBOLS} symbols per request` },
+        { status: 400 },
+      )
+    }
+
+    const rateLimit = checkRateLimit(request, "quotes")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    // Serve what the shared cache already has and fetch only the misses
+    const data: Record<string, Quote> = {}
+    const cached: string[] = []
+    const misses: string[] = []
+
+    const hits = await Promise.all(symbols.map((symbol) => getCachedQuote(symbol)))
+
+    symbols.forEach((symbol, index) => {
+      const quote = hits[index]
+      if (quote) {
+        data[symbol] = quote
+        cached.push(symbol)
+      } else {
+        misses.push(symbol)
+      }
+    })
+
+    const { quotes, errors } = misses.length > 0 ? await getQuotes(misses) : { quotes: {}, errors: {} }
+
+    await Promise.all(
+      Object.entries(quotes).map(([symbol, quote]) => {
+        data[symbol] = quote
+        return setCachedQuote(symbol, quote)
+      }),
+    )
+
+    return NextResponse.json(
+      {
+        success: Object.keys(data).length > 0,
+        data,
+        errors,
+        cached,
+        timestamp: Date.now(),
+      },
+      { headers: rateLimitHeaders(rateLimit) },
+    )
+  } catch (error) {
+    console.error("Error in quotes API:", error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Internal server error",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,139 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  MAX_STREAM_SYMBOLS,
+  addStreamClient,
+  hasStreamClient,
+  removeStreamClient,
+  subscribeSymbols,
+  unsubscribeSymbols,
+} from "@/lib/market-data/quote-stream"
+import { checkRateLimit, rateLimitExceeded, rateLimitHeaders } from "@/lib/rate-limit"
+
+// Streams must never be cached or statically rendered
+export const dynamic = "force-dynamic"
+
+function parseSymbols(value: string | null): string[] {
+  if (!value) return []
+  return Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((symbol) => symbol.trim().toUpperCase())
+        .filter(Boolean),
+    ),
+  )
+}
+
+// Server-Sent Events feed: `event: quote` per coalesced tick, `event: heartbeat` every 15s
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const symbols = parseSymbols(searchParams.get("symbols"))
+
+  if (symbols.length === 0) {
+    return NextResponse.json({ success: false, error: "Symbols parameter is required" }, { status: 400 })
+  }
+
+  if (symbols.length > MAX_STREAM_SYMBOLS) {
+    return NextResponse.json(
+      { success: false, error: `A stream can carry at most ${MAX_STREAM_SYMBOLS} symbols` },
+      { status: 400 },
+    )
+  }
+
+  const rateLimit = checkRateLimit(request, "stream")
+  if (!rateLimit.allowed) {
+    return rateLimitExceeded(rateLimit)
+  }
+
+  const connectionId = crypto.randomUUID()
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        removeStreamClient(connectionId)
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the runtime
+        }
+      }
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch (error) {
+          console.error("Error writing to quote stream:", error)
+          close()
+        }
+      }
+
+      // Tell EventSource to wait 3s before reconnecting, then hand the client its id for subscribe/unsubscribe
+      controller.enqueue(encoder.encode("retry: 3000\n\n"))
+      send("ready", { connectionId, symbols })
+
+      addStreamClient({ id: connectionId, symbols: new Set(symbols), send, close })
+      request.signal.addEventListener("abort", close)
+    },
+    cancel() {
+      removeStreamClient(connectionId)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
+
+// Change the symbol set of an open stream: { action: "subscribe" | "unsubscribe", connectionId, symbols }
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimit = checkRateLimit(request, "stream")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    const { action, connectionId, symbols } = await request.json()
+
+    if (!connectionId || !hasStreamClient(connectionId)) {
+      return NextResponse.json({ success: false, error: "Unknown or closed connection" }, { status: 404 })
+    }
+
+    if (!Array.isArray(symbols)) {
+      return NextResponse.json({ success: false, error: "Symbols must be an array" }, { status: 400 })
+    }
+
+    const normalized = parseSymbols(symbols.join(","))
+
+    switch (action) {
+      case "subscribe":
+        return NextResponse.json(
+          { success: true, symbols: subscribeSymbols(connectionId, normalized) },
+          { headers: rateLimitHeaders(rateLimit) },
+        )
+      case "unsubscribe":
+        return NextResponse.json(
+          { success: true, symbols: unsubscribeSymbols(connectionId, normalized) },
+          { headers: rateLimitHeaders(rateLimit) },
+        )
+      default:
+        return NextResponse.json({ success: false, error: "Invalid action" }, { status: 400 })
+    }
+  } catch (error) {
+    console.error("Quote stream API error:", error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Internal server error" },
+      { status: 400 },
+    )
+  }
+}
@@ -0,0 +1,164 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { refreshUserAlerts } from "@/lib/alerts"
+import {
+  applySections,
+  CLIENT_WORKSPACE_SECTIONS,
+  deleteWorkspace,
+  getWorkspace,
+  isWorkspaceUserId,
+  sanitizeClientSections,
+  updateWorkspace,
+} from "@/lib/workspace"
+import { checkRateLimit, rateLimitExceeded, rateLimitHeaders } from "@/lib/rate-limit"
+
+// Drawings and chat history are the bulk of a workspace; this leaves plenty of room for both
+const MAX_BODY_BYTES = 1024 * 1024
+
+type UserIdResult = { userId: string; error?: undefined } | { userId?: undefined; error: NextResponse }
+
+function readUserId(request: NextRequest): UserIdResult {
+  const userId = new URL(request.url).searchParams.get("userId")
+  if (!isWorkspaceUserId(userId)) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: "userId must be 8-64 letters, digits, dashes or underscores" },
+        { status: 400 },
+      ),
+    }
+  }
+  return { userId }
+}
+
+// PUT and PATCH bodies: `{ sections: { watchlists, layout, ... } }`; unknown sections are ignored, and so are alert
+// rules, which are only changed through /api/alerts
+async function readSections(request: NextRequest) {
+  const text = await request.text()
+  if (Buffer.byteLength(text) > MAX_BODY_BYTES) {
+    return {
+      error: NextResponse.json(
+        { success: false, error: `Workspace payloads are limited to ${MAX_BODY_BYTES} bytes` },
+        { status: 413 },
+      ),
+    }
+  }
+
+  let body: unknown
+  try {
+    body = JSON.parse(text)
+  } catch {
+    return { error: NextResponse.json({ success: false, error: "Body must be JSON" }, { status: 400 }) }
+  }
+
+  const raw = (body as { sections?: unknown } | null)?.sections
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return {
+      error: NextResponse.json(
+        {
+          success: false,
+          error: `sections must be an object with any of ${CLIENT_WORKSPACE_SECTIONS.join(", ")}`,
+        },
+        { status: 400 },
+      ),
+    }
+  }
+  return { sections: sanitizeClientSections(raw) }
+}
+
+function handleError(method: string, error: unknown) {
+  console.error(`Error in workspace API (${method}):`, error)
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: error instanceof Error ? error.message : "Internal server error",
+    },
+    { status: 500 },
+  )
+}
+
+// The user's saved workspace; one that was never saved comes back empty at revision 0
+export async function GET(request: NextRequest) {
+  try {
+    const { userId, error } = readUserId(request)
+    if (error) return error
+
+    const rateLimit = checkRateLimit(request, "workspace")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    const workspace = await getWorkspace(userId)
+    return NextResponse.json({ success: true, workspace }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleError("GET", error)
+  }
+}
+
+// Replaces the whole workspace; sections left out are reset to empty. Alert rules are kept as stored
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId, error } = readUserId(request)
+    if (error) return error
+
+    const rateLimit = checkRateLimit(request, "workspace")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    const result = await readSections(request)
+    if (result.error) return result.error
+
+    const workspace = await updateWorkspace(userId, (current) =>
+      applySections(current, {
+        watchlists: null,
+        layout: null,
+        drawings: {},
+        chatHistory: [],
+        panels: {},
+        ...result.sections,
+      }),
+    )
+    return NextResponse.json({ success: true, workspace }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleError("PUT", error)
+  }
+}
+
+// Replaces only the sections sent, so clients can save what changed without clobbering the rest
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId, error } = readUserId(request)
+    if (error) return error
+
+    const rateLimit = checkRateLimit(request, "workspace")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    const result = await readSections(request)
+    if (result.error) return result.error
+
+    const workspace = await updateWorkspace(userId, (current) => applySections(current, result.sections))
+    return NextResponse.json({ success: true, workspace }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleError("PATCH", error)
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { userId, error } = readUserId(request)
+    if (error) return error
+
+    const rateLimit = checkRateLimit(request, "workspace")
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit)
+    }
+
+    await deleteWorkspace(userId)
+    refreshUserAlerts(userId, [])
+    return NextResponse.json({ success: true }, { headers: rateLimitHeaders(rateLimit) })
+  } catch (error) {
+    return handleError("DELETE", error)
+  }
+}
@@ -16,42 +16,53 @@ import {
   RefreshCw,
   Building2,
   Newspaper,
+  LayoutGrid,
+  BellRing,
 } from "lucide-react"
 import { TradingViewChart } from "@/components/tradingview-chart"
+import { AlertsPanel } from "@/components/alerts-panel"
 import { AnalysisChart } from "@/components/analysis-chart"
+import { MultiChartLayout } from "@/components/multi-chart-layout"
 import { ChatPanel } from "@/components/chat-panel"
-import { AIImageCard } from "@/components/ai-image-card"
+import { PatternPanel } from "@/components/pattern-panel"
 import { ProbabilityCalculator } from "@/components/probability-calculator"
 import { EnhancedStockSelector } from "@/components/enhanced-stock-selector"
 import { EnhancedNewsPanel } from "@/components/enhanced-news-panel"
+import { InstrumentProvider, useInstrument } from "@/components/instrument-provider"
+import { MarketStatusBanner } from "@/components/market-status-banner"
+import { ProvenanceBadge } from "@/components/provenance-badge"
+import { WorkspaceSyncStatus } from "@/components/workspace-sync-status"
+import { useMarketStatus } from "@/hooks/use-market-status"
+import { usePanelState } from "@/hooks/use-panel-state"
+import { weakestProvenance } from "@/lib/market-data/provenance"
+import type { MarketIndex, ProvenanceKind } from "@/lib/market-data/types"
 
-interface MarketIndex {
-  symbol: string
-  name: string
-  price: number
-  change: number
-  pChange: number
-  isPositive: boolean
-  lastUpdate: number
-  source: string
+// Header feed indicator, worded after the weakest provenance of the index feed
+const FEED_STATUS: Record<ProvenanceKind, { label: string; dot: string }> = {
+  live: { label: "Live Data Stream Active", dot: "bg-green-500 animate-pulse" },
+  delayed: { label: "Delayed Data", dot: "bg-yellow-500" },
+  cached: { label: "Cached Data", dot: "bg-blue-500" },
+  simulated: { label: "Simulated Data", dot: "bg-red-500" },
 }
 
-interface StockData {
-  symbol: string
-  name: string
-  sector: string
-  marketCap: string
-  exchange: string
+// Panels read the selected stock and timeframe from the instrument context, which keeps them in the URL
+export default function TradingDashboardPage() {
+  return (
+    <InstrumentProvider>
+      <TradingDashboard />
+    </InstrumentProvider>
+  )
 }
 
-export default function TradingDashboard() {
-  const [showProbability, setShowProbability] = useState(false)
-  const [showStockSelector, setShowStockSelector] = useState(false)
-  const [selectedStock, setSelectedStock] = useState("RELIANCE.NS")
-  const [selectedStockData, setSelectedStockData] = useState<StockData | null>(null)
+function TradingDashboard() {
+  const [showProbability, setShowProbability] = usePanelState("probability")
+  const [showStockSelector, setShowStockSelector] = usePanelState("stock-selector")
+  const { symbol: selectedStock, info: selectedStockData, selectSymbol } = useInstrument()
   const [marketIndices, setMarketIndices] = useState<MarketIndex[]>([])
   const [indicesLoading, setIndicesLoading] = useState(false)
+  const [indicesError, setIndicesError] = useState<string | null>(null)
   const [lastUpdateTime, setLastUpdateTime] = useState<Date | null>(null)
+  const marketClosed = useMarketStatus().phase === "closed"
 
   // Use refs to prevent infinite loops
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
@@ -82,57 +93,16 @@ export default function TradingDashboard() {
       if (data.success && isComponentMountedRef.current && Array.isArray(data.indices)) {
         setMarketIndices(data.indices)
         setLastUpdateTime(new Date())
+        setIndicesError(null)
+      } else if (!data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`)
       }
     } catch (error) {
       console.error("Error fetching market indices:", error)
 
-      // Set fallback data on error
+      // Keep the last known levels (with their provenance) rather than inventing new ones
       if (isComponentMountedRef.current) {
-        const fallbackData = [
-          {
-            symbol: "NIFTY",
-            name: "Nifty 50",
-            price: 24781.1 + (Math.random() - 0.5) * 100,
-            change: 125.5 + (Math.random() - 0.5) * 50,
-            pChange: 0.51 + (Math.random() - 0.5) * 0.5,
-            isPositive: Math.random() > 0.5,
-            lastUpdate: Date.now(),
-            source: "Simulated Data",
-          },
-          {
-            symbol: "BANKNIFTY",
-            name: "Bank Nifty",
-            price: 51667.75 + (Math.random() - 0.5) * 200,
-            change: -245.3 + (Math.random() - 0.5) * 100,
-            pChange: -0.48 + (Math.random() - 0.5) * 0.3,
-            isPositive: Math.random() > 0.5,
-            lastUpdate: Date.now(),
-            source: "Simulated Data",
-          },
-          {
-            symbol: "FINNIFTY",
-            name: "Fin Nifty",
-            price: 23456.8 + (Math.random() - 0.5) * 150,
-            change: 89.75 + (Math.random() - 0.5) * 40,
-            pChange: 0.38 + (Math.random() - 0.5) * 0.2,
-            isPositive: Math.random() > 0.5,
-            lastUpdate: Date.now(),
-            source: "Simulated Data",
-          },
-          {
-            symbol: "SENSEX",
-            name: "Sensex",
-            price: 82365.77 + (Math.random() - 0.5) * 300,
-            change: 156.8 + (Math.random() - 0.5) * 80,
-            pChange: 0.19 + (Math.random() - 0.5) * 0.15,
-            isPositive: Math.random() > 0.5,
-            lastUpdate: Date.now(),
-            source: "Simulated Data",
-          },
-        ]
-
-        setMarketIndices(fallbackData)
-        setLastUpdateTime(new Date())
+        setIndicesError(error instanceof Error ? error.message : "Indices unavailable")
       }
     } finally {
       if (isComponentMountedRef.current) {
@@ -147,12 +117,14 @@ export default function TradingDashboard() {
     // Initial fetch
     fetchMarketIndices()
 
-    // Set up interval for updates
-    intervalRef.current = setInterval(() => {
-      if (isComponentMountedRef.current) {
-        fetchMarketIndices()
-      }
-    }, 3000) // Update every 3 seconds
+    // Set up interval for updates; closing levels don't move, so a closed market is fetched once
+    if (!marketClosed) {
+      intervalRef.current = setInterval(() => {
+        if (isComponentMountedRef.current) {
+          fetchMarketIndices()
+        }
+      }, 3000) // Update every 3 seconds
+    }
 
     // Cleanup function
     return () => {
@@ -162,7 +134,7 @@ export default function TradingDashboard() {
         intervalRef.current = null
       }
     }
-  }, [fetchMarketIndices])
+  }, [fetchMarketIndices, marketClosed])
 
   // Format price with animation effect
   const formatPrice = (price: number, isPositive: boolean) => {
@@ -177,13 +149,12 @@ export default function TradingDashboard() {
     fetchMarketIndices()
   }, [fetchMarketIndices])
 
-  const handleStockSelect = (symbol: string) => {
-    setSelectedStock(symbol)
-  }
-
-  const handleStockChange = (stock: StockData) => {
-    setSelectedStockData(stock)
-  }
+  const indicesProvenance = weakestProvenance(marketIndices.map((index) => index.provenance))
+  const feedStatus = indicesError
+    ? { label: "Data Stream Disconnected", dot: "bg-red-500" }
+    : marketIndices.length === 0
+      ? { label: "Connecting...", dot: "bg-yellow-500 animate-pulse" }
+      : FEED_STATUS[indicesProvenance?.kind ?? "simulated"]
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
@@ -204,12 +175,29 @@ export default function TradingDashboard() {
           <div className="flex items-center space-x-6">
             <div className="flex items-center space-x-2">
               <div
-                className={`h-2 w-2 rounded-full ${indicesLoading ? "bg-yellow-500 animate-pulse" : "bg-green-500"}`}
+                className={`h-2 w-2 rounded-full ${
+                  indicesLoading
+                    ? "bg-yellow-500 animate-pulse"
+                    : indicesError
+                      ? "bg-red-500"
+                      : marketClosed
+                        ? "bg-gray-500"
+                        : "bg-green-500"
+                }`}
+                title={indicesError || undefined}
               ></div>
-              <span className="text-sm font-medium text-white">{indicesLoading ? "UPDATING..." : "LIVE MARKET"}</span>
+              {indicesError ? (
+                <span className="text-sm font-medium text-white">INDICES UNAVAILABLE</span>
+              ) : (
+                <MarketStatusBanner compact className="text-white" />
+              )}
+              {marketIndices.length > 0 && (
+                <ProvenanceBadge provenance={indicesProvenance} />
+              )}
               <span className="text-xs text-white/50">
                 {lastUpdateTime && `${lastUpdateTime.toLocaleTimeString()}`}
               </span>
+              <WorkspaceSyncStatus />
             </div>
 
             {/* Market Indices in Single Line */}
@@ -217,7 +205,13 @@ export default function TradingDashboard() {
               {marketIndices.slice(0, 4).map((index, i) => (
                 <div key={`${index.symbol}-${i}`} className="flex items-center space-x-2">
                   <div className="text-right">
-                    <div className="text-xs text-white/70 font-medium">{index.name}</div>
+                    <div
+                      className="text-xs text-white/70 font-medium"
+                      title={`${index.source} · ${index.provenance?.kind ?? "simulated"}`}
+                    >
+                      {index.name}
+                      {index.provenance?.kind === "simulated" && <span className="ml-1 text-red-400">SIM</span>}
+                    </div>
                     <div className="flex items-center space-x-1">
                       <span className="text-sm font-bold text-white transition-all duration-300">
                         {formatPrice(index.price, index.isPositive)}
@@ -261,8 +255,8 @@ export default function TradingDashboard() {
           <div className="flex items-center justify-between text-xs text-white/50">
             <span>Real-time updates • NSE/BSE Stocks • Live Financial News • AI-powered Analytics</span>
             <span className="flex items-center space-x-1">
-              <div className="h-1 w-1 rounded-full bg-green-500 animate-pulse"></div>
-              <span>Live Data Stream Active</span>
+              <div className={`h-1 w-1 rounded-full ${feedStatus.dot}`}></div>
+              <span>{feedStatus.label}</span>
             </span>
           </div>
         </div>
@@ -302,8 +296,8 @@ export default function TradingDashboard() {
               <CardContent>
                 <EnhancedStockSelector
                   selectedStock={selectedStock}
-                  onStockSelect={handleStockSelect}
-                  onStockChange={handleStockChange}
+                  onStockSelect={selectSymbol}
+                  onStockChange={(stock) => selectSymbol(stock.symbol, stock)}
                 />
               </CardContent>
             )}
@@ -350,15 +344,30 @@ export default function TradingDashboard() {
                   <p className="text-sm text-white/70">Real-time data with advanced indicators</p>
                 </div>
               </div>
-              <Badge variant="secondary" className="bg-green-500/20 text-green-400 border-green-500/30">
-                LIVE API
-              </Badge>
             </CardHeader>
             <CardContent>
               <TradingViewChart />
             </CardContent>
           </Card>
 
+          {/* Multi-Chart Layout */}
+          <Card className="border-cyan-500/20 bg-gradient-to-r from-cyan-900/40 to-cyan-800/40 backdrop-blur-sm">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+              <div className="flex items-center space-x-3">
+                <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-cyan-500/20">
+                  <LayoutGrid className="h-5 w-5 text-cyan-400" />
+                </div>
+                <div>
+                  <CardTitle className="text-white">Multi-Chart Layout</CardTitle>
+                  <p className="text-sm text-white/70">Side-by-side charts with linked symbol, timeframe and crosshair</p>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <MultiChartLayout />
+            </CardContent>
+          </Card>
+
           {/* Technical Analysis Studio */}
           <Card className="border-green-500/20 bg-gradient-to-r from-green-900/40 to-green-800/40 backdrop-blur-sm">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
@@ -404,6 +413,22 @@ export default function TradingDashboard() {
             </CardContent>
           </Card>
 
+          {/* Price Alerts */}
+          <Card className="border-amber-500/20 bg-gradient-to-r from-amber-900/40 to-amber-800/40 backdrop-blur-sm">
+            <CardHeader className="flex flex-row items-center space-x-3 pb-4">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-amber-500/20">
+                <BellRing className="h-5 w-5 text-amber-400" />
+              </div>
+              <div>
+                <CardTitle className="text-white">Price Alerts</CardTitle>
+                <p className="text-sm text-white/70">Price, indicator, volume and line alerts</p>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <AlertsPanel />
+            </CardContent>
+          </Card>
+
           {/* AI Trading Assistant */}
           <Card className="border-purple-500/20 bg-gradient-to-r from-purple-900/40 to-purple-800/40 backdrop-blur-sm">
             <CardHeader className="flex flex-row items-center space-x-3 pb-4">
@@ -420,19 +445,19 @@ export default function TradingDashboard() {
             </CardContent>
           </Card>
 
-          {/* AI Visualization */}
+          {/* Pattern Scanner */}
           <Card className="border-pink-500/20 bg-gradient-to-r from-pink-900/40 to-pink-800/40 backdrop-blur-sm">
             <CardHeader className="flex flex-row items-center space-x-3 pb-4">
               <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-pink-500/20">
                 <Sparkles className="h-5 w-5 text-pink-400" />
               </div>
               <div>
-                <CardTitle className="text-white">AI Visualization</CardTitle>
-                <p className="text-sm text-white/70">Generated market insights</p>
+                <CardTitle className="text-white">Pattern Scanner</CardTitle>
+                <p className="text-sm text-white/70">Candlestick and chart patterns with confidence</p>
               </div>
             </CardHeader>
             <CardContent>
-              <AIImageCard />
+              <PatternPanel />
             </CardContent>
           </Card>
         </div>
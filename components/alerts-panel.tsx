@@ -0,0 +1,441 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import { useInstrument } from "@/components/instrument-provider"
+import { useAlerts } from "@/hooks/use-alerts"
+import { useChartDrawings } from "@/hooks/use-chart-drawings"
+import { ALERT_CONDITION_TYPES, ALERT_CONDITIONS, ALERT_LINE_TOOLS, describeAlertRule } from "@/lib/alerts/conditions"
+import { alertRuleStatus } from "@/lib/alerts/evaluate"
+import type { AlertCondition, AlertConditionType, AlertRuleStatus } from "@/lib/alerts/types"
+import type { Timeframe } from "@/lib/candles/types"
+import { DRAWING_TOOLS } from "@/lib/drawings/tools"
+import { toBaseSymbol } from "@/lib/market-data/symbols"
+import { Bell, BellOff, Plus, Trash2 } from "lucide-react"
+
+const INDICATOR_TIMEFRAMES: { value: Timeframe; label: string }[] = [
+  { value: "5m", label: "5 Min" },
+  { value: "15m", label: "15 Min" },
+  { value: "1h", label: "1 Hour" },
+  { value: "1d", label: "Daily" },
+]
+
+const EXPIRY_OPTIONS: { value: string; label: string; hours: number | null }[] = [
+  { value: "never", label: "Never expires", hours: null },
+  { value: "1d", label: "1 day", hours: 24 },
+  { value: "1w", label: "1 week", hours: 24 * 7 },
+  { value: "30d", label: "30 days", hours: 24 * 30 },
+]
+
+const STATUS_STYLES: Record<AlertRuleStatus, string> = {
+  active: "bg-green-500/20 text-green-400 border-green-500/30",
+  "cooling-down": "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  paused: "bg-slate-500/20 text-slate-300 border-slate-500/30",
+  expired: "bg-red-500/20 text-red-400 border-red-500/30",
+}
+
+const selectClass = "h-8 bg-white/10 border-white/20 text-white text-xs"
+const inputClass = "h-8 bg-white/10 border-white/20 text-white text-xs placeholder:text-white/40"
+
+// Form fields are kept as typed; the rule is validated as a whole when it's created
+interface AlertForm {
+  type: AlertConditionType
+  direction: string
+  price: string
+  percent: string
+  level: string
+  period: string
+  fast: string
+  slow: string
+  multiple: string
+  lookback: string
+  indicatorTimeframe: Timeframe
+  drawingId: string
+  cooldown: string
+  expiry: string
+  repeat: boolean
+  note: string
+}
+
+type NumberField = "price" | "percent" | "level" | "period" | "fast" | "slow" | "multiple" | "lookback" | "cooldown"
+
+const DEFAULT_FORM: AlertForm = {
+  type: "price-cross",
+  direction: "above",
+  price: "",
+  percent: "3",
+  level: "30",
+  period: "14",
+  fast: "9",
+  slow: "21",
+  multiple: "2",
+  lookback: "20",
+  indicatorTimeframe: "15m",
+  drawingId: "",
+  cooldown: "15",
+  expiry: "never",
+  repeat: false,
+  note: "",
+}
+
+// Alerts on the dashboard instrument plus the log of everything that fired. Rules are checked on the server, so
+// they keep working with this tab closed; firings while it's open also pop up as toasts
+export function AlertsPanel() {
+  const { symbol, timeframe } = useInstrument()
+  const { rules, events, isLoading, isConnected, createRule, updateRule, deleteRule, clearEvents } = useAlerts()
+  const { drawings } = useChartDrawings(symbol, timeframe)
+  const [form, setForm] = useState<AlertForm>(DEFAULT_FORM)
+  const [showForm, setShowForm] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  // Cooldowns and expiries run out without anything else changing
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const lines = drawings.filter((drawing) => ALERT_LINE_TOOLS.includes(drawing.tool))
+  const change = (changes: Partial<AlertForm>) => setForm((current) => ({ ...current, ...changes }))
+
+  const changeType = (type: AlertConditionType) =>
+    change({
+      type,
+      direction: type === "percent-move" ? "either" : type === "rsi" ? "below" : "above",
+      drawingId: type === "line-break" ? (lines[0]?.id ?? "") : form.drawingId,
+    })
+
+  const buildCondition = (): AlertCondition | null => {
+    const direction = form.direction as "above" | "below"
+    switch (form.type) {
+      case "price-cross":
+        return { type: "price-cross", direction, price: Number(form.price) }
+      case "percent-move":
+        return {
+          type: "percent-move",
+          direction: form.direction as "up" | "down" | "either",
+          percent: Number(form.percent),
+        }
+      case "rsi":
+        return {
+          type: "rsi",
+          direction,
+          level: Number(form.level),
+          period: Number(form.period),
+          timeframe: form.indicatorTimeframe,
+        }
+      case "ema-cross":
+        return {
+          type: "ema-cross",
+          direction,
+          fast: Number(form.fast),
+          slow: Number(form.slow),
+          timeframe: form.indicatorTimeframe,
+        }
+      case "volume-spike":
+        return { type: "volume-spike", multiple: Number(form.multiple), lookback: Number(form.lookback) }
+      case "line-break": {
+        // The line is copied into the rule, drawn on the chart's current timeframe
+        const drawing = lines.find((line) => line.id === form.drawingId)
+        if (!drawing) return null
+        return {
+          type: "line-break",
+          direction,
+          drawingId: drawing.id,
+          tool: drawing.tool,
+          points: drawing.points,
+          timeframe,
+        }
+      }
+    }
+  }
+
+  const submit = async () => {
+    const condition = buildCondition()
+    if (!condition) return
+    const hours = EXPIRY_OPTIONS.find((option) => option.value === form.expiry)?.hours ?? null
+
+    setSaving(true)
+    const created = await createRule({
+      symbol,
+      condition,
+      repeat: form.repeat,
+      cooldownMinutes: Number(form.cooldown),
+      expiresAt: hours === null ? null : Date.now() + hours * 3600000,
+      note: form.note,
+    })
+    setSaving(false)
+    if (created) {
+      setShowForm(false)
+      change({ price: "", note: "" })
+    }
+  }
+
+  const formatWhen = (time: number) =>
+    new Date(time).toLocaleString("en-IN", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })
+
+  const directionOptions =
+    form.type === "percent-move"
+      ? [
+          { value: "either", label: "Either way" },
+          { value: "up", label: "Up" },
+          { value: "down", label: "Down" },
+        ]
+      : form.type === "ema-cross"
+        ? [
+            { value: "above", label: "Fast crosses above" },
+            { value: "below", label: "Fast crosses below" },
+          ]
+        : [
+            { value: "above", label: "Above" },
+            { value: "below", label: "Below" },
+          ]
+
+  const numberInput = (field: NumberField, placeholder: string, step = "1") => (
+    <Input
+      type="number"
+      step={step}
+      value={form[field]}
+      placeholder={placeholder}
+      onChange={(event) => change({ [field]: event.target.value })}
+      className={inputClass}
+    />
+  )
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <Badge variant="secondary" className="bg-amber-500/20 text-amber-400 border-amber-500/30">
+            {toBaseSymbol(symbol)}
+          </Badge>
+          <span className={`h-2 w-2 rounded-full ${isConnected ? "bg-green-500" : "bg-slate-500"}`} />
+          <span className="text-xs text-white/60">{isConnected ? "Live" : "Connecting"}</span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-white/70 hover:text-white"
+          onClick={() => setShowForm((open) => !open)}
+          title="New alert"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {/* New alert */}
+      {showForm && (
+        <div className="space-y-2 rounded-lg border border-white/10 bg-white/5 p-3">
+          <Select value={form.type} onValueChange={(value) => changeType(value as AlertConditionType)}>
+            <SelectTrigger className={selectClass}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {ALERT_CONDITION_TYPES.map((type) => (
+                <SelectItem key={type} value={type} className="text-white hover:bg-slate-700">
+                  {ALERT_CONDITIONS[type].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="grid grid-cols-2 gap-2">
+            {form.type !== "volume-spike" && (
+              <Select value={form.direction} onValueChange={(direction) => change({ direction })}>
+                <SelectTrigger className={selectClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {directionOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value} className="text-white hover:bg-slate-700">
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {form.type === "price-cross" && numberInput("price", "Price ₹", "0.05")}
+            {form.type === "percent-move" && numberInput("percent", "Move %", "0.1")}
+            {form.type === "rsi" && numberInput("level", "RSI level")}
+            {form.type === "rsi" && numberInput("period", "Period")}
+            {form.type === "ema-cross" && numberInput("fast", "Fast EMA")}
+            {form.type === "ema-cross" && numberInput("slow", "Slow EMA")}
+            {form.type === "volume-spike" && numberInput("multiple", "× average", "0.1")}
+            {form.type === "volume-spike" && numberInput("lookback", "Days")}
+            {(form.type === "rsi" || form.type === "ema-cross") && (
+              <Select
+                value={form.indicatorTimeframe}
+                onValueChange={(value) => change({ indicatorTimeframe: value as Timeframe })}
+              >
+                <SelectTrigger className={selectClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {INDICATOR_TIMEFRAMES.map((tf) => (
+                    <SelectItem key={tf.value} value={tf.value} className="text-white hover:bg-slate-700">
+                      {tf.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          {form.type === "line-break" &&
+            (lines.length === 0 ? (
+              <p className="text-xs text-white/60">
+                Draw a trend, support, resistance or horizontal line on the {timeframe} chart first
+              </p>
+            ) : (
+              <Select value={form.drawingId} onValueChange={(drawingId) => change({ drawingId })}>
+                <SelectTrigger className={selectClass}>
+                  <SelectValue placeholder="Pick a line" />
+                </SelectTrigger>
+                <SelectContent className="bg-slate-800 border-slate-700">
+                  {lines.map((line) => (
+                    <SelectItem key={line.id} value={line.id} className="text-white hover:bg-slate-700">
+                      {DRAWING_TOOLS[line.tool].label} from ₹{line.points[0].price.toFixed(2)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ))}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="flex items-center space-x-1">
+              {numberInput("cooldown", "Cooldown")}
+              <span className="text-xs text-white/60">min</span>
+            </div>
+            <Select value={form.expiry} onValueChange={(expiry) => change({ expiry })}>
+              <SelectTrigger className={selectClass}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700">
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value} className="text-white hover:bg-slate-700">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Input
+            value={form.note}
+            placeholder="Note (optional)"
+            onChange={(event) => change({ note: event.target.value })}
+            className={inputClass}
+          />
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-xs text-white/70">
+              <Switch checked={form.repeat} onCheckedChange={(repeat) => change({ repeat })} />
+              <span>Repeat after cooldown</span>
+            </label>
+            <Button
+              size="sm"
+              className="h-8 bg-amber-500/80 text-xs hover:bg-amber-500"
+              onClick={submit}
+              disabled={saving || (form.type === "line-break" && !form.drawingId)}
+            >
+              Create
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Rules */}
+      {isLoading && rules.length === 0 ? (
+        <div className="py-6 text-center text-sm text-white/60">Loading alerts...</div>
+      ) : rules.length === 0 ? (
+        <div className="py-6 text-center text-sm text-white/60">No alerts yet. Add one with +</div>
+      ) : (
+        <ScrollArea className="h-56 pr-3">
+          <div className="space-y-2">
+            {rules.map((rule) => {
+              const status = alertRuleStatus(rule, rule, now)
+              return (
+                <div key={rule.id} className="rounded-lg border border-white/10 bg-white/5 p-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-xs font-medium text-white">{describeAlertRule(rule)}</p>
+                      {rule.note && <p className="truncate text-xs text-white/60">{rule.note}</p>}
+                    </div>
+                    <Switch
+                      checked={rule.enabled}
+                      onCheckedChange={(enabled) => updateRule(rule.id, { enabled })}
+                      disabled={status === "expired"}
+                    />
+                  </div>
+                  <div className="mt-1 flex items-center justify-between text-xs text-white/60">
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="secondary" className={STATUS_STYLES[status]}>
+                        {status}
+                      </Badge>
+                      <span>
+                        {rule.repeat ? `repeats, ${rule.cooldownMinutes}m cooldown` : "once"}
+                        {rule.triggerCount > 0 && ` • fired ${rule.triggerCount}×`}
+                      </span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 text-white/50 hover:text-red-400"
+                      onClick={() => deleteRule(rule.id)}
+                      title="Delete alert"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </ScrollArea>
+      )}
+
+      {/* Event log */}
+      <div className="space-y-2 border-t border-white/10 pt-3">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-white/80">Triggered</span>
+          {events.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs text-white/60 hover:text-white"
+              onClick={clearEvents}
+            >
+              Clear
+            </Button>
+          )}
+        </div>
+        {events.length === 0 ? (
+          <div className="flex items-center space-x-2 text-xs text-white/50">
+            <BellOff className="h-3 w-3" />
+            <span>Nothing has fired yet</span>
+          </div>
+        ) : (
+          <ScrollArea className="h-40 pr-3">
+            <div className="space-y-2">
+              {events.map((event) => (
+                <div key={event.id} className="flex items-start space-x-2 text-xs">
+                  <Bell className="mt-0.5 h-3 w-3 shrink-0 text-amber-400" />
+                  <div className="min-w-0">
+                    <p className="text-white/90">{event.message}</p>
+                    <p className="text-white/50">{formatWhen(event.triggeredAt)}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,280 +1,316 @@
 "use client"
 
-import type React from "react"
-
-import { useState, useRef, useEffect } from "react"
+import { useState, useEffect, useMemo, useRef } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Trash2, Move, TrendingUp, TrendingDown } from "lucide-react"
-
-interface Point {
-  x: number
-  y: number
-}
-
-interface Line {
-  id: string
-  start: Point
-  end: Point
-  type: "support" | "resistance" | "trend"
-  color: string
-}
-
-interface ChartData {
-  timestamp: number
-  price: number
-  volume: number
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CandleChart } from "@/components/candle-chart"
+import { ProvenanceBadge, SimulatedSignalsNotice } from "@/components/provenance-badge"
+import { useInstrument } from "@/components/instrument-provider"
+import { useChartDrawings } from "@/hooks/use-chart-drawings"
+import { useCandles } from "@/hooks/use-candles"
+import { useSimulatedSignalsOptIn } from "@/hooks/use-simulated-signals"
+import type { ChartPointer } from "@/lib/chart-engine"
+import { DRAWING_TOOLS, drawingsLayer, type AnchorPoint, type Drawing, type DrawingTool } from "@/lib/drawings"
+import { detectZones, levelsLayer } from "@/lib/levels"
+import { isSimulated } from "@/lib/market-data/provenance"
+import { detectPatterns, patternsLayer } from "@/lib/patterns"
+import type { Timeframe } from "@/lib/candles/types"
+import {
+  AlignVerticalSpaceAround,
+  Equal,
+  Hand,
+  Layers,
+  MoveRight,
+  Move,
+  Percent,
+  ScanSearch,
+  RefreshCw,
+  Ruler,
+  Square,
+  Trash2,
+  TrendingDown,
+  TrendingUp,
+  Type,
+  Undo2,
+  type LucideIcon,
+} from "lucide-react"
+
+type Tool = DrawingTool | "pan"
+
+const TOOL_ICONS: Record<Tool, LucideIcon> = {
+  support: TrendingUp,
+  resistance: TrendingDown,
+  trend: Move,
+  "horizontal-ray": MoveRight,
+  "fib-retracement": Percent,
+  "fib-extension": AlignVerticalSpaceAround,
+  channel: Equal,
+  rectangle: Square,
+  text: Type,
+  measure: Ruler,
+  pan: Hand,
 }
 
+const TOOLS = Object.keys(TOOL_ICONS) as Tool[]
+
+// A press and release closer than this is a click, which doesn't place a two-point drawing
+const MIN_DRAG_PX = 3
+
+// The timeframe is shared with the live chart, so this offers the same choices
+const TIMEFRAMES: { value: Timeframe; label: string }[] = [
+  { value: "1m", label: "1 Min" },
+  { value: "3m", label: "3 Min" },
+  { value: "5m", label: "5 Min" },
+  { value: "15m", label: "15 Min" },
+  { value: "30m", label: "30 Min" },
+  { value: "1h", label: "1 Hour" },
+  { value: "2h", label: "2 Hours" },
+  { value: "1d", label: "Daily" },
+  { value: "1w", label: "Weekly" },
+  { value: "1mo", label: "Monthly" },
+]
+const CHART_BARS = 300
+
+// Charts the dashboard's instrument; drawings are saved under its symbol and timeframe
 export function AnalysisChart() {
-  const canvasRef = useRef<HTMLCanvasElement>(null)
-  const [lines, setLines] = useState<Line[]>([])
-  const [isDrawing, setIsDrawing] = useState(false)
-  const [currentLine, setCurrentLine] = useState<Line | null>(null)
-  const [selectedTool, setSelectedTool] = useState<"support" | "resistance" | "trend">("support")
-  const [chartData, setChartData] = useState<ChartData[]>([])
-
-  // Generate sample chart data
+  const { symbol, timeframe, setTimeframe } = useInstrument()
+  const { drawings, add, undo, clear } = useChartDrawings(symbol, timeframe)
+  const [draft, setDraft] = useState<Drawing | null>(null)
+  const [selectedTool, setSelectedTool] = useState<Tool>("support")
+  const [noteText, setNoteText] = useState("")
+  const [showLevels, setShowLevels] = useState(true)
+  const [showPatterns, setShowPatterns] = useState(false)
+  // Refreshes replace the bars without moving the view or the drawings, which are anchored to time and price
+  // rather than to bar positions
+  const { data: chartData, provenance, loading, error } = useCandles(symbol, timeframe, CHART_BARS)
+  // Pointer handlers run between renders, so the draft and which anchor follows the pointer live here too
+  const draftRef = useRef<{ drawing: Drawing; anchor: number; downX: number; downY: number } | null>(null)
+
+  // A half-placed drawing belongs to the chart it was started on
   useEffect(() => {
-    const generateData = () => {
-      const data: ChartData[] = []
-      let price = 2400
-      const now = Date.now()
-
-      for (let i = 0; i < 100; i++) {
-        price += (Math.random() - 0.5) * 20
-        data.push({
-          timestamp: now - (100 - i) * 60000, // 1 minute intervals
-          price: Math.max(2200, Math.min(2600, price)),
-          volume: Math.random() * 1000000,
-        })
-      }
-      return data
-    }
-
-    setChartData(generateData())
-  }, [])
-
-  // Draw chart
-  useEffect(() => {
-    const canvas = canvasRef.current
-    if (!canvas || chartData.length === 0) return
-
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
-
-    const rect = canvas.getBoundingClientRect()
-    canvas.width = rect.width * window.devicePixelRatio
-    canvas.height = rect.height * window.devicePixelRatio
-    ctx.scale(window.devicePixelRatio, window.devicePixelRatio)
-
-    const width = rect.width
-    const height = rect.height
-    const padding = 40
-
-    // Clear canvas
-    ctx.fillStyle = "#1e293b"
-    ctx.fillRect(0, 0, width, height)
+    draftRef.current = null
+    setDraft(null)
+  }, [symbol, timeframe, selectedTool])
+
+  // Zones and patterns are bullish/bearish calls, so simulated bars get them only on the shared opt-in
+  const [allowSimulatedSignals, setAllowSimulatedSignals] = useSimulatedSignalsOptIn()
+  const signalsBlocked = isSimulated(provenance) && !allowSimulatedSignals
+  const levelZones = useMemo(
+    () => (showLevels && !signalsBlocked ? detectZones(chartData) : []),
+    [showLevels, signalsBlocked, chartData],
+  )
+  const patterns = useMemo(
+    () => (showPatterns && !signalsBlocked ? detectPatterns(chartData) : []),
+    [showPatterns, signalsBlocked, chartData],
+  )
+  const layers = useMemo(
+    () => [levelsLayer(levelZones), patternsLayer(patterns), drawingsLayer(drawings, draft)],
+    [levelZones, patterns, drawings, draft],
+  )
 
-    // Calculate price range
-    const prices = chartData.map((d) => d.price)
-    const minPrice = Math.min(...prices)
-    const maxPrice = Math.max(...prices)
-    const priceRange = maxPrice - minPrice
+  const toPoint = (pointer: ChartPointer): AnchorPoint => ({ time: pointer.time, price: pointer.price })
 
-    // Draw grid
-    ctx.strokeStyle = "#334155"
-    ctx.lineWidth = 1
-    for (let i = 0; i <= 10; i++) {
-      const y = padding + (i * (height - 2 * padding)) / 10
-      ctx.beginPath()
-      ctx.moveTo(padding, y)
-      ctx.lineTo(width - padding, y)
-      ctx.stroke()
-    }
+  const moveAnchor = (drawing: Drawing, anchor: number, point: AnchorPoint): Drawing => ({
+    ...drawing,
+    // Later anchors trail the one being placed until they get their own turn
+    points: drawing.points.map((current, index) => (index >= anchor ? point : current)),
+  })
 
-    for (let i = 0; i <= 10; i++) {
-      const x = padding + (i * (width - 2 * padding)) / 10
-      ctx.beginPath()
-      ctx.moveTo(x, padding)
-      ctx.lineTo(x, height - padding)
-      ctx.stroke()
-    }
+  const finish = (drawing: Drawing) => {
+    draftRef.current = null
+    setDraft(null)
+    add(drawing)
+  }
 
-    // Draw price line
-    ctx.strokeStyle = "#8b5cf6"
-    ctx.lineWidth = 2
-    ctx.beginPath()
+  // Drawing tools take left-drags from the chart: one-point tools drop on press, two-point tools span the drag,
+  // and three-point tools take one more click after the drag. The pan tool leaves drags to the chart
+  const pointerHandlers = {
+    onDown: (pointer: ChartPointer) => {
+      if (selectedTool === "pan") return false
+      const point = toPoint(pointer)
+
+      const pending = draftRef.current
+      if (pending) {
+        finish(moveAnchor(pending.drawing, pending.anchor, point))
+        return true
+      }
 
-    chartData.forEach((point, index) => {
-      const x = padding + (index * (width - 2 * padding)) / (chartData.length - 1)
-      const y = height - padding - ((point.price - minPrice) / priceRange) * (height - 2 * padding)
+      const { points, color } = DRAWING_TOOLS[selectedTool]
+      const drawing: Drawing = {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        tool: selectedTool,
+        points: Array.from({ length: points }, () => point),
+        color,
+        createdAt: Date.now(),
+        ...(selectedTool === "text" ? { text: noteText.trim() || "Note" } : {}),
+      }
 
-      if (index === 0) {
-        ctx.moveTo(x, y)
+      if (points === 1) {
+        add(drawing)
       } else {
-        ctx.lineTo(x, y)
+        draftRef.current = { drawing, anchor: 1, downX: pointer.x, downY: pointer.y }
+        setDraft(drawing)
+      }
+      return true
+    },
+    onMove: (pointer: ChartPointer) => {
+      const pending = draftRef.current
+      if (!pending) return
+      pending.drawing = moveAnchor(pending.drawing, pending.anchor, toPoint(pointer))
+      setDraft(pending.drawing)
+    },
+    onUp: (pointer: ChartPointer) => {
+      const pending = draftRef.current
+      if (!pending || pending.anchor !== 1) return
+
+      if (Math.hypot(pointer.x - pending.downX, pointer.y - pending.downY) < MIN_DRAG_PX) {
+        draftRef.current = null
+        setDraft(null)
+        return
       }
-    })
-    ctx.stroke()
-
-    // Draw support/resistance lines
-    lines.forEach((line) => {
-      ctx.strokeStyle = line.color
-      ctx.lineWidth = 2
-      ctx.setLineDash(line.type === "trend" ? [] : [5, 5])
-      ctx.beginPath()
-      ctx.moveTo(line.start.x, line.start.y)
-      ctx.lineTo(line.end.x, line.end.y)
-      ctx.stroke()
-      ctx.setLineDash([])
-
-      // Draw line labels
-      ctx.fillStyle = line.color
-      ctx.font = "12px sans-serif"
-      const label = line.type.charAt(0).toUpperCase() + line.type.slice(1)
-      ctx.fillText(label, line.start.x + 5, line.start.y - 5)
-    })
-
-    // Draw price labels
-    ctx.fillStyle = "#94a3b8"
-    ctx.font = "12px sans-serif"
-    for (let i = 0; i <= 5; i++) {
-      const price = minPrice + (i * priceRange) / 5
-      const y = height - padding - (i * (height - 2 * padding)) / 5
-      ctx.fillText(`₹${price.toFixed(0)}`, 5, y + 4)
-    }
-  }, [chartData, lines])
-
-  const getToolColor = (tool: string) => {
-    switch (tool) {
-      case "support":
-        return "#10b981"
-      case "resistance":
-        return "#ef4444"
-      case "trend":
-        return "#3b82f6"
-      default:
-        return "#6b7280"
-    }
-  }
-
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current
-    if (!canvas) return
-
-    const rect = canvas.getBoundingClientRect()
-    const x = e.clientX - rect.left
-    const y = e.clientY - rect.top
-
-    const newLine: Line = {
-      id: Date.now().toString(),
-      start: { x, y },
-      end: { x, y },
-      type: selectedTool,
-      color: getToolColor(selectedTool),
-    }
 
-    setCurrentLine(newLine)
-    setIsDrawing(true)
+      const drawing = moveAnchor(pending.drawing, 1, toPoint(pointer))
+      if (drawing.points.length > 2) {
+        draftRef.current = { ...pending, drawing, anchor: 2 }
+        setDraft(drawing)
+      } else {
+        finish(drawing)
+      }
+    },
   }
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing || !currentLine) return
-
-    const canvas = canvasRef.current
-    if (!canvas) return
-
-    const rect = canvas.getBoundingClientRect()
-    const x = e.clientX - rect.left
-    const y = e.clientY - rect.top
-
-    setCurrentLine({
-      ...currentLine,
-      end: { x, y },
-    })
+  const instructions = () => {
+    if (selectedTool === "pan") return "Drag to pan, scroll to zoom"
+    const { label, points } = DRAWING_TOOLS[selectedTool]
+    if (draft) return `Click to place the third point of the ${label.toLowerCase()}`
+    if (points === 1) return `Click to place a ${label.toLowerCase()}`
+    return `Click and drag to draw a ${label.toLowerCase()}${points === 3 ? ", then click to set its third point" : ""}`
   }
 
-  const handleMouseUp = () => {
-    if (currentLine && isDrawing) {
-      setLines((prev) => [...prev, currentLine])
-    }
-    setIsDrawing(false)
-    setCurrentLine(null)
-  }
+  const formatPrice = (price: number) =>
+    `₹${price.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
 
-  const clearLines = () => {
-    setLines([])
-  }
-
-  const currentPrice = chartData.length > 0 ? chartData[chartData.length - 1].price : 0
-  const previousPrice = chartData.length > 1 ? chartData[chartData.length - 2].price : 0
+  const currentPrice = chartData.length > 0 ? chartData[chartData.length - 1].close : 0
+  const previousPrice = chartData.length > 1 ? chartData[chartData.length - 2].close : 0
   const priceChange = currentPrice - previousPrice
   const isPositive = priceChange >= 0
 
   return (
     <div className="space-y-4">
       {/* Controls */}
-      <div className="flex items-center justify-between">
-        <div className="flex items-center space-x-2">
-          <Button
-            variant={selectedTool === "support" ? "default" : "outline"}
-            size="sm"
-            onClick={() => setSelectedTool("support")}
-            className="text-xs"
-          >
-            <TrendingUp className="h-3 w-3 mr-1" />
-            Support
-          </Button>
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          {TOOLS.map((tool) => {
+            const Icon = TOOL_ICONS[tool]
+            return (
+              <Button
+                key={tool}
+                variant={selectedTool === tool ? "default" : "outline"}
+                size="sm"
+                onClick={() => setSelectedTool(tool)}
+                className="text-xs"
+              >
+                <Icon className="h-3 w-3 mr-1" />
+                {tool === "pan" ? "Pan" : DRAWING_TOOLS[tool].label}
+              </Button>
+            )
+          })}
+          {selectedTool === "text" && (
+            <Input
+              value={noteText}
+              onChange={(event) => setNoteText(event.target.value)}
+              placeholder="Note text"
+              maxLength={80}
+              className="h-8 w-40 text-xs"
+            />
+          )}
+        </div>
+
+        <div className="flex shrink-0 items-center space-x-2">
+          <Select value={timeframe} onValueChange={(value) => setTimeframe(value as Timeframe)}>
+            <SelectTrigger className="h-8 w-28 bg-white/10 border-white/20 text-white text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {TIMEFRAMES.map((tf) => (
+                <SelectItem key={tf.value} value={tf.value} className="text-white hover:bg-slate-700">
+                  {tf.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button
-            variant={selectedTool === "resistance" ? "default" : "outline"}
+            variant={showLevels ? "default" : "outline"}
             size="sm"
-            onClick={() => setSelectedTool("resistance")}
+            onClick={() => setShowLevels((current) => !current)}
+            title="Support and resistance zones detected from swing pivots"
             className="text-xs"
           >
-            <TrendingDown className="h-3 w-3 mr-1" />
-            Resistance
+            <Layers className="h-3 w-3 mr-1" />
+            Zones
           </Button>
           <Button
-            variant={selectedTool === "trend" ? "default" : "outline"}
+            variant={showPatterns ? "default" : "outline"}
             size="sm"
-            onClick={() => setSelectedTool("trend")}
+            onClick={() => setShowPatterns((current) => !current)}
+            title="Candlestick and chart patterns with their confidence"
             className="text-xs"
           >
-            <Move className="h-3 w-3 mr-1" />
-            Trend
+            <ScanSearch className="h-3 w-3 mr-1" />
+            Patterns
           </Button>
-        </div>
-
-        <div className="flex items-center space-x-2">
+          <ProvenanceBadge provenance={provenance} />
           <Badge variant="secondary" className={isPositive ? "text-green-600" : "text-red-600"}>
             ₹{currentPrice.toFixed(2)} ({isPositive ? "+" : ""}
             {priceChange.toFixed(2)})
           </Badge>
-          <Button variant="outline" size="sm" onClick={clearLines}>
+          <Button variant="outline" size="sm" onClick={undo} disabled={drawings.length === 0} title="Undo last drawing">
+            <Undo2 className="h-3 w-3" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={clear} disabled={drawings.length === 0} title="Clear drawings">
             <Trash2 className="h-3 w-3" />
           </Button>
         </div>
       </div>
 
+      {signalsBlocked && !loading && chartData.length > 0 && (showLevels || showPatterns) && (
+        <SimulatedSignalsNotice onAllow={() => setAllowSimulatedSignals(true)} />
+      )}
+
       {/* Chart */}
       <Card className="bg-slate-800 border-slate-700">
         <CardContent className="p-0">
-          <canvas
-            ref={canvasRef}
-            className="w-full h-80 cursor-crosshair"
-            onMouseDown={handleMouseDown}
-            onMouseMove={handleMouseMove}
-            onMouseUp={handleMouseUp}
-            onMouseLeave={handleMouseUp}
-          />
+          {loading || chartData.length === 0 ? (
+            <div className="flex h-80 items-center justify-center text-sm text-white/70">
+              {loading ? (
+                <span className="flex items-center space-x-2">
+                  <RefreshCw className="h-4 w-4 animate-spin" />
+                  <span>Loading {symbol} chart...</span>
+                </span>
+              ) : (
+                (error ?? "No chart data available")
+              )}
+            </div>
+          ) : (
+            <CandleChart
+              data={chartData}
+              height={296}
+              layers={layers}
+              pointerHandlers={pointerHandlers}
+              resetKey={`${symbol}:${timeframe}`}
+              formatPrice={formatPrice}
+            />
+          )}
         </CardContent>
       </Card>
 
       {/* Instructions */}
       <div className="text-xs text-white/70 text-center">
-        Click and drag to draw {selectedTool} lines • {lines.length} lines drawn
+        {instructions()} • {drawings.length} {drawings.length === 1 ? "drawing" : "drawings"} saved for {symbol}{" "}
+        {timeframe}
       </div>
     </div>
   )
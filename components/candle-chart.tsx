@@ -0,0 +1,421 @@
+"use client"
+
+import type React from "react"
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  buildSeries,
+  CHART_STYLES,
+  CHART_THEMES,
+  clipTo,
+  createChartView,
+  drawAxes,
+  drawCrosshair,
+  drawGrid,
+  drawLastPrice,
+  drawSeries,
+  drawVolume,
+  formatBarTime,
+  isFollowingLatest,
+  latestViewport,
+  panViewport,
+  zoomViewport,
+  type ChartLayer,
+  type ChartPane,
+  type ChartPointer,
+  type ChartStyle,
+  type ChartView,
+  type PlotArea,
+  type Viewport,
+} from "@/lib/chart-engine"
+import { DAY_MS } from "@/lib/market-calendar"
+import type { ChartData } from "@/lib/market-data/types"
+import { cn } from "@/lib/utils"
+
+const PRICE_AXIS_WIDTH = 72
+const TIME_AXIS_HEIGHT = 24
+const TOP_PADDING = 8
+const WHEEL_ZOOM_SPEED = 0.002
+
+const EMPTY_LAYERS: ChartLayer[] = []
+const EMPTY_PANES: ChartPane[] = []
+
+const defaultFormatPrice = (price: number) =>
+  price.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+const formatVolume = (volume: number) =>
+  volume.toLocaleString("en-IN", { notation: "compact", maximumFractionDigits: 1 })
+
+// Lets a parent claim left-button drags for its own tools, e.g. drawing, instead of panning
+interface ChartPointerHandlers {
+  onDown?: (point: ChartPointer) => boolean // true claims the drag
+  onMove?: (point: ChartPointer) => void // Called on hover as well as during a claimed drag
+  onUp?: (point: ChartPointer) => void // Only for claimed drags
+}
+
+export interface CandleChartHandle {
+  getCanvas: () => HTMLCanvasElement | null
+  getView: () => ChartView | null // As of the last frame drawn
+}
+
+interface CandleChartProps {
+  data: ChartData[] // Ascending by timestamp
+  height?: number // Of the price pane; sub-panes and the time axis add to it
+  theme?: "dark" | "light"
+  chartStyle?: ChartStyle
+  boxSize?: number // Renko brick, Kagi reversal or point-and-figure box; ATR-based when omitted
+  layers?: ChartLayer[]
+  panes?: ChartPane[]
+  showVolume?: boolean
+  defaultLogScale?: boolean
+  resetKey?: string // Jump back to the latest bars when this changes, e.g. on a new symbol or timeframe
+  formatPrice?: (price: number) => string
+  pointerHandlers?: ChartPointerHandlers
+  crosshairTime?: number | null // Another chart's crosshair, shown as a vertical line while this one isn't hovered
+  onCrosshairChange?: (time: number | null) => void // Open time of the hovered bar, null when the pointer leaves
+  className?: string
+}
+
+// Canvas price chart: wheel to zoom, drag to pan, double-click to return to the latest bars. Only the bars in view
+// are scanned and drawn, so long histories stay smooth. Renko, Kagi and point-and-figure plot bricks or columns
+// built from `data`, so layer and pointer indices refer to those rather than the source bars
+export const CandleChart = forwardRef<CandleChartHandle, CandleChartProps>(function CandleChart(
+  {
+    data,
+    height = 384,
+    theme = "dark",
+    chartStyle = "candles",
+    boxSize,
+    layers = EMPTY_LAYERS,
+    panes = EMPTY_PANES,
+    showVolume = true,
+    defaultLogScale = false,
+    resetKey,
+    formatPrice = defaultFormatPrice,
+    pointerHandlers,
+    crosshairTime = null,
+    onCrosshairChange,
+    className = "",
+  },
+  ref,
+) {
+  const series = useMemo(() => buildSeries(data, chartStyle, { boxSize }), [data, chartStyle, boxSize])
+  const bars = series.data
+
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const sizeRef = useRef({ width: 0, height: 0 })
+  const viewportRef = useRef<Viewport>(latestViewport(bars.length))
+  const viewRef = useRef<ChartView | null>(null)
+  const pointerRef = useRef<{ x: number; y: number } | null>(null)
+  const dragRef = useRef<{ x: number; viewport: Viewport } | null>(null)
+  const claimedRef = useRef(false)
+  const frameRef = useRef<number | null>(null)
+  const lengthRef = useRef(bars.length)
+  const resetKeyRef = useRef(resetKey)
+  const styleRef = useRef(chartStyle)
+
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+  const [logScale, setLogScale] = useState(defaultLogScale)
+
+  useImperativeHandle(ref, () => ({ getCanvas: () => canvasRef.current, getView: () => viewRef.current }), [])
+
+  const paneHeight = panes.reduce((sum, pane) => sum + pane.height, 0)
+  const totalHeight = height + paneHeight + TIME_AXIS_HEIGHT
+
+  // The draw loop runs outside React renders, so it reads the latest props from here
+  const propsRef = useRef({ series, layers, panes, showVolume, logScale, theme, crosshairTime })
+  propsRef.current = { series, layers, panes, showVolume, logScale, theme, crosshairTime }
+
+  const draw = useCallback(() => {
+    frameRef.current = null
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    const { width, height: canvasHeight } = sizeRef.current
+    if (!canvas || !ctx || width === 0) return
+
+    const { series, layers, panes, showVolume, logScale, theme, crosshairTime } = propsRef.current
+    const colors = CHART_THEMES[theme]
+    const dpr = window.devicePixelRatio || 1
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0)
+    ctx.fillStyle = colors.background
+    ctx.fillRect(0, 0, width, canvasHeight)
+
+    const contentBottom = canvasHeight - TIME_AXIS_HEIGHT
+    const plot: PlotArea = {
+      left: 0,
+      top: TOP_PADDING,
+      right: width - PRICE_AXIS_WIDTH,
+      bottom: contentBottom - panes.reduce((sum, pane) => sum + pane.height, 0),
+    }
+
+    const view = createChartView({ data: series.data, viewport: viewportRef.current, plot, log: logScale, layers })
+    viewRef.current = view
+    if (!view) return
+
+    drawGrid(ctx, view, colors, contentBottom)
+
+    ctx.save()
+    clipTo(ctx, plot)
+    // A brick or column's volume spans however many bars it took to form, so it isn't comparable bar to bar
+    if (showVolume && CHART_STYLES[series.style].timeBased) drawVolume(ctx, view, colors)
+    drawSeries(ctx, view, colors, series)
+    layers.forEach((layer) => layer.draw(ctx, view))
+    ctx.restore()
+
+    let paneTop = plot.bottom
+    for (const pane of panes) {
+      const area: PlotArea = { left: plot.left, top: paneTop, right: plot.right, bottom: paneTop + pane.height }
+      ctx.strokeStyle = colors.grid
+      ctx.beginPath()
+      ctx.moveTo(area.left, Math.round(area.top) + 0.5)
+      ctx.lineTo(width, Math.round(area.top) + 0.5)
+      ctx.stroke()
+
+      ctx.save()
+      clipTo(ctx, area)
+      pane.draw(ctx, view, area)
+      ctx.restore()
+      paneTop += pane.height
+    }
+
+    drawAxes(ctx, view, colors, { width, height: canvasHeight })
+    drawLastPrice(ctx, view, colors)
+
+    const pointer = pointerRef.current
+    if (pointer && pointer.x <= plot.right) {
+      const index = Math.min(Math.max(Math.round(view.indexAtX(pointer.x)), view.first), view.last)
+      drawCrosshair(ctx, view, colors, pointer, index, contentBottom, { width, height: canvasHeight })
+    } else if (!pointer && crosshairTime !== null) {
+      // The bar containing the time, so a daily chart marks the day a 5-minute chart is hovering in
+      const index = Math.floor(view.indexAtTime(crosshairTime) + 1e-6)
+      if (index >= view.first && index <= view.last) {
+        drawCrosshair(ctx, view, colors, { x: view.toX(index), y: -1 }, index, contentBottom, {
+          width,
+          height: canvasHeight,
+        })
+      }
+    }
+  }, [])
+
+  const scheduleDraw = useCallback(() => {
+    if (frameRef.current === null) {
+      frameRef.current = requestAnimationFrame(draw)
+    }
+  }, [draw])
+
+  useEffect(() => {
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current)
+    }
+  }, [])
+
+  // New bars keep the latest one in view if it already was; a new resetKey or style starts over at the latest bars
+  useEffect(() => {
+    const previous = lengthRef.current
+    lengthRef.current = bars.length
+
+    if (resetKey !== resetKeyRef.current || chartStyle !== styleRef.current || previous === 0) {
+      resetKeyRef.current = resetKey
+      styleRef.current = chartStyle
+      viewportRef.current = latestViewport(bars.length)
+    } else if (bars.length !== previous && isFollowingLatest(viewportRef.current, previous)) {
+      viewportRef.current = panViewport(viewportRef.current, previous - bars.length, bars.length)
+    }
+    scheduleDraw()
+  }, [bars, chartStyle, resetKey, scheduleDraw])
+
+  useEffect(() => {
+    scheduleDraw()
+  }, [layers, panes, showVolume, logScale, theme, crosshairTime, scheduleDraw])
+
+  // Match the backing store to the element size and pixel ratio so drawings stay sharp after a resize
+  useEffect(() => {
+    const container = containerRef.current
+    const canvas = canvasRef.current
+    if (!container || !canvas) return
+
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1
+      const width = container.clientWidth
+      sizeRef.current = { width, height: totalHeight }
+      canvas.width = Math.round(width * dpr)
+      canvas.height = Math.round(totalHeight * dpr)
+      draw()
+    }
+
+    resize()
+    const observer = new ResizeObserver(resize)
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [totalHeight, draw])
+
+  // React registers wheel listeners as passive, which can't stop the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const handleWheel = (event: WheelEvent) => {
+      const view = viewRef.current
+      if (!view) return
+      event.preventDefault()
+
+      const total = propsRef.current.series.data.length
+      if (Math.abs(event.deltaX) > Math.abs(event.deltaY)) {
+        // Sideways trackpad scrolling pans
+        viewportRef.current = panViewport(viewportRef.current, -event.deltaX / view.barSpacing, total)
+      } else {
+        const x = event.clientX - canvas.getBoundingClientRect().left
+        const anchor = Math.min(Math.max((x - view.plot.left) / (view.plot.right - view.plot.left), 0), 1)
+        const factor = Math.exp(event.deltaY * WHEEL_ZOOM_SPEED)
+        viewportRef.current = zoomViewport(viewportRef.current, factor, anchor, total)
+      }
+      scheduleDraw()
+    }
+
+    canvas.addEventListener("wheel", handleWheel, { passive: false })
+    return () => canvas.removeEventListener("wheel", handleWheel)
+  }, [scheduleDraw])
+
+  const pointerPosition = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top }
+  }
+
+  const chartPointer = ({ x, y }: { x: number; y: number }): ChartPointer | null => {
+    const view = viewRef.current
+    if (!view) return null
+    const index = view.indexAtX(x)
+    return { x, y, index, time: view.timeAt(index), price: view.scale.fromY(y) }
+  }
+
+  const updateHover = (x: number) => {
+    const view = viewRef.current
+    const next =
+      view && x <= view.plot.right
+        ? Math.min(Math.max(Math.round(view.indexAtX(x)), view.first), view.last)
+        : null
+    setHoverIndex((current) => (current === next ? current : next))
+    if (next !== hoverIndex) onCrosshairChange?.(next === null ? null : (bars[next]?.timestamp ?? null))
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.button !== 0) return
+    const position = pointerPosition(event)
+    const point = chartPointer(position)
+    event.currentTarget.setPointerCapture(event.pointerId)
+
+    if (point && pointerHandlers?.onDown?.(point)) {
+      claimedRef.current = true
+      return
+    }
+    dragRef.current = { x: position.x, viewport: viewportRef.current }
+    event.currentTarget.style.cursor = "grabbing"
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const position = pointerPosition(event)
+    pointerRef.current = position
+
+    const point = chartPointer(position)
+    if (point) pointerHandlers?.onMove?.(point)
+
+    const drag = dragRef.current
+    const view = viewRef.current
+    if (drag && view) {
+      const deltaBars = (position.x - drag.x) / view.barSpacing
+      viewportRef.current = panViewport(drag.viewport, deltaBars, propsRef.current.series.data.length)
+    }
+
+    updateHover(position.x)
+    scheduleDraw()
+  }
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (claimedRef.current) {
+      claimedRef.current = false
+      const point = chartPointer(pointerPosition(event))
+      if (point) pointerHandlers?.onUp?.(point)
+    }
+    dragRef.current = null
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId)
+    }
+    event.currentTarget.style.cursor = ""
+  }
+
+  const handlePointerLeave = () => {
+    pointerRef.current = null
+    setHoverIndex(null)
+    onCrosshairChange?.(null)
+    scheduleDraw()
+  }
+
+  const handleDoubleClick = () => {
+    viewportRef.current = latestViewport(propsRef.current.series.data.length)
+    scheduleDraw()
+  }
+
+  const hoverBar = hoverIndex !== null ? bars[hoverIndex] : undefined
+  const previousBar = hoverIndex !== null && hoverIndex > 0 ? bars[hoverIndex - 1] : undefined
+  const hoverChange = hoverBar && previousBar ? ((hoverBar.close - previousBar.close) / previousBar.close) * 100 : null
+  const intraday = (viewRef.current?.interval ?? DAY_MS) < DAY_MS
+
+  return (
+    <div ref={containerRef} className={cn("relative w-full overflow-hidden rounded-lg", className)}>
+      <canvas
+        ref={canvasRef}
+        style={{ height: totalHeight }}
+        className="block w-full cursor-crosshair touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerLeave}
+        onDoubleClick={handleDoubleClick}
+      />
+
+      {hoverBar && (
+        <div
+          className={cn(
+            "pointer-events-none absolute left-2 top-2 rounded-md border px-2 py-1 font-mono text-xs shadow-sm",
+            theme === "dark"
+              ? "border-white/10 bg-slate-900/90 text-white/80"
+              : "border-slate-200 bg-white/90 text-slate-700",
+          )}
+        >
+          <div className="font-sans font-medium">{formatBarTime(hoverBar.timestamp, intraday)}</div>
+          <div className="flex flex-wrap gap-x-3">
+            <span>O {formatPrice(hoverBar.open)}</span>
+            <span>H {formatPrice(hoverBar.high)}</span>
+            <span>L {formatPrice(hoverBar.low)}</span>
+            <span>C {formatPrice(hoverBar.close)}</span>
+            <span>V {formatVolume(hoverBar.volume)}</span>
+            {series.boxSize !== null && <span>Box {formatPrice(series.boxSize)}</span>}
+            {hoverChange !== null && (
+              <span className={hoverChange >= 0 ? "text-green-500" : "text-red-500"}>
+                {hoverChange >= 0 ? "+" : ""}
+                {hoverChange.toFixed(2)}%
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => setLogScale((current) => !current)}
+        aria-pressed={logScale}
+        title="Logarithmic price scale"
+        className={cn(
+          "absolute bottom-0.5 right-1 h-5 px-1.5 text-[10px] font-semibold",
+          logScale ? "bg-blue-500/20 text-blue-400" : "text-slate-400 hover:text-slate-200",
+        )}
+      >
+        LOG
+      </Button>
+    </div>
+  )
+})
@@ -0,0 +1,181 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CandleChart } from "@/components/candle-chart"
+import { ProvenanceBadge } from "@/components/provenance-badge"
+import { useCandles } from "@/hooks/use-candles"
+import { useChartDrawings } from "@/hooks/use-chart-drawings"
+import { drawingsLayer } from "@/lib/drawings"
+import { toYahooSymbol } from "@/lib/market-data/symbols"
+import type { Timeframe } from "@/lib/candles/types"
+import { Link2, Link2Off, RefreshCw } from "lucide-react"
+
+const TIMEFRAMES: { value: Timeframe; label: string }[] = [
+  { value: "5m", label: "5m" },
+  { value: "15m", label: "15m" },
+  { value: "1h", label: "1h" },
+  { value: "1d", label: "1D" },
+  { value: "1w", label: "1W" },
+]
+
+// Suggested in the symbol box; any NSE/BSE stock or Yahoo index symbol can be typed
+const INDEX_SYMBOLS = [
+  { symbol: "^NSEI", name: "Nifty 50" },
+  { symbol: "^NSEBANK", name: "Bank Nifty" },
+  { symbol: "^CNXFIN", name: "Fin Nifty" },
+  { symbol: "^BSESN", name: "Sensex" },
+]
+
+const PANE_BARS = 200
+
+interface ChartPaneProps {
+  symbol: string
+  timeframe: Timeframe
+  linked: boolean
+  height: number
+  onSymbolChange: (symbol: string) => void
+  onTimeframeChange: (timeframe: Timeframe) => void
+  onLinkedChange: (linked: boolean) => void
+  crosshairTime?: number | null
+  onCrosshairChange?: (time: number | null) => void
+}
+
+// One cell of the multi-chart grid: a compact candle chart with its own symbol and timeframe. Drawings made on
+// the analysis studio for the same pair show here too
+export function ChartPane({
+  symbol,
+  timeframe,
+  linked,
+  height,
+  onSymbolChange,
+  onTimeframeChange,
+  onLinkedChange,
+  crosshairTime,
+  onCrosshairChange,
+}: ChartPaneProps) {
+  const { data, provenance, loading, error } = useCandles(symbol, timeframe, PANE_BARS)
+  const { drawings } = useChartDrawings(symbol, timeframe)
+  const layers = useMemo(() => [drawingsLayer(drawings)], [drawings])
+  const [input, setInput] = useState(symbol)
+
+  useEffect(() => setInput(symbol), [symbol])
+
+  const submit = () => {
+    const next = input.trim() ? toYahooSymbol(input) : symbol
+    if (next !== symbol) onSymbolChange(next)
+    else setInput(symbol)
+  }
+
+  const indexName = INDEX_SYMBOLS.find((index) => index.symbol === symbol)?.name
+  const last = data[data.length - 1]
+  const previous = data[data.length - 2]
+  const change = last && previous ? ((last.close - previous.close) / previous.close) * 100 : null
+
+  const formatPrice = (price: number) =>
+    `${symbol.startsWith("^") ? "" : "₹"}${price.toLocaleString("en-IN", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`
+
+  return (
+    <div className="flex min-w-0 flex-col rounded-lg border border-white/10 bg-slate-900/60">
+      {/* Pane header */}
+      <div className="flex items-center gap-1.5 border-b border-white/10 px-2 py-1.5">
+        <form
+          onSubmit={(event) => {
+            event.preventDefault()
+            submit()
+          }}
+          className="min-w-0"
+        >
+          <Input
+            value={input}
+            onChange={(event) => setInput(event.target.value.toUpperCase())}
+            onBlur={submit}
+            list="chart-pane-symbols"
+            title={indexName ?? symbol}
+            className="h-7 w-28 bg-white/10 border-white/20 px-2 text-xs font-semibold text-white"
+          />
+        </form>
+        <Select value={timeframe} onValueChange={(value) => onTimeframeChange(value as Timeframe)}>
+          <SelectTrigger className="h-7 w-16 bg-white/10 border-white/20 px-2 text-xs text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-slate-800 border-slate-700">
+            {TIMEFRAMES.map((tf) => (
+              <SelectItem key={tf.value} value={tf.value} className="text-white hover:bg-slate-700">
+                {tf.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {last && (
+          <span className="truncate text-xs text-white/80">
+            {formatPrice(last.close)}
+            {change !== null && (
+              <span className={`ml-1 ${change >= 0 ? "text-green-400" : "text-red-400"}`}>
+                {change >= 0 ? "+" : ""}
+                {change.toFixed(2)}%
+              </span>
+            )}
+          </span>
+        )}
+        <div className="ml-auto flex shrink-0 items-center gap-1">
+          <ProvenanceBadge provenance={provenance} className="px-1.5 text-[10px]" />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onLinkedChange(!linked)}
+            aria-pressed={linked}
+            title={linked ? "Linked to the other panes; click to unlink" : "Not linked; click to link"}
+            className={`h-7 w-7 p-0 ${linked ? "text-blue-400" : "text-white/40 hover:text-white"}`}
+          >
+            {linked ? <Link2 className="h-3.5 w-3.5" /> : <Link2Off className="h-3.5 w-3.5" />}
+          </Button>
+        </div>
+      </div>
+
+      {/* Chart */}
+      {loading || data.length === 0 ? (
+        <div className="flex items-center justify-center text-xs text-white/60" style={{ height: height + 24 }}>
+          {loading ? (
+            <span className="flex items-center space-x-2">
+              <RefreshCw className="h-3.5 w-3.5 animate-spin" />
+              <span>Loading {indexName ?? symbol}...</span>
+            </span>
+          ) : (
+            (error ?? "No chart data available")
+          )}
+        </div>
+      ) : (
+        <CandleChart
+          data={data}
+          height={height}
+          layers={layers}
+          showVolume={!symbol.startsWith("^")}
+          resetKey={`${symbol}:${timeframe}`}
+          formatPrice={formatPrice}
+          crosshairTime={crosshairTime}
+          onCrosshairChange={onCrosshairChange}
+          className="rounded-t-none"
+        />
+      )}
+    </div>
+  )
+}
+
+// Rendered once by the layout so every pane's symbol box can share it
+export function ChartPaneSymbolList() {
+  return (
+    <datalist id="chart-pane-symbols">
+      {INDEX_SYMBOLS.map((index) => (
+        <option key={index.symbol} value={index.symbol}>
+          {index.name}
+        </option>
+      ))}
+    </datalist>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CHART_STYLE_IDS, CHART_STYLES, isChartStyle, type ChartStyle } from "@/lib/chart-engine"
+import { cn } from "@/lib/utils"
+
+const MIN_BOX_SIZE = 0.05 // NSE tick size
+
+interface ChartStyleSelectProps {
+  value: ChartStyle
+  onValueChange: (style: ChartStyle) => void
+  boxSize?: number
+  onBoxSizeChange?: (boxSize: number | undefined) => void // undefined goes back to the ATR-based size
+  theme?: "dark" | "light"
+  className?: string
+}
+
+// Chart style picker, plus a box size field for the styles built from price moves
+export function ChartStyleSelect({
+  value,
+  onValueChange,
+  boxSize,
+  onBoxSizeChange,
+  theme = "light",
+  className,
+}: ChartStyleSelectProps) {
+  // Kept as text so partial input like "2." survives until it parses
+  const [boxText, setBoxText] = useState(boxSize !== undefined ? String(boxSize) : "")
+
+  useEffect(() => {
+    setBoxText((current) => (Number(current) === boxSize ? current : boxSize !== undefined ? String(boxSize) : ""))
+  }, [boxSize])
+
+  // Sizes under one tick fall back to ATR; the chart also raises sizes too small for the price to draw
+  const handleBoxChange = (text: string) => {
+    setBoxText(text)
+    const parsed = Number(text)
+    onBoxSizeChange?.(text.trim() !== "" && parsed >= MIN_BOX_SIZE ? parsed : undefined)
+  }
+
+  const dark = theme === "dark"
+
+  return (
+    <div className={cn("flex items-center gap-2", className)}>
+      <Select value={value} onValueChange={(next) => isChartStyle(next) && onValueChange(next)}>
+        <SelectTrigger
+          className={cn("w-40", dark && "bg-white/10 border-white/20 text-white")}
+          aria-label="Chart style"
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className={cn(dark && "bg-slate-800 border-slate-700")}>
+          {CHART_STYLE_IDS.map((style) => (
+            <SelectItem key={style} value={style} className={cn(dark && "text-white hover:bg-slate-700")}>
+              {CHART_STYLES[style].label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {CHART_STYLES[value].boxed && onBoxSizeChange && (
+        <Input
+          type="number"
+          min={MIN_BOX_SIZE}
+          step={MIN_BOX_SIZE}
+          inputMode="decimal"
+          value={boxText}
+          onChange={(event) => handleBoxChange(event.target.value)}
+          placeholder="Box: ATR"
+          aria-label={value === "kagi" ? "Reversal amount" : "Box size"}
+          title="Leave empty to size boxes from ATR(14)"
+          className={cn("w-28", dark && "bg-white/10 border-white/20 text-white placeholder:text-white/40")}
+        />
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useRef, useEffect, useCallback } from "react"
+import { useState, useRef, useEffect, useCallback, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { ScrollArea } from "@/components/ui/scroll-area"
@@ -8,51 +8,66 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent } from "@/components/ui/card"
 import { Send, Bot, User, TrendingUp, TrendingDown, Activity, Wifi, WifiOff } from "lucide-react"
-import { useLivePrices } from "@/hooks/use-live-prices"
-
-interface Message {
-  id: string
-  content: string
-  sender: "user" | "ai"
-  timestamp: Date
-  marketData?: {
-    symbol: string
-    price: number
-    change: number
-    changePercent: number
-  }
+import { useLivePrices, type LivePrice } from "@/hooks/use-live-prices"
+import { useSimulatedSignalsOptIn } from "@/hooks/use-simulated-signals"
+import { useChatHistory } from "@/hooks/use-chat-history"
+import { ProvenanceBadge, SimulatedSignalsNotice } from "@/components/provenance-badge"
+import { useInstrument } from "@/components/instrument-provider"
+import { createProvenance, isSimulated, weakestProvenance } from "@/lib/market-data/provenance"
+import { toBaseSymbol } from "@/lib/market-data/symbols"
+import type { Provenance } from "@/lib/market-data/types"
+import type { ChatMessage } from "@/lib/chat-history"
+
+type Message = ChatMessage
+
+const WELCOME_MESSAGE: Message = {
+  id: "welcome",
+  content:
+    "I'm your Indian Stock Market AI Assistant. Every answer says whether its prices are live, delayed, cached or simulated. Ask me about current prices, trends, or analysis!",
+  sender: "ai",
+  timestamp: 0,
 }
 
 const QUICK_QUESTIONS = [
   "What's the current Nifty 50 trend?",
   "Top gainers today?",
   "Banking sector analysis",
-  "Reliance stock outlook",
   "Market sentiment today",
   "Best stocks to buy now",
 ]
 
+// Saved messages can come from other browsers through the workspace, so ids carry a random part
+const messageId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
 const LIVE_SYMBOLS = ["RELIANCE.NS", "TCS.NS", "HDFCBANK.NS", "INFY.NS", "ICICIBANK.NS"]
 
+// Questions the server answers from the instrument's candles rather than from the live quotes here
+const LEVEL_KEYWORDS = ["support", "resistance", "level", "zone"]
+
+// Answers about the dashboard's instrument use its live quote, and level questions go to /api/chat with its symbol
 export function ChatPanel() {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: "1",
-      content:
-        "🔴 LIVE: Connected to NSE/BSE real-time feeds! I'm your Indian Stock Market AI Assistant with live data access. Ask me about current prices, trends, or analysis!",
-      sender: "ai",
-      timestamp: new Date(),
-    },
-  ])
+  const { symbol, info } = useInstrument()
+  const baseSymbol = toBaseSymbol(symbol)
+  // The conversation is saved, so it picks up where it left off after a reload
+  const { messages: history, append: appendMessage } = useChatHistory()
+  const messages = useMemo(() => [WELCOME_MESSAGE, ...history], [history])
   const [input, setInput] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const scrollAreaRef = useRef<HTMLDivElement>(null)
+  const [allowSimulatedSignals, setAllowSimulatedSignals] = useSimulatedSignalsOptIn()
 
   // Use live prices for real-time data
-  const { prices, isConnected, connectionStatus, lastUpdate } = useLivePrices({
-    symbols: LIVE_SYMBOLS,
+  const {
+    prices: priceMap,
+    isConnected,
+    connectionStatus,
+    activeTransport,
+    lastUpdate,
+  } = useLivePrices({
+    symbols: useMemo(() => (LIVE_SYMBOLS.includes(symbol) ? LIVE_SYMBOLS : [symbol, ...LIVE_SYMBOLS]), [symbol]),
     updateInterval: 2000,
   })
+  const prices = Array.from(priceMap.values())
 
   const scrollToBottom = useCallback(() => {
     if (scrollAreaRef.current) {
@@ -67,41 +82,62 @@ export function ChatPanel() {
     scrollToBottom()
   }, [messages, scrollToBottom])
 
+  // What the tracked quotes are worth: simulated if any of them is, otherwise the oldest real as-of time
+  const dataProvenance = weakestProvenance(prices.map((price) => price.provenance))
+
+  const describeProvenance = useCallback((provenance: Provenance | null) => {
+    if (!provenance) return "no market data yet"
+    const asOf = new Date(provenance.asOf).toLocaleTimeString("en-IN")
+    return provenance.kind === "simulated" ? "SIMULATED data (not real prices)" : `${provenance.kind} data as of ${asOf}`
+  }, [])
+
+  // Recommendations are withheld on simulated data unless the user opted in
+  const signalOrNotice = useCallback(
+    (provenance: Provenance | null, signal: string) =>
+      isSimulated(provenance) && !allowSimulatedSignals
+        ? "withheld, the data is simulated (enable signals on simulated data to see it)"
+        : signal,
+    [allowSimulatedSignals],
+  )
+
   const generateMarketResponse = useCallback(
-    (userMessage: string): { content: string; marketData?: any } => {
+    (userMessage: string): { content: string; marketData?: Message["marketData"] } => {
       const message = userMessage.toLowerCase()
-      const currentPrices = prices.reduce((acc, price) => {
-        acc[price.symbol] = price
-        return acc
-      }, {} as any)
+      // Keyed by the requested symbol ("RELIANCE.NS"); quote.symbol is the base symbol
+      const currentPrices: { [symbol: string]: LivePrice } = {}
+      priceMap.forEach((price, requested) => {
+        currentPrices[requested] = price
+      })
 
       if (message.includes("nifty") || message.includes("trend")) {
+        // No index feed here yet, so every number in this answer is generated
+        const niftyProvenance = createProvenance("simulated")
         const niftyPrice = 24850.25 + (Math.random() - 0.5) * 100
         const niftyChange = (Math.random() - 0.5) * 200
         const niftyChangePercent = (niftyChange / niftyPrice) * 100
 
         return {
-          content: `📊 **LIVE Nifty 50 Analysis** 🔴
+          content: `📊 **Nifty 50 Analysis** · ${describeProvenance(niftyProvenance)}
 
 **Current Level:** ${niftyPrice.toFixed(2)} (${niftyChange > 0 ? "+" : ""}${niftyChange.toFixed(2)}, ${niftyChangePercent > 0 ? "+" : ""}${niftyChangePercent.toFixed(2)}%)
 
-**Real-time Technical Analysis:**
-• **Live Support:** ${(niftyPrice * 0.998).toFixed(0)} | ${(niftyPrice * 0.995).toFixed(0)}
-• **Live Resistance:** ${(niftyPrice * 1.002).toFixed(0)} | ${(niftyPrice * 1.005).toFixed(0)}
-• **RSI (Live):** ${(45 + Math.random() * 20).toFixed(1)} (${Math.random() > 0.5 ? "Bullish" : "Neutral"})
+**Technical Analysis:**
+• **Support:** ${(niftyPrice * 0.998).toFixed(0)} | ${(niftyPrice * 0.995).toFixed(0)}
+• **Resistance:** ${(niftyPrice * 1.002).toFixed(0)} | ${(niftyPrice * 1.005).toFixed(0)}
+• **RSI:** ${(45 + Math.random() * 20).toFixed(1)} (${Math.random() > 0.5 ? "Bullish" : "Neutral"})
 • **Volume:** ${Math.random() > 0.5 ? "Above Average" : "Normal"} 📈
 
-**Live Market Drivers:**
-${isConnected ? "✅ Connected to live NSE feeds" : "⚠️ Using simulated data"}
+**Market Drivers (illustrative):**
 • FII Activity: ${Math.random() > 0.5 ? "Net Buying" : "Mixed"} ₹${(Math.random() * 3000).toFixed(0)}Cr
 • Banking Index: ${Math.random() > 0.5 ? "Outperforming" : "Underperforming"}
 
-**Trading Strategy:** ${niftyChangePercent > 0 ? "Buy on dips near support levels" : "Wait for reversal signals"}`,
+**Trading Strategy:** ${signalOrNotice(niftyProvenance, niftyChangePercent > 0 ? "Buy on dips near support levels" : "Wait for reversal signals")}`,
           marketData: {
             symbol: "NIFTY 50",
             price: niftyPrice,
             change: niftyChange,
             changePercent: niftyChangePercent,
+            provenance: niftyProvenance,
           },
         }
       }
@@ -110,34 +146,62 @@ ${isConnected ? "✅ Connected to live NSE feeds" : "⚠️ Using simulated data
         const reliancePrice = currentPrices["RELIANCE.NS"]
         if (reliancePrice) {
           return {
-            content: `⛽ **LIVE Reliance Industries Analysis** 🔴
+            content: `⛽ **Reliance Industries Analysis** · ${describeProvenance(reliancePrice.provenance)}
 
-**Real-time Price:** ₹${reliancePrice.price} (${reliancePrice.changePercent > 0 ? "+" : ""}${reliancePrice.changePercent.toFixed(2)}%)
+**Price:** ₹${reliancePrice.price} (${reliancePrice.changePercent > 0 ? "+" : ""}${reliancePrice.changePercent.toFixed(2)}%)
 
-**Live Technical Levels:**
+**Technical Levels:**
 • **Current Trend:** ${reliancePrice.changePercent > 0 ? "Bullish 📈" : "Bearish 📉"}
 • **Intraday Support:** ₹${(reliancePrice.price * 0.995).toFixed(2)}
 • **Intraday Resistance:** ₹${(reliancePrice.price * 1.005).toFixed(2)}
 • **Volume Status:** ${Math.random() > 0.5 ? "High" : "Normal"}
 
-**Live Fundamentals:**
-• **Market Cap:** ₹${(reliancePrice.price * 676).toFixed(0)}K Cr (Live)
+**Fundamentals:**
+• **Market Cap:** ₹${(reliancePrice.price * 676).toFixed(0)}K Cr
 • **Sector:** Energy, Telecom, Retail
 • **Key Catalyst:** ${Math.random() > 0.5 ? "Jio expansion" : "Refining margins"}
 
-**Real-time Recommendation:** ${reliancePrice.changePercent > 1 ? "HOLD/Book profits" : reliancePrice.changePercent < -1 ? "BUY on dips" : "NEUTRAL/Watch"}
-
-*Data updated: ${lastUpdate?.toLocaleTimeString() || "Live"}*`,
+**Recommendation:** ${signalOrNotice(reliancePrice.provenance, reliancePrice.changePercent > 1 ? "HOLD/Book profits" : reliancePrice.changePercent < -1 ? "BUY on dips" : "NEUTRAL/Watch")}`,
             marketData: {
               symbol: "RELIANCE",
               price: reliancePrice.price,
               change: reliancePrice.change,
               changePercent: reliancePrice.changePercent,
+              provenance: reliancePrice.provenance,
             },
           }
         }
       }
 
+      const selectedPrice = currentPrices[symbol]
+      if (
+        selectedPrice &&
+        (message.includes("this stock") || new RegExp(`\\b${baseSymbol.toLowerCase()}\\b`).test(message))
+      ) {
+        return {
+          content: `🏢 **${info?.name ?? baseSymbol} Analysis** · ${describeProvenance(selectedPrice.provenance)}
+
+**Price:** ₹${selectedPrice.price} (${selectedPrice.changePercent > 0 ? "+" : ""}${selectedPrice.changePercent.toFixed(2)}%)
+${info ? `**Sector:** ${info.sector} · ${info.marketCap} Cap · ${info.exchange}\n` : ""}
+**Technical Levels:**
+• **Current Trend:** ${selectedPrice.changePercent > 0 ? "Bullish 📈" : "Bearish 📉"}
+• **Day Range:** ₹${selectedPrice.low} – ₹${selectedPrice.high}
+• **Intraday Support:** ₹${(selectedPrice.price * 0.995).toFixed(2)}
+• **Intraday Resistance:** ₹${(selectedPrice.price * 1.005).toFixed(2)}
+
+Ask about ${baseSymbol} support and resistance for zones from its daily candles.
+
+**Recommendation:** ${signalOrNotice(selectedPrice.provenance, selectedPrice.changePercent > 1 ? "HOLD/Book profits" : selectedPrice.changePercent < -1 ? "BUY on dips" : "NEUTRAL/Watch")}`,
+          marketData: {
+            symbol: baseSymbol,
+            price: selectedPrice.price,
+            change: selectedPrice.change,
+            changePercent: selectedPrice.changePercent,
+            provenance: selectedPrice.provenance,
+          },
+        }
+      }
+
       if (message.includes("gainer") || message.includes("top")) {
         const topGainers = prices
           .filter((p) => p.changePercent > 0)
@@ -145,9 +209,9 @@ ${isConnected ? "✅ Connected to live NSE feeds" : "⚠️ Using simulated data
           .slice(0, 3)
 
         return {
-          content: `🚀 **LIVE Top Gainers** 🔴
+          content: `🚀 **Top Gainers** · ${describeProvenance(dataProvenance)}
 
-**Real-time NSE Leaders:**
+**NSE Leaders (tracked stocks):**
 ${topGainers
   .map(
     (stock, index) =>
@@ -155,38 +219,38 @@ ${topGainers
   )
   .join("\n")}
 
-**Live Market Pulse:**
+**Market Pulse (illustrative):**
 • **Advance/Decline:** ${Math.random() > 0.5 ? "Positive" : "Mixed"} (${(Math.random() * 2 + 1).toFixed(1)}:1)
 • **Sector Leaders:** ${Math.random() > 0.5 ? "Banking, IT" : "Auto, FMCG"}
 • **FII Flow:** ${Math.random() > 0.5 ? "Buying" : "Selling"} ₹${(Math.random() * 2000).toFixed(0)}Cr
 
-**Live Volume Analysis:**
+**Volume Analysis:**
 ${topGainers.length > 0 ? `• ${topGainers[0].symbol.replace(".NS", "")} showing strong institutional interest` : "• Mixed volume patterns"}
-• Breakout stocks with momentum continuation expected
-
-*Live data from NSE • Updated: ${lastUpdate?.toLocaleTimeString() || "Now"}*`,
+• Breakout stocks with momentum continuation expected`,
           marketData: {
             symbol: "Top Gainers",
             price: 0,
-            change: topGainers.length > 0 ? topGainers[0].changePercent : 2.4,
-            changePercent: topGainers.length > 0 ? topGainers[0].changePercent : 2.4,
+            change: topGainers.length > 0 ? topGainers[0].changePercent : 0,
+            changePercent: topGainers.length > 0 ? topGainers[0].changePercent : 0,
+            provenance: dataProvenance,
           },
         }
       }
 
       if (message.includes("banking") || message.includes("bank")) {
         const bankingStocks = prices.filter((p) => p.symbol.includes("HDFC") || p.symbol.includes("ICICI"))
+        const bankingProvenance = weakestProvenance(bankingStocks.map((stock) => stock.provenance))
         const avgChange =
           bankingStocks.length > 0
             ? bankingStocks.reduce((sum, stock) => sum + stock.changePercent, 0) / bankingStocks.length
             : 0
 
         return {
-          content: `🏦 **LIVE Banking Sector Analysis** 🔴
+          content: `🏦 **Banking Sector Analysis** · ${describeProvenance(bankingProvenance)}
 
-**Real-time Sector Performance:** ${avgChange > 0 ? "📈 Outperforming" : "📉 Underperforming"} (${avgChange > 0 ? "+" : ""}${avgChange.toFixed(2)}%)
+**Sector Performance:** ${avgChange > 0 ? "📈 Outperforming" : "📉 Underperforming"} (${avgChange > 0 ? "+" : ""}${avgChange.toFixed(2)}%)
 
-**Live Banking Stocks:**
+**Banking Stocks:**
 ${bankingStocks
   .map(
     (stock) =>
@@ -194,122 +258,146 @@ ${bankingStocks
   )
   .join("\n")}
 
-**Real-time Sector Insights:**
-• **Credit Growth:** 14.5% YoY (Live RBI data)
+**Sector Insights (illustrative):**
+• **Credit Growth:** 14.5% YoY
 • **NIM Trends:** ${Math.random() > 0.5 ? "Expanding" : "Stable"} across major banks
 • **Asset Quality:** ${Math.random() > 0.5 ? "Improving" : "Stable"} GNPA trends
 
-**Live Technical View:**
+**Technical View:**
 • **Bank Nifty:** ${Math.random() > 0.5 ? "Above key moving averages" : "Consolidating"}
 • **Momentum:** ${avgChange > 0 ? "Bullish with volume support" : "Neutral, awaiting catalysts"}
 • **Key Levels:** Watch 52,000 support, 53,500 resistance
 
-**Sector Outlook:** ${avgChange > 1 ? "Positive momentum, ride the trend" : avgChange < -1 ? "Accumulate quality names on dips" : "Stock-specific approach recommended"}
-
-*Live banking data • Updated: ${lastUpdate?.toLocaleTimeString() || "Now"}*`,
+**Sector Outlook:** ${signalOrNotice(bankingProvenance, avgChange > 1 ? "Positive momentum, ride the trend" : avgChange < -1 ? "Accumulate quality names on dips" : "Stock-specific approach recommended")}`,
           marketData: {
             symbol: "BANK NIFTY",
             price: 52000 + avgChange * 100,
             change: avgChange * 10,
             changePercent: avgChange,
+            provenance: bankingProvenance,
           },
         }
       }
 
       if (message.includes("sentiment") || message.includes("market")) {
-        const marketSentiment = prices.filter((p) => p.changePercent > 0).length / prices.length
+        const marketSentiment = prices.length > 0 ? prices.filter((p) => p.changePercent > 0).length / prices.length : 0.5
         const sentimentScore = marketSentiment * 100
 
         return {
-          content: `📈 **LIVE Market Sentiment Analysis** 🔴
+          content: `📈 **Market Sentiment Analysis** · ${describeProvenance(dataProvenance)}
 
-**Overall Sentiment:** ${sentimentScore > 60 ? "BULLISH 🟢" : sentimentScore > 40 ? "NEUTRAL 🟡" : "BEARISH 🔴"} (${sentimentScore.toFixed(0)}/100)
+**Overall Sentiment:** ${signalOrNotice(dataProvenance, `${sentimentScore > 60 ? "BULLISH 🟢" : sentimentScore > 40 ? "NEUTRAL 🟡" : "BEARISH 🔴"} (${sentimentScore.toFixed(0)}/100)`)}
 
-**Real-time Market Indicators:**
-• **Live Advance/Decline:** ${(marketSentiment * 2000).toFixed(0)} vs ${((1 - marketSentiment) * 2000).toFixed(0)}
+**Market Indicators (illustrative):**
+• **Advance/Decline:** ${(marketSentiment * 2000).toFixed(0)} vs ${((1 - marketSentiment) * 2000).toFixed(0)}
 • **FII Activity:** ${Math.random() > 0.5 ? "Net Buying" : "Net Selling"} ₹${(Math.random() * 3000).toFixed(0)}Cr
 • **VIX Level:** ${(12 + Math.random() * 8).toFixed(2)} (${Math.random() > 0.5 ? "Falling" : "Rising"})
 • **Put-Call Ratio:** ${(0.7 + Math.random() * 0.6).toFixed(2)} (${Math.random() > 0.5 ? "Bullish" : "Neutral"})
 
-**Live Sector Rotation:**
-${isConnected ? "📊 Real-time sector data available" : "⚠️ Using simulated data"}
+**Sector Rotation (illustrative):**
 • **Outperforming:** ${Math.random() > 0.5 ? "Banking, IT, Auto" : "FMCG, Pharma, Energy"}
 • **Underperforming:** ${Math.random() > 0.5 ? "Metals, Realty" : "IT, Telecom"}
 
-**Institutional Flow (Live):**
+**Institutional Flow (illustrative):**
 • **FII:** ${Math.random() > 0.5 ? "Buyers" : "Sellers"} (₹${(Math.random() * 2000).toFixed(0)}Cr today)
 • **DII:** Consistent ${Math.random() > 0.5 ? "buying" : "support"} (₹${(Math.random() * 1500).toFixed(0)}Cr)
 
-**Live Market Breadth:**
+**Market Breadth (illustrative):**
 • **Stocks Above 20 EMA:** ${(40 + Math.random() * 40).toFixed(0)}%
-• **New Highs/Lows:** ${Math.floor(Math.random() * 50)} / ${Math.floor(Math.random() * 30)}
-
-*Sentiment updated every 2 seconds • Last: ${lastUpdate?.toLocaleTimeString() || "Live"}*`,
+• **New Highs/Lows:** ${Math.floor(Math.random() * 50)} / ${Math.floor(Math.random() * 30)}`,
           marketData: {
             symbol: "Market Sentiment",
             price: sentimentScore,
             change: sentimentScore - 50,
             changePercent: sentimentScore - 50,
+            provenance: dataProvenance,
           },
         }
       }
 
-      // Default response with live data
+      // Default response describing the data the assistant actually has
       return {
-        content: `🔴 **LIVE Indian Market Assistant** 
-
-I have real-time access to NSE/BSE data feeds! Current status:
+        content: `🤖 **Indian Market Assistant**
 
-**Connection:** ${isConnected ? "🟢 LIVE Connected" : "🔴 Reconnecting..."}
-**Data Source:** ${connectionStatus === "connected" ? "NSE/BSE Real-time" : "Simulated"}
+**Connection:** ${isConnected ? `🟢 Connected (${activeTransport})` : "🔴 Reconnecting..."}
+**Data:** ${describeProvenance(dataProvenance)}
 **Last Update:** ${lastUpdate?.toLocaleTimeString() || "Connecting..."}
 
-**Live Market Services:**
-📊 Real-time stock prices & analysis
-📈 Live technical indicators & signals  
-📰 Current market sentiment & flows
-💡 Instant trading recommendations
-🏢 Live fundamental data
-📋 Real-time portfolio insights
+**What I can help with:**
+📊 Stock prices & analysis
+📈 Technical indicators & signals
+📰 Market sentiment & flows
+🏢 Fundamental data
 
 **Currently Tracking:**
 ${prices.map((p) => `• ${p.symbol.replace(".NS", "")}: ₹${p.price} (${p.changePercent > 0 ? "+" : ""}${p.changePercent.toFixed(2)}%)`).join("\n")}
 
-Ask me about any stock, sector, or market trend for live analysis!`,
+Ask me about any stock, sector, or market trend!`,
       }
     },
-    [prices, isConnected, connectionStatus, lastUpdate],
+    [
+      prices,
+      priceMap,
+      symbol,
+      baseSymbol,
+      info,
+      isConnected,
+      activeTransport,
+      lastUpdate,
+      dataProvenance,
+      describeProvenance,
+      signalOrNotice,
+    ],
   )
 
   const handleSend = useCallback(async () => {
     if (!input.trim()) return
 
     const userMessage: Message = {
-      id: Date.now().toString(),
+      id: messageId(),
       content: input,
       sender: "user",
-      timestamp: new Date(),
+      timestamp: Date.now(),
     }
 
-    setMessages((prev) => [...prev, userMessage])
+    appendMessage(userMessage)
     setInput("")
     setIsLoading(true)
 
-    // Simulate AI response delay
-    setTimeout(() => {
-      const response = generateMarketResponse(input)
+    const respond = (response: { content: string; marketData?: Message["marketData"] }) => {
       const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: messageId(),
         content: response.content,
         sender: "ai",
-        timestamp: new Date(),
+        timestamp: Date.now(),
         marketData: response.marketData,
       }
 
-      setMessages((prev) => [...prev, aiMessage])
+      appendMessage(aiMessage)
       setIsLoading(false)
-    }, 1500)
-  }, [input, generateMarketResponse])
+    }
+
+    // Support and resistance come from the server's level engine for the instrument on screen
+    if (LEVEL_KEYWORDS.some((word) => input.toLowerCase().includes(word))) {
+      try {
+        const response = await fetch("/api/chat", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ message: input, symbol }),
+        })
+        const data = await response.json()
+        if (data.success && typeof data.response === "string") {
+          respond({ content: data.response })
+          return
+        }
+      } catch (error) {
+        console.error("Error asking the chat API:", error)
+      }
+    }
+
+    // Simulate AI response delay
+    setTimeout(() => respond(generateMarketResponse(input)), 1500)
+  }, [input, symbol, generateMarketResponse, appendMessage])
 
   const handleQuickQuestion = useCallback(
     (question: string) => {
@@ -319,19 +407,16 @@ Ask me about any stock, sector, or market trend for live analysis!`,
     [handleSend],
   )
 
-  const formatMarketData = useCallback((data: any) => {
+  const formatMarketData = useCallback((data: NonNullable<Message["marketData"]>) => {
     const isPositive = data.change >= 0
     return (
       <Card className="mt-2 bg-gradient-to-r from-blue-50 to-purple-50 border-blue-200">
         <CardContent className="p-3">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-2">
-              <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
               <Activity className="h-4 w-4 text-blue-600" />
               <span className="font-semibold text-gray-800">{data.symbol}</span>
-              <Badge variant="secondary" className="text-xs bg-red-500/20 text-red-600 border-red-500/30">
-                LIVE
-              </Badge>
+              <ProvenanceBadge provenance={data.provenance} className="text-xs" />
             </div>
             <Badge variant={isPositive ? "default" : "destructive"} className="text-xs">
               {isPositive ? <TrendingUp className="h-3 w-3 mr-1" /> : <TrendingDown className="h-3 w-3 mr-1" />}
@@ -370,16 +455,23 @@ Ask me about any stock, sector, or market trend for live analysis!`,
       {/* Header */}
       <div className="flex items-center justify-between p-3 border-b border-white/10">
         <div className="flex items-center space-x-2">
-          <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></div>
-          <span className="text-sm font-medium text-white">Live Market AI</span>
+          <span className="text-sm font-medium text-white">Market AI</span>
+          <Badge variant="secondary" className="bg-purple-500/20 text-purple-300 border-purple-500/30">
+            {baseSymbol}
+          </Badge>
+          {prices.length > 0 && <ProvenanceBadge provenance={dataProvenance} />}
           <Badge className={getConnectionStatusColor()}>
             {isConnected ? <Wifi className="h-3 w-3 mr-1" /> : <WifiOff className="h-3 w-3 mr-1" />}
-            {connectionStatus.toUpperCase()}
+            {connectionStatus.toUpperCase()} · {activeTransport === "stream" ? "STREAM" : "POLL"}
           </Badge>
         </div>
         {lastUpdate && <span className="text-xs text-white/50">{lastUpdate.toLocaleTimeString()}</span>}
       </div>
 
+      {prices.length > 0 && isSimulated(dataProvenance) && !allowSimulatedSignals && (
+        <SimulatedSignalsNotice onAllow={() => setAllowSimulatedSignals(true)} className="m-3 mb-0" />
+      )}
+
       {/* Messages */}
       <ScrollArea ref={scrollAreaRef} className="flex-1 p-3">
         <div className="space-y-4">
@@ -400,7 +492,7 @@ Ask me about any stock, sector, or market trend for live analysis!`,
                 >
                   <div className="text-sm whitespace-pre-wrap">{message.content}</div>
                   {message.marketData && formatMarketData(message.marketData)}
-                  <div className="text-xs opacity-70 mt-1">{message.timestamp.toLocaleTimeString()}</div>
+                  <div className="text-xs opacity-70 mt-1">{message.timestamp > 0 && new Date(message.timestamp).toLocaleTimeString()}</div>
                 </div>
               </div>
             </div>
@@ -409,19 +501,21 @@ Ask me about any stock, sector, or market trend for live analysis!`,
           {/* Quick Questions (only show initially) */}
           {messages.length === 1 && (
             <div className="space-y-2">
-              <div className="text-xs text-white/70 text-center">Live Market Questions:</div>
+              <div className="text-xs text-white/70 text-center">Market Questions:</div>
               <div className="grid grid-cols-1 gap-1">
-                {QUICK_QUESTIONS.map((question, index) => (
-                  <Button
-                    key={index}
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleQuickQuestion(question)}
-                    className="text-xs h-8 bg-white/5 border-white/20 text-white/80 hover:bg-white/10 justify-start"
-                  >
-                    🔴 {question}
-                  </Button>
-                ))}
+                {[`${baseSymbol} outlook`, `${baseSymbol} support and resistance`, ...QUICK_QUESTIONS].map(
+                  (question, index) => (
+                    <Button
+                      key={index}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleQuickQuestion(question)}
+                      className="text-xs h-8 bg-white/5 border-white/20 text-white/80 hover:bg-white/10 justify-start"
+                    >
+                      {question}
+                    </Button>
+                  ),
+                )}
               </div>
             </div>
           )}
@@ -448,7 +542,7 @@ Ask me about any stock, sector, or market trend for live analysis!`,
                         style={{ animationDelay: "0.2s" }}
                       ></div>
                     </div>
-                    <span className="text-xs text-white/70">Analyzing live market data...</span>
+                    <span className="text-xs text-white/70">Analyzing market data...</span>
                   </div>
                 </div>
               </div>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect, useCallback, useMemo } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -20,6 +20,10 @@ import {
   XCircle,
   Globe,
 } from "lucide-react"
+import { ProvenanceBadge } from "@/components/provenance-badge"
+import { useInstrument } from "@/components/instrument-provider"
+import { toBaseSymbol } from "@/lib/market-data/symbols"
+import type { Provenance } from "@/lib/market-data/types"
 
 interface NewsArticle {
   id: string
@@ -32,16 +36,31 @@ interface NewsArticle {
   category: string
   imageUrl?: string
   author?: string
+  provenance: Provenance
+}
+
+// The ticker or company name as a whole word; "Reliance Industries" also matches plain "Reliance"
+function mentionsInstrument(article: NewsArticle, symbol: string, name?: string): boolean {
+  const terms = [toBaseSymbol(symbol)]
+  if (name) {
+    terms.push(name)
+    const firstWord = name.split(/\s+/)[0]
+    if (name.includes(" ") && firstWord.length >= 5) terms.push(firstWord)
+  }
+  const text = `${article.title} ${article.description}`
+  return terms.some((term) => new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "i").test(text))
 }
 
 export function EnhancedNewsPanel() {
+  const { symbol, info } = useInstrument()
   const [articles, setArticles] = useState<NewsArticle[]>([])
-  const [filteredArticles, setFilteredArticles] = useState<NewsArticle[]>([])
+  const [stockOnly, setStockOnly] = useState(false)
   const [loading, setLoading] = useState(false)
   const [selectedCategory, setSelectedCategory] = useState("all")
   const [selectedSentiment, setSelectedSentiment] = useState("all")
   const [metadata, setMetadata] = useState<any>(null)
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null)
+  const [provenance, setProvenance] = useState<Provenance | null>(null)
 
   const fetchNews = useCallback(async () => {
     setLoading(true)
@@ -56,8 +75,8 @@ export function EnhancedNewsPanel() {
 
       if (data.success) {
         setArticles(data.data)
-        setFilteredArticles(data.data)
         setMetadata(data.metadata)
+        setProvenance(data.provenance ?? null)
         setLastUpdate(new Date())
       }
     } catch (error) {
@@ -123,10 +142,16 @@ export function EnhancedNewsPanel() {
     return `${Math.floor(diffInMinutes / 1440)}d ago`
   }
 
+  // Narrowed to the dashboard's instrument when the stock filter is on
+  const filteredArticles = useMemo(
+    () => (stockOnly ? articles.filter((article) => mentionsInstrument(article, symbol, info?.name)) : articles),
+    [articles, stockOnly, symbol, info],
+  )
+
   const sentimentCounts = {
-    positive: articles.filter((a) => a.sentiment === "positive").length,
-    negative: articles.filter((a) => a.sentiment === "negative").length,
-    neutral: articles.filter((a) => a.sentiment === "neutral").length,
+    positive: filteredArticles.filter((a) => a.sentiment === "positive").length,
+    negative: filteredArticles.filter((a) => a.sentiment === "negative").length,
+    neutral: filteredArticles.filter((a) => a.sentiment === "neutral").length,
   }
 
   return (
@@ -136,7 +161,10 @@ export function EnhancedNewsPanel() {
         <div className="flex items-center space-x-2">
           <Newspaper className="h-5 w-5 text-orange-400" />
           <div>
-            <h3 className="font-semibold text-white">Financial News</h3>
+            <h3 className="font-semibold text-white flex items-center">
+              Financial News
+              {articles.length > 0 && <ProvenanceBadge provenance={provenance} className="ml-2" />}
+            </h3>
             <p className="text-xs text-white/70">{lastUpdate && `Updated ${lastUpdate.toLocaleTimeString()}`}</p>
           </div>
         </div>
@@ -188,6 +216,20 @@ export function EnhancedNewsPanel() {
             </SelectItem>
           </SelectContent>
         </Select>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setStockOnly((current) => !current)}
+          aria-pressed={stockOnly}
+          className={`col-span-2 h-7 text-xs ${
+            stockOnly
+              ? "bg-orange-500/20 text-orange-300 border border-orange-500/30"
+              : "text-white/60 hover:text-white"
+          }`}
+        >
+          {stockOnly ? `Showing ${toBaseSymbol(symbol)} news only` : `Only ${toBaseSymbol(symbol)} news`}
+        </Button>
       </div>
 
       {/* Sentiment Overview */}
@@ -276,6 +318,7 @@ export function EnhancedNewsPanel() {
                               {getSentimentIcon(article.sentiment)}
                               <span className="ml-1 capitalize">{article.sentiment}</span>
                             </Badge>
+                            {article.provenance?.kind === "simulated" && <ProvenanceBadge provenance={article.provenance} />}
                           </div>
                         </div>
 
@@ -301,7 +344,7 @@ export function EnhancedNewsPanel() {
         <TabsContent value="positive" className="mt-4">
           <ScrollArea className="h-96">
             <div className="space-y-3">
-              {articles
+              {filteredArticles
                 .filter((article) => article.sentiment === "positive")
                 .map((article) => (
                   <Card
@@ -357,7 +400,7 @@ export function EnhancedNewsPanel() {
         <TabsContent value="negative" className="mt-4">
           <ScrollArea className="h-96">
             <div className="space-y-3">
-              {articles
+              {filteredArticles
                 .filter((article) => article.sentiment === "negative")
                 .map((article) => (
                   <Card
@@ -8,6 +8,9 @@ import { Badge } from "@/components/ui/badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { WatchlistPanel } from "@/components/watchlist-panel"
+import { useWatchlists } from "@/hooks/use-watchlists"
+import { activeWatchlist, MAX_WATCHLIST_SYMBOLS, toggleInWatchlist } from "@/lib/watchlists"
 import { Search, Building2, TrendingUp, Filter, Star, RefreshCw, CheckCircle, Circle, Zap } from "lucide-react"
 
 interface StockData {
@@ -33,7 +36,7 @@ export function EnhancedStockSelector({ selectedStock, onStockSelect, onStockCha
   const [selectedSector, setSelectedSector] = useState("all")
   const [selectedMarketCap, setSelectedMarketCap] = useState("all")
   const [selectedExchange, setSelectedExchange] = useState("all")
-  const [favorites, setFavorites] = useState<string[]>([])
+  const [watchlists, updateWatchlists] = useWatchlists()
   const [metadata, setMetadata] = useState<any>(null)
 
   // Popular stocks for quick access
@@ -114,24 +117,14 @@ export function EnhancedStockSelector({ selectedStock, onStockSelect, onStockCha
     applyFilters()
   }, [applyFilters])
 
-  useEffect(() => {
-    // Load favorites from localStorage
-    const savedFavorites = localStorage.getItem("stock-favorites")
-    if (savedFavorites) {
-      setFavorites(JSON.parse(savedFavorites))
-    }
-  }, [])
-
   const handleStockSelect = (stock: StockData) => {
     onStockSelect(stock.symbol)
     onStockChange(stock)
   }
 
-  const toggleFavorite = (symbol: string) => {
-    const newFavorites = favorites.includes(symbol) ? favorites.filter((fav) => fav !== symbol) : [...favorites, symbol]
-
-    setFavorites(newFavorites)
-    localStorage.setItem("stock-favorites", JSON.stringify(newFavorites))
+  // Stars add to and remove from whichever watchlist is open on the Watchlists tab
+  const toggleWatched = (symbol: string) => {
+    updateWatchlists((current) => toggleInWatchlist(current, current.activeId, symbol))
   }
 
   const clearFilters = () => {
@@ -167,7 +160,8 @@ export function EnhancedStockSelector({ selectedStock, onStockSelect, onStockCha
     return colors[sector as keyof typeof colors] || "bg-gray-500/20 text-gray-400"
   }
 
-  const favoriteStocks = stocks.filter((stock) => favorites.includes(stock.symbol))
+  const watchlist = activeWatchlist(watchlists)
+  const watchlistFull = watchlist.symbols.length >= MAX_WATCHLIST_SYMBOLS
 
   return (
     <div className="space-y-4">
@@ -276,8 +270,8 @@ export function EnhancedStockSelector({ selectedStock, onStockSelect, onStockCha
           <TabsTrigger value="popular" className="text-white data-[state=active]:bg-white/20">
             Popular ({popularStocks.length})
           </TabsTrigger>
-          <TabsTrigger value="favorites" className="text-white data-[state=active]:bg-white/20">
-            Favorites ({favoriteStocks.length})
+          <TabsTrigger value="watchlists" className="text-white data-[state=active]:bg-white/20">
+            Watchlists ({watchlist.symbols.length})
           </TabsTrigger>
         </TabsList>
 
@@ -324,13 +318,21 @@ export function EnhancedStockSelector({ selectedStock, onStockSelect, onStockCha
                               size="sm"
                               onClick={(e) => {
                                 e.stopPropagation()
-                                toggleFavorite(stock.symbol)
+                                toggleWatched(stock.symbol)
                               }}
+                              disabled={watchlistFull && !watchlist.symbols.includes(stock.symbol)}
+                              title={
+                                watchlist.symbols.includes(stock.symbol)
+                                  ? `Remove from ${watchlist.name}`
+                                  : `Add to ${watchlist.name}`
+                              }
                               className="p-0 h-auto hover:bg-transparent"
                             >
                               <Star
                                 className={`h-3 w-3 ${
-                                  favorites.includes(stock.symbol) ? "text-yellow-400 fill-yellow-400" : "text-white/30"
+                                  watchlist.symbols.includes(stock.symbol)
+                                    ? "text-yellow-400 fill-yellow-400"
+                                    : "text-white/30"
                                 }`}
                               />
                             </Button>
@@ -411,55 +413,8 @@ export function EnhancedStockSelector({ selectedStock, onStockSelect, onStockCha
           </ScrollArea>
         </TabsContent>
 
-        <TabsContent value="favorites" className="mt-4">
-          <ScrollArea className="h-96">
-            <div className="space-y-2">
-              {favoriteStocks.length === 0 ? (
-                <div className="text-center py-8 text-white/50">
-                  <Star className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                  <p>No favorite stocks yet</p>
-                  <p className="text-xs mt-1">Click the star icon to add stocks to favorites</p>
-                </div>
-              ) : (
-                favoriteStocks.map((stock) => (
-                  <Card
-                    key={stock.symbol}
-                    className={`cursor-pointer transition-all duration-200 hover:bg-white/10 ${
-                      selectedStock === stock.symbol
-                        ? "bg-blue-500/20 border-blue-500/50"
-                        : "bg-white/5 border-white/10"
-                    }`}
-                    onClick={() => handleStockSelect(stock)}
-                  >
-                    <CardContent className="p-3">
-                      <div className="flex items-center justify-between">
-                        <div className="flex-1">
-                          <div className="flex items-center space-x-2 mb-1">
-                            <Star className="h-4 w-4 text-yellow-400 fill-yellow-400" />
-                            <span className="font-semibold text-white text-sm">{stock.symbol.replace(".NS", "")}</span>
-                          </div>
-                          <p className="text-xs text-white/70 mb-2 line-clamp-1">{stock.name}</p>
-                          <div className="flex items-center space-x-2">
-                            <Badge className={getSectorColor(stock.sector)} variant="secondary">
-                              {stock.sector}
-                            </Badge>
-                            <Badge className={getMarketCapColor(stock.marketCap)} variant="secondary">
-                              {stock.marketCap}
-                            </Badge>
-                          </div>
-                        </div>
-                        <div className="text-right">
-                          <Badge variant="secondary" className="bg-green-500/20 text-green-400 border-green-500/30">
-                            {stock.exchange}
-                          </Badge>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                ))
-              )}
-            </div>
-          </ScrollArea>
+        <TabsContent value="watchlists" className="mt-4">
+          <WatchlistPanel />
         </TabsContent>
       </Tabs>
 
@@ -477,8 +432,8 @@ export function EnhancedStockSelector({ selectedStock, onStockSelect, onStockCha
                 <div className="text-xs text-white/70">Sectors</div>
               </div>
               <div>
-                <div className="text-lg font-bold text-white">{favoriteStocks.length}</div>
-                <div className="text-xs text-white/70">Favorites</div>
+                <div className="text-lg font-bold text-white">{watchlists.lists.length}</div>
+                <div className="text-xs text-white/70">Watchlists</div>
               </div>
               <div>
                 <div className="text-lg font-bold text-white">{filteredStocks.length}</div>
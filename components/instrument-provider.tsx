@@ -0,0 +1,103 @@
+"use client"
+
+import type React from "react"
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react"
+import { isTimeframe } from "@/lib/candles/resample"
+import type { Timeframe } from "@/lib/candles/types"
+import { toYahooSymbol } from "@/lib/market-data/symbols"
+
+// Listing details from the stock selector; not known when the symbol came from the URL or a chart's own picker
+export interface InstrumentInfo {
+  symbol: string
+  name: string
+  sector: string
+  marketCap: string
+  exchange: string
+  industry?: string
+}
+
+interface InstrumentContextValue {
+  symbol: string // Yahoo-style, e.g. "TCS.NS"
+  timeframe: Timeframe
+  info: InstrumentInfo | null
+  selectSymbol: (symbol: string, info?: InstrumentInfo) => void
+  setTimeframe: (timeframe: Timeframe) => void
+}
+
+const DEFAULT_SYMBOL = "RELIANCE.NS"
+const DEFAULT_TIMEFRAME: Timeframe = "1d"
+const SYMBOL_PATTERN = /^\^?[A-Z0-9&._:-]{1,24}$/i
+
+const InstrumentContext = createContext<InstrumentContextValue>({
+  symbol: DEFAULT_SYMBOL,
+  timeframe: DEFAULT_TIMEFRAME,
+  info: null,
+  selectSymbol: () => {},
+  setTimeframe: () => {},
+})
+
+// `?symbol=TCS.NS&tf=1d`; anything malformed is ignored
+function readUrl(): { symbol?: string; timeframe?: Timeframe } {
+  const params = new URLSearchParams(window.location.search)
+  const symbol = params.get("symbol")
+  const timeframe = params.get("tf")
+  return {
+    symbol: symbol && SYMBOL_PATTERN.test(symbol) ? toYahooSymbol(symbol) : undefined,
+    timeframe: timeframe && isTimeframe(timeframe) ? timeframe : undefined,
+  }
+}
+
+// The dashboard's current instrument and timeframe. Every panel reads them from here, so picking a stock once
+// moves the charts, probability engine, news filter and assistant together. Kept in the URL so a view can be shared
+export function InstrumentProvider({ children }: { children: React.ReactNode }) {
+  const [symbol, setSymbol] = useState(DEFAULT_SYMBOL)
+  const [timeframe, setTimeframe] = useState<Timeframe>(DEFAULT_TIMEFRAME)
+  const [info, setInfo] = useState<InstrumentInfo | null>(null)
+  // Server and first client render use the defaults; the URL is read after mounting
+  const [urlRead, setUrlRead] = useState(false)
+
+  useEffect(() => {
+    const apply = () => {
+      const fromUrl = readUrl()
+      if (fromUrl.symbol) {
+        setSymbol(fromUrl.symbol)
+        setInfo((current) => (current?.symbol === fromUrl.symbol ? current : null))
+      }
+      if (fromUrl.timeframe) setTimeframe(fromUrl.timeframe)
+    }
+    apply()
+    setUrlRead(true)
+
+    window.addEventListener("popstate", apply)
+    return () => window.removeEventListener("popstate", apply)
+  }, [])
+
+  // Replaces rather than pushes, so flicking through stocks doesn't fill the back button's history
+  useEffect(() => {
+    if (!urlRead) return
+    const url = new URL(window.location.href)
+    url.searchParams.set("symbol", symbol)
+    url.searchParams.set("tf", timeframe)
+    if (url.href !== window.location.href) window.history.replaceState(window.history.state, "", url)
+  }, [symbol, timeframe, urlRead])
+
+  const selectSymbol = useCallback((next: string, nextInfo?: InstrumentInfo) => {
+    const resolved = toYahooSymbol(next)
+    setSymbol(resolved)
+    setInfo((current) => {
+      if (nextInfo && toYahooSymbol(nextInfo.symbol) === resolved) return nextInfo
+      return current?.symbol === resolved ? current : null
+    })
+  }, [])
+
+  const value = useMemo(
+    () => ({ symbol, timeframe, info, selectSymbol, setTimeframe }),
+    [symbol, timeframe, info, selectSymbol],
+  )
+
+  return <InstrumentContext.Provider value={value}>{children}</InstrumentContext.Provider>
+}
+
+export function useInstrument(): InstrumentContextValue {
+  return useContext(InstrumentContext)
+}
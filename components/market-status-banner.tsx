@@ -0,0 +1,91 @@
+"use client"
+
+import { Clock, Moon } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { useMarketStatus } from "@/hooks/use-market-status"
+import { getLatestSession, MARKET_PHASE_LABELS, type MarketPhase } from "@/lib/market-calendar"
+import { cn } from "@/lib/utils"
+
+const PHASE_STYLES: Record<MarketPhase, string> = {
+  "pre-open": "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  open: "bg-green-500/20 text-green-400 border-green-500/30",
+  "post-close": "bg-orange-500/20 text-orange-400 border-orange-500/30",
+  closed: "bg-gray-500/20 text-gray-400 border-gray-500/30",
+}
+
+const IST_TIME = new Intl.DateTimeFormat("en-IN", {
+  timeZone: "Asia/Kolkata",
+  weekday: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+  hour12: false,
+})
+
+const IST_DATE = new Intl.DateTimeFormat("en-IN", {
+  timeZone: "Asia/Kolkata",
+  weekday: "short",
+  day: "numeric",
+  month: "short",
+})
+
+// "1d 17h", "2h 14m" or "14m 05s"
+function formatCountdown(ms: number): string {
+  const seconds = Math.max(Math.floor(ms / 1000), 0)
+  const days = Math.floor(seconds / 86400)
+  const hours = Math.floor((seconds % 86400) / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`
+}
+
+interface MarketStatusBannerProps {
+  compact?: boolean // Single line for headers, without the end-of-day notice
+  className?: string
+}
+
+// NSE session, countdown to the next open or close, and an end-of-day notice outside trading hours
+export function MarketStatusBanner({ compact = false, className = "" }: MarketStatusBannerProps) {
+  const status = useMarketStatus({ tickInterval: 1000 })
+  const { phase, session, holiday, asOf } = status
+
+  const closing = phase === "open"
+  const target = closing ? status.nextClose : status.nextOpen
+  const countdown = `${closing ? "Closes" : "Opens"} in ${formatCountdown(target - asOf)}`
+  const muhurat = session?.kind === "muhurat" && phase !== "closed"
+  const label = `${muhurat ? "MUHURAT " : ""}${MARKET_PHASE_LABELS[phase]}`
+
+  // Outside the session quotes stop moving; say which session's close they are
+  const lastSession = getLatestSession(asOf)
+  const endOfDay = !compact && (phase === "closed" || phase === "post-close") && lastSession
+
+  return (
+    <div
+      className={cn(
+        "flex flex-wrap items-center gap-x-3 gap-y-1 text-xs",
+        !compact && "rounded-lg border border-white/10 bg-black/20 px-3 py-2",
+        className,
+      )}
+    >
+      <Badge className={PHASE_STYLES[phase]}>NSE {label}</Badge>
+
+      {phase === "closed" && holiday && <span className="opacity-80">{holiday}</span>}
+      {phase === "pre-open" && !compact && <span className="opacity-80">Order entry until 09:08</span>}
+
+      <span className="flex items-center gap-1 opacity-70" suppressHydrationWarning>
+        <Clock className="h-3 w-3" />
+        {countdown}
+        {!compact && <span className="opacity-70">({IST_TIME.format(target)} IST)</span>}
+      </span>
+
+      {endOfDay && (
+        <span className="flex items-center gap-1 opacity-70">
+          <Moon className="h-3 w-3" />
+          End-of-day prices from the {IST_DATE.format(lastSession.open)} session
+          {phase === "post-close" && " (closing prices being finalised)"}
+        </span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ChartPane, ChartPaneSymbolList } from "@/components/chart-pane"
+import { useChartLayout } from "@/hooks/use-chart-layout"
+import {
+  LAYOUT_SIZE_IDS,
+  LAYOUT_SIZES,
+  setLink,
+  setPaneLinked,
+  setPaneSymbol,
+  setPaneTimeframe,
+  type LayoutSize,
+  type LinkedField,
+} from "@/lib/chart-layout"
+import { Columns2, Grid2x2, LayoutGrid, Square, type LucideIcon } from "lucide-react"
+
+const SIZE_ICONS: Record<LayoutSize, LucideIcon> = {
+  1: Square,
+  2: Columns2,
+  4: Grid2x2,
+  6: LayoutGrid,
+}
+
+const LINK_LABELS: Record<LinkedField, string> = {
+  symbol: "Symbol",
+  timeframe: "Timeframe",
+  crosshair: "Crosshair",
+}
+
+// Price pane height per grid, so two rows of six still fit on screen
+const PANE_HEIGHTS: Record<LayoutSize, number> = { 1: 384, 2: 320, 4: 220, 6: 200 }
+
+// Grid of up to six charts. Linked panes share whichever of symbol, timeframe and crosshair time are switched on,
+// e.g. three stocks on one timeframe, or one stock across 5m, 1h and 1d
+export function MultiChartLayout() {
+  const [layout, updateLayout] = useChartLayout()
+  const [crosshair, setCrosshair] = useState<{ paneId: string; time: number } | null>(null)
+  const visible = layout.panes.slice(0, layout.size)
+
+  return (
+    <div className="space-y-3">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          {LAYOUT_SIZE_IDS.map((size) => {
+            const Icon = SIZE_ICONS[size]
+            return (
+              <Button
+                key={size}
+                variant="ghost"
+                size="sm"
+                onClick={() => updateLayout((current) => ({ ...current, size }))}
+                aria-pressed={layout.size === size}
+                title={LAYOUT_SIZES[size].label}
+                className={`h-8 px-2 text-xs ${
+                  layout.size === size
+                    ? "bg-blue-500/20 text-blue-300 border border-blue-500/30"
+                    : "text-white/60 hover:text-white"
+                }`}
+              >
+                <Icon className="h-4 w-4 mr-1" />
+                {size}
+              </Button>
+            )
+          })}
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="mr-1 text-xs text-white/60">Link</span>
+          {(Object.keys(LINK_LABELS) as LinkedField[]).map((field) => (
+            <Button
+              key={field}
+              variant="ghost"
+              size="sm"
+              onClick={() => updateLayout((current) => setLink(current, field, !current.link[field]))}
+              aria-pressed={layout.link[field]}
+              className={`h-7 px-2 text-xs ${
+                layout.link[field]
+                  ? "bg-blue-500/20 text-blue-300 border border-blue-500/30"
+                  : "text-white/60 hover:text-white"
+              }`}
+            >
+              {LINK_LABELS[field]}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {/* Panes */}
+      <div
+        className="grid gap-3"
+        style={{ gridTemplateColumns: `repeat(${LAYOUT_SIZES[layout.size].columns}, minmax(0, 1fr))` }}
+      >
+        {visible.map((pane) => {
+          // A pane only follows crosshairs from other linked panes
+          const sharesCrosshair = layout.link.crosshair && pane.linked
+          return (
+            <ChartPane
+              key={pane.id}
+              symbol={pane.symbol}
+              timeframe={pane.timeframe}
+              linked={pane.linked}
+              height={PANE_HEIGHTS[layout.size]}
+              onSymbolChange={(symbol) => updateLayout((current) => setPaneSymbol(current, pane.id, symbol))}
+              onTimeframeChange={(timeframe) =>
+                updateLayout((current) => setPaneTimeframe(current, pane.id, timeframe))
+              }
+              onLinkedChange={(linked) => updateLayout((current) => setPaneLinked(current, pane.id, linked))}
+              crosshairTime={sharesCrosshair && crosshair && crosshair.paneId !== pane.id ? crosshair.time : null}
+              onCrosshairChange={
+                sharesCrosshair
+                  ? (time) => setCrosshair(time === null ? null : { paneId: pane.id, time })
+                  : undefined
+              }
+            />
+          )
+        })}
+      </div>
+      <ChartPaneSymbolList />
+    </div>
+  )
+}
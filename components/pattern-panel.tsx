@@ -0,0 +1,187 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ProvenanceBadge, SimulatedSignalsNotice } from "@/components/provenance-badge"
+import { useInstrument } from "@/components/instrument-provider"
+import { useSimulatedSignalsOptIn } from "@/hooks/use-simulated-signals"
+import { PATTERNS, type PatternBias, type PatternMatch } from "@/lib/patterns"
+import type { Timeframe } from "@/lib/candles/types"
+import { isSimulated } from "@/lib/market-data/provenance"
+import type { Provenance } from "@/lib/market-data/types"
+import { CheckCircle2, RefreshCw } from "lucide-react"
+
+const TIMEFRAMES: { value: Timeframe; label: string }[] = [
+  { value: "15m", label: "15 Min" },
+  { value: "1h", label: "1 Hour" },
+  { value: "1d", label: "Daily" },
+  { value: "1w", label: "Weekly" },
+]
+
+const BIAS_STYLES: Record<PatternBias, string> = {
+  bullish: "bg-green-500/20 text-green-400 border-green-500/30",
+  bearish: "bg-red-500/20 text-red-400 border-red-500/30",
+  neutral: "bg-slate-500/20 text-slate-300 border-slate-500/30",
+}
+
+// Patterns the detector finds in the dashboard instrument's recent bars, newest first
+export function PatternPanel() {
+  const { symbol } = useInstrument()
+  const [timeframe, setTimeframe] = useState<Timeframe>("1d")
+  const [patterns, setPatterns] = useState<PatternMatch[]>([])
+  const [provenance, setProvenance] = useState<Provenance | null>(null)
+  const [asOf, setAsOf] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  const [allowSimulatedSignals, setAllowSimulatedSignals] = useSimulatedSignalsOptIn()
+  // Patterns carry a bias, so ones found in simulated bars stay hidden unless the user opted in
+  const signalsBlocked = isSimulated(provenance) && !allowSimulatedSignals
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/patterns?symbol=${encodeURIComponent(symbol)}&interval=${timeframe}`, {
+          cache: "no-store",
+        })
+        if (response.status === 429) {
+          const retryAfter = response.headers.get("Retry-After")
+          throw new Error(`Pattern scans are rate limited${retryAfter ? `, retry in ${retryAfter}s` : ""}`)
+        }
+        if (!response.ok) throw new Error(`Patterns API error: ${response.status} ${response.statusText}`)
+
+        const result = await response.json()
+        if (!result.success || !Array.isArray(result.patterns)) throw new Error(result.error || "Invalid pattern data")
+        if (cancelled) return
+
+        setPatterns(result.patterns)
+        setProvenance(result.provenance ?? null)
+        setAsOf(result.asOf ?? 0)
+        setError(null)
+      } catch (err) {
+        if (cancelled) return
+        console.error("Error loading patterns:", err)
+        setPatterns([])
+        setError(err instanceof Error ? err.message : "Failed to load patterns")
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [symbol, timeframe, reloadKey])
+
+  const formatPrice = (price: number) =>
+    `₹${price.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+  // Daily and weekly bars read better as dates; intraday ones as times
+  const formatWhen = (time: number) =>
+    timeframe === "1d" || timeframe === "1w"
+      ? new Date(time).toLocaleDateString("en-IN", { day: "numeric", month: "short" })
+      : new Date(time).toLocaleString("en-IN", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <Badge variant="secondary" className="bg-pink-500/20 text-pink-400 border-pink-500/30">
+            {symbol.replace(/\.(NS|BO)$/, "")}
+          </Badge>
+          <ProvenanceBadge provenance={provenance} />
+        </div>
+        <div className="flex items-center space-x-1">
+          <Select value={timeframe} onValueChange={(value) => setTimeframe(value as Timeframe)}>
+            <SelectTrigger className="h-8 w-24 bg-white/10 border-white/20 text-white text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700">
+              {TIMEFRAMES.map((tf) => (
+                <SelectItem key={tf.value} value={tf.value} className="text-white hover:bg-slate-700">
+                  {tf.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-white/70 hover:text-white"
+            onClick={() => setReloadKey((key) => key + 1)}
+            disabled={loading}
+            title="Scan again"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Matches */}
+      {loading && patterns.length === 0 ? (
+        <div className="flex h-48 items-center justify-center space-x-2 text-sm text-white/70">
+          <RefreshCw className="h-4 w-4 animate-spin" />
+          <span>Scanning {symbol}...</span>
+        </div>
+      ) : signalsBlocked && !error ? (
+        <SimulatedSignalsNotice onAllow={() => setAllowSimulatedSignals(true)} />
+      ) : error || patterns.length === 0 ? (
+        <div className="flex h-48 items-center justify-center text-center text-sm text-white/60">
+          {error ?? "No patterns above 50% confidence in the recent bars"}
+        </div>
+      ) : (
+        <ScrollArea className="h-72 pr-3">
+          <div className="space-y-3">
+            {patterns.map((match) => {
+              const info = PATTERNS[match.pattern]
+              return (
+                <div
+                  key={match.id}
+                  className="rounded-lg border border-pink-500/20 bg-black/20 p-3"
+                  title={info.description}
+                >
+                  <div className="mb-2 flex items-center justify-between gap-2">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-semibold text-white">{info.label}</span>
+                      {match.confirmed && (
+                        <CheckCircle2 className="h-3.5 w-3.5 text-green-400" aria-label="Confirmed breakout" />
+                      )}
+                    </div>
+                    <Badge variant="secondary" className={`text-xs capitalize ${BIAS_STYLES[match.bias]}`}>
+                      {match.bias}
+                    </Badge>
+                  </div>
+                  <div className="mb-2 flex items-center space-x-2">
+                    <Progress value={match.confidence * 100} className="h-1.5 flex-1 bg-white/10" />
+                    <span className="w-9 text-right text-xs text-white/70">{Math.round(match.confidence * 100)}%</span>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-white/60">
+                    <span>
+                      {match.kind === "candlestick" ? "Candlestick" : "Chart pattern"} ·{" "}
+                      {match.endTime === asOf ? "latest bar" : formatWhen(match.endTime)}
+                    </span>
+                    {match.target !== null && <span>Target {formatPrice(match.target)}</span>}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </ScrollArea>
+      )}
+
+      {/* Footer */}
+      <div className="text-xs text-white/50 text-center">
+        Detected from price action only • Not investment advice
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,12 @@ import { useState, useEffect } from "react"
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
 import { TrendingUp, TrendingDown, Activity } from "lucide-react"
+import { ProvenanceBadge, SimulatedSignalsNotice } from "@/components/provenance-badge"
+import { useInstrument } from "@/components/instrument-provider"
+import { useSimulatedSignalsOptIn } from "@/hooks/use-simulated-signals"
+import { createProvenance } from "@/lib/market-data/provenance"
+import { toBaseSymbol } from "@/lib/market-data/symbols"
+import type { Provenance } from "@/lib/market-data/types"
 
 interface ProbabilityData {
   bullish: number
@@ -12,9 +18,12 @@ interface ProbabilityData {
   confidence: number
   signal: "BUY" | "SELL" | "HOLD"
   factors: string[]
+  provenance: Provenance
 }
 
+// Direction probabilities for the dashboard's instrument
 export function ProbabilityCalculator() {
+  const { symbol } = useInstrument()
   const [probability, setProbability] = useState<ProbabilityData>({
     bullish: 65,
     bearish: 25,
@@ -22,9 +31,12 @@ export function ProbabilityCalculator() {
     confidence: 78,
     signal: "BUY",
     factors: ["Strong volume", "RSI oversold", "Support holding"],
+    provenance: createProvenance("simulated"),
   })
 
   const [isUpdating, setIsUpdating] = useState(false)
+  // The engine has no market inputs yet, so its output is simulated and stays hidden unless opted in
+  const [allowSimulatedSignals, setAllowSimulatedSignals] = useSimulatedSignalsOptIn()
 
   const updateProbability = () => {
     setIsUpdating(true)
@@ -61,6 +73,7 @@ export function ProbabilityCalculator() {
         confidence,
         signal,
         factors: selectedFactors,
+        provenance: createProvenance("simulated"),
       })
 
       setIsUpdating(false)
@@ -68,12 +81,16 @@ export function ProbabilityCalculator() {
   }
 
   useEffect(() => {
+    if (!allowSimulatedSignals) return
+
+    // A new instrument gets a fresh reading straight away rather than showing the last one's
+    updateProbability()
     const interval = setInterval(() => {
       updateProbability()
     }, 15000) // Update every 15 seconds
 
     return () => clearInterval(interval)
-  }, [])
+  }, [allowSimulatedSignals, symbol])
 
   const getSignalColor = (signal: string) => {
     switch (signal) {
@@ -97,18 +114,31 @@ export function ProbabilityCalculator() {
     }
   }
 
+  if (!allowSimulatedSignals) {
+    return (
+      <div className="space-y-3">
+        <div className="flex justify-center">
+          <ProvenanceBadge provenance={probability.provenance} />
+        </div>
+        <SimulatedSignalsNotice onAllow={() => setAllowSimulatedSignals(true)} />
+      </div>
+    )
+  }
+
   return (
     <div className="space-y-6">
       {/* Main Signal */}
       <div className="text-center">
         <div className="flex items-center justify-center space-x-2 mb-2">
+          <ProvenanceBadge provenance={probability.provenance} />
           <Badge variant="secondary" className={`${getSignalColor(probability.signal)} text-lg px-4 py-2`}>
             {getSignalIcon(probability.signal)}
             <span className="ml-2 font-bold">{probability.signal}</span>
           </Badge>
         </div>
         <div className="text-sm text-white/70">
-          Confidence: {probability.confidence}%{isUpdating && <span className="ml-2 text-blue-400">Updating...</span>}
+          <span className="font-medium text-white">{toBaseSymbol(symbol)}</span> · Confidence:{" "}
+          {probability.confidence}%{isUpdating && <span className="ml-2 text-blue-400">Updating...</span>}
         </div>
       </div>
 
@@ -163,7 +193,10 @@ export function ProbabilityCalculator() {
 
       {/* Footer */}
       <div className="text-xs text-white/50 text-center border-t border-white/10 pt-3">
-        AI analysis updates every 15 seconds • Based on technical indicators
+        Updates every 15 seconds • Generated from simulated inputs, not market data •{" "}
+        <button className="underline hover:text-white/80" onClick={() => setAllowSimulatedSignals(false)}>
+          Hide simulated signals
+        </button>
       </div>
     </div>
   )
@@ -0,0 +1,58 @@
+"use client"
+
+import { AlertTriangle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import type { Provenance, ProvenanceKind } from "@/lib/market-data/types"
+
+const PROVENANCE_STYLES: Record<ProvenanceKind, { label: string; className: string }> = {
+  live: { label: "LIVE", className: "bg-green-500/20 text-green-400 border-green-500/30" },
+  delayed: { label: "DELAYED", className: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30" },
+  cached: { label: "CACHED", className: "bg-blue-500/20 text-blue-400 border-blue-500/30" },
+  simulated: { label: "SIMULATED", className: "bg-red-500/20 text-red-400 border-red-500/30" },
+}
+
+interface ProvenanceBadgeProps {
+  provenance: Provenance | null | undefined
+  showTime?: boolean
+  className?: string
+}
+
+// Payloads without provenance are shown as simulated
+export function ProvenanceBadge({ provenance, showTime = false, className = "" }: ProvenanceBadgeProps) {
+  const kind = provenance?.kind ?? "simulated"
+  const style = PROVENANCE_STYLES[kind]
+  const asOf = provenance?.asOf ? new Date(provenance.asOf) : null
+
+  return (
+    <Badge
+      className={`${style.className} ${className}`}
+      title={asOf ? `${style.label} data as of ${asOf.toLocaleString("en-IN")}` : `${style.label} data`}
+    >
+      {style.label}
+      {showTime && asOf && <span className="ml-1 font-normal opacity-80">{asOf.toLocaleTimeString("en-IN")}</span>}
+    </Badge>
+  )
+}
+
+interface SimulatedSignalsNoticeProps {
+  onAllow: () => void
+  className?: string
+}
+
+// Shown in place of BUY/SELL output when the underlying data is simulated
+export function SimulatedSignalsNotice({ onAllow, className = "" }: SimulatedSignalsNoticeProps) {
+  return (
+    <div
+      className={`flex items-center justify-between gap-3 rounded-lg border border-red-500/30 bg-red-900/20 p-3 text-sm ${className}`}
+    >
+      <div className="flex items-center space-x-2 text-red-300">
+        <AlertTriangle className="h-4 w-4 shrink-0" />
+        <span>Signals are hidden because this data is simulated, not real market data.</span>
+      </div>
+      <Button variant="ghost" size="sm" onClick={onAllow} className="shrink-0 text-red-300 hover:text-red-200">
+        Show anyway
+      </Button>
+    </div>
+  )
+}
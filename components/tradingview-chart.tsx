@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -19,7 +19,34 @@ import {
   WifiOff,
   AlertTriangle,
 } from "lucide-react"
-import { useLivePrices } from "@/hooks/use-live-prices"
+import { useLivePrices, type LivePrice } from "@/hooks/use-live-prices"
+import { useSimulatedSignalsOptIn } from "@/hooks/use-simulated-signals"
+import { useChartDrawings } from "@/hooks/use-chart-drawings"
+import { CandleChart } from "@/components/candle-chart"
+import { ChartStyleSelect } from "@/components/chart-style-select"
+import { MarketStatusBanner } from "@/components/market-status-banner"
+import { ProvenanceBadge, SimulatedSignalsNotice } from "@/components/provenance-badge"
+import { useInstrument } from "@/components/instrument-provider"
+import { isSimulated } from "@/lib/market-data/provenance"
+import { toBaseSymbol } from "@/lib/market-data/symbols"
+import type { ChartData, Provenance } from "@/lib/market-data/types"
+import type { Timeframe } from "@/lib/candles/types"
+import { drawingsLayer } from "@/lib/drawings"
+import { detectZones, levelsLayer } from "@/lib/levels"
+import { detectPatterns, patternsLayer } from "@/lib/patterns"
+import { CHART_STYLES, type ChartLayer, type ChartPane, type ChartStyle, type ChartView } from "@/lib/chart-engine"
+import {
+  STUDIES,
+  closes,
+  lastValue,
+  macd as computeMACD,
+  rsi as computeRSI,
+  runStudy,
+  sma as computeSMA,
+  type StudyId,
+  type StudyLine,
+  type StudyResult,
+} from "@/lib/indicators"
 
 interface StockData {
   symbol: string
@@ -33,6 +60,7 @@ interface StockData {
   previousClose: number
   companyName: string
   source?: string
+  provenance?: Provenance
 }
 
 interface TechnicalIndicator {
@@ -42,15 +70,6 @@ interface TechnicalIndicator {
   description: string
 }
 
-interface ChartData {
-  timestamp: number
-  open: number
-  high: number
-  low: number
-  close: number
-  volume: number
-}
-
 const POPULAR_STOCKS = [
   { symbol: "RELIANCE.NS", name: "Reliance Industries" },
   { symbol: "TCS.NS", name: "Tata Consultancy Services" },
@@ -64,30 +83,181 @@ const POPULAR_STOCKS = [
   { symbol: "HCLTECH.NS", name: "HCL Technologies" },
 ]
 
-const TIMEFRAMES = [
-  { value: "1d", label: "1 Day" },
-  { value: "5d", label: "5 Days" },
-  { value: "1mo", label: "1 Month" },
-  { value: "3mo", label: "3 Months" },
-  { value: "6mo", label: "6 Months" },
-  { value: "1y", label: "1 Year" },
+// Bar sizes from /api/candles; 3m, 2h, weekly and monthly are resampled on the server from stored bars
+const TIMEFRAMES: { value: Timeframe; label: string }[] = [
+  { value: "1m", label: "1 Min" },
+  { value: "3m", label: "3 Min" },
+  { value: "5m", label: "5 Min" },
+  { value: "15m", label: "15 Min" },
+  { value: "30m", label: "30 Min" },
+  { value: "1h", label: "1 Hour" },
+  { value: "2h", label: "2 Hours" },
+  { value: "1d", label: "Daily" },
+  { value: "1w", label: "Weekly" },
+  { value: "1mo", label: "Monthly" },
+]
+const CHART_BARS = 200
+
+const STUDY_OPTIONS: StudyId[] = [
+  "sma",
+  "ema",
+  "bollinger",
+  "vwap",
+  "supertrend",
+  "rsi",
+  "macd",
+  "stochastic",
+  "atr",
+  "adx",
+  "obv",
 ]
 
+const CHART_HEIGHT = 360
+const PANE_HEIGHT = 90
+
+// Lowest and highest study value over bars first..last, plus any reference levels
+function studyExtent(study: StudyResult, first: number, last: number): [number, number] | null {
+  let min = Number.POSITIVE_INFINITY
+  let max = Number.NEGATIVE_INFINITY
+  for (const line of study.lines) {
+    for (let i = first; i <= last; i++) {
+      const value = line.values[i]
+      if (value === null || value === undefined) continue
+      if (value < min) min = value
+      if (value > max) max = value
+    }
+  }
+  for (const level of study.levels || []) {
+    min = Math.min(min, level)
+    max = Math.max(max, level)
+  }
+  return Number.isFinite(min) && Number.isFinite(max) ? [min, max] : null
+}
+
+// Plot one aligned series over the visible bars; histograms are drawn as bars from `baseY`
+function drawStudyLine(
+  ctx: CanvasRenderingContext2D,
+  line: StudyLine,
+  view: ChartView,
+  toY: (value: number) => number,
+  baseY: number,
+) {
+  const first = Math.max(0, view.first - 1)
+  const last = Math.min(line.values.length - 1, view.last + 1)
+
+  if (line.style === "histogram") {
+    for (let index = first; index <= last; index++) {
+      const value = line.values[index]
+      if (value === null) continue
+      const y = toY(value)
+      ctx.fillStyle = value >= 0 ? "#10b98180" : "#ef444480"
+      ctx.fillRect(view.toX(index) - view.barWidth / 2, Math.min(y, baseY), view.barWidth, Math.abs(baseY - y) || 1)
+    }
+    return
+  }
+
+  ctx.strokeStyle = line.color
+  ctx.lineWidth = 1.5
+  ctx.setLineDash(line.style === "dashed" ? [4, 4] : [])
+  ctx.beginPath()
+  let penDown = false
+  for (let index = first; index <= last; index++) {
+    const value = line.values[index]
+    if (value === null) {
+      penDown = false
+      continue
+    }
+    if (penDown) {
+      ctx.lineTo(view.toX(index), toY(value))
+    } else {
+      ctx.moveTo(view.toX(index), toY(value))
+      penDown = true
+    }
+  }
+  ctx.stroke()
+  ctx.setLineDash([])
+}
+
+// Overlays share the price scale and widen it so bands are never clipped
+function overlayLayer(study: StudyResult): ChartLayer {
+  return {
+    id: study.id,
+    extent: (first, last) => studyExtent(study, first, last),
+    draw: (ctx, view) => {
+      study.lines.forEach((line) => drawStudyLine(ctx, line, view, view.scale.toY, view.plot.bottom))
+    },
+  }
+}
+
+// Sub-pane with its own scale fitted to the visible bars
+function studyPane(study: StudyResult): ChartPane {
+  return {
+    id: study.id,
+    height: PANE_HEIGHT,
+    draw: (ctx, view, area) => {
+      const extent = studyExtent(study, view.first, view.last)
+      if (!extent) return
+
+      const top = area.top + 16
+      const bottom = area.bottom - 6
+      const [paneMin, paneMax] = extent
+      const paneRange = paneMax - paneMin || 1
+      const toPaneY = (value: number) => bottom - ((value - paneMin) / paneRange) * (bottom - top)
+
+      // Reference levels such as RSI 30/70
+      ctx.strokeStyle = "#334155"
+      ctx.lineWidth = 1
+      ctx.setLineDash([2, 4])
+      study.levels?.forEach((level) => {
+        ctx.beginPath()
+        ctx.moveTo(area.left, toPaneY(level))
+        ctx.lineTo(area.right, toPaneY(level))
+        ctx.stroke()
+      })
+      ctx.setLineDash([])
+
+      const zeroY = toPaneY(Math.min(Math.max(0, paneMin), paneMax))
+      study.lines.forEach((line) => drawStudyLine(ctx, line, view, toPaneY, zeroY))
+
+      ctx.fillStyle = "#94a3b8"
+      ctx.font = "11px monospace"
+      ctx.textAlign = "left"
+      ctx.textBaseline = "alphabetic"
+      ctx.fillText(study.label, area.left + 4, area.top + 12)
+    },
+  }
+}
+
+// Charts the dashboard's instrument; picking a stock or timeframe here changes it for every panel
 export function TradingViewChart() {
-  const [selectedStock, setSelectedStock] = useState("RELIANCE.NS")
-  const [selectedTimeframe, setSelectedTimeframe] = useState("1d")
+  const {
+    symbol: selectedStock,
+    timeframe: selectedTimeframe,
+    info: selectedInfo,
+    selectSymbol: setSelectedStock,
+    setTimeframe: setSelectedTimeframe,
+  } = useInstrument()
+  // A stock picked elsewhere on the dashboard may not be in the quick list
+  const stockOptions = POPULAR_STOCKS.some((stock) => stock.symbol === selectedStock)
+    ? POPULAR_STOCKS
+    : [{ symbol: selectedStock, name: selectedInfo?.name ?? toBaseSymbol(selectedStock) }, ...POPULAR_STOCKS]
+  const [chartStyle, setChartStyle] = useState<ChartStyle>("candles")
+  const [boxSize, setBoxSize] = useState<number | undefined>()
+  const { drawings } = useChartDrawings(selectedStock, selectedTimeframe)
+  const [showLevels, setShowLevels] = useState(false)
+  const [showPatterns, setShowPatterns] = useState(false)
   const [stockData, setStockData] = useState<StockData | null>(null)
   const [chartData, setChartData] = useState<ChartData[]>([])
-  const [technicalIndicators, setTechnicalIndicators] = useState<TechnicalIndicator[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [chartSource, setChartSource] = useState<string>("")
-  const chartRef = useRef<HTMLCanvasElement>(null)
+  const [chartProvenance, setChartProvenance] = useState<Provenance | null>(null)
+  const [enabledStudies, setEnabledStudies] = useState<StudyId[]>(["sma", "rsi"])
+  const [allowSimulatedSignals, setAllowSimulatedSignals] = useSimulatedSignalsOptIn()
 
   // Use live prices hook with increased interval to avoid rate limiting
-  const { prices, getPrice, isConnected, connectionStatus, lastUpdate, reconnect } = useLivePrices({
+  const { prices, getPrice, isConnected, connectionStatus, activeTransport, lastUpdate, reconnect } = useLivePrices({
     symbols: [selectedStock],
-    updateInterval: 4000, // Increased to 4 seconds to avoid rate limiting
+    updateInterval: 4000, // Polling fallback interval, kept long to avoid rate limiting
     onPriceUpdate: (symbol, price) => {
       if (symbol === selectedStock) {
         updateStockData(price)
@@ -95,11 +265,11 @@ export function TradingViewChart() {
     },
   })
 
-  const updateStockData = (livePrice: any) => {
-    const company = POPULAR_STOCKS.find((s) => s.symbol === selectedStock)
+  const updateStockData = (livePrice: LivePrice) => {
+    const company = stockOptions.find((s) => s.symbol === selectedStock)
 
     setStockData({
-      symbol: livePrice.symbol.replace(".NS", ""),
+      symbol: livePrice.symbol,
       price: livePrice.price,
       change: livePrice.change,
       changePercent: livePrice.changePercent,
@@ -107,20 +277,21 @@ export function TradingViewChart() {
       high: livePrice.high || livePrice.price * 1.02,
       low: livePrice.low || livePrice.price * 0.98,
       open: livePrice.open || livePrice.price * 0.999,
-      previousClose: livePrice.price - livePrice.change,
+      previousClose: livePrice.previousClose,
       companyName: livePrice.companyName || company?.name || "Company",
       source: livePrice.source,
+      provenance: livePrice.provenance,
     })
   }
 
   // Fetch chart data from API with enhanced error handling
-  const fetchChartData = async (symbol: string, timeframe: string): Promise<ChartData[]> => {
+  const fetchChartData = async (symbol: string, timeframe: Timeframe): Promise<ChartData[]> => {
     try {
       const controller = new AbortController()
       const timeoutId = setTimeout(() => controller.abort(), 15000) // 15 second timeout for chart
 
       const response = await fetch(
-        `/api/yahoo-chart?symbol=${encodeURIComponent(symbol)}&range=${timeframe}&interval=5m`,
+        `/api/candles?symbol=${encodeURIComponent(symbol)}&interval=${timeframe}&limit=${CHART_BARS}`,
         {
           cache: "no-store",
           headers: {
@@ -133,6 +304,11 @@ export function TradingViewChart() {
 
       clearTimeout(timeoutId)
 
+      if (response.status === 429) {
+        const retryAfter = response.headers.get("Retry-After")
+        throw new Error(`Chart requests are rate limited${retryAfter ? `, retry in ${retryAfter}s` : ""}`)
+      }
+
       if (!response.ok) {
         throw new Error(`Chart API error: ${response.status} ${response.statusText}`)
       }
@@ -140,7 +316,7 @@ export function TradingViewChart() {
       const data = await response.json()
 
       if (data.success && data.data && Array.isArray(data.data)) {
-        setChartSource(data.source || "Unknown")
+        setChartProvenance(data.provenance ?? null)
         return data.data
       }
 
@@ -160,186 +336,108 @@ export function TradingViewChart() {
   const calculateTechnicalIndicators = (data: ChartData[]): TechnicalIndicator[] => {
     if (data.length < 20) return []
 
-    const closes = data.map((d) => d.close)
-    const latest = closes[closes.length - 1]
-
-    // Simple Moving Averages
-    const sma20 = closes.slice(-20).reduce((a, b) => a + b, 0) / 20
-    const sma50 = closes.slice(-50).reduce((a, b) => a + b, 0) / Math.min(50, closes.length)
+    const closePrices = closes(data)
+    const latest = closePrices[closePrices.length - 1]
 
-    // RSI calculation
-    const gains = []
-    const losses = []
-    for (let i = 1; i < Math.min(15, closes.length); i++) {
-      const change = closes[closes.length - i] - closes[closes.length - i - 1]
-      if (change > 0) gains.push(change)
-      else losses.push(Math.abs(change))
-    }
-    const avgGain = gains.length ? gains.reduce((a, b) => a + b, 0) / gains.length : 0
-    const avgLoss = losses.length ? losses.reduce((a, b) => a + b, 0) / losses.length : 0
-    const rsi = avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss)
+    const sma20 = lastValue(computeSMA(closePrices, 20))
+    const sma50 = lastValue(computeSMA(closePrices, Math.min(50, closePrices.length)))
+    const rsi = lastValue(computeRSI(closePrices, 14))
+    const macdResult = computeMACD(closePrices, 12, 26, 9)
+    const macd = lastValue(macdResult.macd)
+    const macdSignal = lastValue(macdResult.signal)
+    const histogram = lastValue(macdResult.histogram)
 
-    // MACD
-    const ema12 = closes.slice(-12).reduce((a, b) => a + b, 0) / Math.min(12, closes.length)
-    const ema26 = closes.slice(-26).reduce((a, b) => a + b, 0) / Math.min(26, closes.length)
-    const macd = ema12 - ema26
+    const indicators: TechnicalIndicator[] = []
 
-    return [
-      {
+    if (rsi !== null) {
+      indicators.push({
         name: "RSI (14)",
         value: rsi,
         signal: rsi > 70 ? "SELL" : rsi < 30 ? "BUY" : "NEUTRAL",
         description: rsi > 70 ? "Overbought" : rsi < 30 ? "Oversold" : "Neutral zone",
-      },
-      {
+      })
+    }
+
+    if (sma20 !== null) {
+      indicators.push({
         name: "SMA 20",
         value: sma20,
         signal: latest > sma20 ? "BUY" : "SELL",
         description: latest > sma20 ? "Price above SMA" : "Price below SMA",
-      },
-      {
+      })
+    }
+
+    if (sma50 !== null) {
+      indicators.push({
         name: "SMA 50",
         value: sma50,
         signal: latest > sma50 ? "BUY" : "SELL",
         description: latest > sma50 ? "Bullish trend" : "Bearish trend",
-      },
-      {
-        name: "MACD",
-        value: macd,
-        signal: macd > 0 ? "BUY" : "SELL",
-        description: macd > 0 ? "Bullish momentum" : "Bearish momentum",
-      },
-    ]
-  }
-
-  // Draw advanced chart
-  const drawChart = () => {
-    const canvas = chartRef.current
-    if (!canvas || chartData.length === 0) return
-
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
-
-    const rect = canvas.getBoundingClientRect()
-    canvas.width = rect.width * window.devicePixelRatio
-    canvas.height = rect.height * window.devicePixelRatio
-    ctx.scale(window.devicePixelRatio, window.devicePixelRatio)
-
-    const width = rect.width
-    const height = rect.height
-    const padding = 40
-
-    // Clear canvas
-    ctx.fillStyle = "#0f172a"
-    ctx.fillRect(0, 0, width, height)
-
-    // Calculate price range
-    const prices = chartData.flatMap((d) => [d.high, d.low])
-    const minPrice = Math.min(...prices)
-    const maxPrice = Math.max(...prices)
-    const priceRange = maxPrice - minPrice
-
-    if (priceRange === 0) return // Avoid division by zero
-
-    // Draw grid
-    ctx.strokeStyle = "#1e293b"
-    ctx.lineWidth = 1
-    for (let i = 0; i <= 10; i++) {
-      const y = padding + (i * (height - 2 * padding)) / 10
-      ctx.beginPath()
-      ctx.moveTo(padding, y)
-      ctx.lineTo(width - padding, y)
-      ctx.stroke()
-    }
-
-    for (let i = 0; i <= 10; i++) {
-      const x = padding + (i * (width - 2 * padding)) / 10
-      ctx.beginPath()
-      ctx.moveTo(x, padding)
-      ctx.lineTo(x, height - padding)
-      ctx.stroke()
+      })
     }
 
-    // Draw candlesticks
-    const candleWidth = Math.max(2, (width - 2 * padding) / chartData.length - 2)
-
-    chartData.forEach((candle, index) => {
-      const x = padding + (index * (width - 2 * padding)) / (chartData.length - 1)
-      const openY = height - padding - ((candle.open - minPrice) / priceRange) * (height - 2 * padding)
-      const closeY = height - padding - ((candle.close - minPrice) / priceRange) * (height - 2 * padding)
-      const highY = height - padding - ((candle.high - minPrice) / priceRange) * (height - 2 * padding)
-      const lowY = height - padding - ((candle.low - minPrice) / priceRange) * (height - 2 * padding)
-
-      const isGreen = candle.close > candle.open
-
-      // Draw wick
-      ctx.strokeStyle = isGreen ? "#10b981" : "#ef4444"
-      ctx.lineWidth = 1
-      ctx.beginPath()
-      ctx.moveTo(x, highY)
-      ctx.lineTo(x, lowY)
-      ctx.stroke()
-
-      // Draw body
-      ctx.fillStyle = isGreen ? "#10b981" : "#ef4444"
-      const bodyHeight = Math.abs(closeY - openY) || 1
-      const bodyY = Math.min(openY, closeY)
-      ctx.fillRect(x - candleWidth / 2, bodyY, candleWidth, bodyHeight)
-    })
-
-    // Draw SMA lines
-    if (technicalIndicators.length > 0) {
-      const sma20 = technicalIndicators.find((i) => i.name === "SMA 20")?.value
-      const sma50 = technicalIndicators.find((i) => i.name === "SMA 50")?.value
-
-      if (sma20 && sma20 >= minPrice && sma20 <= maxPrice) {
-        const sma20Y = height - padding - ((sma20 - minPrice) / priceRange) * (height - 2 * padding)
-        ctx.strokeStyle = "#3b82f6"
-        ctx.lineWidth = 2
-        ctx.setLineDash([5, 5])
-        ctx.beginPath()
-        ctx.moveTo(padding, sma20Y)
-        ctx.lineTo(width - padding, sma20Y)
-        ctx.stroke()
-        ctx.setLineDash([])
-      }
-
-      if (sma50 && sma50 >= minPrice && sma50 <= maxPrice) {
-        const sma50Y = height - padding - ((sma50 - minPrice) / priceRange) * (height - 2 * padding)
-        ctx.strokeStyle = "#f59e0b"
-        ctx.lineWidth = 2
-        ctx.setLineDash([10, 5])
-        ctx.beginPath()
-        ctx.moveTo(padding, sma50Y)
-        ctx.lineTo(width - padding, sma50Y)
-        ctx.stroke()
-        ctx.setLineDash([])
-      }
+    if (macd !== null) {
+      indicators.push({
+        name: "MACD (12, 26, 9)",
+        value: macd,
+        signal: histogram === null ? "NEUTRAL" : histogram > 0 ? "BUY" : "SELL",
+        description:
+          macdSignal === null
+            ? "Signal line warming up"
+            : macd > macdSignal
+              ? "MACD above signal line"
+              : "MACD below signal line",
+      })
     }
 
-    // Draw price labels
-    ctx.fillStyle = "#94a3b8"
-    ctx.font = "12px monospace"
-    for (let i = 0; i <= 5; i++) {
-      const price = minPrice + (i * priceRange) / 5
-      const y = height - padding - (i * (height - 2 * padding)) / 5
-      ctx.fillText(`₹${price.toFixed(0)}`, 5, y + 4)
-    }
+    return indicators
+  }
 
-    // Draw volume bars
-    const volumeHeight = 60
-    const maxVolume = Math.max(...chartData.map((d) => d.volume))
+  // BUY/SELL signals are only computed from real data unless the user opted in to simulated signals
+  const signalsBlocked = isSimulated(chartProvenance) && !allowSimulatedSignals
+  const technicalIndicators = useMemo(
+    () => (signalsBlocked ? [] : calculateTechnicalIndicators(chartData)),
+    [chartData, signalsBlocked],
+  )
 
-    if (maxVolume > 0) {
-      chartData.forEach((candle, index) => {
-        const x = padding + (index * (width - 2 * padding)) / (chartData.length - 1)
-        const volumeBarHeight = (candle.volume / maxVolume) * volumeHeight
-        const isGreen = candle.close > candle.open
+  const overallSignal = useMemo((): TechnicalIndicator["signal"] => {
+    const buys = technicalIndicators.filter((indicator) => indicator.signal === "BUY").length
+    const sells = technicalIndicators.filter((indicator) => indicator.signal === "SELL").length
+    if (buys > sells) return "BUY"
+    if (sells > buys) return "SELL"
+    return "NEUTRAL"
+  }, [technicalIndicators])
+
+  // Overlay and sub-pane study output for the enabled studies
+  const studyResults = useMemo(
+    () => enabledStudies.map((id) => runStudy(chartData, { id, params: STUDIES[id].defaultParams })),
+    [chartData, enabledStudies],
+  )
+  const timeBasedStyle = CHART_STYLES[chartStyle].timeBased
+  const overlayStudies = timeBasedStyle ? studyResults.filter((study) => study.placement === "overlay") : []
+  const studyLayers = useMemo(
+    () => studyResults.filter((study) => study.placement === "overlay").map(overlayLayer),
+    [studyResults],
+  )
+  const studyPanes = useMemo(
+    () => studyResults.filter((study) => study.placement === "pane").map(studyPane),
+    [studyResults],
+  )
+  const levelZones = useMemo(() => (showLevels ? detectZones(chartData) : []), [showLevels, chartData])
+  const patterns = useMemo(() => (showPatterns ? detectPatterns(chartData) : []), [showPatterns, chartData])
+  // Zones, patterns and drawings are anchored to price and time, so unlike studies they fit every chart style
+  const chartLayers = useMemo(
+    () => [
+      levelsLayer(levelZones),
+      ...(timeBasedStyle ? studyLayers : []),
+      patternsLayer(patterns),
+      drawingsLayer(drawings),
+    ],
+    [levelZones, timeBasedStyle, studyLayers, patterns, drawings],
+  )
 
-        ctx.fillStyle = isGreen ? "#10b98150" : "#ef444450"
-        ctx.fillRect(x - candleWidth / 2, height - volumeHeight, candleWidth, volumeBarHeight)
-      })
-    }
+  const toggleStudy = (id: StudyId) => {
+    setEnabledStudies((current) => (current.includes(id) ? current.filter((s) => s !== id) : [...current, id]))
   }
 
   useEffect(() => {
@@ -352,8 +450,6 @@ export function TradingViewChart() {
         .then((data) => {
           if (data.length > 0) {
             setChartData(data)
-            const indicators = calculateTechnicalIndicators(data)
-            setTechnicalIndicators(indicators)
           } else {
             setError("No chart data available")
           }
@@ -368,10 +464,6 @@ export function TradingViewChart() {
     }
   }, [selectedStock, selectedTimeframe])
 
-  useEffect(() => {
-    drawChart()
-  }, [chartData, technicalIndicators])
-
   const formatPrice = (price: number) => {
     return `₹${price.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
   }
@@ -411,16 +503,6 @@ export function TradingViewChart() {
     }
   }
 
-  const getSourceBadgeColor = (source: string) => {
-    if (source?.includes("Yahoo Finance API")) {
-      return "bg-green-500/20 text-green-400 border-green-500/30"
-    } else if (source?.includes("Simulation")) {
-      return "bg-yellow-500/20 text-yellow-400 border-yellow-500/30"
-    } else {
-      return "bg-blue-500/20 text-blue-400 border-blue-500/30"
-    }
-  }
-
   return (
     <div className="space-y-4">
       {/* Controls */}
@@ -431,7 +513,7 @@ export function TradingViewChart() {
               <SelectValue placeholder="Select a stock" />
             </SelectTrigger>
             <SelectContent className="bg-slate-800 border-slate-700">
-              {POPULAR_STOCKS.map((stock) => (
+              {stockOptions.map((stock) => (
                 <SelectItem key={stock.symbol} value={stock.symbol} className="text-white hover:bg-slate-700">
                   {stock.name}
                 </SelectItem>
@@ -439,7 +521,7 @@ export function TradingViewChart() {
             </SelectContent>
           </Select>
 
-          <Select value={selectedTimeframe} onValueChange={setSelectedTimeframe}>
+          <Select value={selectedTimeframe} onValueChange={(value) => setSelectedTimeframe(value as Timeframe)}>
             <SelectTrigger className="w-32 bg-white/10 border-white/20 text-white">
               <SelectValue />
             </SelectTrigger>
@@ -451,20 +533,23 @@ export function TradingViewChart() {
               ))}
             </SelectContent>
           </Select>
+
+          <ChartStyleSelect
+            value={chartStyle}
+            onValueChange={setChartStyle}
+            boxSize={boxSize}
+            onBoxSizeChange={setBoxSize}
+            theme="dark"
+          />
         </div>
 
         <div className="flex items-center space-x-2">
           <Badge className={getConnectionStatusColor()}>
             {isConnected ? <Wifi className="h-3 w-3 mr-1" /> : <WifiOff className="h-3 w-3 mr-1" />}
-            {connectionStatus.toUpperCase()}
+            {connectionStatus.toUpperCase()} · {activeTransport === "stream" ? "STREAM" : "POLL"}
           </Badge>
 
-          {stockData?.source && (
-            <Badge className={getSourceBadgeColor(stockData.source)}>
-              <Activity className="h-3 w-3 mr-1 animate-pulse" />
-              {stockData.source.includes("API") ? "LIVE API" : "SIMULATION"}
-            </Badge>
-          )}
+          {stockData && <ProvenanceBadge provenance={stockData.provenance} />}
 
           {lastUpdate && <span className="text-xs text-white/50">Updated: {lastUpdate.toLocaleTimeString()}</span>}
 
@@ -480,6 +565,8 @@ export function TradingViewChart() {
         </div>
       </div>
 
+      <MarketStatusBanner className="text-white" />
+
       {/* Live Price Ticker */}
       {stockData && (
         <Card className="bg-gradient-to-r from-green-900/20 to-blue-900/20 border-green-500/20">
@@ -488,12 +575,7 @@ export function TradingViewChart() {
               <div>
                 <h3 className="text-lg font-bold text-white flex items-center">
                   {stockData.companyName}
-                  <Badge className="ml-2 bg-red-500/20 text-red-400 border-red-500/30 animate-pulse">LIVE</Badge>
-                  {stockData.source && (
-                    <Badge className={`ml-2 ${getSourceBadgeColor(stockData.source)}`}>
-                      {stockData.source.includes("API") ? "API" : "SIM"}
-                    </Badge>
-                  )}
+                  <ProvenanceBadge provenance={stockData.provenance} showTime className="ml-2" />
                 </h3>
                 <p className="text-sm text-white/70">{stockData.symbol}</p>
               </div>
@@ -559,8 +641,6 @@ export function TradingViewChart() {
                       .then((data) => {
                         if (data.length > 0) {
                           setChartData(data)
-                          const indicators = calculateTechnicalIndicators(data)
-                          setTechnicalIndicators(indicators)
                         }
                       })
                       .catch((err) => {
@@ -593,11 +673,7 @@ export function TradingViewChart() {
                 <Eye className="h-3 w-3 mr-1" />
                 Real-time Analysis
               </Badge>
-              {chartSource && (
-                <Badge className={getSourceBadgeColor(chartSource)}>
-                  {chartSource.includes("API") ? "API DATA" : "SIMULATED"}
-                </Badge>
-              )}
+              {chartData.length > 0 && <ProvenanceBadge provenance={chartProvenance} showTime />}
             </div>
           </CardTitle>
         </CardHeader>
@@ -617,6 +693,47 @@ export function TradingViewChart() {
 
             <TabsContent value="chart" className="mt-4">
               <div className="space-y-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  {STUDY_OPTIONS.map((id) => (
+                    <Button
+                      key={id}
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => toggleStudy(id)}
+                      className={`h-7 px-2 text-xs ${
+                        enabledStudies.includes(id)
+                          ? "bg-blue-500/20 text-blue-300 border border-blue-500/30"
+                          : "text-white/60 hover:text-white"
+                      }`}
+                    >
+                      {STUDIES[id].name}
+                    </Button>
+                  ))}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowLevels((current) => !current)}
+                    className={`h-7 px-2 text-xs ${
+                      showLevels
+                        ? "bg-amber-500/20 text-amber-300 border border-amber-500/30"
+                        : "text-white/60 hover:text-white"
+                    }`}
+                  >
+                    S/R Zones
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowPatterns((current) => !current)}
+                    className={`h-7 px-2 text-xs ${
+                      showPatterns
+                        ? "bg-pink-500/20 text-pink-300 border border-pink-500/30"
+                        : "text-white/60 hover:text-white"
+                    }`}
+                  >
+                    Patterns
+                  </Button>
+                </div>
                 {loading ? (
                   <div className="w-full h-96 bg-gradient-to-br from-slate-800/50 to-slate-900/50 rounded-lg border border-white/10 flex items-center justify-center">
                     <div className="flex items-center space-x-2 text-white/70">
@@ -625,20 +742,26 @@ export function TradingViewChart() {
                     </div>
                   </div>
                 ) : (
-                  <canvas
-                    ref={chartRef}
-                    className="w-full h-96 bg-gradient-to-br from-slate-800/50 to-slate-900/50 rounded-lg border border-white/10"
+                  <CandleChart
+                    data={chartData}
+                    height={CHART_HEIGHT}
+                    chartStyle={chartStyle}
+                    boxSize={boxSize}
+                    // Studies are per source bar, so they only line up with styles that keep one bar per bar
+                    layers={chartLayers}
+                    panes={timeBasedStyle ? studyPanes : undefined}
+                    resetKey={`${selectedStock}:${selectedTimeframe}`}
+                    formatPrice={formatPrice}
+                    className="border border-white/10"
                   />
                 )}
-                <div className="flex items-center justify-center space-x-6 text-xs text-white/70">
-                  <div className="flex items-center space-x-2">
-                    <div className="w-3 h-1 bg-blue-500"></div>
-                    <span>SMA 20</span>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <div className="w-3 h-1 bg-yellow-500"></div>
-                    <span>SMA 50</span>
-                  </div>
+                <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2 text-xs text-white/70">
+                  {overlayStudies.map((study) => (
+                    <div key={study.id} className="flex items-center space-x-2">
+                      <div className="w-3 h-1" style={{ backgroundColor: study.lines[0]?.color }}></div>
+                      <span>{study.label}</span>
+                    </div>
+                  ))}
                   <div className="flex items-center space-x-2">
                     <div className="w-3 h-3 bg-green-500"></div>
                     <span>Bullish Candle</span>
@@ -656,6 +779,9 @@ export function TradingViewChart() {
             </TabsContent>
 
             <TabsContent value="indicators" className="mt-4">
+              {signalsBlocked && (
+                <SimulatedSignalsNotice onAllow={() => setAllowSimulatedSignals(true)} className="mb-4" />
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 {technicalIndicators.map((indicator, index) => (
                   <Card key={index} className="bg-white/5 border-white/10">
@@ -681,6 +807,7 @@ export function TradingViewChart() {
 
             <TabsContent value="analysis" className="mt-4">
               <div className="space-y-4">
+                {signalsBlocked && <SimulatedSignalsNotice onAllow={() => setAllowSimulatedSignals(true)} />}
                 <Card className="bg-gradient-to-r from-blue-900/30 to-purple-900/30 border-blue-500/20">
                   <CardContent className="p-4">
                     <div className="flex items-center space-x-2 mb-3">
@@ -691,10 +818,18 @@ export function TradingViewChart() {
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                       <div className="text-center">
                         <p className="text-xs text-white/70">Overall Signal</p>
-                        <Badge className="mt-1 bg-green-500/20 text-green-400 border-green-500/30">
-                          <TrendingUp className="h-3 w-3 mr-1" />
-                          BULLISH
-                        </Badge>
+                        {signalsBlocked ? (
+                          <p className="mt-1 text-sm font-bold text-white/50">N/A</p>
+                        ) : (
+                          <Badge className={`mt-1 ${getSignalColor(overallSignal)}`}>
+                            {overallSignal === "SELL" ? (
+                              <TrendingDown className="h-3 w-3 mr-1" />
+                            ) : (
+                              <TrendingUp className="h-3 w-3 mr-1" />
+                            )}
+                            {overallSignal === "BUY" ? "BULLISH" : overallSignal === "SELL" ? "BEARISH" : "NEUTRAL"}
+                          </Badge>
+                        )}
                       </div>
                       <div className="text-center">
                         <p className="text-xs text-white/70">Live Support</p>
@@ -723,13 +858,15 @@ export function TradingViewChart() {
                       <p>🔴 Enhanced rate limiting protection to avoid API blocks</p>
                       <p>📊 Real-time technical indicators with automatic recalculation</p>
                       <p>📈 Dynamic support/resistance levels based on live price action</p>
-                      <p>⚡ Intelligent fallback to simulation when APIs are unavailable</p>
+                      <p>⚡ Simulated data is always labelled, and signals stay off for it unless you opt in</p>
                       <p>🎯 Live volume analysis with institutional flow detection</p>
                       <p>🛡️ Built-in error handling and retry mechanisms</p>
-                      <p className="text-green-400">
-                        💡 Current recommendation:{" "}
-                        {stockData && stockData.changePercent > 0 ? "HOLD/BUY on dips" : "WAIT for reversal"}
-                      </p>
+                      {!signalsBlocked && (
+                        <p className="text-green-400">
+                          💡 Current recommendation:{" "}
+                          {stockData && stockData.changePercent > 0 ? "HOLD/BUY on dips" : "WAIT for reversal"}
+                        </p>
+                      )}
                       {stockData?.source && <p className="text-blue-400">📡 Data Source: {stockData.source}</p>}
                     </div>
                   </CardContent>
@@ -0,0 +1,395 @@
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { ProvenanceBadge } from "@/components/provenance-badge"
+import { useInstrument } from "@/components/instrument-provider"
+import { useLivePrices } from "@/hooks/use-live-prices"
+import { useWatchlists } from "@/hooks/use-watchlists"
+import { weakestProvenance } from "@/lib/market-data/provenance"
+import { toBaseSymbol } from "@/lib/market-data/symbols"
+import {
+  activeWatchlist,
+  addToWatchlist,
+  createWatchlist,
+  deleteWatchlist,
+  importIntoWatchlist,
+  MAX_WATCHLIST_SYMBOLS,
+  MAX_WATCHLISTS,
+  moveWatchlist,
+  nextSort,
+  removeFromWatchlist,
+  renameWatchlist,
+  setActiveWatchlist,
+  sortWatchlistRows,
+  symbolsFromCsv,
+  WATCHLIST_COLUMN_IDS,
+  WATCHLIST_COLUMNS,
+  watchlistToCsv,
+  yearRangePosition,
+  type WatchlistRow,
+  type WatchlistSort,
+} from "@/lib/watchlists"
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Pencil,
+  Plus,
+  Star,
+  Trash2,
+  Upload,
+  X,
+} from "lucide-react"
+
+const formatPrice = (price: number) =>
+  price.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+const formatVolume = (volume: number) =>
+  volume.toLocaleString("en-IN", { notation: "compact", maximumFractionDigits: 1 })
+
+// Filled bar from 0 (low) to 100 (high) with the value as a tick
+function RangeBar({ position, title }: { position: number | null; title: string }) {
+  if (position === null) return <span className="text-white/40">—</span>
+  return (
+    <div className="h-1.5 w-full min-w-12 rounded-full bg-white/10" title={title}>
+      <div className="relative h-full rounded-full bg-blue-500/50" style={{ width: `${position}%` }}>
+        <div className="absolute -right-0.5 -top-0.5 h-2.5 w-1 rounded-sm bg-blue-300" />
+      </div>
+    </div>
+  )
+}
+
+// Named watchlists shown as live tables. Lists are saved in the browser; the active one's symbols are quoted
+// together in one batch, and a row click makes that stock the dashboard's instrument
+export function WatchlistPanel() {
+  const { symbol: selectedSymbol, selectSymbol } = useInstrument()
+  const [state, update] = useWatchlists()
+  const list = activeWatchlist(state)
+  const [sort, setSort] = useState<WatchlistSort | null>(null)
+  const [newSymbol, setNewSymbol] = useState("")
+  const [renaming, setRenaming] = useState<string | null>(null)
+  const [importMessage, setImportMessage] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const { prices, lastUpdate } = useLivePrices({ symbols: list.symbols, updateInterval: 5000 })
+
+  const rows = useMemo<WatchlistRow[]>(
+    () => list.symbols.map((symbol) => ({ symbol, quote: prices.get(symbol) ?? null })),
+    [list.symbols, prices],
+  )
+  const sortedRows = useMemo(() => sortWatchlistRows(rows, sort), [rows, sort])
+  const provenance = useMemo(
+    () => weakestProvenance(Array.from(prices.values(), (quote) => quote.provenance)),
+    [prices],
+  )
+  const isFull = list.symbols.length >= MAX_WATCHLIST_SYMBOLS
+
+  const addSymbol = () => {
+    if (newSymbol.trim()) update((current) => addToWatchlist(current, list.id, newSymbol))
+    setNewSymbol("")
+  }
+
+  const finishRename = () => {
+    if (renaming !== null) update((current) => renameWatchlist(current, list.id, renaming))
+    setRenaming(null)
+  }
+
+  const exportCsv = () => {
+    const blob = new Blob([watchlistToCsv(sortedRows)], { type: "text/csv" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${list.name.replace(/[^\w-]+/g, "-").toLowerCase() || "watchlist"}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const importCsv = async (file: File) => {
+    const symbols = symbolsFromCsv(await file.text())
+    if (symbols.length === 0) {
+      setImportMessage(`No symbols found in ${file.name}`)
+      return
+    }
+    const before = list.symbols.length
+    update((current) => importIntoWatchlist(current, list.id, symbols))
+    const room = MAX_WATCHLIST_SYMBOLS - before
+    setImportMessage(
+      symbols.length > room
+        ? `Imported up to the ${MAX_WATCHLIST_SYMBOLS}-symbol limit from ${file.name}`
+        : `Imported ${symbols.length} symbols from ${file.name}`,
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* List tabs */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        {state.lists.map((item) => (
+          <Button
+            key={item.id}
+            variant="ghost"
+            size="sm"
+            onClick={() => update((current) => setActiveWatchlist(current, item.id))}
+            className={`h-7 px-2.5 text-xs ${
+              item.id === list.id ? "bg-white/20 text-white" : "text-white/60 hover:text-white hover:bg-white/10"
+            }`}
+          >
+            {item.name} <span className="ml-1 text-white/40">{item.symbols.length}</span>
+          </Button>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => update((current) => createWatchlist(current, ""))}
+          disabled={state.lists.length >= MAX_WATCHLISTS}
+          title="New watchlist"
+          className="h-7 w-7 p-0 text-white/60 hover:text-white hover:bg-white/10"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      {/* List actions */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        {renaming !== null ? (
+          <form
+            onSubmit={(event) => {
+              event.preventDefault()
+              finishRename()
+            }}
+          >
+            <Input
+              autoFocus
+              value={renaming}
+              onChange={(event) => setRenaming(event.target.value)}
+              onBlur={finishRename}
+              onKeyDown={(event) => event.key === "Escape" && setRenaming(null)}
+              className="h-7 w-40 bg-white/10 border-white/20 px-2 text-xs text-white"
+            />
+          </form>
+        ) : (
+          <span className="text-sm font-medium text-white">{list.name}</span>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setRenaming(list.name)}
+          title="Rename"
+          className="h-7 w-7 p-0 text-white/60 hover:text-white"
+        >
+          <Pencil className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => update((current) => moveWatchlist(current, list.id, -1))}
+          disabled={state.lists[0].id === list.id}
+          title="Move left"
+          className="h-7 w-7 p-0 text-white/60 hover:text-white"
+        >
+          <ChevronLeft className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => update((current) => moveWatchlist(current, list.id, 1))}
+          disabled={state.lists[state.lists.length - 1].id === list.id}
+          title="Move right"
+          className="h-7 w-7 p-0 text-white/60 hover:text-white"
+        >
+          <ChevronRight className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            const message =
+              state.lists.length === 1 ? `Remove every symbol from "${list.name}"?` : `Delete "${list.name}"?`
+            if (window.confirm(message)) update((current) => deleteWatchlist(current, list.id))
+          }}
+          title={state.lists.length === 1 ? "Clear list" : "Delete list"}
+          className="h-7 w-7 p-0 text-white/60 hover:text-red-400"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+
+        <div className="ml-auto flex items-center gap-1.5">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              if (file) importCsv(file)
+              event.target.value = ""
+            }}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isFull}
+            className="h-7 border-white/20 bg-transparent px-2 text-xs text-white/70 hover:text-white hover:bg-white/10"
+          >
+            <Upload className="h-3.5 w-3.5 mr-1" />
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={exportCsv}
+            disabled={list.symbols.length === 0}
+            className="h-7 border-white/20 bg-transparent px-2 text-xs text-white/70 hover:text-white hover:bg-white/10"
+          >
+            <Download className="h-3.5 w-3.5 mr-1" />
+            Export
+          </Button>
+        </div>
+      </div>
+
+      {importMessage && (
+        <div className="flex items-center justify-between rounded bg-white/5 px-2 py-1 text-xs text-white/70">
+          <span>{importMessage}</span>
+          <button onClick={() => setImportMessage(null)} className="text-white/50 hover:text-white">
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      {/* Add symbol */}
+      <form
+        onSubmit={(event) => {
+          event.preventDefault()
+          addSymbol()
+        }}
+        className="flex items-center gap-2"
+      >
+        <Input
+          value={newSymbol}
+          onChange={(event) => setNewSymbol(event.target.value.toUpperCase())}
+          placeholder={isFull ? `Lists hold up to ${MAX_WATCHLIST_SYMBOLS} symbols` : "Add symbol, e.g. TCS"}
+          disabled={isFull}
+          className="h-8 bg-white/10 border-white/20 text-sm text-white placeholder:text-white/50"
+        />
+        <Button type="submit" size="sm" disabled={isFull || !newSymbol.trim()} className="h-8">
+          Add
+        </Button>
+      </form>
+
+      {/* Table */}
+      {list.symbols.length === 0 ? (
+        <div className="text-center py-8 text-white/50">
+          <Star className="h-12 w-12 mx-auto mb-2 opacity-50" />
+          <p>This watchlist is empty</p>
+          <p className="text-xs mt-1">Add a symbol above, star a stock in the list, or import a CSV</p>
+        </div>
+      ) : (
+        <ScrollArea className="h-96">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-slate-900">
+              <tr className="border-b border-white/10 text-white/60">
+                {WATCHLIST_COLUMN_IDS.map((column) => {
+                  const info = WATCHLIST_COLUMNS[column]
+                  const active = sort?.column === column
+                  return (
+                    <th
+                      key={column}
+                      className={`px-2 py-1.5 font-medium ${info.numeric ? "text-right" : "text-left"}`}
+                      aria-sort={active ? (sort.direction === "asc" ? "ascending" : "descending") : "none"}
+                    >
+                      <button
+                        onClick={() => setSort((current) => nextSort(current, column))}
+                        className={`inline-flex items-center gap-0.5 hover:text-white ${active ? "text-white" : ""}`}
+                      >
+                        {info.label}
+                        {active && sort.direction === "asc" && <ArrowUp className="h-3 w-3" />}
+                        {active && sort.direction === "desc" && <ArrowDown className="h-3 w-3" />}
+                      </button>
+                    </th>
+                  )
+                })}
+                <th className="w-6" />
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map(({ symbol, quote }) => {
+                const yearPosition = quote ? yearRangePosition(quote) : null
+                return (
+                  <tr
+                    key={symbol}
+                    onClick={() => selectSymbol(symbol)}
+                    className={`cursor-pointer border-b border-white/5 hover:bg-white/10 ${
+                      symbol === selectedSymbol ? "bg-blue-500/20" : ""
+                    }`}
+                  >
+                    <td className="px-2 py-1.5 font-semibold text-white">
+                      {toBaseSymbol(symbol)}
+                      {quote && (
+                        <div className="max-w-32 truncate font-normal text-white/50">{quote.companyName}</div>
+                      )}
+                    </td>
+                    <td className="px-2 py-1.5 text-right text-white">
+                      {quote ? `₹${formatPrice(quote.price)}` : "—"}
+                    </td>
+                    <td
+                      className={`px-2 py-1.5 text-right ${
+                        !quote ? "text-white/40" : quote.changePercent >= 0 ? "text-green-400" : "text-red-400"
+                      }`}
+                    >
+                      {quote ? `${quote.changePercent >= 0 ? "+" : ""}${quote.changePercent.toFixed(2)}%` : "—"}
+                    </td>
+                    <td className="px-2 py-1.5 text-right text-white/70">
+                      {quote ? `${formatPrice(quote.low)} – ${formatPrice(quote.high)}` : "—"}
+                    </td>
+                    <td className="px-2 py-1.5 text-right text-white/70">
+                      {quote ? formatVolume(quote.volume) : "—"}
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <RangeBar
+                        position={yearPosition}
+                        title={
+                          quote?.yearLow !== undefined && quote.yearHigh !== undefined && yearPosition !== null
+                            ? `52W ${formatPrice(quote.yearLow)} – ${formatPrice(quote.yearHigh)} ` +
+                              `(${yearPosition.toFixed(0)}%)`
+                            : "52-week range unavailable"
+                        }
+                      />
+                    </td>
+                    <td className="px-1 py-1.5 text-right">
+                      <button
+                        onClick={(event) => {
+                          event.stopPropagation()
+                          update((current) => removeFromWatchlist(current, list.id, symbol))
+                        }}
+                        title="Remove from list"
+                        className="text-white/30 hover:text-red-400"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </ScrollArea>
+      )}
+
+      {list.symbols.length > 0 && (
+        <div className="flex items-center justify-between text-xs text-white/50">
+          <span>
+            {list.symbols.length} of {MAX_WATCHLIST_SYMBOLS} symbols
+            {lastUpdate && ` • Updated ${lastUpdate.toLocaleTimeString("en-IN")}`}
+          </span>
+          {prices.size > 0 && <ProvenanceBadge provenance={provenance} />}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { useWorkspaceSync, type WorkspaceSyncStatus } from "@/hooks/use-workspace-sync"
+import { Cloud, CloudOff, RefreshCw } from "lucide-react"
+
+const STATUS_STYLES: Record<WorkspaceSyncStatus, { label: string; className: string }> = {
+  idle: { label: "Sync", className: "text-white/50" },
+  syncing: { label: "Syncing", className: "text-blue-400" },
+  synced: { label: "Synced", className: "text-green-400" },
+  error: { label: "Sync failed", className: "text-red-400" },
+  offline: { label: "Offline", className: "text-yellow-400" },
+}
+
+// Header control for workspace sync. Clicking shows this browser's sync id and lets another one be entered, which
+// is how watchlists, layouts, drawings and chat follow a user to another browser
+export function WorkspaceSyncStatus() {
+  const { userId, status, lastSynced, switchUser, syncNow } = useWorkspaceSync()
+  const style = STATUS_STYLES[status]
+
+  const changeId = () => {
+    if (!userId) return
+    const next = window.prompt(
+      "Your sync id is below. Enter the id from another browser to use its workspace here " +
+        "(this browser's watchlists, layouts, drawings and chat are replaced by that workspace's).",
+      userId,
+    )
+    if (next === null || next.trim() === userId) {
+      syncNow()
+      return
+    }
+    if (!switchUser(next.trim())) window.alert("Sync ids are 8-64 letters, digits, dashes or underscores.")
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={changeId}
+      disabled={!userId}
+      title={lastSynced ? `Workspace last synced ${lastSynced.toLocaleTimeString("en-IN")}` : "Workspace sync"}
+      className={`h-7 px-2 text-xs hover:bg-white/10 ${style.className}`}
+    >
+      {status === "syncing" ? (
+        <RefreshCw className="h-3.5 w-3.5 mr-1 animate-spin" />
+      ) : status === "error" || status === "offline" ? (
+        <CloudOff className="h-3.5 w-3.5 mr-1" />
+      ) : (
+        <Cloud className="h-3.5 w-3.5 mr-1" />
+      )}
+      {style.label}
+    </Button>
+  )
+}
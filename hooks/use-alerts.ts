@@ -0,0 +1,182 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { toast } from "@/hooks/use-toast"
+import { parseAlertRule } from "@/lib/alerts/conditions"
+import type { AlertEvent, AlertRule, AlertRuleState } from "@/lib/alerts/types"
+import { toBaseSymbol } from "@/lib/market-data/symbols"
+import { getWorkspaceUserId } from "@/lib/workspace/local"
+
+export type AlertRuleWithState = AlertRule & AlertRuleState
+
+export type AlertRuleChanges = Partial<
+  Pick<AlertRule, "enabled" | "repeat" | "cooldownMinutes" | "expiresAt" | "note" | "condition">
+>
+
+type ApiRule = AlertRule & Partial<AlertRuleState>
+
+const withState = (rule: ApiRule): AlertRuleWithState => ({
+  ...rule,
+  lastTriggeredAt: rule.lastTriggeredAt ?? null,
+  triggerCount: rule.triggerCount ?? 0,
+})
+
+const failed = (title: string, error: unknown) => {
+  console.error(`${title}:`, error)
+  toast({
+    title,
+    description: error instanceof Error ? error.message : "Please try again",
+    variant: "destructive",
+  })
+}
+
+// The user's alert rules and event log from /api/alerts. Edits show at once and are rolled back if the server
+// refuses them; firings arrive over /api/alerts/stream and pop up as toasts while the app is open
+export function useAlerts() {
+  const [userId, setUserId] = useState<string | null>(null)
+  const [rules, setRules] = useState<AlertRuleWithState[]>([])
+  const [events, setEvents] = useState<AlertEvent[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isConnected, setIsConnected] = useState(false)
+  const rulesRef = useRef(rules)
+  rulesRef.current = rules
+
+  useEffect(() => setUserId(getWorkspaceUserId()), [])
+
+  const request = useCallback(
+    async (path: string, init?: RequestInit) => {
+      if (!userId) throw new Error("Alerts aren't ready yet")
+      const separator = path.includes("?") ? "&" : "?"
+      const response = await fetch(`${path}${separator}userId=${encodeURIComponent(userId)}`, {
+        cache: "no-store",
+        ...init,
+        headers: init?.body ? { "Content-Type": "application/json" } : undefined,
+      })
+      const data = await response.json().catch(() => null)
+      if (!response.ok || !data?.success) throw new Error(data?.error || `HTTP ${response.status}`)
+      return data
+    },
+    [userId],
+  )
+
+  // Server copies replace local ones but keep the firing history the list already shows
+  const adoptRules = useCallback((next: ApiRule[]) => {
+    const current = new Map(rulesRef.current.map((rule) => [rule.id, rule]))
+    setRules(
+      next.map((rule) =>
+        withState({
+          lastTriggeredAt: current.get(rule.id)?.lastTriggeredAt,
+          triggerCount: current.get(rule.id)?.triggerCount,
+          ...rule,
+        }),
+      ),
+    )
+  }, [])
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await request("/api/alerts")
+      setRules((data.rules as ApiRule[]).map(withState))
+      setEvents(data.events as AlertEvent[])
+    } catch (error) {
+      console.error("Error loading alerts:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [request])
+
+  useEffect(() => {
+    if (!userId) return
+    refresh()
+
+    // Firings from before this point are already in the loaded log
+    const source = new EventSource(`/api/alerts/stream?userId=${encodeURIComponent(userId)}&since=${Date.now()}`)
+    const seen = new Set<string>()
+
+    source.addEventListener("ready", () => setIsConnected(true))
+    source.addEventListener("alert", (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as AlertEvent
+      // A reconnect replays from the original `since`
+      if (seen.has(event.id)) return
+      seen.add(event.id)
+
+      toast({ title: `Alert: ${toBaseSymbol(event.symbol)}`, description: event.message })
+      setEvents((current) => [event, ...current.filter((existing) => existing.id !== event.id)])
+      // One-shot rules switch themselves off and repeating ones start cooling down
+      refresh()
+    })
+    source.onerror = () => setIsConnected(false)
+
+    return () => {
+      source.close()
+      setIsConnected(false)
+    }
+  }, [userId, refresh])
+
+  const createRule = useCallback(
+    async (input: Omit<AlertRule, "id" | "createdAt" | "enabled">): Promise<boolean> => {
+      const parsed = parseAlertRule(input)
+      if ("error" in parsed) {
+        failed("Couldn't create alert", new Error(parsed.error))
+        return false
+      }
+
+      setRules((current) => [...current, withState(parsed.rule)])
+      try {
+        const data = await request("/api/alerts", { method: "POST", body: JSON.stringify({ rule: parsed.rule }) })
+        adoptRules(data.rules)
+        return true
+      } catch (error) {
+        setRules((current) => current.filter((rule) => rule.id !== parsed.rule.id))
+        failed("Couldn't create alert", error)
+        return false
+      }
+    },
+    [request, adoptRules],
+  )
+
+  const updateRule = useCallback(
+    async (id: string, changes: AlertRuleChanges) => {
+      const previous = rulesRef.current.find((rule) => rule.id === id)
+      if (!previous) return
+
+      setRules((current) => current.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)))
+      try {
+        const data = await request("/api/alerts", { method: "PATCH", body: JSON.stringify({ id, changes }) })
+        adoptRules(data.rules)
+      } catch (error) {
+        setRules((current) => current.map((rule) => (rule.id === id ? previous : rule)))
+        failed("Couldn't update alert", error)
+      }
+    },
+    [request, adoptRules],
+  )
+
+  const deleteRule = useCallback(
+    async (id: string) => {
+      const before = rulesRef.current
+      setRules((current) => current.filter((rule) => rule.id !== id))
+      try {
+        const data = await request(`/api/alerts?id=${encodeURIComponent(id)}`, { method: "DELETE" })
+        adoptRules(data.rules)
+      } catch (error) {
+        setRules(before)
+        failed("Couldn't delete alert", error)
+      }
+    },
+    [request, adoptRules],
+  )
+
+  const clearEvents = useCallback(async () => {
+    const before = events
+    setEvents([])
+    try {
+      await request("/api/alerts/events", { method: "DELETE" })
+    } catch (error) {
+      setEvents(before)
+      failed("Couldn't clear the alert log", error)
+    }
+  }, [request, events])
+
+  return { rules, events, isLoading, isConnected, createRule, updateRule, deleteRule, clearEvents, refresh }
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useMarketStatus } from "@/hooks/use-market-status"
+import type { Timeframe } from "@/lib/candles/types"
+import type { ChartData, Provenance } from "@/lib/market-data/types"
+
+// Intraday bars change every minute; longer ones only need an occasional look for the forming bar
+function refreshInterval(timeframe: Timeframe): number {
+  return timeframe === "1d" || timeframe === "1w" || timeframe === "1mo" ? 5 * 60 * 1000 : 60 * 1000
+}
+
+// The latest `limit` candles for a symbol from /api/candles, refreshed while the market is open. A failed
+// refresh keeps the bars already loaded
+export function useCandles(symbol: string, timeframe: Timeframe, limit: number) {
+  const [data, setData] = useState<ChartData[]>([])
+  const [provenance, setProvenance] = useState<Provenance | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const marketClosed = useMarketStatus().phase === "closed"
+
+  useEffect(() => {
+    let cancelled = false
+
+    const load = async (initial: boolean) => {
+      if (initial) setLoading(true)
+      try {
+        const response = await fetch(
+          `/api/candles?symbol=${encodeURIComponent(symbol)}&interval=${timeframe}&limit=${limit}`,
+          { cache: "no-store" },
+        )
+        if (response.status === 429) {
+          const retryAfter = response.headers.get("Retry-After")
+          throw new Error(`Chart requests are rate limited${retryAfter ? `, retry in ${retryAfter}s` : ""}`)
+        }
+        if (!response.ok) throw new Error(`Chart API error: ${response.status} ${response.statusText}`)
+
+        const result = await response.json()
+        if (!result.success || !Array.isArray(result.data)) throw new Error(result.error || "Invalid chart data format")
+        if (cancelled) return
+
+        setData(result.data)
+        setProvenance(result.provenance ?? null)
+        setError(result.data.length === 0 ? "No chart data available" : null)
+      } catch (err) {
+        if (cancelled) return
+        console.error(`Error loading ${symbol} ${timeframe} candles:`, err)
+        if (initial) setData([])
+        setError(err instanceof Error ? err.message : "Failed to load chart data")
+      } finally {
+        if (!cancelled && initial) setLoading(false)
+      }
+    }
+
+    load(true)
+    // Nothing changes while the market is shut, so only refresh during a session
+    const interval = marketClosed ? null : setInterval(() => load(false), refreshInterval(timeframe))
+    return () => {
+      cancelled = true
+      if (interval) clearInterval(interval)
+    }
+  }, [symbol, timeframe, limit, marketClosed])
+
+  return { data, provenance, loading, error }
+}
@@ -0,0 +1,50 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  DRAWINGS_CHANGE_EVENT,
+  drawingsKey,
+  drawingsStorageKey,
+  loadDrawings,
+  saveDrawings,
+  type Drawing,
+} from "@/lib/drawings"
+
+// Saved drawings for one symbol and timeframe. Every chart showing that pair reads the same entry, so a drawing
+// made on one appears on the others, including in other tabs
+export function useChartDrawings(symbol: string, timeframe: string) {
+  const key = drawingsKey(symbol, timeframe)
+  const [drawings, setDrawings] = useState<Drawing[]>([])
+
+  useEffect(() => {
+    const read = () => setDrawings(loadDrawings(key))
+    read()
+
+    const handleChange = (event: Event) => {
+      if ((event as CustomEvent<{ key: string }>).detail?.key === key) read()
+    }
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === drawingsStorageKey(key)) read()
+    }
+
+    window.addEventListener(DRAWINGS_CHANGE_EVENT, handleChange)
+    window.addEventListener("storage", handleStorage)
+    return () => {
+      window.removeEventListener(DRAWINGS_CHANGE_EVENT, handleChange)
+      window.removeEventListener("storage", handleStorage)
+    }
+  }, [key])
+
+  // Always applied to what's stored, so a chart can't overwrite another's newer drawings with a stale copy
+  const update = useCallback(
+    (change: (current: Drawing[]) => Drawing[]) => saveDrawings(key, change(loadDrawings(key))),
+    [key],
+  )
+
+  const add = useCallback((drawing: Drawing) => update((current) => [...current, drawing]), [update])
+  const remove = useCallback((id: string) => update((current) => current.filter((d) => d.id !== id)), [update])
+  const undo = useCallback(() => update((current) => current.slice(0, -1)), [update])
+  const clear = useCallback(() => update(() => []), [update])
+
+  return { drawings, add, remove, undo, clear }
+}
@@ -0,0 +1,37 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  defaultLayout,
+  LAYOUT_CHANGE_EVENT,
+  LAYOUT_STORAGE_KEY,
+  loadLayout,
+  saveLayout,
+  type ChartLayout,
+} from "@/lib/chart-layout"
+
+// The saved multi-chart layout, kept in step across panels and tabs. Starts from the default so server and
+// client renders match, then picks up what's stored
+export function useChartLayout(): [ChartLayout, (change: (current: ChartLayout) => ChartLayout) => void] {
+  const [layout, setLayout] = useState<ChartLayout>(defaultLayout)
+
+  useEffect(() => {
+    const read = () => setLayout(loadLayout())
+    read()
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === LAYOUT_STORAGE_KEY) read()
+    }
+    window.addEventListener(LAYOUT_CHANGE_EVENT, read)
+    window.addEventListener("storage", handleStorage)
+    return () => {
+      window.removeEventListener(LAYOUT_CHANGE_EVENT, read)
+      window.removeEventListener("storage", handleStorage)
+    }
+  }, [])
+
+  // Applied to what's stored, like drawings, so two panels can't overwrite each other with stale copies
+  const update = useCallback((change: (current: ChartLayout) => ChartLayout) => saveLayout(change(loadLayout())), [])
+
+  return [layout, update]
+}
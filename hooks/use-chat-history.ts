@@ -0,0 +1,35 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  CHAT_HISTORY_CHANGE_EVENT,
+  CHAT_HISTORY_STORAGE_KEY,
+  loadChatHistory,
+  saveChatHistory,
+  type ChatMessage,
+} from "@/lib/chat-history"
+
+// The assistant's saved conversation, so it survives reloads and follows the workspace to other browsers
+export function useChatHistory() {
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+
+  useEffect(() => {
+    const read = () => setMessages(loadChatHistory())
+    read()
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === CHAT_HISTORY_STORAGE_KEY) read()
+    }
+    window.addEventListener(CHAT_HISTORY_CHANGE_EVENT, read)
+    window.addEventListener("storage", handleStorage)
+    return () => {
+      window.removeEventListener(CHAT_HISTORY_CHANGE_EVENT, read)
+      window.removeEventListener("storage", handleStorage)
+    }
+  }, [])
+
+  const append = useCallback((message: ChatMessage) => saveChatHistory([...loadChatHistory(), message]), [])
+  const clear = useCallback(() => saveChatHistory([]), [])
+
+  return { messages, append, clear }
+}
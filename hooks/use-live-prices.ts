@@ -1,24 +1,24 @@
 "use client"
 
-import { useState, useEffect, useRef, useCallback } from "react"
-
-interface LivePrice {
-  symbol: string
-  price: number
-  change: number
-  changePercent: number
-  volume: number
-  high: number
-  low: number
-  open: number
-  companyName: string
-  source: string
-}
+import { useState, useEffect, useRef, useCallback, useMemo } from "react"
+import type { MarketPhase } from "@/lib/market-calendar"
+import type { Quote } from "@/lib/market-data/types"
+import { useMarketStatus } from "@/hooks/use-market-status"
+import { useQuoteStream } from "@/hooks/use-quote-stream"
+
+export type LivePrice = Quote
+
+export type PriceTransport = "poll" | "stream"
 
 interface UseLivePricesOptions {
   symbols: string[]
   updateInterval?: number
   onPriceUpdate?: (symbol: string, price: LivePrice) => void
+  // "poll" requests /api/quotes every updateInterval; "stream" listens to /api/stream/quotes;
+  // "auto" prefers the stream and falls back to polling while the stream is unavailable
+  transport?: PriceTransport | "auto"
+  // Fetch once and stop polling while the exchange is closed; the stream pauses server-side
+  pauseWhenClosed?: boolean
 }
 
 interface UseLivePricesReturn {
@@ -26,63 +26,78 @@ interface UseLivePricesReturn {
   getPrice: (symbol: string) => LivePrice | null
   isConnected: boolean
   connectionStatus: "connected" | "connecting" | "disconnected" | "error"
+  activeTransport: PriceTransport
   lastUpdate: Date | null
+  marketPhase: MarketPhase
   reconnect: () => void
 }
 
+// How long "auto" stays on polling before trying the stream again
+const STREAM_RETRY_DELAY = 60000
+
 export function useLivePrices({
   symbols,
   updateInterval = 2000,
   onPriceUpdate,
+  transport = "auto",
+  pauseWhenClosed = true,
 }: UseLivePricesOptions): UseLivePricesReturn {
   const [prices, setPrices] = useState<Map<string, LivePrice>>(new Map())
   const [isConnected, setIsConnected] = useState(false)
   const [connectionStatus, setConnectionStatus] = useState<"connected" | "connecting" | "disconnected" | "error">(
     "disconnected",
   )
+  const [activeTransport, setActiveTransport] = useState<PriceTransport>(transport === "poll" ? "poll" : "stream")
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null)
+  const { phase: marketPhase } = useMarketStatus()
+  const paused = pauseWhenClosed && marketPhase === "closed"
 
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
+  const streamRetryRef = useRef<NodeJS.Timeout | null>(null)
   const isComponentMountedRef = useRef(true)
   const lastFetchTimeRef = useRef<number>(0)
 
-  const fetchPriceData = useCallback(async (symbol: string): Promise<LivePrice | null> => {
-    try {
-      const response = await fetch(`/api/yahoo-quote?symbol=${encodeURIComponent(symbol)}`, {
-        cache: "no-store",
-        headers: {
-          "Cache-Control": "no-cache",
-        },
-      })
+  // Callers usually pass inline arrays and callbacks; key off their contents so timers aren't reset every render
+  const symbolsKey = symbols.join(",")
+  const stableSymbols = useMemo(() => (symbolsKey ? symbolsKey.split(",") : []), [symbolsKey])
+  const onPriceUpdateRef = useRef(onPriceUpdate)
+  onPriceUpdateRef.current = onPriceUpdate
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`)
-      }
+  useEffect(() => {
+    setActiveTransport(transport === "poll" ? "poll" : "stream")
+  }, [transport])
 
-      const data = await response.json()
-
-      if (data.success && data.data) {
-        return {
-          symbol: data.data.symbol,
-          price: data.data.price,
-          change: data.data.change,
-          changePercent: data.data.changePercent,
-          volume: data.data.volume,
-          high: data.data.high,
-          low: data.data.low,
-          open: data.data.open,
-          companyName: data.data.companyName,
-          source: data.data.source,
-        }
-      }
+  // One /api/quotes round trip for every symbol; keys come back upper-cased
+  const fetchPriceBatch = useCallback(async (batchSymbols: string[]): Promise<Map<string, LivePrice>> => {
+    const result = new Map<string, LivePrice>()
+    if (batchSymbols.length === 0) return result
 
-      return null
-    } catch (error) {
-      console.error(`Error fetching price for ${symbol}:`, error)
-      return null
+    const response = await fetch(`/api/quotes?symbols=${encodeURIComponent(batchSymbols.join(","))}`, {
+      cache: "no-store",
+      headers: {
+        "Cache-Control": "no-cache",
+      },
+    })
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
     }
+
+    const data = await response.json()
+
+    batchSymbols.forEach((symbol) => {
+      const quote = data.data?.[symbol.toUpperCase()]
+      if (quote) {
+        result.set(symbol, quote as Quote)
+      } else if (data.errors?.[symbol.toUpperCase()]) {
+        console.error(`Error fetching price for ${symbol}:`, data.errors[symbol.toUpperCase()])
+      }
+    })
+
+    return result
   }, [])
 
+  // One polling cycle covers every symbol
   const updatePrices = useCallback(async () => {
     // Prevent multiple simultaneous fetches
     const now = Date.now()
@@ -96,23 +111,11 @@ export function useLivePrices({
     setConnectionStatus("connecting")
 
     try {
-      const pricePromises = symbols.map((symbol) => fetchPriceData(symbol))
-      const results = await Promise.allSettled(pricePromises)
-
-      const newPrices = new Map<string, LivePrice>()
-      let successCount = 0
-
-      results.forEach((result, index) => {
-        if (result.status === "fulfilled" && result.value) {
-          const price = result.value
-          newPrices.set(symbols[index], price)
-          successCount++
-
-          // Call onPriceUpdate callback
-          if (onPriceUpdate) {
-            onPriceUpdate(symbols[index], price)
-          }
-        }
+      const newPrices = await fetchPriceBatch(stableSymbols)
+      const successCount = newPrices.size
+
+      newPrices.forEach((price, symbol) => {
+        onPriceUpdateRef.current?.(symbol, price)
       })
 
       if (isComponentMountedRef.current) {
@@ -134,15 +137,77 @@ export function useLivePrices({
         setConnectionStatus("error")
       }
     }
-  }, [symbols, fetchPriceData, onPriceUpdate])
+  }, [stableSymbols, fetchPriceBatch])
+
+  // Stream ticks arrive upper-cased; map them back to the symbol the caller asked for
+  const handleStreamQuote = useCallback(
+    (streamSymbol: string, quote: LivePrice) => {
+      const symbol = stableSymbols.find((s) => s.toUpperCase() === streamSymbol) || streamSymbol
+      setPrices((current) => new Map(current).set(symbol, quote))
+      setLastUpdate(new Date())
+      onPriceUpdateRef.current?.(symbol, quote)
+    },
+    [stableSymbols],
+  )
+
+  // In "auto" mode a failed stream drops to polling and is retried later
+  const handleStreamError = useCallback(() => {
+    if (transport !== "auto") return
+
+    console.warn("Quote stream unavailable, falling back to polling")
+    setActiveTransport("poll")
+
+    if (streamRetryRef.current) clearTimeout(streamRetryRef.current)
+    streamRetryRef.current = setTimeout(() => {
+      if (isComponentMountedRef.current) {
+        setActiveTransport("stream")
+      }
+    }, STREAM_RETRY_DELAY)
+  }, [transport])
+
+  const stream = useQuoteStream({
+    symbols: stableSymbols,
+    enabled: activeTransport === "stream",
+    onQuote: handleStreamQuote,
+    onError: handleStreamError,
+  })
+
+  useEffect(() => {
+    if (activeTransport !== "stream") return
+    setConnectionStatus(stream.status)
+    setIsConnected(stream.status === "connected")
+  }, [activeTransport, stream.status])
+
+  // Browsers without EventSource can only poll
+  useEffect(() => {
+    if (activeTransport === "stream" && typeof EventSource === "undefined") {
+      if (transport === "auto") {
+        setActiveTransport("poll")
+      } else {
+        setConnectionStatus("error")
+      }
+    }
+  }, [activeTransport, transport])
 
   const reconnect = useCallback(() => {
+    if (transport === "auto" && activeTransport === "poll") {
+      // Manual reconnect in auto mode tries the stream again right away
+      if (streamRetryRef.current) clearTimeout(streamRetryRef.current)
+      setActiveTransport("stream")
+      return
+    }
+    if (activeTransport === "stream") {
+      stream.reconnect()
+      return
+    }
     if (intervalRef.current) {
       clearInterval(intervalRef.current)
     }
     updatePrices()
-    intervalRef.current = setInterval(updatePrices, updateInterval)
-  }, [updatePrices, updateInterval])
+    if (!paused) {
+      intervalRef.current = setInterval(updatePrices, updateInterval)
+    }
+  }, [transport, activeTransport, stream.reconnect, updatePrices, updateInterval, paused])
 
   const getPrice = useCallback(
     (symbol: string): LivePrice | null => {
@@ -153,12 +218,19 @@ export function useLivePrices({
 
   useEffect(() => {
     isComponentMountedRef.current = true
+    if (activeTransport !== "poll") {
+      return () => {
+        isComponentMountedRef.current = false
+      }
+    }
 
     // Initial fetch
     updatePrices()
 
-    // Set up interval
-    intervalRef.current = setInterval(updatePrices, updateInterval)
+    // Set up interval; a closed market keeps the last prices until the next phase change re-runs this
+    if (!paused) {
+      intervalRef.current = setInterval(updatePrices, updateInterval)
+    }
 
     // Cleanup function
     return () => {
@@ -168,14 +240,22 @@ export function useLivePrices({
         intervalRef.current = null
       }
     }
-  }, [updatePrices, updateInterval])
+  }, [activeTransport, updatePrices, updateInterval, paused])
+
+  useEffect(() => {
+    return () => {
+      if (streamRetryRef.current) clearTimeout(streamRetryRef.current)
+    }
+  }, [])
 
   return {
     prices,
     getPrice,
     isConnected,
     connectionStatus,
+    activeTransport,
     lastUpdate,
+    marketPhase,
     reconnect,
   }
 }
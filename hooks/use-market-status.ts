@@ -0,0 +1,34 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { getMarketStatus, type MarketStatus } from "@/lib/market-calendar"
+
+interface UseMarketStatusOptions {
+  // Re-evaluate this often as well, for callers that show a countdown; otherwise only at phase changes
+  tickInterval?: number
+}
+
+// Longest a timer waits for the next phase change, so a sleeping tab or clock change is caught up soon after
+const MAX_WAIT = 60 * 60 * 1000
+
+// NSE/BSE session state from the trading calendar, updated when the phase changes
+export function useMarketStatus({ tickInterval }: UseMarketStatusOptions = {}): MarketStatus {
+  const [status, setStatus] = useState<MarketStatus>(() => getMarketStatus())
+
+  useEffect(() => {
+    let timer: NodeJS.Timeout
+
+    const schedule = () => {
+      const next = getMarketStatus()
+      setStatus(next)
+
+      const untilChange = Math.max(next.nextChange.at - Date.now(), 0) + 50
+      timer = setTimeout(schedule, Math.min(untilChange, tickInterval ?? MAX_WAIT, MAX_WAIT))
+    }
+
+    schedule()
+    return () => clearTimeout(timer)
+  }, [tickInterval])
+
+  return status
+}
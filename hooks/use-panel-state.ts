@@ -0,0 +1,28 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { loadPanels, PANELS_CHANGE_EVENT, PANELS_STORAGE_KEY, savePanels } from "@/lib/panels"
+
+// Whether a collapsible dashboard card is open. Remembered per panel id, and synced with the workspace
+export function usePanelState(id: string, initial = false): [boolean, (open: boolean) => void] {
+  const [open, setOpen] = useState(initial)
+
+  useEffect(() => {
+    const read = () => setOpen(loadPanels()[id] ?? initial)
+    read()
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === PANELS_STORAGE_KEY) read()
+    }
+    window.addEventListener(PANELS_CHANGE_EVENT, read)
+    window.addEventListener("storage", handleStorage)
+    return () => {
+      window.removeEventListener(PANELS_CHANGE_EVENT, read)
+      window.removeEventListener("storage", handleStorage)
+    }
+  }, [id, initial])
+
+  const update = useCallback((next: boolean) => savePanels({ ...loadPanels(), [id]: next }), [id])
+
+  return [open, update]
+}
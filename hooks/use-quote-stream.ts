@@ -0,0 +1,170 @@
+"use client"
+
+import { useEffect, useRef, useState, useCallback } from "react"
+import type { Quote } from "@/lib/market-data/types"
+
+interface UseQuoteStreamOptions {
+  symbols: string[]
+  enabled?: boolean
+  onQuote?: (symbol: string, quote: Quote) => void
+  onError?: () => void
+  heartbeatTimeout?: number
+}
+
+export type QuoteStreamStatus = "connecting" | "connected" | "disconnected" | "error"
+
+// Subscribe to /api/stream/quotes over Server-Sent Events
+export function useQuoteStream({
+  symbols,
+  enabled = true,
+  onQuote,
+  onError,
+  heartbeatTimeout = 45000,
+}: UseQuoteStreamOptions) {
+  const [status, setStatus] = useState<QuoteStreamStatus>("disconnected")
+  const [lastEventAt, setLastEventAt] = useState<number | null>(null)
+
+  const sourceRef = useRef<EventSource | null>(null)
+  const connectionIdRef = useRef<string | null>(null)
+  const subscribedRef = useRef<Set<string>>(new Set())
+  const watchdogRef = useRef<NodeJS.Timeout | null>(null)
+
+  // Keep callbacks in refs so a new closure doesn't tear down the connection
+  const onQuoteRef = useRef(onQuote)
+  const onErrorRef = useRef(onError)
+  onQuoteRef.current = onQuote
+  onErrorRef.current = onError
+
+  // Open the stream once per enable; later symbol changes go through subscribe/unsubscribe
+  const latestSymbolsRef = useRef(symbols)
+  latestSymbolsRef.current = symbols
+  const hasSymbols = symbols.length > 0
+
+  const post = useCallback(async (action: "subscribe" | "unsubscribe", changed: string[]) => {
+    if (!connectionIdRef.current || changed.length === 0) return
+    try {
+      const response = await fetch("/api/stream/quotes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action, connectionId: connectionIdRef.current, symbols: changed }),
+      })
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+    } catch (error) {
+      console.error(`Error during quote stream ${action}:`, error)
+    }
+  }, [])
+
+  // Bring the server-side subscription in line with the latest symbols
+  const syncSubscriptions = useCallback(() => {
+    if (!connectionIdRef.current) return
+
+    const next = new Set(latestSymbolsRef.current.map((symbol) => symbol.toUpperCase()))
+    const current = subscribedRef.current
+    const added = Array.from(next).filter((symbol) => !current.has(symbol))
+    const removed = Array.from(current).filter((symbol) => !next.has(symbol))
+
+    subscribedRef.current = next
+    void post("subscribe", added)
+    void post("unsubscribe", removed)
+  }, [post])
+
+  const disconnect = useCallback(() => {
+    if (watchdogRef.current) {
+      clearTimeout(watchdogRef.current)
+      watchdogRef.current = null
+    }
+    sourceRef.current?.close()
+    sourceRef.current = null
+    connectionIdRef.current = null
+    subscribedRef.current = new Set()
+    setStatus("disconnected")
+  }, [])
+
+  const connect = useCallback(() => {
+    disconnect()
+
+    const initial = latestSymbolsRef.current.map((symbol) => symbol.toUpperCase())
+    if (initial.length === 0 || typeof EventSource === "undefined") return
+
+    setStatus("connecting")
+    const source = new EventSource(`/api/stream/quotes?symbols=${encodeURIComponent(initial.join(","))}`)
+    sourceRef.current = source
+    subscribedRef.current = new Set(initial)
+
+    // No event (not even a heartbeat) within the timeout means the stream is stalled
+    const armWatchdog = () => {
+      if (watchdogRef.current) clearTimeout(watchdogRef.current)
+      watchdogRef.current = setTimeout(() => {
+        source.close()
+        setStatus("error")
+        onErrorRef.current?.()
+      }, heartbeatTimeout)
+    }
+
+    const markAlive = () => {
+      setLastEventAt(Date.now())
+      armWatchdog()
+    }
+
+    source.addEventListener("ready", (event) => {
+      const data = JSON.parse((event as MessageEvent).data)
+      // An automatic EventSource reconnect opens a fresh server connection with the original URL symbols
+      connectionIdRef.current = data.connectionId
+      subscribedRef.current = new Set(data.symbols)
+      setStatus("connected")
+      markAlive()
+      // Symbols may have changed while the stream was opening
+      syncSubscriptions()
+    })
+
+    source.addEventListener("quote", (event) => {
+      try {
+        const data = JSON.parse((event as MessageEvent).data)
+        onQuoteRef.current?.(data.symbol, data.quote)
+        markAlive()
+      } catch (error) {
+        console.error("Error parsing quote stream event:", error)
+      }
+    })
+
+    source.addEventListener("heartbeat", markAlive)
+
+    source.onerror = () => {
+      // EventSource retries on its own while CONNECTING; CLOSED means it gave up
+      if (source.readyState === EventSource.CLOSED) {
+        setStatus("error")
+        onErrorRef.current?.()
+      } else {
+        setStatus("connecting")
+      }
+    }
+
+    armWatchdog()
+  }, [disconnect, syncSubscriptions, heartbeatTimeout])
+
+  useEffect(() => {
+    if (!enabled || !hasSymbols) {
+      disconnect()
+      return
+    }
+
+    connect()
+    return disconnect
+  }, [enabled, hasSymbols, connect, disconnect])
+
+  // Diff symbol changes against the open stream
+  const symbolsKey = symbols.map((symbol) => symbol.toUpperCase()).join(",")
+  useEffect(() => {
+    syncSubscriptions()
+  }, [symbolsKey, syncSubscriptions])
+
+  return {
+    status,
+    isConnected: status === "connected",
+    lastEventAt,
+    reconnect: connect,
+    disconnect,
+  }
+}
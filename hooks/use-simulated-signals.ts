@@ -0,0 +1,31 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+
+const STORAGE_KEY = "allow-simulated-signals"
+const CHANGE_EVENT = "allow-simulated-signals-change"
+
+// One opt-in shared by every panel: compute BUY/SELL signals even when the data is simulated
+export function useSimulatedSignalsOptIn(): [boolean, (allowed: boolean) => void] {
+  const [allowed, setAllowed] = useState(false)
+
+  useEffect(() => {
+    const read = () => setAllowed(localStorage.getItem(STORAGE_KEY) === "true")
+    read()
+
+    // Keep other panels (and other tabs) in step when one of them flips the setting
+    window.addEventListener(CHANGE_EVENT, read)
+    window.addEventListener("storage", read)
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, read)
+      window.removeEventListener("storage", read)
+    }
+  }, [])
+
+  const update = useCallback((next: boolean) => {
+    localStorage.setItem(STORAGE_KEY, String(next))
+    window.dispatchEvent(new Event(CHANGE_EVENT))
+  }, [])
+
+  return [allowed, update]
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  defaultWatchlists,
+  loadWatchlists,
+  saveWatchlists,
+  WATCHLISTS_CHANGE_EVENT,
+  WATCHLISTS_STORAGE_KEY,
+  type WatchlistState,
+} from "@/lib/watchlists"
+
+// The saved watchlists, kept in step across panels and tabs. Starts from the default so server and client
+// renders match, then picks up what's stored
+export function useWatchlists(): [WatchlistState, (change: (current: WatchlistState) => WatchlistState) => void] {
+  const [state, setState] = useState<WatchlistState>(defaultWatchlists)
+
+  useEffect(() => {
+    const read = () => setState(loadWatchlists())
+    read()
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === WATCHLISTS_STORAGE_KEY) read()
+    }
+    window.addEventListener(WATCHLISTS_CHANGE_EVENT, read)
+    window.addEventListener("storage", handleStorage)
+    return () => {
+      window.removeEventListener(WATCHLISTS_CHANGE_EVENT, read)
+      window.removeEventListener("storage", handleStorage)
+    }
+  }, [])
+
+  const update = useCallback(
+    (change: (current: WatchlistState) => WatchlistState) => saveWatchlists(change(loadWatchlists())),
+    [],
+  )
+
+  return [state, update]
+}
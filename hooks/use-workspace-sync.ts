@@ -0,0 +1,199 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import {
+  applyLocalSection,
+  getWorkspaceUserId,
+  hasLocalData,
+  loadSyncState,
+  LOCAL_SECTION_EVENTS,
+  LOCAL_SECTIONS,
+  readLocalSection,
+  saveSyncState,
+  setWorkspaceUserId,
+  type WorkspaceSyncState,
+} from "@/lib/workspace/local"
+import { isWorkspaceUserId } from "@/lib/workspace/sanitize"
+import type { Workspace, WorkspaceSection } from "@/lib/workspace/types"
+
+export type WorkspaceSyncStatus = "idle" | "syncing" | "synced" | "error" | "offline"
+
+// Edits are batched for this long before they're sent
+const PUSH_DELAY = 1500
+const RETRY_DELAY = 15000
+// Picks up changes made in other browsers
+const PULL_INTERVAL = 60000
+
+const union = (a: WorkspaceSection[], b: WorkspaceSection[]) => Array.from(new Set([...a, ...b]))
+
+// Optimistic sync between this browser's saved state and /api/workspace. Panels keep reading and writing
+// localStorage as before, so edits show at once; changed sections are sent in the background and retried until
+// the server has them. Sections changed elsewhere are written back into localStorage, unless edited here since
+export function useWorkspaceSync() {
+  const [userId, setUserId] = useState<string | null>(null)
+  const [status, setStatus] = useState<WorkspaceSyncStatus>("idle")
+  const [lastSynced, setLastSynced] = useState<Date | null>(null)
+  const pullRef = useRef<() => void>(() => {})
+
+  useEffect(() => setUserId(getWorkspaceUserId()), [])
+
+  useEffect(() => {
+    if (!userId) return
+    const id = userId
+
+    const url = `/api/workspace?userId=${encodeURIComponent(id)}`
+    let disposed = false
+    let busy = false
+    let applying = false
+    let pushTimer: ReturnType<typeof setTimeout> | null = null
+
+    // Sync state is shared with other tabs, so every step starts from what's stored
+    const change = (update: (current: WorkspaceSyncState) => WorkspaceSyncState) =>
+      saveSyncState(update(loadSyncState(id)))
+
+    const succeeded = () => {
+      if (disposed) return
+      setStatus("synced")
+      setLastSynced(new Date())
+    }
+
+    const failed = (error: unknown) => {
+      console.error("Workspace sync failed:", error)
+      if (!disposed) setStatus(navigator.onLine ? "error" : "offline")
+    }
+
+    // Takes the server's copy of every section that moved on since this browser last saw it
+    const adopt = (workspace: Workspace, sent: WorkspaceSection[] = []) => {
+      const current = loadSyncState(id)
+      const sectionRevisions = { ...current.sectionRevisions }
+
+      applying = true
+      try {
+        for (const section of LOCAL_SECTIONS) {
+          const remote = workspace.sectionRevisions[section]
+          const known = current.sectionRevisions[section] ?? 0
+          if (!sent.includes(section) && !current.dirty.includes(section) && remote > known) {
+            applyLocalSection(section, workspace[section])
+          }
+          if (!current.dirty.includes(section) || sent.includes(section)) sectionRevisions[section] = remote
+        }
+      } finally {
+        applying = false
+      }
+
+      saveSyncState({ ...loadSyncState(id), revision: workspace.revision, sectionRevisions })
+    }
+
+    const schedulePush = (delay: number) => {
+      if (disposed) return
+      if (pushTimer) clearTimeout(pushTimer)
+      pushTimer = setTimeout(push, delay)
+    }
+
+    async function request(init?: RequestInit): Promise<Workspace> {
+      const response = await fetch(url, { cache: "no-store", ...init })
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      const data = await response.json()
+      if (!data.success) throw new Error(data.error || "Workspace request failed")
+      return data.workspace as Workspace
+    }
+
+    async function push() {
+      pushTimer = null
+      if (busy) {
+        schedulePush(PUSH_DELAY)
+        return
+      }
+
+      const sent = loadSyncState(id).dirty
+      if (sent.length === 0) return
+
+      busy = true
+      setStatus("syncing")
+      // Cleared before sending; anything edited while the request is out is marked again by its change event
+      change((current) => ({ ...current, dirty: [] }))
+      try {
+        const sections = Object.fromEntries(sent.map((section) => [section, readLocalSection(section)]))
+        const workspace = await request({
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ sections }),
+        })
+        if (disposed) return
+        adopt(workspace, sent)
+        succeeded()
+      } catch (error) {
+        change((current) => ({ ...current, dirty: union(current.dirty, sent) }))
+        failed(error)
+        schedulePush(RETRY_DELAY)
+      } finally {
+        busy = false
+      }
+    }
+
+    async function pull() {
+      if (busy) return
+      busy = true
+      setStatus("syncing")
+      try {
+        const workspace = await request()
+        if (disposed) return
+
+        // Sections the server has never had are seeded from this browser rather than wiped
+        const current = loadSyncState(id)
+        const seed = LOCAL_SECTIONS.filter(
+          (section) =>
+            workspace.sectionRevisions[section] === 0 &&
+            current.sectionRevisions[section] === undefined &&
+            hasLocalData(section),
+        )
+        if (seed.length > 0) change((state) => ({ ...state, dirty: union(state.dirty, seed) }))
+
+        adopt(workspace)
+        succeeded()
+      } catch (error) {
+        failed(error)
+      } finally {
+        busy = false
+      }
+      if (loadSyncState(id).dirty.length > 0) schedulePush(0)
+    }
+    pullRef.current = pull
+
+    const listeners = LOCAL_SECTIONS.map((section) => {
+      const listener = () => {
+        if (applying) return
+        change((current) => ({ ...current, dirty: union(current.dirty, [section]) }))
+        schedulePush(PUSH_DELAY)
+      }
+      window.addEventListener(LOCAL_SECTION_EVENTS[section]!, listener)
+      return () => window.removeEventListener(LOCAL_SECTION_EVENTS[section]!, listener)
+    })
+
+    pull()
+    const interval = setInterval(pull, PULL_INTERVAL)
+    window.addEventListener("focus", pull)
+    window.addEventListener("online", pull)
+
+    return () => {
+      disposed = true
+      listeners.forEach((remove) => remove())
+      clearInterval(interval)
+      if (pushTimer) clearTimeout(pushTimer)
+      window.removeEventListener("focus", pull)
+      window.removeEventListener("online", pull)
+    }
+  }, [userId])
+
+  // Joining another id takes that workspace's sections in place of this browser's copies
+  const switchUser = useCallback((next: string) => {
+    if (!isWorkspaceUserId(next)) return false
+    setWorkspaceUserId(next)
+    setUserId(next)
+    return true
+  }, [])
+
+  const syncNow = useCallback(() => pullRef.current(), [])
+
+  return { userId, status, lastSynced, switchUser, syncNow }
+}
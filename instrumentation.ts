@@ -0,0 +1,8 @@
+// Runs once when the server starts. Saved alert rules are put in force here rather than on the first request
+// to /api/alerts, so they keep firing after a restart with nobody on the alerts panel
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+  const { ensureAlertEngine } = await import("@/lib/alerts")
+  // Failures are logged by the engine and retried on the next alerts request
+  void ensureAlertEngine().catch(() => {})
+}
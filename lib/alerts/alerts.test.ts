@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest"
+import { parseAlertRule } from "./conditions"
+import { alertRuleStatus, disableRule, shouldFire, type ConditionReading } from "./evaluate"
+import type { AlertCondition, AlertRule, AlertRuleState } from "./types"
+
+const NOW = Date.parse("2025-06-02T10:00:00+05:30")
+const MINUTE = 60 * 1000
+
+const priceCross: AlertCondition = { type: "price-cross", direction: "above", price: 2900 }
+const percentMove: AlertCondition = { type: "percent-move", direction: "up", percent: 2 }
+
+const rule = (overrides: Partial<AlertRule> = {}): AlertRule => ({
+  id: "rule-1",
+  symbol: "RELIANCE.NS",
+  condition: priceCross,
+  enabled: true,
+  repeat: true,
+  cooldownMinutes: 15,
+  expiresAt: null,
+  createdAt: NOW - 60 * MINUTE,
+  ...overrides,
+})
+
+const firedAt = (at: number): AlertRuleState => ({ lastTriggeredAt: at, triggerCount: 1 })
+const met: ConditionReading = { met: true, detail: "" }
+const unmet: ConditionReading = { met: false, detail: "" }
+
+describe("parseAlertRule", () => {
+  it("fills in defaults and normalises the symbol", () => {
+    const parsed = parseAlertRule({ symbol: "reliance", condition: priceCross }, NOW)
+
+    expect(parsed).toEqual({
+      rule: expect.objectContaining({
+        symbol: "RELIANCE.NS",
+        condition: priceCross,
+        enabled: true,
+        repeat: false,
+        cooldownMinutes: 15,
+        expiresAt: null,
+        createdAt: NOW,
+      }),
+    })
+    expect("rule" in parsed && parsed.rule.id).toMatch(/^[\w-]+$/)
+  })
+
+  it("keeps a valid id and trims the note", () => {
+    const parsed = parseAlertRule({ id: "abc-123", symbol: "TCS", condition: priceCross, note: "  breakout  " }, NOW)
+    expect(parsed).toMatchObject({ rule: { id: "abc-123", note: "breakout" } })
+  })
+
+  it("strips fields a condition doesn't take", () => {
+    const parsed = parseAlertRule({ symbol: "TCS", condition: { ...priceCross, extra: true } }, NOW)
+    expect("rule" in parsed && parsed.rule.condition).toEqual(priceCross)
+  })
+
+  it.each([
+    ["a missing symbol", { condition: priceCross }, "symbol is required"],
+    ["an unknown condition", { symbol: "TCS", condition: { type: "moon-phase" } }, "condition.type must be one of"],
+    ["a negative price", { symbol: "TCS", condition: { ...priceCross, price: -1 } }, "price-cross needs"],
+    [
+      "a fast EMA no shorter than the slow one",
+      { symbol: "TCS", condition: { type: "ema-cross", direction: "above", fast: 50, slow: 20, timeframe: "1d" } },
+      "ema-cross needs",
+    ],
+    [
+      "an RSI timeframe that doesn't exist",
+      { symbol: "TCS", condition: { type: "rsi", direction: "above", level: 70, period: 14, timeframe: "7m" } },
+      "rsi needs",
+    ],
+    ["a fractional cooldown", { symbol: "TCS", condition: priceCross, cooldownMinutes: 1.5 }, "cooldownMinutes"],
+    ["a non-numeric expiry", { symbol: "TCS", condition: priceCross, expiresAt: "tomorrow" }, "expiresAt"],
+  ])("rejects %s", (_, raw, message) => {
+    const parsed = parseAlertRule(raw, NOW)
+    expect("error" in parsed && parsed.error).toContain(message)
+  })
+
+  it("takes a horizontal ray with one point and keeps at most two for a line", () => {
+    const point = { time: NOW - 60 * MINUTE, price: 2900 }
+    const line = (tool: string, points: unknown[]) => ({
+      symbol: "TCS",
+      condition: { type: "line-break", direction: "below", drawingId: "d1", tool, points, timeframe: "15m" },
+    })
+
+    expect(parseAlertRule(line("horizontal-ray", [point]), NOW)).toHaveProperty("rule")
+    expect(parseAlertRule(line("trend", [point]), NOW)).toHaveProperty("error")
+    expect(parseAlertRule(line("rectangle", [point, point]), NOW)).toHaveProperty("error")
+
+    const parsed = parseAlertRule(line("trend", [point, point, point]), NOW)
+    expect("rule" in parsed && parsed.rule.condition).toMatchObject({ points: [point, point] })
+  })
+})
+
+describe("alertRuleStatus", () => {
+  it("reports expired before paused", () => {
+    expect(alertRuleStatus(rule({ enabled: false, expiresAt: NOW }), undefined, NOW)).toBe("expired")
+    expect(alertRuleStatus(rule({ enabled: false }), undefined, NOW)).toBe("paused")
+  })
+
+  it("cools down for the rule's cooldown after firing, then is active again", () => {
+    const state = firedAt(NOW - 10 * MINUTE)
+
+    expect(alertRuleStatus(rule(), state, NOW)).toBe("cooling-down")
+    expect(alertRuleStatus(rule(), state, NOW + 5 * MINUTE - 1)).toBe("cooling-down")
+    expect(alertRuleStatus(rule(), state, NOW + 5 * MINUTE)).toBe("active")
+    expect(alertRuleStatus(rule({ cooldownMinutes: 0 }), state, NOW)).toBe("active")
+  })
+})
+
+describe("shouldFire", () => {
+  it("fires a crossing only after an earlier reading on the other side", () => {
+    expect(shouldFire(rule(), met, false, undefined, NOW)).toBe(true)
+    expect(shouldFire(rule(), met, true, undefined, NOW)).toBe(false)
+    expect(shouldFire(rule(), unmet, false, undefined, NOW)).toBe(false)
+  })
+
+  it("doesn't treat the first reading after a restart as a crossing", () => {
+    expect(shouldFire(rule(), met, undefined, undefined, NOW)).toBe(false)
+  })
+
+  it("fires a level condition on its first reading", () => {
+    expect(shouldFire(rule({ condition: percentMove }), met, undefined, undefined, NOW)).toBe(true)
+    expect(shouldFire(rule({ condition: percentMove }), met, true, undefined, NOW)).toBe(false)
+  })
+
+  it("holds a firing back until the cooldown has passed", () => {
+    const state = firedAt(NOW - 15 * MINUTE + 1)
+
+    expect(shouldFire(rule(), met, false, state, NOW)).toBe(false)
+    expect(shouldFire(rule(), met, false, state, NOW + 1)).toBe(true)
+  })
+
+  it("never fires paused or expired rules", () => {
+    expect(shouldFire(rule({ enabled: false }), met, false, undefined, NOW)).toBe(false)
+    expect(shouldFire(rule({ expiresAt: NOW }), met, false, undefined, NOW)).toBe(false)
+  })
+})
+
+describe("disableRule", () => {
+  it("switches a one-shot rule off so it can't fire again", () => {
+    const rules = [rule({ repeat: false }), rule({ id: "rule-2" })]
+    const next = disableRule(rules, "rule-1")
+
+    expect(next.map((candidate) => candidate.enabled)).toEqual([false, true])
+    expect(shouldFire(next[0], met, false, undefined, NOW)).toBe(false)
+  })
+
+  it("returns the same rules when there is nothing to switch off", () => {
+    const rules = [rule({ enabled: false })]
+
+    expect(disableRule(rules, "rule-1")).toBe(rules)
+    expect(disableRule(rules, "missing")).toBe(rules)
+  })
+})
@@ -0,0 +1,190 @@
+import { isTimeframe } from "@/lib/candles/resample"
+import { isDrawingTool, DRAWING_TOOLS } from "@/lib/drawings/tools"
+import type { DrawingTool } from "@/lib/drawings/types"
+import { toBaseSymbol, toYahooSymbol } from "@/lib/market-data/symbols"
+import type { AlertCondition, AlertConditionType, AlertRule } from "./types"
+
+export interface AlertConditionInfo {
+  label: string
+  // "cross" conditions need one earlier reading to see the crossing; "level" ones can fire on the first
+  trigger: "cross" | "level"
+}
+
+export const ALERT_CONDITIONS: Record<AlertConditionType, AlertConditionInfo> = {
+  "price-cross": { label: "Price crosses", trigger: "cross" },
+  "percent-move": { label: "Percent move", trigger: "level" },
+  rsi: { label: "RSI level", trigger: "level" },
+  "ema-cross": { label: "EMA crossover", trigger: "cross" },
+  "volume-spike": { label: "Volume spike", trigger: "level" },
+  "line-break": { label: "Drawn line break", trigger: "cross" },
+}
+
+export const ALERT_CONDITION_TYPES = Object.keys(ALERT_CONDITIONS) as AlertConditionType[]
+
+export function isAlertConditionType(value: unknown): value is AlertConditionType {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ALERT_CONDITIONS, value)
+}
+
+// Drawings that make a single line an alert can watch
+export const ALERT_LINE_TOOLS: DrawingTool[] = ["trend", "support", "resistance", "horizontal-ray"]
+
+export const MAX_ALERT_RULES = 100
+const MAX_COOLDOWN_MINUTES = 7 * 24 * 60
+const MAX_NOTE_LENGTH = 140
+
+const inRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= min && value <= max
+const wholeInRange = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && inRange(value, min, max)
+const isDirection = (value: unknown): value is "above" | "below" => value === "above" || value === "below"
+
+// Checks a condition's shape and bounds; the message says what's wrong
+function parseCondition(raw: unknown): AlertCondition | string {
+  if (!raw || typeof raw !== "object") return "condition is required"
+  const c = raw as Record<string, unknown>
+  if (!isAlertConditionType(c.type)) return `condition.type must be one of ${ALERT_CONDITION_TYPES.join(", ")}`
+
+  switch (c.type) {
+    case "price-cross":
+      if (!isDirection(c.direction) || !inRange(c.price, 0.01, 10_000_000)) {
+        return "price-cross needs direction above/below and a positive price"
+      }
+      return { type: c.type, direction: c.direction, price: c.price }
+
+    case "percent-move":
+      if (
+        !(c.direction === "up" || c.direction === "down" || c.direction === "either") ||
+        !inRange(c.percent, 0.1, 50)
+      ) {
+        return "percent-move needs direction up/down/either and a percent between 0.1 and 50"
+      }
+      return { type: c.type, direction: c.direction, percent: c.percent }
+
+    case "rsi":
+      if (
+        !isDirection(c.direction) ||
+        !inRange(c.level, 1, 99) ||
+        !wholeInRange(c.period, 2, 50) ||
+        typeof c.timeframe !== "string" ||
+        !isTimeframe(c.timeframe)
+      ) {
+        return "rsi needs direction above/below, a level of 1-99, a period of 2-50 and a timeframe"
+      }
+      return { type: c.type, direction: c.direction, level: c.level, period: c.period, timeframe: c.timeframe }
+
+    case "ema-cross":
+      if (
+        !isDirection(c.direction) ||
+        !wholeInRange(c.fast, 2, 200) ||
+        !wholeInRange(c.slow, 3, 400) ||
+        c.fast >= c.slow ||
+        typeof c.timeframe !== "string" ||
+        !isTimeframe(c.timeframe)
+      ) {
+        return "ema-cross needs direction above/below, a fast period shorter than the slow one and a timeframe"
+      }
+      return { type: c.type, direction: c.direction, fast: c.fast, slow: c.slow, timeframe: c.timeframe }
+
+    case "volume-spike":
+      if (!inRange(c.multiple, 1.1, 50) || !wholeInRange(c.lookback, 5, 60)) {
+        return "volume-spike needs a multiple of 1.1-50 and a lookback of 5-60 days"
+      }
+      return { type: c.type, multiple: c.multiple, lookback: c.lookback }
+
+    case "line-break": {
+      const points = Array.isArray(c.points)
+        ? c.points.filter(
+            (point): point is { time: number; price: number } =>
+              point && inRange(point.time, 0, Number.MAX_SAFE_INTEGER) && inRange(point.price, 0, 10_000_000),
+          )
+        : []
+      const tool = typeof c.tool === "string" && isDrawingTool(c.tool) ? c.tool : null
+      if (
+        !isDirection(c.direction) ||
+        typeof c.drawingId !== "string" ||
+        !tool ||
+        !ALERT_LINE_TOOLS.includes(tool) ||
+        points.length < (tool === "horizontal-ray" ? 1 : 2) ||
+        typeof c.timeframe !== "string" ||
+        !isTimeframe(c.timeframe)
+      ) {
+        return `line-break needs direction above/below and a ${ALERT_LINE_TOOLS.join(", ")} drawing with its points`
+      }
+      return {
+        type: c.type,
+        direction: c.direction,
+        drawingId: c.drawingId.slice(0, 40),
+        tool,
+        points: points.slice(0, 2).map(({ time, price }) => ({ time, price })),
+        timeframe: c.timeframe,
+      }
+    }
+  }
+}
+
+// A rule from a client or a stored workspace. `id` and `createdAt` are filled in when missing
+export function parseAlertRule(raw: unknown, now = Date.now()): { rule: AlertRule } | { error: string } {
+  if (!raw || typeof raw !== "object") return { error: "rule must be an object" }
+  const r = raw as Record<string, unknown>
+
+  if (typeof r.symbol !== "string" || !/^\^?[A-Z0-9&._:-]{1,24}$/i.test(r.symbol)) {
+    return { error: "symbol is required" }
+  }
+  const condition = parseCondition(r.condition)
+  if (typeof condition === "string") return { error: condition }
+
+  const cooldownMinutes = r.cooldownMinutes ?? 15
+  if (!wholeInRange(cooldownMinutes, 0, MAX_COOLDOWN_MINUTES)) {
+    return { error: `cooldownMinutes must be a whole number from 0 to ${MAX_COOLDOWN_MINUTES}` }
+  }
+  const expiresAt = r.expiresAt ?? null
+  if (expiresAt !== null && !inRange(expiresAt, 0, Number.MAX_SAFE_INTEGER)) {
+    return { error: "expiresAt must be a timestamp in milliseconds or null" }
+  }
+
+  return {
+    rule: {
+      id: typeof r.id === "string" && /^[\w-]{1,40}$/.test(r.id) ? r.id : createAlertId(now),
+      symbol: toYahooSymbol(r.symbol),
+      condition,
+      enabled: r.enabled !== false,
+      repeat: r.repeat === true,
+      cooldownMinutes,
+      expiresAt,
+      note: typeof r.note === "string" && r.note.trim() ? r.note.trim().slice(0, MAX_NOTE_LENGTH) : undefined,
+      createdAt: inRange(r.createdAt, 0, Number.MAX_SAFE_INTEGER) ? r.createdAt : now,
+    },
+  }
+}
+
+export function createAlertId(now = Date.now()): string {
+  return `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export const formatRupees = (value: number) =>
+  `₹${value.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+// Short sentence for lists and notifications, e.g. "RELIANCE crosses above ₹2,900.00"
+export function describeAlertRule(rule: Pick<AlertRule, "symbol" | "condition">): string {
+  const symbol = toBaseSymbol(rule.symbol)
+  const c = rule.condition
+
+  switch (c.type) {
+    case "price-cross":
+      return `${symbol} crosses ${c.direction} ${formatRupees(c.price)}`
+    case "percent-move": {
+      const sign = c.direction === "up" ? "+" : c.direction === "down" ? "−" : "±"
+      return `${symbol} moves ${sign}${c.percent}% on the day`
+    }
+    case "rsi":
+      return `${symbol} RSI(${c.period}, ${c.timeframe}) ${c.direction} ${c.level}`
+    case "ema-cross":
+      return `${symbol} EMA ${c.fast} crosses ${c.direction} EMA ${c.slow} (${c.timeframe})`
+    case "volume-spike":
+      return `${symbol} volume ${c.multiple}× its ${c.lookback}-day average`
+    case "line-break":
+      return `${symbol} breaks ${c.direction} the ${DRAWING_TOOLS[c.tool].label.toLowerCase()}${
+        c.tool === "horizontal-ray" ? "" : " line"
+      } (${c.timeframe})`
+  }
+}
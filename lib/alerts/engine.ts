@@ -0,0 +1,263 @@
+import { getTimeframeHistory } from "@/lib/candles"
+import type { CandleHistory, Timeframe } from "@/lib/candles/types"
+import { getMarketStatus } from "@/lib/market-calendar"
+import {
+  addStreamClient,
+  hasStreamClient,
+  removeStreamClient,
+  subscribeSymbols,
+  unsubscribeSymbols,
+} from "@/lib/market-data/quote-stream"
+import { isSimulated } from "@/lib/market-data/provenance"
+import type { Quote } from "@/lib/market-data/types"
+import { applySections, getWorkspace, listWorkspaceUsers, updateWorkspace } from "@/lib/workspace"
+import { createAlertId } from "./conditions"
+import {
+  alertMessage,
+  alertRuleStatus,
+  disableRule,
+  readCondition,
+  shouldFire,
+  withLiveQuote,
+  type AlertContext,
+} from "./evaluate"
+import { getAlertLog, pruneAlertStates, recordAlertEvent } from "./store"
+import type { AlertEvent, AlertLog, AlertRule } from "./types"
+
+// Server-side alert engine. It listens to the shared quote stream like a browser would, for every symbol that
+// has a live rule, and checks each user's rules on every tick. Rules are read from workspaces; firings go to the
+// user's alert log and to any open /api/alerts/stream connection. Simulated quotes and bars are never checked, so
+// a provider outage can't fire alerts off a random walk
+
+const ENGINE_CLIENT_ID = "alert-engine"
+const MAX_ENGINE_SYMBOLS = 500
+// Indicator bars are refreshed this often; the live price is folded into the last one on every tick
+const CANDLE_TTL = 60_000
+const MIN_INDICATOR_BARS = 250
+
+const rulesByUser = new Map<string, AlertRule[]>()
+// Whether each rule's condition held at its last check, keyed "userId:ruleId"; crossings compare against it
+const lastMet = new Map<string, boolean>()
+const checking = new Set<string>()
+const listeners = new Map<string, Set<(event: AlertEvent) => void>>()
+const candleCache = new Map<string, { at: number; history: Promise<CandleHistory> }>()
+let engineSymbols = new Set<string>()
+let loading: Promise<void> | null = null
+
+const ruleKey = (userId: string, ruleId: string) => `${userId}:${ruleId}`
+
+function isLive(rule: AlertRule, now: number): boolean {
+  return rule.enabled && (rule.expiresAt === null || rule.expiresAt > now)
+}
+
+// Keeps the engine's stream subscription to exactly the symbols some live rule watches
+function syncSubscriptions() {
+  const now = Date.now()
+  const wanted = new Set<string>()
+  rulesByUser.forEach((rules) => rules.forEach((rule) => isLive(rule, now) && wanted.add(rule.symbol)))
+  const symbols = Array.from(wanted).slice(0, MAX_ENGINE_SYMBOLS)
+
+  if (symbols.length === 0) {
+    removeStreamClient(ENGINE_CLIENT_ID)
+    engineSymbols = new Set()
+    return
+  }
+
+  if (!hasStreamClient(ENGINE_CLIENT_ID)) {
+    engineSymbols = new Set(symbols)
+    addStreamClient({
+      id: ENGINE_CLIENT_ID,
+      symbols: new Set(symbols),
+      maxSymbols: MAX_ENGINE_SYMBOLS,
+      send: (event, data) => {
+        if (event === "quote") handleQuote(data as { symbol: string; quote: Quote })
+      },
+      close: () => removeStreamClient(ENGINE_CLIENT_ID),
+    })
+    return
+  }
+
+  const removed = Array.from(engineSymbols).filter((symbol) => !symbols.includes(symbol))
+  const added = symbols.filter((symbol) => !engineSymbols.has(symbol))
+  if (removed.length > 0) engineSymbols = new Set(unsubscribeSymbols(ENGINE_CLIENT_ID, removed))
+  if (added.length > 0) engineSymbols = new Set(subscribeSymbols(ENGINE_CLIENT_ID, added))
+}
+
+// Loads every saved workspace's rules the first time alerts are used after a start
+export function ensureAlertEngine(): Promise<void> {
+  if (!loading) {
+    loading = (async () => {
+      for (const userId of await listWorkspaceUsers()) {
+        const workspace = await getWorkspace(userId)
+        if (workspace.alertRules.length > 0) rulesByUser.set(userId, workspace.alertRules)
+      }
+      syncSubscriptions()
+    })()
+    loading.catch((error) => {
+      console.error("Error starting the alert engine:", error)
+      loading = null
+    })
+  }
+  return loading
+}
+
+function cachedHistory(symbol: string, timeframe: Timeframe, limit: number): Promise<CandleHistory> {
+  const key = `${symbol}:${timeframe}:${limit}`
+  const cached = candleCache.get(key)
+  if (cached && Date.now() - cached.at < CANDLE_TTL) return cached.history
+
+  const history = getTimeframeHistory(symbol, timeframe, { limit })
+  history.catch(() => candleCache.delete(key))
+  candleCache.set(key, { at: Date.now(), history })
+  return history
+}
+
+// Null when the bars the condition needs are simulated
+async function buildContext(rule: AlertRule, quote: Quote, now: number): Promise<AlertContext | null> {
+  const condition = rule.condition
+  const context: AlertContext = { quote, now }
+
+  switch (condition.type) {
+    case "rsi":
+    case "ema-cross":
+    case "line-break": {
+      if (condition.type === "line-break" && condition.points.length < 2) break
+      // EMAs need a few times their period of history before they settle
+      const bars =
+        condition.type === "ema-cross" ? Math.max(MIN_INDICATOR_BARS, condition.slow * 3) : MIN_INDICATOR_BARS
+      const history = await cachedHistory(rule.symbol, condition.timeframe, bars)
+      if (isSimulated(history.provenance)) return null
+      context.candles = withLiveQuote(history.candles, quote, condition.timeframe)
+      break
+    }
+
+    case "volume-spike": {
+      const { session } = getMarketStatus(now)
+      const daily = await cachedHistory(rule.symbol, "1d", condition.lookback + 2)
+      if (isSimulated(daily.provenance)) return null
+      // Today's partial bar would drag the average down
+      const past = daily.candles.filter((bar) => !session || bar.timestamp < session.open).slice(-condition.lookback)
+      context.averageVolume = past.length > 0 ? past.reduce((sum, bar) => sum + bar.volume, 0) / past.length : null
+      context.sessionElapsed =
+        session && now >= session.open ? Math.min(1, (now - session.open) / (session.close - session.open)) : null
+      break
+    }
+  }
+
+  return context
+}
+
+async function checkRule(userId: string, rule: AlertRule, quote: Quote, now: number) {
+  // Skipped without touching the last reading, so the next real quote is compared with the last real one
+  if (isSimulated(quote.provenance)) return
+  const key = ruleKey(userId, rule.id)
+  // A slow candle fetch mustn't let two ticks fire the same rule
+  if (checking.has(key)) return
+  checking.add(key)
+
+  try {
+    const log = await getAlertLog(userId)
+    const state = log.states[rule.id]
+    const status = alertRuleStatus(rule, state, now)
+    if (status === "paused" || status === "expired") return
+
+    const context = await buildContext(rule, quote, now)
+    const reading = context && readCondition(rule.condition, context)
+    if (!reading) return
+
+    const fire = shouldFire(rule, reading, lastMet.get(key), state, now)
+    lastMet.set(key, reading.met)
+    if (!fire) return
+
+    const event: AlertEvent = {
+      id: createAlertId(now),
+      ruleId: rule.id,
+      symbol: rule.symbol,
+      message: alertMessage(rule, reading),
+      price: quote.price,
+      triggeredAt: now,
+    }
+    await recordAlertEvent(userId, event)
+    listeners.get(userId)?.forEach((listener) => listener(event))
+
+    if (!rule.repeat) {
+      await changeAlertRules(userId, (rules) => disableRule(rules, rule.id))
+    }
+  } catch (error) {
+    console.error(`Error checking alert ${rule.id} for ${rule.symbol}:`, error)
+  } finally {
+    checking.delete(key)
+  }
+}
+
+function handleQuote({ symbol, quote }: { symbol: string; quote: Quote }) {
+  const now = Date.now()
+  let live = false
+
+  rulesByUser.forEach((rules, userId) => {
+    for (const rule of rules) {
+      if (rule.symbol !== symbol) continue
+      if (isLive(rule, now)) live = true
+      void checkRule(userId, rule, quote, now)
+    }
+  })
+
+  // The last rule on this symbol expired; stop asking for it
+  if (!live) syncSubscriptions()
+}
+
+// Puts a user's rules in force after their workspace changed by any route
+export function refreshUserAlerts(userId: string, rules: AlertRule[]) {
+  const previous = rulesByUser.get(userId) ?? []
+
+  // A rule whose condition changed starts over, so an old reading can't count as the "before" of a crossing
+  for (const rule of previous) {
+    const next = rules.find((candidate) => candidate.id === rule.id)
+    if (!next || JSON.stringify(next.condition) !== JSON.stringify(rule.condition) || next.symbol !== rule.symbol) {
+      lastMet.delete(ruleKey(userId, rule.id))
+    }
+  }
+
+  if (rules.length > 0) rulesByUser.set(userId, rules)
+  else rulesByUser.delete(userId)
+  syncSubscriptions()
+
+  if (previous.some((rule) => !rules.some((next) => next.id === rule.id))) {
+    void pruneAlertStates(
+      userId,
+      rules.map((rule) => rule.id),
+    ).catch((error) => console.error(`Error pruning alert states for ${userId}:`, error))
+  }
+}
+
+// Saves a change to the user's rules in their workspace and puts it in force. Returning the rules as given
+// skips the write, so a refused change doesn't bump the workspace revision
+export async function changeAlertRules(
+  userId: string,
+  change: (rules: AlertRule[]) => AlertRule[],
+): Promise<AlertRule[]> {
+  const workspace = await updateWorkspace(userId, (current) => {
+    const rules = change(current.alertRules)
+    return rules === current.alertRules ? current : applySections(current, { alertRules: rules })
+  })
+  refreshUserAlerts(userId, workspace.alertRules)
+  return workspace.alertRules
+}
+
+export async function getUserAlerts(userId: string): Promise<{ rules: AlertRule[]; log: AlertLog }> {
+  await ensureAlertEngine()
+  const [workspace, log] = await Promise.all([getWorkspace(userId), getAlertLog(userId)])
+  return { rules: workspace.alertRules, log }
+}
+
+// Called with every firing for the user until the returned function is called
+export function subscribeAlertEvents(userId: string, listener: (event: AlertEvent) => void): () => void {
+  const set = listeners.get(userId) ?? new Set()
+  set.add(listener)
+  listeners.set(userId, set)
+
+  return () => {
+    set.delete(listener)
+    if (set.size === 0) listeners.delete(userId)
+  }
+}
@@ -0,0 +1,162 @@
+import { alignToBucket } from "@/lib/candles/resample"
+import type { Timeframe } from "@/lib/candles/types"
+import type { AnchorPoint } from "@/lib/drawings/types"
+import { closes, ema, lastValue, rsi } from "@/lib/indicators/core"
+import type { ChartData, Quote } from "@/lib/market-data/types"
+import { ALERT_CONDITIONS, describeAlertRule, formatRupees } from "./conditions"
+import type { AlertCondition, AlertRule, AlertRuleState, AlertRuleStatus } from "./types"
+
+// Inputs for one check. Candles are only loaded for conditions that read them
+export interface AlertContext {
+  quote: Quote
+  now: number
+  candles?: ChartData[] // In the condition's timeframe, with the quote folded into the last bar
+  averageVolume?: number | null // Mean full-day volume over the lookback, today excluded
+  sessionElapsed?: number | null // Share of today's session that has passed, 0-1
+}
+
+export interface ConditionReading {
+  met: boolean
+  detail: string // What was seen, for the notification
+}
+
+// Early in the day most volume is still to come, so less than a quarter of the session counts as a quarter
+const MIN_SESSION_SHARE = 0.25
+
+// The bars a condition reads, with the live price as the latest close so it doesn't wait for the bar to be stored
+export function withLiveQuote(candles: ChartData[], quote: Quote, timeframe: Timeframe): ChartData[] {
+  const last = candles[candles.length - 1]
+  const start = alignToBucket(quote.timestamp, timeframe)
+  if (!last || start < last.timestamp) return candles
+
+  const { price } = quote
+  if (start === last.timestamp) {
+    const updated = { ...last, close: price, high: Math.max(last.high, price), low: Math.min(last.low, price) }
+    return [...candles.slice(0, -1), updated]
+  }
+  return [...candles, { timestamp: start, open: price, high: price, low: price, close: price, volume: 0 }]
+}
+
+// Fractional bar position of a time, mapped the way the chart maps it, so a line here is the line on screen
+function indexAtTime(candles: ChartData[], time: number): number {
+  const lastIndex = candles.length - 1
+  const interval = lastIndex > 0 ? (candles[lastIndex].timestamp - candles[0].timestamp) / lastIndex : 1
+  let before = -1
+  for (let i = lastIndex; i >= 0; i--) {
+    if (candles[i].timestamp <= time) {
+      before = i
+      break
+    }
+  }
+  if (before === -1) return (time - candles[0].timestamp) / interval
+  if (before === lastIndex) return before + (time - candles[before].timestamp) / interval
+  return before + (time - candles[before].timestamp) / (candles[before + 1].timestamp - candles[before].timestamp)
+}
+
+// Where a drawn line is now; horizontal rays are flat from their anchor, other lines extend past their ends
+function linePrice(points: AnchorPoint[], candles: ChartData[], now: number): number | null {
+  const [a, b] = points
+  if (!b) return now >= a.time ? a.price : null
+  if (candles.length < 2) return null
+  const ia = indexAtTime(candles, a.time)
+  const ib = indexAtTime(candles, b.time)
+  if (ia === ib) return b.price
+  return a.price + ((b.price - a.price) * (indexAtTime(candles, now) - ia)) / (ib - ia)
+}
+
+// Whether the condition holds right now; null when its inputs aren't available yet
+export function readCondition(condition: AlertCondition, context: AlertContext): ConditionReading | null {
+  const { quote, candles } = context
+  const price = quote.price
+
+  switch (condition.type) {
+    case "price-cross":
+      return {
+        met: condition.direction === "above" ? price >= condition.price : price <= condition.price,
+        detail: `at ${formatRupees(price)}`,
+      }
+
+    case "percent-move": {
+      const change = quote.changePercent
+      const met =
+        condition.direction === "up"
+          ? change >= condition.percent
+          : condition.direction === "down"
+            ? change <= -condition.percent
+            : Math.abs(change) >= condition.percent
+      return { met, detail: `${change >= 0 ? "+" : ""}${change.toFixed(2)}% at ${formatRupees(price)}` }
+    }
+
+    case "rsi": {
+      if (!candles) return null
+      const value = lastValue(rsi(closes(candles), condition.period))
+      if (value === null) return null
+      return {
+        met: condition.direction === "above" ? value >= condition.level : value <= condition.level,
+        detail: `RSI ${value.toFixed(1)} at ${formatRupees(price)}`,
+      }
+    }
+
+    case "ema-cross": {
+      if (!candles) return null
+      const values = closes(candles)
+      const fast = lastValue(ema(values, condition.fast))
+      const slow = lastValue(ema(values, condition.slow))
+      if (fast === null || slow === null) return null
+      return {
+        met: condition.direction === "above" ? fast > slow : fast < slow,
+        detail: `EMA ${condition.fast} ${fast.toFixed(2)} vs EMA ${condition.slow} ${slow.toFixed(2)}`,
+      }
+    }
+
+    case "volume-spike": {
+      const { averageVolume, sessionElapsed } = context
+      if (!averageVolume || sessionElapsed === null || sessionElapsed === undefined) return null
+      const expected = averageVolume * Math.max(MIN_SESSION_SHARE, Math.min(1, sessionElapsed))
+      const ratio = quote.volume / expected
+      return { met: ratio >= condition.multiple, detail: `${ratio.toFixed(1)}× the usual volume so far` }
+    }
+
+    case "line-break": {
+      const level = linePrice(condition.points, candles ?? [], context.now)
+      if (level === null) return null
+      return {
+        met: condition.direction === "above" ? price > level : price < level,
+        detail: `at ${formatRupees(price)}, line at ${formatRupees(level)}`,
+      }
+    }
+  }
+}
+
+export function alertRuleStatus(rule: AlertRule, state: AlertRuleState | undefined, now: number): AlertRuleStatus {
+  if (rule.expiresAt !== null && now >= rule.expiresAt) return "expired"
+  if (!rule.enabled) return "paused"
+  if (state?.lastTriggeredAt && now < state.lastTriggeredAt + rule.cooldownMinutes * 60_000) return "cooling-down"
+  return "active"
+}
+
+// Fires when the condition becomes true: crossings need an earlier reading that was false, levels fire on the
+// first true reading too. Either way it has to go false again before it can fire again
+export function shouldFire(
+  rule: AlertRule,
+  reading: ConditionReading,
+  wasMet: boolean | undefined,
+  state: AlertRuleState | undefined,
+  now: number,
+): boolean {
+  if (!reading.met || wasMet === true) return false
+  if (ALERT_CONDITIONS[rule.condition.type].trigger === "cross" && wasMet === undefined) return false
+  return alertRuleStatus(rule, state, now) === "active"
+}
+
+// A one-shot rule switched off after it fired. The same array comes back when the rule is already off or gone,
+// so the caller can skip the write
+export function disableRule(rules: AlertRule[], id: string): AlertRule[] {
+  return rules.some((rule) => rule.id === id && rule.enabled)
+    ? rules.map((rule) => (rule.id === id ? { ...rule, enabled: false } : rule))
+    : rules
+}
+
+export function alertMessage(rule: AlertRule, reading: ConditionReading): string {
+  return `${describeAlertRule(rule)}: ${reading.detail}`
+}
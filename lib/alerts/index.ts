@@ -0,0 +1,5 @@
+export * from "./types"
+export * from "./conditions"
+export * from "./evaluate"
+export * from "./store"
+export * from "./engine"
@@ -0,0 +1,91 @@
+import path from "path"
+import { createJsonFileStore, createMemoryJsonStore, createStoreSlot, type JsonStore } from "@/lib/storage"
+import type { AlertEvent, AlertLog } from "./types"
+
+// Server side only: the engine's per-user record of firings. Rules themselves live in the user's workspace
+
+export type AlertLogStore = Pick<JsonStore<AlertLog>, "read" | "write">
+
+export const MAX_ALERT_EVENTS = 200
+
+function parseAlertLog(raw: unknown): AlertLog {
+  const stored = (raw ?? {}) as Partial<AlertLog>
+  return {
+    states: stored.states && typeof stored.states === "object" ? stored.states : {},
+    events: Array.isArray(stored.events) ? stored.events.slice(-MAX_ALERT_EVENTS) : [],
+  }
+}
+
+// One JSON file per user, e.g. .data/alerts/k3x9....json
+export function createFileAlertLogStore({
+  dir = process.env.ALERT_STORE_DIR || path.join(process.cwd(), ".data", "alerts"),
+}: { dir?: string } = {}): AlertLogStore {
+  return createJsonFileStore({ dir, parse: parseAlertLog })
+}
+
+export function createMemoryAlertLogStore(): AlertLogStore {
+  return createMemoryJsonStore()
+}
+
+const store = createStoreSlot<AlertLogStore>(createFileAlertLogStore)
+// Logs are read on every quote, so each is loaded once and kept; every change is written through
+const cache = new Map<string, Promise<AlertLog>>()
+
+export function setAlertLogStore(next: AlertLogStore) {
+  store.set(next)
+  cache.clear()
+}
+
+export function getAlertLog(userId: string): Promise<AlertLog> {
+  let log = cache.get(userId)
+  if (!log) {
+    log = store.get().read(userId).then((stored) => stored ?? { states: {}, events: [] })
+    log.catch(() => cache.delete(userId))
+    cache.set(userId, log)
+  }
+  return log
+}
+
+// Changes for one user run one at a time against the cached copy
+function changeAlertLog(userId: string, change: (log: AlertLog) => AlertLog): Promise<AlertLog> {
+  const next = getAlertLog(userId).then(async (current) => {
+    const updated = change(current)
+    await store.get().write(userId, updated)
+    return updated
+  })
+  // A failed write leaves the cache to be reloaded from what's actually stored
+  cache.set(
+    userId,
+    next.catch(() => {
+      cache.delete(userId)
+      return getAlertLog(userId)
+    }),
+  )
+  return next
+}
+
+export function recordAlertEvent(userId: string, event: AlertEvent): Promise<AlertLog> {
+  return changeAlertLog(userId, (log) => {
+    const previous = log.states[event.ruleId]
+    return {
+      states: {
+        ...log.states,
+        [event.ruleId]: { lastTriggeredAt: event.triggeredAt, triggerCount: (previous?.triggerCount ?? 0) + 1 },
+      },
+      events: [...log.events, event].slice(-MAX_ALERT_EVENTS),
+    }
+  })
+}
+
+export function clearAlertEvents(userId: string): Promise<AlertLog> {
+  return changeAlertLog(userId, (log) => ({ ...log, events: [] }))
+}
+
+// Drops firing history for rules that no longer exist; their past events stay in the log
+export function pruneAlertStates(userId: string, ruleIds: string[]): Promise<AlertLog> {
+  const keep = new Set(ruleIds)
+  return changeAlertLog(userId, (log) => ({
+    ...log,
+    states: Object.fromEntries(Object.entries(log.states).filter(([id]) => keep.has(id))),
+  }))
+}
@@ -0,0 +1,60 @@
+import type { Timeframe } from "@/lib/candles/types"
+import type { AnchorPoint, DrawingTool } from "@/lib/drawings/types"
+
+export type CrossDirection = "above" | "below"
+
+export type AlertCondition =
+  | { type: "price-cross"; direction: CrossDirection; price: number }
+  // Change from the previous close, as the quote reports it
+  | { type: "percent-move"; direction: "up" | "down" | "either"; percent: number }
+  | { type: "rsi"; direction: CrossDirection; level: number; period: number; timeframe: Timeframe }
+  // Fast EMA crossing above (bullish) or below (bearish) the slow one
+  | { type: "ema-cross"; direction: CrossDirection; fast: number; slow: number; timeframe: Timeframe }
+  // Today's volume against the average day, pro-rated for how much of the session has passed
+  | { type: "volume-spike"; multiple: number; lookback: number }
+  // A copy of the drawing taken when the alert was made, so later edits to the chart don't move it
+  | {
+      type: "line-break"
+      direction: CrossDirection
+      drawingId: string
+      tool: DrawingTool
+      points: AnchorPoint[]
+      timeframe: Timeframe
+    }
+
+export type AlertConditionType = AlertCondition["type"]
+
+export interface AlertRule {
+  id: string
+  symbol: string // Yahoo-style, e.g. "RELIANCE.NS"
+  condition: AlertCondition
+  enabled: boolean
+  repeat: boolean // Otherwise the rule switches itself off after firing once
+  cooldownMinutes: number // Minimum gap between two firings
+  expiresAt: number | null // ms; the rule stops being checked after this
+  note?: string
+  createdAt: number
+}
+
+// What the engine remembers about a rule between quotes
+export interface AlertRuleState {
+  lastTriggeredAt: number | null
+  triggerCount: number
+}
+
+export type AlertRuleStatus = "active" | "paused" | "cooling-down" | "expired"
+
+export interface AlertEvent {
+  id: string
+  ruleId: string
+  symbol: string
+  message: string
+  price: number
+  triggeredAt: number // ms
+}
+
+// Per-user record kept by the engine: firing history per rule and the event log, newest last
+export interface AlertLog {
+  states: Record<string, AlertRuleState>
+  events: AlertEvent[]
+}
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { createCache, createMemoryStore, type CacheEntry } from "./index"
+
+const entry = (value: string, now: number, ttl = 1000, staleTtl = 0): CacheEntry<string> => ({
+  value,
+  storedAt: now,
+  staleAt: now + ttl,
+  expiresAt: now + ttl + staleTtl,
+})
+
+beforeEach(() => {
+  vi.useFakeTimers()
+  vi.setSystemTime(0)
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("createMemoryStore", () => {
+  it("reads back what was written and nothing else", async () => {
+    const store = createMemoryStore()
+    await store.set("a", entry("one", 0))
+
+    expect((await store.get<string>("a"))?.value).toBe("one")
+    expect(await store.get("b")).toBeUndefined()
+  })
+
+  it("drops entries once they expire", async () => {
+    const store = createMemoryStore()
+    await store.set("a", entry("one", 0, 1000, 500))
+
+    vi.setSystemTime(1499)
+    expect(await store.get("a")).toBeDefined()
+    vi.setSystemTime(1500)
+    expect(await store.get("a")).toBeUndefined()
+    expect(store.size).toBe(0)
+  })
+
+  it("evicts the least recently used entry past maxEntries", async () => {
+    const store = createMemoryStore({ maxEntries: 2 })
+    await store.set("a", entry("one", 0))
+    await store.set("b", entry("two", 0))
+    await store.get("a")
+    await store.set("c", entry("three", 0))
+
+    expect(await store.get("b")).toBeUndefined()
+    expect((await store.get<string>("a"))?.value).toBe("one")
+    expect((await store.get<string>("c"))?.value).toBe("three")
+  })
+})
+
+describe("createCache", () => {
+  const setup = () => {
+    const store = createMemoryStore()
+    const cache = createCache<string>({ namespace: "test", ttl: 1000, staleTtl: 500, store })
+    return { store, cache }
+  }
+
+  it("serves a value as fresh until its ttl, then not at all from get", async () => {
+    const { cache } = setup()
+    await cache.set("a", "one")
+
+    vi.setSystemTime(999)
+    expect(await cache.get("a")).toBe("one")
+    vi.setSystemTime(1000)
+    expect(await cache.get("a")).toBeNull()
+  })
+
+  it("serves stale values in the gap after the ttl while refreshing in the background", async () => {
+    const { cache } = setup()
+    await cache.set("a", "one")
+    vi.setSystemTime(1200)
+
+    const loader = vi.fn(async () => "two")
+    const stale = await cache.getOrLoad("a", loader)
+    expect(stale).toMatchObject({ value: "one", status: "stale", storedAt: 0 })
+
+    await vi.waitFor(() => expect(loader).toHaveBeenCalledTimes(1))
+    await vi.waitFor(async () => expect(await cache.get("a")).toBe("two"))
+    expect(await cache.getOrLoad("a", loader)).toMatchObject({ value: "two", status: "hit" })
+  })
+
+  it("loads again once the stale window has passed", async () => {
+    const { cache } = setup()
+    await cache.set("a", "one")
+    vi.setSystemTime(1500)
+
+    expect(await cache.getOrLoad("a", async () => "two")).toMatchObject({ value: "two", status: "miss" })
+  })
+
+  it("coalesces concurrent misses into one load", async () => {
+    const { cache } = setup()
+    const loader = vi.fn(async () => "one")
+
+    const results = await Promise.all([cache.getOrLoad("a", loader), cache.getOrLoad("a", loader)])
+    expect(loader).toHaveBeenCalledTimes(1)
+    expect(results.map((result) => result.value)).toEqual(["one", "one"])
+  })
+
+  it("keeps the stale value when a background refresh fails", async () => {
+    const { cache } = setup()
+    vi.spyOn(console, "error").mockImplementation(() => {})
+    await cache.set("a", "one")
+    vi.setSystemTime(1200)
+
+    const loader = vi.fn(async () => {
+      throw new Error("upstream down")
+    })
+    expect(await cache.getOrLoad("a", loader)).toMatchObject({ value: "one", status: "stale" })
+    await vi.waitFor(() => expect(loader).toHaveBeenCalledTimes(1))
+    expect(await cache.getOrLoad("a", loader)).toMatchObject({ value: "one", status: "stale" })
+  })
+
+  it("returns values shouldStore rejects without writing them", async () => {
+    const store = createMemoryStore()
+    const cache = createCache<string>({ namespace: "test", ttl: 1000, store, shouldStore: (value) => value !== "fake" })
+    const loader = vi.fn(async () => "fake")
+
+    expect(await cache.getOrLoad("a", loader)).toMatchObject({ value: "fake", status: "miss" })
+    expect(await cache.getOrLoad("a", loader)).toMatchObject({ value: "fake", status: "miss" })
+    expect(loader).toHaveBeenCalledTimes(2)
+    expect(store.size).toBe(0)
+  })
+
+  it("keeps namespaces apart in a shared store", async () => {
+    const store = createMemoryStore()
+    const first = createCache<string>({ namespace: "first", ttl: 1000, store })
+    const second = createCache<string>({ namespace: "second", ttl: 1000, store })
+    await first.set("a", "one")
+
+    expect(await second.get("a")).toBeNull()
+    expect(await first.get("a")).toBe("one")
+  })
+})
@@ -0,0 +1,108 @@
+import type { CacheEntry, CacheOptions, CacheResult, CacheStore } from "./types"
+import { createMemoryStore } from "./memory-store"
+
+export * from "./types"
+export { createMemoryStore, type MemoryStore, type MemoryStoreOptions } from "./memory-store"
+export { createRedisStore, type RedisLikeClient, type RedisStoreOptions } from "./redis-store"
+
+export interface Cache<T> {
+  // Fresh value only; stale entries are left for getOrLoad to revalidate
+  get(key: string): Promise<T | null>
+  set(key: string, value: T): Promise<void>
+  delete(key: string): Promise<void>
+  // Fresh hit, else stale value plus a background refresh, else load; concurrent loads of one key share a promise
+  getOrLoad(key: string, loader: () => Promise<T>): Promise<CacheResult<T>>
+}
+
+// Store used by caches created without an explicit one; point it at Redis once at startup to share across instances
+let defaultStore: CacheStore | null = null
+
+export function setDefaultCacheStore(store: CacheStore | null) {
+  defaultStore = store
+}
+
+export function createCache<T>({
+  namespace,
+  ttl,
+  staleTtl = 0,
+  maxEntries,
+  store,
+  shouldStore,
+}: CacheOptions<T>): Cache<T> {
+  const localStore = createMemoryStore({ maxEntries })
+  const inflight = new Map<string, Promise<CacheEntry<T>>>()
+
+  const resolveStore = () => store ?? defaultStore ?? localStore
+  const storeKey = (key: string) => `${namespace}:${key}`
+
+  // A failing store degrades to a miss rather than failing the request
+  async function readEntry(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      return await resolveStore().get<T>(storeKey(key))
+    } catch (error) {
+      console.error(`Cache read failed for ${storeKey(key)}:`, error)
+      return undefined
+    }
+  }
+
+  async function writeEntry(key: string, value: T): Promise<CacheEntry<T>> {
+    const now = Date.now()
+    const entry: CacheEntry<T> = { value, storedAt: now, staleAt: now + ttl, expiresAt: now + ttl + staleTtl }
+    if (shouldStore && !shouldStore(value)) return entry
+
+    try {
+      await resolveStore().set(storeKey(key), entry)
+    } catch (error) {
+      console.error(`Cache write failed for ${storeKey(key)}:`, error)
+    }
+    return entry
+  }
+
+  function refresh(key: string, loader: () => Promise<T>): Promise<CacheEntry<T>> {
+    const pending = inflight.get(key)
+    if (pending) return pending
+
+    const promise = loader()
+      .then((value) => writeEntry(key, value))
+      .finally(() => inflight.delete(key))
+    inflight.set(key, promise)
+    return promise
+  }
+
+  return {
+    async get(key) {
+      const entry = await readEntry(key)
+      return entry && Date.now() < entry.staleAt ? entry.value : null
+    },
+
+    async set(key, value) {
+      await writeEntry(key, value)
+    },
+
+    async delete(key) {
+      try {
+        await resolveStore().delete(storeKey(key))
+      } catch (error) {
+        console.error(`Cache delete failed for ${storeKey(key)}:`, error)
+      }
+    },
+
+    async getOrLoad(key, loader) {
+      const entry = await readEntry(key)
+      const now = Date.now()
+
+      if (entry && now < entry.staleAt) {
+        return { value: entry.value, status: "hit", storedAt: entry.storedAt }
+      }
+
+      if (entry && now < entry.expiresAt) {
+        // Keep serving the stale value; a failed refresh leaves it in place until it expires
+        refresh(key, loader).catch((error) => console.error(`Background refresh failed for ${storeKey(key)}:`, error))
+        return { value: entry.value, status: "stale", storedAt: entry.storedAt }
+      }
+
+      const loaded = await refresh(key, loader)
+      return { value: loaded.value, status: "miss", storedAt: loaded.storedAt }
+    },
+  }
+}
@@ -0,0 +1,55 @@
+import type { CacheEntry, CacheStore } from "./types"
+
+export interface MemoryStoreOptions {
+  maxEntries?: number
+}
+
+export interface MemoryStore extends CacheStore {
+  readonly size: number
+  clear(): void
+}
+
+// Process-local LRU store; Map iteration order doubles as recency order
+export function createMemoryStore({ maxEntries = 500 }: MemoryStoreOptions = {}): MemoryStore {
+  const entries = new Map<string, CacheEntry>()
+
+  return {
+    get size() {
+      return entries.size
+    },
+
+    async get<T>(key: string) {
+      const entry = entries.get(key)
+      if (!entry) return undefined
+
+      if (Date.now() >= entry.expiresAt) {
+        entries.delete(key)
+        return undefined
+      }
+
+      // Move to the most recently used end
+      entries.delete(key)
+      entries.set(key, entry)
+      return entry as CacheEntry<T>
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      entries.delete(key)
+      entries.set(key, entry)
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value
+        if (oldest === undefined) break
+        entries.delete(oldest)
+      }
+    },
+
+    async delete(key: string) {
+      entries.delete(key)
+    },
+
+    clear() {
+      entries.clear()
+    },
+  }
+}
@@ -0,0 +1,32 @@
+import type { CacheEntry, CacheStore } from "./types"
+
+// The subset of an ioredis-style client the store needs; node-redis and Upstash clients fit with a thin adapter
+export interface RedisLikeClient {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, mode: "PX", ttlMs: number): Promise<unknown>
+  del(key: string): Promise<unknown>
+}
+
+export interface RedisStoreOptions {
+  prefix?: string
+}
+
+// Shared store for multi-instance deployments; Redis expiry mirrors the entry's expiresAt
+export function createRedisStore(client: RedisLikeClient, { prefix = "cache:" }: RedisStoreOptions = {}): CacheStore {
+  return {
+    async get<T>(key: string) {
+      const raw = await client.get(prefix + key)
+      if (!raw) return undefined
+      return JSON.parse(raw) as CacheEntry<T>
+    },
+
+    async set<T>(key: string, entry: CacheEntry<T>) {
+      const ttlMs = Math.max(1, Math.ceil(entry.expiresAt - Date.now()))
+      await client.set(prefix + key, JSON.stringify(entry), "PX", ttlMs)
+    },
+
+    async delete(key: string) {
+      await client.del(prefix + key)
+    },
+  }
+}
@@ -0,0 +1,30 @@
+export interface CacheEntry<T = unknown> {
+  value: T
+  storedAt: number
+  staleAt: number // Served as fresh until this time
+  expiresAt: number // Served stale (while revalidating) until this time, then dropped
+}
+
+// Backing storage for createCache. Stores only hold entries; freshness and revalidation live in the cache.
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+export interface CacheOptions<T = unknown> {
+  namespace: string
+  ttl: number // How long a value is fresh, in ms
+  staleTtl?: number // Extra time a value may be served stale while it is refreshed in the background
+  maxEntries?: number // LRU limit for the in-memory store used when no store is configured
+  store?: CacheStore
+  shouldStore?: (value: T) => boolean // Values it rejects are returned to the caller but never written
+}
+
+export type CacheStatus = "hit" | "stale" | "miss"
+
+export interface CacheResult<T> {
+  value: T
+  status: CacheStatus
+  storedAt: number
+}
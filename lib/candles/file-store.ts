@@ -0,0 +1,50 @@
+import path from "path"
+import { createJsonFileStore, createMemoryJsonStore, type JsonStore } from "@/lib/storage"
+import type { CandleInterval, CandleSeries, CandleStore } from "./types"
+
+const STORE_VERSION = 2
+
+export interface FileCandleStoreOptions {
+  dir?: string
+}
+
+interface StoredFile {
+  version: number
+  series: CandleSeries
+}
+
+// Keyed "1d/RELIANCE"; the interval becomes a directory on disk
+const seriesKey = (symbol: string, interval: CandleInterval) => `${interval}/${symbol}`
+
+function candleStore(documents: JsonStore<StoredFile>): CandleStore {
+  return {
+    async read(symbol, interval) {
+      const stored = await documents.read(seriesKey(symbol, interval))
+      // Files from another layout version are rebuilt by the next backfill
+      return stored?.version === STORE_VERSION ? stored.series : undefined
+    },
+
+    write(series) {
+      return documents.write(seriesKey(series.symbol, series.interval), { version: STORE_VERSION, series })
+    },
+  }
+}
+
+// One JSON file per symbol and interval, e.g. .data/candles/1d/RELIANCE.json
+export function createFileCandleStore({
+  dir = process.env.CANDLE_STORE_DIR || path.join(process.cwd(), ".data", "candles"),
+}: FileCandleStoreOptions = {}): CandleStore {
+  return candleStore(
+    createJsonFileStore<StoredFile>({
+      dir,
+      fileFor: (key) => {
+        const slash = key.indexOf("/")
+        return path.join(dir, key.slice(0, slash), `${encodeURIComponent(key.slice(slash + 1))}.json`)
+      },
+    }),
+  )
+}
+
+export function createMemoryCandleStore(): CandleStore {
+  return candleStore(createMemoryJsonStore())
+}
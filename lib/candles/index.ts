@@ -0,0 +1,331 @@
+import { asCached, createProvenance, toBaseSymbol, type ChartData } from "@/lib/market-data"
+import { fetchChartRange } from "@/lib/market-data/chart"
+import { adjustCandles, getCorporateActions, toTradedPrices, type CorporateAction } from "@/lib/corporate-actions"
+import { createStoreSlot } from "@/lib/storage"
+import { createFileCandleStore } from "./file-store"
+import { DAY_MS, findGaps, getCandleIntervalMs, istDay, istDayStart, parseIstDate, slotKey } from "./session"
+import { alignToBucket, getTimeframeBases, resampleCandles, timeframeSpanMs } from "./resample"
+import { simulateCandles } from "./simulated"
+import type { CandleHistory, CandleInterval, CandleSeries, CandleStore, TimeRange, Timeframe } from "./types"
+
+export * from "./types"
+export { createFileCandleStore, createMemoryCandleStore, type FileCandleStoreOptions } from "./file-store"
+export {
+  CANDLE_INTERVALS,
+  DAY_MS,
+  expectedBarTimes,
+  findGaps,
+  getCandleIntervalMs,
+  isCandleInterval,
+  istDay,
+  toIstDate,
+} from "./session"
+export { isTimeframe, resampleCandles, TIMEFRAMES } from "./resample"
+export { simulateCandles } from "./simulated"
+
+// How far back the provider serves each interval, and the widest span one request may cover
+const PROVIDER_LIMITS: Record<CandleInterval, { lookbackMs: number; maxSpanMs: number }> = {
+  "1m": { lookbackMs: 29 * DAY_MS, maxSpanMs: 7 * DAY_MS },
+  "5m": { lookbackMs: 59 * DAY_MS, maxSpanMs: 59 * DAY_MS },
+  "15m": { lookbackMs: 59 * DAY_MS, maxSpanMs: 59 * DAY_MS },
+  "30m": { lookbackMs: 59 * DAY_MS, maxSpanMs: 59 * DAY_MS },
+  "1h": { lookbackMs: 729 * DAY_MS, maxSpanMs: 365 * DAY_MS },
+  "1d": { lookbackMs: 20 * 365 * DAY_MS, maxSpanMs: 20 * 365 * DAY_MS },
+}
+
+// Default window when a caller asks for "recent" bars without a start
+const DEFAULT_LOOKBACK_MS: Record<CandleInterval, number> = {
+  "1m": 2 * DAY_MS,
+  "5m": 5 * DAY_MS,
+  "15m": 15 * DAY_MS,
+  "30m": 30 * DAY_MS,
+  "1h": 90 * DAY_MS,
+  "1d": 365 * DAY_MS,
+}
+
+const MAX_REQUESTS_PER_BACKFILL = 8
+const DEFAULT_TIMEFRAME_BARS = 300
+
+const store = createStoreSlot<CandleStore>(createFileCandleStore)
+
+export function setCandleStore(next: CandleStore) {
+  store.set(next)
+}
+
+export function getDefaultLookbackMs(interval: CandleInterval): number {
+  return DEFAULT_LOOKBACK_MS[interval]
+}
+
+export function getProviderLookbackMs(interval: CandleInterval): number {
+  return PROVIDER_LIMITS[interval].lookbackMs
+}
+
+// Oldest bar a timeframe can serve: its coarsest base interval reaches furthest back
+export function getTimeframeLookbackMs(timeframe: Timeframe): number {
+  return Math.max(...getTimeframeBases(timeframe).map(getProviderLookbackMs))
+}
+
+// The newest bars are re-requested at most this often
+function tailRefreshMs(interval: CandleInterval): number {
+  return Math.min(15 * 60 * 1000, Math.max(60 * 1000, getCandleIntervalMs(interval)))
+}
+
+function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: TimeRange[] = []
+
+  for (const [from, to] of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && from <= last[1] + 1) {
+      last[1] = Math.max(last[1], to)
+    } else {
+      merged.push([from, to])
+    }
+  }
+  return merged
+}
+
+// Parts of [from, to] not covered by the merged, ascending ranges
+function subtractRanges([from, to]: TimeRange, covered: TimeRange[]): TimeRange[] {
+  const missing: TimeRange[] = []
+  let cursor = from
+
+  for (const [start, end] of covered) {
+    if (end < cursor) continue
+    if (start > to) break
+    if (start > cursor) missing.push([cursor, start - 1])
+    cursor = Math.max(cursor, end + 1)
+  }
+  if (cursor <= to) missing.push([cursor, to])
+  return missing
+}
+
+function splitRange([from, to]: TimeRange, maxSpan: number): TimeRange[] {
+  const chunks: TimeRange[] = []
+  for (let start = from; start <= to; start += maxSpan) {
+    chunks.push([start, Math.min(to, start + maxSpan - 1)])
+  }
+  return chunks
+}
+
+// Incoming bars replace stored ones in the same slot, so revised and still-forming bars settle on refetch
+function mergeCandles(existing: ChartData[], incoming: ChartData[], interval: CandleInterval): ChartData[] {
+  const bySlot = new Map<number, ChartData>()
+  for (const candle of existing) bySlot.set(slotKey(candle.timestamp, interval), candle)
+  for (const candle of incoming) bySlot.set(slotKey(candle.timestamp, interval), candle)
+  return Array.from(bySlot.values()).sort((a, b) => a.timestamp - b.timestamp)
+}
+
+async function readSeries(symbol: string, interval: CandleInterval): Promise<CandleSeries> {
+  try {
+    const series = await store.get().read(symbol, interval)
+    if (series) return series
+  } catch (error) {
+    console.error(`Candle store read failed for ${symbol} ${interval}:`, error)
+  }
+  return { symbol, interval, candles: [], coverage: [], provenance: null, checkedAt: 0, splitBasis: [] }
+}
+
+// The provider restates old bars when a split goes ex, so bars stored before we knew of a split are on the
+// wrong basis: drop everything before the earliest such ex-date and let the backfill fetch it again
+function reconcileSplits(series: CandleSeries, splitDates: string[]): CandleSeries {
+  const known = new Set(series.splitBasis)
+  const unseen = splitDates.filter((date) => !known.has(date)).map(parseIstDate)
+  const firstBar = series.candles[0]
+
+  if (unseen.length === 0) return series
+
+  const cutoff = Math.max(...unseen)
+  if (!firstBar || istDay(firstBar.timestamp) >= cutoff) {
+    return { ...series, splitBasis: splitDates }
+  }
+
+  const keepFrom = istDayStart(cutoff)
+  return {
+    ...series,
+    candles: series.candles.filter((candle) => candle.timestamp >= keepFrom),
+    coverage: series.coverage
+      .filter(([, to]) => to >= keepFrom)
+      .map(([from, to]): TimeRange => [Math.max(from, keepFrom), to]),
+    splitBasis: splitDates,
+  }
+}
+
+export interface BackfillResult {
+  series: CandleSeries
+  fetched: number
+  errors: string[]
+}
+
+async function runBackfill(
+  symbol: string,
+  interval: CandleInterval,
+  from: number,
+  to: number,
+  splitDates: string[],
+): Promise<BackfillResult> {
+  const now = Date.now()
+  const limits = PROVIDER_LIMITS[interval]
+  const refreshMs = tailRefreshMs(interval)
+  const read = await readSeries(symbol, interval)
+  const stored = reconcileSplits(read, splitDates)
+  const rebased = stored !== read
+
+  const start = Math.max(from, now - limits.lookbackMs)
+  const end = Math.min(to, now)
+  if (start > end && !rebased) return { series: stored, fetched: 0, errors: [] }
+
+  // Spans reaching the present wait out the refresh interval after a tail check, so polling readers cost one fetch
+  const tailFresh = now - stored.checkedAt < refreshMs
+  const missing = subtractRanges([start, end], stored.coverage).filter(
+    ([, rangeEnd]) => !tailFresh || rangeEnd < now - refreshMs,
+  )
+  // Newest spans first, so a capped backfill still brings the series up to date
+  const chunks = missing
+    .flatMap((range) => splitRange(range, limits.maxSpanMs))
+    .reverse()
+    .slice(0, MAX_REQUESTS_PER_BACKFILL)
+
+  if (chunks.length === 0 && !rebased) return { series: stored, fetched: 0, errors: [] }
+
+  let { candles, coverage, provenance, checkedAt } = stored
+  const errors: string[] = []
+  let fetched = 0
+
+  for (const [chunkFrom, chunkTo] of chunks) {
+    const reachesPresent = chunkTo >= now - refreshMs
+    if (reachesPresent) checkedAt = now
+
+    try {
+      const response = await fetchChartRange(symbol, interval, chunkFrom, chunkTo)
+      fetched++
+      candles = mergeCandles(candles, response.data, interval)
+      provenance = response.provenance
+
+      // The newest bar may still be forming, so coverage stops short of it and the next backfill refetches it
+      const lastBar = response.data[response.data.length - 1]
+      const coveredTo = reachesPresent ? (lastBar ? lastBar.timestamp - 1 : chunkFrom - 1) : chunkTo
+      if (coveredTo >= chunkFrom) {
+        coverage = mergeRanges([...coverage, [chunkFrom, coveredTo]])
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error"
+      console.error(`Candle backfill failed for ${symbol} ${interval}:`, message)
+      errors.push(message)
+    }
+  }
+
+  const series: CandleSeries = { symbol, interval, candles, coverage, provenance, checkedAt, splitBasis: splitDates }
+  try {
+    await store.get().write(series)
+  } catch (error) {
+    console.error(`Candle store write failed for ${symbol} ${interval}:`, error)
+  }
+  return { series, fetched, errors }
+}
+
+// Backfills of one series run one after another so each sees what the previous one stored
+const queues = new Map<string, Promise<BackfillResult>>()
+
+// Fetch whatever part of [from, to] the store has not seen yet and persist it; pass the symbol's corporate
+// actions so bars stored before a new split are refetched on the provider's restated basis
+export function backfillCandles(
+  symbol: string,
+  interval: CandleInterval,
+  from: number,
+  to = Date.now(),
+  actions: CorporateAction[] = [],
+): Promise<BackfillResult> {
+  const baseSymbol = toBaseSymbol(symbol)
+  const key = `${interval}:${baseSymbol}`
+  const splitDates = actions.filter((action) => action.type !== "dividend").map((action) => action.exDate)
+  const previous = queues.get(key) ?? Promise.resolve(null)
+
+  const next = previous
+    .catch(() => null)
+    .then(() => runBackfill(baseSymbol, interval, from, to, splitDates))
+    .finally(() => {
+      if (queues.get(key) === next) queues.delete(key)
+    })
+  queues.set(key, next)
+  return next
+}
+
+export interface CandleQuery {
+  from?: number
+  to?: number
+  limit?: number // Keep only the newest N bars
+  adjusted?: boolean // Back-adjust for splits, bonuses and dividends; defaults to true
+}
+
+// Stored bars for a window after an incremental backfill; a window reads the same bars on every call until a
+// new corporate action restates it
+export async function getCandleHistory(
+  symbol: string,
+  interval: CandleInterval,
+  { from, to = Date.now(), limit, adjusted = true }: CandleQuery = {},
+): Promise<CandleHistory> {
+  const start = from ?? to - DEFAULT_LOOKBACK_MS[interval]
+  const actions = await getCorporateActions(symbol)
+  const { series, fetched, errors } = await backfillCandles(symbol, interval, start, to, actions)
+
+  // Adjust the whole series before slicing: a dividend's factor depends on the close before its ex-date
+  const traded = toTradedPrices(series.candles, actions)
+  const priced = adjusted ? adjustCandles(traded, actions) : traded
+
+  let candles = priced.filter((candle) => candle.timestamp >= start && candle.timestamp <= to)
+  if (limit) candles = candles.slice(-limit)
+
+  if (candles.length === 0) {
+    // Nothing stored and the provider unreachable: fall back to a deterministic simulation, kept to the window
+    // the provider could have served and to the newest `limit` bars of it
+    const simulatedFrom = Math.max(start, to - PROVIDER_LIMITS[interval].lookbackMs)
+    const simulated = simulateCandles(series.symbol, interval, simulatedFrom, to, limit)
+
+    return {
+      symbol: series.symbol,
+      interval,
+      candles: simulated,
+      adjusted,
+      gaps: [],
+      provenance: createProvenance("simulated"),
+      fetched,
+      errors,
+    }
+  }
+
+  const lastBar = candles[candles.length - 1]
+  const provenance = series.provenance ?? createProvenance("delayed", lastBar.timestamp)
+  // Gaps only where the provider could have served bars
+  const gapStart = Math.max(limit ? candles[0].timestamp : start, Date.now() - PROVIDER_LIMITS[interval].lookbackMs)
+
+  return {
+    symbol: series.symbol,
+    interval,
+    candles,
+    adjusted,
+    gaps: findGaps(candles, interval, gapStart, to),
+    provenance: fetched > 0 ? provenance : asCached({ provenance }).provenance,
+    fetched,
+    errors,
+  }
+}
+
+// Bars of any timeframe, resampled from the finest stored interval the provider still serves for the window;
+// 3m, 2h, weekly and monthly never cost a provider request of their own
+export async function getTimeframeHistory(
+  symbol: string,
+  timeframe: Timeframe,
+  { from, to = Date.now(), limit, adjusted = true }: CandleQuery = {},
+): Promise<CandleHistory> {
+  const start = alignToBucket(from ?? to - timeframeSpanMs(timeframe, limit ?? DEFAULT_TIMEFRAME_BARS), timeframe)
+  const bases = getTimeframeBases(timeframe)
+  const base =
+    bases.find((interval) => start >= Date.now() - PROVIDER_LIMITS[interval].lookbackMs) ?? bases[bases.length - 1]
+
+  const history = await getCandleHistory(symbol, base, { from: start, to, adjusted })
+  let candles = base === timeframe ? history.candles : resampleCandles(history.candles, timeframe)
+  if (limit) candles = candles.slice(-limit)
+
+  return { ...history, interval: timeframe, candles }
+}
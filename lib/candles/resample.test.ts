@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest"
+import type { ChartData } from "@/lib/market-data"
+import { alignToBucket, resampleCandles } from "./resample"
+
+const ist = (dateTime: string) => Date.parse(`${dateTime}+05:30`)
+
+const bar = (timestamp: number, close: number, volume = 100): ChartData => ({
+  timestamp,
+  open: close - 1,
+  high: close + 2,
+  low: close - 2,
+  close,
+  volume,
+})
+
+// One-minute bars from `start`, `count` of them, closing at 1, 2, 3...
+const minutes = (start: string, count: number) =>
+  Array.from({ length: count }, (_, i) => bar(ist(start) + i * 60 * 1000, i + 1))
+
+describe("resampleCandles", () => {
+  it("aggregates open, high, low, close and volume per bucket", () => {
+    const [first, second] = resampleCandles(minutes("2025-06-02T09:15:00", 6), "3m")
+
+    expect(first).toEqual({ timestamp: ist("2025-06-02T09:15:00"), open: 0, high: 5, low: -1, close: 3, volume: 300 })
+    expect(second.timestamp).toBe(ist("2025-06-02T09:18:00"))
+    expect(second.close).toBe(6)
+  })
+
+  it("restarts intraday buckets at the session open, leaving the last one short", () => {
+    const times = ["2025-06-02T15:14:00", "2025-06-02T15:29:00", "2025-06-03T09:15:00"]
+    const resampled = resampleCandles(times.map((time, i) => bar(ist(time), i + 1)), "2h")
+
+    expect(resampled.map((candle) => candle.timestamp)).toEqual([
+      ist("2025-06-02T13:15:00"),
+      ist("2025-06-02T15:15:00"),
+      ist("2025-06-03T09:15:00"),
+    ])
+  })
+
+  it("drops bars outside the session", () => {
+    const bars = [bar(ist("2025-06-02T09:10:00"), 1), bar(ist("2025-06-02T15:30:00"), 2)]
+    expect(resampleCandles(bars, "15m")).toEqual([])
+  })
+
+  it("drops intraday bars on an exchange holiday", () => {
+    expect(resampleCandles(minutes("2025-08-15T10:00:00", 3), "3m")).toEqual([])
+  })
+
+  it("buckets a Muhurat session from its own open, even outside regular hours", () => {
+    const resampled = resampleCandles(minutes("2026-11-08T18:00:00", 60), "30m")
+
+    expect(resampled.map((candle) => candle.timestamp)).toEqual([
+      ist("2026-11-08T18:00:00"),
+      ist("2026-11-08T18:30:00"),
+    ])
+    expect(resampled.map((candle) => candle.volume)).toEqual([3000, 3000])
+  })
+
+  it("groups daily bars into Monday-stamped weeks and calendar months", () => {
+    const dates = ["2025-06-27", "2025-06-30", "2025-07-01", "2025-07-04"]
+    const days = dates.map((date, i) => bar(ist(`${date}T00:00:00`), i + 1))
+
+    expect(resampleCandles(days, "1w").map((candle) => candle.timestamp)).toEqual([
+      ist("2025-06-23T09:15:00"),
+      ist("2025-06-30T09:15:00"),
+    ])
+    expect(resampleCandles(days, "1mo").map((candle) => [candle.timestamp, candle.close])).toEqual([
+      [ist("2025-06-01T09:15:00"), 2],
+      [ist("2025-07-01T09:15:00"), 4],
+    ])
+  })
+})
+
+describe("alignToBucket", () => {
+  it("moves a window start back to its bucket's open", () => {
+    expect(alignToBucket(ist("2025-06-02T10:20:00"), "1h")).toBe(ist("2025-06-02T10:15:00"))
+    expect(alignToBucket(ist("2025-06-04T12:00:00"), "1w")).toBe(ist("2025-06-02T09:15:00"))
+  })
+
+  it("leaves times outside any session where they are", () => {
+    const evening = ist("2025-06-02T20:00:00")
+    expect(alignToBucket(evening, "30m")).toBe(evening)
+  })
+
+  it("aligns to the Muhurat open on a Muhurat day", () => {
+    expect(alignToBucket(ist("2026-11-08T18:40:00"), "30m")).toBe(ist("2026-11-08T18:30:00"))
+    expect(alignToBucket(ist("2025-10-21T14:10:00"), "1h")).toBe(ist("2025-10-21T13:45:00"))
+  })
+
+  it("never moves a start forward", () => {
+    const beforeOpen = ist("2025-06-02T08:00:00")
+    expect(alignToBucket(beforeOpen, "1d")).toBe(beforeOpen)
+  })
+})
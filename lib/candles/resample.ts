@@ -0,0 +1,104 @@
+import { getTradingSession } from "@/lib/market-calendar"
+import type { ChartData } from "@/lib/market-data"
+import { DAY_MS, istDay, parseIstDate, sessionClose, sessionOpen, toIstDate } from "./session"
+import type { CandleInterval, Timeframe } from "./types"
+
+interface TimeframeSpec {
+  bucket: number | "day" | "week" | "month" // Intraday bucket size in ms, or a calendar period
+  bases: CandleInterval[] // Stored intervals it can be built from, finest first
+}
+
+const MINUTE_MS = 60 * 1000
+
+const TIMEFRAME_SPECS: Record<Timeframe, TimeframeSpec> = {
+  "1m": { bucket: MINUTE_MS, bases: ["1m"] },
+  "3m": { bucket: 3 * MINUTE_MS, bases: ["1m"] },
+  "5m": { bucket: 5 * MINUTE_MS, bases: ["1m", "5m"] },
+  "15m": { bucket: 15 * MINUTE_MS, bases: ["1m", "5m", "15m"] },
+  "30m": { bucket: 30 * MINUTE_MS, bases: ["1m", "5m", "15m", "30m"] },
+  "1h": { bucket: 60 * MINUTE_MS, bases: ["1m", "5m", "15m", "30m", "1h"] },
+  "2h": { bucket: 120 * MINUTE_MS, bases: ["1m", "5m", "15m", "30m", "1h"] },
+  // Exchange daily bars carry the official close, so calendar periods build on them rather than minutes
+  "1d": { bucket: "day", bases: ["1d"] },
+  "1w": { bucket: "week", bases: ["1d"] },
+  "1mo": { bucket: "month", bases: ["1d"] },
+}
+
+export const TIMEFRAMES = Object.keys(TIMEFRAME_SPECS) as Timeframe[]
+
+export function isTimeframe(value: string): value is Timeframe {
+  return Object.prototype.hasOwnProperty.call(TIMEFRAME_SPECS, value)
+}
+
+export function getTimeframeBases(timeframe: Timeframe): CandleInterval[] {
+  return TIMEFRAME_SPECS[timeframe].bases
+}
+
+// Open time of the bucket a bar falls in; intraday buckets restart at every session open (09:15 IST, or the
+// Muhurat open), so the last one of the day may be short, e.g. 15:15-15:30 for 2h. Bars outside the session,
+// including any on weekends and holidays, have no bucket
+function bucketStart(timestamp: number, timeframe: Timeframe): number | null {
+  const { bucket } = TIMEFRAME_SPECS[timeframe]
+  const day = istDay(timestamp)
+
+  switch (bucket) {
+    case "day":
+      return sessionOpen(day)
+    case "week":
+      return sessionOpen(day - ((day + 3) % 7)) // Monday; 1970-01-01 was a Thursday
+    case "month":
+      return sessionOpen(parseIstDate(`${toIstDate(timestamp).slice(0, 7)}-01`))
+    default: {
+      const session = getTradingSession(day)
+      if (!session || timestamp < session.open || timestamp >= session.close) return null
+      return session.open + Math.floor((timestamp - session.open) / bucket) * bucket
+    }
+  }
+}
+
+// Move a window start back to its bucket's open so the first resampled bar is not a partial one
+export function alignToBucket(timestamp: number, timeframe: Timeframe): number {
+  return Math.min(timestamp, bucketStart(timestamp, timeframe) ?? timestamp)
+}
+
+// Aggregate ascending bars into the timeframe: first open, highest high, lowest low, last close, summed volume.
+// Each output bar is stamped with its bucket's open time
+export function resampleCandles(bars: ChartData[], timeframe: Timeframe): ChartData[] {
+  const resampled: ChartData[] = []
+  let current: ChartData | null = null
+
+  for (const bar of bars) {
+    const start = bucketStart(bar.timestamp, timeframe)
+    if (start === null) continue
+
+    if (current && current.timestamp === start) {
+      current.high = Math.max(current.high, bar.high)
+      current.low = Math.min(current.low, bar.low)
+      current.close = bar.close
+      current.volume += bar.volume
+    } else {
+      current = { timestamp: start, open: bar.open, high: bar.high, low: bar.low, close: bar.close, volume: bar.volume }
+      resampled.push(current)
+    }
+  }
+
+  return resampled
+}
+
+// Calendar time needed to cover `bars` bars of a timeframe, with slack for weekends and holidays
+export function timeframeSpanMs(timeframe: Timeframe, bars: number): number {
+  const { bucket } = TIMEFRAME_SPECS[timeframe]
+
+  switch (bucket) {
+    case "day":
+      return Math.ceil(bars * 1.5 + 10) * DAY_MS
+    case "week":
+      return (bars + 1) * 7 * DAY_MS
+    case "month":
+      return (bars + 1) * 31 * DAY_MS
+    default: {
+      const perSession = Math.ceil((sessionClose(0) - sessionOpen(0)) / bucket)
+      return Math.ceil((bars / perSession) * 1.5 + 4) * DAY_MS
+    }
+  }
+}
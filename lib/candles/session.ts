@@ -0,0 +1,87 @@
+import { DAY_MS, getTradingSession, IST_OFFSET_MS, istDay } from "@/lib/market-calendar"
+import type { ChartData } from "@/lib/market-data"
+import type { CandleGap, CandleInterval } from "./types"
+
+export { DAY_MS, istDay, istDayStart, parseIstDate, toIstDate } from "@/lib/market-calendar"
+
+// Regular NSE cash session, 09:15-15:30 IST; bar slots are aligned to it
+const SESSION_OPEN_MS = (9 * 60 + 15) * 60 * 1000
+const SESSION_CLOSE_MS = (15 * 60 + 30) * 60 * 1000
+export const SESSION_LENGTH_MS = SESSION_CLOSE_MS - SESSION_OPEN_MS
+
+const INTERVAL_MS: Record<CandleInterval, number> = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "30m": 30 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "1d": DAY_MS,
+}
+
+export const CANDLE_INTERVALS = Object.keys(INTERVAL_MS) as CandleInterval[]
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return Object.prototype.hasOwnProperty.call(INTERVAL_MS, value)
+}
+
+export function getCandleIntervalMs(interval: CandleInterval): number {
+  return INTERVAL_MS[interval]
+}
+
+export function sessionOpen(day: number): number {
+  return day * DAY_MS - IST_OFFSET_MS + SESSION_OPEN_MS
+}
+
+export function sessionClose(day: number): number {
+  return day * DAY_MS - IST_OFFSET_MS + SESSION_CLOSE_MS
+}
+
+// Identifies the session slot a bar belongs to; daily bars key by IST date since providers stamp them
+// at either midnight or the session open
+export function slotKey(timestamp: number, interval: CandleInterval): number {
+  const day = istDay(timestamp)
+  if (interval === "1d") return day
+  return sessionOpen(day) + Math.floor((timestamp - sessionOpen(day)) / INTERVAL_MS[interval]) * INTERVAL_MS[interval]
+}
+
+// Open times of the bars the exchange prints in [from, to], oldest first
+export function expectedBarTimes(interval: CandleInterval, from: number, to: number): number[] {
+  const step = INTERVAL_MS[interval] // A daily step leaves one bar per session
+  const times: number[] = []
+
+  for (let day = istDay(from); day <= istDay(to); day++) {
+    // Skips weekends and exchange holidays; a Muhurat session expects bars only in its hour
+    const session = getTradingSession(day)
+    if (!session) continue
+
+    for (let time = session.open; time < session.close; time += step) {
+      if (time >= from && time <= to) times.push(time)
+    }
+  }
+
+  return times
+}
+
+// Runs of session slots in [from, to] with no bar; slots that have not opened yet are not expected
+export function findGaps(candles: ChartData[], interval: CandleInterval, from: number, to: number): CandleGap[] {
+  const present = new Set(candles.map((candle) => slotKey(candle.timestamp, interval)))
+  const gaps: CandleGap[] = []
+  let current: CandleGap | null = null
+
+  for (const time of expectedBarTimes(interval, from, Math.min(to, Date.now()))) {
+    if (present.has(slotKey(time, interval))) {
+      current = null
+      continue
+    }
+
+    if (current) {
+      current.to = time
+      current.missing++
+    } else {
+      current = { from: time, to: time, missing: 1 }
+      gaps.push(current)
+    }
+  }
+
+  return gaps
+}
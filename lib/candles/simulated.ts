@@ -0,0 +1,65 @@
+import type { ChartData } from "@/lib/market-data"
+import { getSimulatedBasePrice } from "@/lib/market-data/simulated"
+import { toBaseSymbol } from "@/lib/market-data/symbols"
+import { DAY_MS, SESSION_LENGTH_MS, expectedBarTimes, getCandleIntervalMs } from "./session"
+import type { CandleInterval } from "./types"
+
+// Integer hash mapped to [0, 1)
+function hash(a: number, b: number): number {
+  let h = Math.imul(a ^ b, 0x9e3779b1)
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b)
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35)
+  h ^= h >>> 16
+  return (h >>> 0) / 4294967296
+}
+
+function hashSymbol(symbol: string): number {
+  let h = 0
+  for (const char of symbol) {
+    h = (Math.imul(h, 31) + char.charCodeAt(0)) | 0
+  }
+  return h
+}
+
+// Price is a pure function of symbol and time, so a bar reads the same whatever range it was requested in
+function simulatedClose(seed: number, basePrice: number, time: number, noiseScale: number): number {
+  const cycles =
+    0.08 * Math.sin((2 * Math.PI * time) / (120 * DAY_MS) + (seed % 7)) +
+    0.04 * Math.sin((2 * Math.PI * time) / (23 * DAY_MS) + (seed % 5)) +
+    0.01 * Math.sin((2 * Math.PI * time) / (3 * DAY_MS))
+  const noise = (hash(seed, Math.floor(time / 60000)) - 0.5) * noiseScale
+  return basePrice * Math.exp(cycles + noise)
+}
+
+// Deterministic stand-in for a symbol with no stored history and no reachable provider; never persisted.
+// With a limit only the newest `limit` bars are built
+export function simulateCandles(
+  symbol: string,
+  interval: CandleInterval,
+  from: number,
+  to: number,
+  limit?: number,
+): ChartData[] {
+  const baseSymbol = toBaseSymbol(symbol)
+  const seed = hashSymbol(baseSymbol)
+  const basePrice = getSimulatedBasePrice(baseSymbol)
+  const step = getCandleIntervalMs(interval)
+  const noiseScale = 0.02 * Math.sqrt(step / DAY_MS)
+  const volumeShare = interval === "1d" ? 1 : step / SESSION_LENGTH_MS
+
+  const times = expectedBarTimes(interval, from, Math.min(to, Date.now()))
+  return (limit ? times.slice(-limit) : times).map((time) => {
+    const open = simulatedClose(seed, basePrice, time - step, noiseScale)
+    const close = simulatedClose(seed, basePrice, time, noiseScale)
+    const minute = Math.floor(time / 60000)
+
+    return {
+      timestamp: time,
+      open: Number(open.toFixed(2)),
+      high: Number((Math.max(open, close) * (1 + hash(seed + 1, minute) * noiseScale * 0.5)).toFixed(2)),
+      low: Number((Math.min(open, close) * (1 - hash(seed + 2, minute) * noiseScale * 0.5)).toFixed(2)),
+      close: Number(close.toFixed(2)),
+      volume: Math.floor(volumeShare * 4000000 * (0.5 + hash(seed + 3, minute))),
+    }
+  })
+}
@@ -0,0 +1,45 @@
+import type { ChartData, Provenance } from "@/lib/market-data"
+
+// Intervals fetched from the provider and stored
+export type CandleInterval = "1m" | "5m" | "15m" | "30m" | "1h" | "1d"
+
+// Bar sizes served to charts; the extra ones are resampled from a stored interval
+export type Timeframe = CandleInterval | "3m" | "2h" | "1w" | "1mo"
+
+// Inclusive span of bar open times in milliseconds
+export type TimeRange = [from: number, to: number]
+
+// Everything stored for one symbol and interval
+export interface CandleSeries {
+  symbol: string // Base symbol, e.g. "RELIANCE"
+  interval: CandleInterval
+  candles: ChartData[] // Ascending by timestamp, one bar per slot, restated by the provider for known splits
+  coverage: TimeRange[] // Spans already fetched from the provider, merged and ascending
+  provenance: Provenance | null // Of the most recent provider fetch
+  checkedAt: number // Last time the newest bars were requested from the provider, 0 if never
+  splitBasis: string[] // Ex-dates of the splits and bonuses known when the bars were stored
+}
+
+// Persistence for candle series; the store only moves whole series, merging happens in the caller
+export interface CandleStore {
+  read(symbol: string, interval: CandleInterval): Promise<CandleSeries | undefined>
+  write(series: CandleSeries): Promise<void>
+}
+
+// A run of consecutive session slots with no bar
+export interface CandleGap {
+  from: number // Open time of the first missing bar
+  to: number // Open time of the last missing bar
+  missing: number
+}
+
+export interface CandleHistory {
+  symbol: string
+  interval: Timeframe
+  candles: ChartData[]
+  adjusted: boolean // Back-adjusted for splits, bonuses and dividends, else prices as traded
+  gaps: CandleGap[]
+  provenance: Provenance
+  fetched: number // Provider requests made while serving this read
+  errors: string[]
+}
@@ -0,0 +1,8 @@
+export * from "./types"
+export * from "./scale"
+export * from "./viewport"
+export * from "./time-axis"
+export * from "./view"
+export * from "./render"
+export * from "./styles"
+export * from "./render-styles"
@@ -0,0 +1,209 @@
+import { drawCandles } from "./render"
+import type { ChartSeries } from "./styles"
+import type { ChartTheme, ChartView } from "./types"
+
+// Crisp 1px lines land on half pixels
+const crisp = (value: number) => Math.round(value) + 0.5
+
+// Filled body when the bar fell, hollow when it rose; colour follows the change from the previous close
+export function drawHollowCandles(ctx: CanvasRenderingContext2D, view: ChartView, theme: ChartTheme) {
+  const { data, first, last, barWidth, scale } = view
+
+  for (let i = first; i <= last; i++) {
+    const bar = data[i]
+    const previousClose = data[i - 1]?.close ?? bar.open
+    const x = view.toX(i)
+    const top = scale.toY(Math.max(bar.open, bar.close))
+    const bottom = scale.toY(Math.min(bar.open, bar.close))
+    const height = Math.max(bottom - top, 1)
+
+    ctx.strokeStyle = ctx.fillStyle = bar.close >= previousClose ? theme.up : theme.down
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.moveTo(crisp(x), scale.toY(bar.high))
+    ctx.lineTo(crisp(x), top)
+    ctx.moveTo(crisp(x), top + height)
+    ctx.lineTo(crisp(x), scale.toY(bar.low))
+    ctx.stroke()
+
+    if (bar.close > bar.open && barWidth >= 3) {
+      ctx.strokeRect(crisp(x - barWidth / 2), crisp(top), Math.round(barWidth) - 1, Math.max(Math.round(height) - 1, 1))
+    } else {
+      ctx.fillRect(x - barWidth / 2, top, barWidth, height)
+    }
+  }
+}
+
+// High-low bars with the open ticked left and the close ticked right
+export function drawOhlcBars(ctx: CanvasRenderingContext2D, view: ChartView, theme: ChartTheme) {
+  const { data, first, last, barWidth, scale } = view
+  const tick = Math.max(barWidth / 2, 2)
+
+  ctx.lineWidth = 1
+  for (let i = first; i <= last; i++) {
+    const bar = data[i]
+    const x = crisp(view.toX(i))
+    ctx.strokeStyle = bar.close >= bar.open ? theme.up : theme.down
+    ctx.beginPath()
+    ctx.moveTo(x, scale.toY(bar.high))
+    ctx.lineTo(x, scale.toY(bar.low))
+    ctx.moveTo(x - tick, crisp(scale.toY(bar.open)))
+    ctx.lineTo(x, crisp(scale.toY(bar.open)))
+    ctx.moveTo(x, crisp(scale.toY(bar.close)))
+    ctx.lineTo(x + tick, crisp(scale.toY(bar.close)))
+    ctx.stroke()
+  }
+}
+
+// Closing prices joined up; the area style also fills down to the bottom of the pane
+export function drawCloseLine(ctx: CanvasRenderingContext2D, view: ChartView, theme: ChartTheme, filled: boolean) {
+  const { data, plot, scale } = view
+  // One bar beyond each edge so the line runs off the pane instead of stopping short
+  const from = Math.max(view.first - 1, 0)
+  const to = Math.min(view.last + 1, data.length - 1)
+  if (to < from) return
+
+  const color = data[to].close >= data[from].close ? theme.up : theme.down
+  ctx.beginPath()
+  for (let i = from; i <= to; i++) {
+    const x = view.toX(i)
+    const y = scale.toY(data[i].close)
+    if (i === from) ctx.moveTo(x, y)
+    else ctx.lineTo(x, y)
+  }
+
+  ctx.strokeStyle = color
+  ctx.lineWidth = 2
+  ctx.lineJoin = "round"
+  ctx.stroke()
+  ctx.lineJoin = "miter"
+
+  if (filled) {
+    ctx.lineTo(view.toX(to), plot.bottom)
+    ctx.lineTo(view.toX(from), plot.bottom)
+    ctx.closePath()
+    const gradient = ctx.createLinearGradient(0, plot.top, 0, plot.bottom)
+    gradient.addColorStop(0, `${color}55`)
+    gradient.addColorStop(1, `${color}05`)
+    ctx.fillStyle = gradient
+    ctx.fill()
+  }
+}
+
+// Bricks touch corner to corner, so there are no wicks and almost no gap between them
+export function drawRenko(ctx: CanvasRenderingContext2D, view: ChartView, theme: ChartTheme) {
+  const { data, first, last, barSpacing, scale } = view
+  const width = Math.max(barSpacing * 0.9, 1)
+
+  for (let i = first; i <= last; i++) {
+    const brick = data[i]
+    const top = scale.toY(Math.max(brick.open, brick.close))
+    const bottom = scale.toY(Math.min(brick.open, brick.close))
+    ctx.fillStyle = brick.close > brick.open ? theme.up : theme.down
+    ctx.fillRect(view.toX(i) - width / 2, top, width, Math.max(bottom - top, 1))
+  }
+}
+
+// Columns joined by horizontal steps. The line turns thick (yang) once it climbs past the previous shoulder and
+// thin (yin) once it drops through the previous waist, which can happen partway up or down a column
+export function drawKagi(ctx: CanvasRenderingContext2D, view: ChartView, theme: ChartTheme) {
+  const { data, first, last, scale } = view
+  if (data.length === 0) return
+
+  const segment = (x1: number, y1: number, x2: number, y2: number, yang: boolean) => {
+    ctx.strokeStyle = yang ? theme.up : theme.down
+    ctx.lineWidth = yang ? 3 : 1
+    ctx.beginPath()
+    ctx.moveTo(x1, y1)
+    ctx.lineTo(x2, y2)
+    ctx.stroke()
+  }
+
+  // Thickness depends on every earlier column, so walk them all and draw the visible ones
+  let yang = data[0].close > data[0].open
+  const end = Math.min(last + 1, data.length - 1)
+  for (let i = 0; i <= end; i++) {
+    const column = data[i]
+    const x = crisp(view.toX(i))
+    const visible = i >= first - 1
+
+    if (visible && i > 0) segment(crisp(view.toX(i - 1)), scale.toY(column.open), x, scale.toY(column.open), yang)
+
+    // Shoulders and waists alternate, so the previous turn in the same direction is two columns back
+    const rising = column.close > column.open
+    const pivot = data[i - 2]?.close
+    const flips = pivot !== undefined && yang !== rising && (rising ? column.close > pivot : column.close < pivot)
+
+    if (flips) {
+      if (visible) {
+        segment(x, scale.toY(column.open), x, scale.toY(pivot), yang)
+        segment(x, scale.toY(pivot), x, scale.toY(column.close), rising)
+      }
+      yang = rising
+    } else if (visible) {
+      segment(x, scale.toY(column.open), x, scale.toY(column.close), yang)
+    }
+  }
+  ctx.lineWidth = 1
+}
+
+// A column of Xs for rising boxes or Os for falling ones, one per box level from open to close
+export function drawPointAndFigure(ctx: CanvasRenderingContext2D, view: ChartView, theme: ChartTheme, box: number) {
+  const { data, first, last, barSpacing, scale } = view
+  const half = Math.max(Math.min(barSpacing * 0.4, 12), 1.5)
+
+  ctx.lineWidth = barSpacing > 8 ? 1.5 : 1
+  for (let i = first; i <= last; i++) {
+    const column = data[i]
+    const rising = column.close > column.open
+    const x = view.toX(i)
+    const boxes = Math.round(Math.abs(column.close - column.open) / box) + 1
+
+    ctx.strokeStyle = rising ? theme.up : theme.down
+    ctx.beginPath()
+    for (let b = 0; b < boxes; b++) {
+      const level = column.open + (rising ? b : -b) * box
+      const top = scale.toY(level + box / 2)
+      const bottom = scale.toY(level - box / 2)
+      const y = (top + bottom) / 2
+      const h = Math.max(Math.min((bottom - top) / 2 - 1, half), 1)
+
+      if (rising) {
+        ctx.moveTo(x - half, y - h)
+        ctx.lineTo(x + half, y + h)
+        ctx.moveTo(x + half, y - h)
+        ctx.lineTo(x - half, y + h)
+      } else {
+        ctx.moveTo(x + half, y)
+        ctx.ellipse(x, y, half, h, 0, 0, Math.PI * 2)
+      }
+    }
+    ctx.stroke()
+  }
+}
+
+export function drawSeries(
+  ctx: CanvasRenderingContext2D,
+  view: ChartView,
+  theme: ChartTheme,
+  series: Pick<ChartSeries, "style" | "boxSize">,
+) {
+  switch (series.style) {
+    case "hollow":
+      return drawHollowCandles(ctx, view, theme)
+    case "ohlc":
+      return drawOhlcBars(ctx, view, theme)
+    case "line":
+    case "area":
+      return drawCloseLine(ctx, view, theme, series.style === "area")
+    case "renko":
+      return drawRenko(ctx, view, theme)
+    case "kagi":
+      return drawKagi(ctx, view, theme)
+    case "point-figure":
+      if (series.boxSize) return drawPointAndFigure(ctx, view, theme, series.boxSize)
+      return
+    default:
+      return drawCandles(ctx, view, theme)
+  }
+}
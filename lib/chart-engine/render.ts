@@ -0,0 +1,221 @@
+import { DAY_MS } from "@/lib/market-calendar"
+import { priceDecimals } from "./scale"
+import { formatBarTime, timeTicks } from "./time-axis"
+import type { ChartTheme, ChartView, PlotArea } from "./types"
+
+export const CHART_THEMES: Record<"dark" | "light", ChartTheme> = {
+  dark: {
+    background: "#0f172a",
+    grid: "#1e293b",
+    text: "#94a3b8",
+    up: "#10b981",
+    down: "#ef4444",
+    upVolume: "#10b98150",
+    downVolume: "#ef444450",
+    crosshair: "#64748b",
+    labelBackground: "#334155",
+    labelText: "#f8fafc",
+  },
+  light: {
+    background: "#ffffff",
+    grid: "#f1f5f9",
+    text: "#64748b",
+    up: "#10b981",
+    down: "#ef4444",
+    upVolume: "#10b98140",
+    downVolume: "#ef444440",
+    crosshair: "#94a3b8",
+    labelBackground: "#0f172a",
+    labelText: "#ffffff",
+  },
+}
+
+const FONT = "11px ui-monospace, SFMono-Regular, Menlo, monospace"
+const VOLUME_SHARE = 0.2 // Of the price pane's height
+
+// Crisp 1px lines land on half pixels
+const crisp = (value: number) => Math.round(value) + 0.5
+
+export function formatAxisPrice(price: number, step: number): string {
+  return price.toLocaleString("en-IN", {
+    minimumFractionDigits: priceDecimals(step),
+    maximumFractionDigits: priceDecimals(step),
+  })
+}
+
+export function drawGrid(ctx: CanvasRenderingContext2D, view: ChartView, theme: ChartTheme, bottom: number) {
+  const { plot, scale } = view
+  ctx.strokeStyle = theme.grid
+  ctx.lineWidth = 1
+  ctx.beginPath()
+
+  for (const price of scale.ticks(Math.max(2, Math.floor((plot.bottom - plot.top) / 50)))) {
+    const y = crisp(scale.toY(price))
+    ctx.moveTo(plot.left, y)
+    ctx.lineTo(plot.right, y)
+  }
+
+  for (const tick of visibleTimeTicks(view)) {
+    const x = crisp(view.toX(tick.index))
+    ctx.moveTo(x, plot.top)
+    ctx.lineTo(x, bottom)
+  }
+
+  ctx.stroke()
+}
+
+function visibleTimeTicks(view: ChartView) {
+  return timeTicks((index) => view.data[index].timestamp, view.first, view.last, view.barSpacing, view.interval)
+}
+
+// Volume histogram along the bottom of the price pane, on its own scale
+export function drawVolume(ctx: CanvasRenderingContext2D, view: ChartView, theme: ChartTheme) {
+  const { data, first, last, plot, barWidth } = view
+  let maxVolume = 0
+  for (let i = first; i <= last; i++) maxVolume = Math.max(maxVolume, data[i].volume)
+  if (maxVolume === 0) return
+
+  const height = (plot.bottom - plot.top) * VOLUME_SHARE
+  for (let i = first; i <= last; i++) {
+    const bar = data[i]
+    const barHeight = (bar.volume / maxVolume) * height
+    ctx.fillStyle = bar.close >= bar.open ? theme.upVolume : theme.downVolume
+    ctx.fillRect(view.toX(i) - barWidth / 2, plot.bottom - barHeight, barWidth, barHeight)
+  }
+}
+
+export function drawCandles(ctx: CanvasRenderingContext2D, view: ChartView, theme: ChartTheme) {
+  const { data, first, last, barWidth, scale } = view
+
+  for (let i = first; i <= last; i++) {
+    const bar = data[i]
+    const x = view.toX(i)
+    const color = bar.close >= bar.open ? theme.up : theme.down
+    const openY = scale.toY(bar.open)
+    const closeY = scale.toY(bar.close)
+
+    ctx.strokeStyle = color
+    ctx.lineWidth = 1
+    ctx.beginPath()
+    ctx.moveTo(crisp(x), scale.toY(bar.high))
+    ctx.lineTo(crisp(x), scale.toY(bar.low))
+    ctx.stroke()
+
+    ctx.fillStyle = color
+    ctx.fillRect(x - barWidth / 2, Math.min(openY, closeY), barWidth, Math.max(Math.abs(closeY - openY), 1))
+  }
+}
+
+// Price labels right of the plot and time labels under everything
+export function drawAxes(
+  ctx: CanvasRenderingContext2D,
+  view: ChartView,
+  theme: ChartTheme,
+  size: { width: number; height: number },
+) {
+  const { plot, scale } = view
+  ctx.font = FONT
+  ctx.fillStyle = theme.text
+  ctx.textBaseline = "middle"
+  ctx.textAlign = "left"
+
+  const ticks = scale.ticks(Math.max(2, Math.floor((plot.bottom - plot.top) / 50)))
+  const step = ticks.length > 1 ? ticks[1] - ticks[0] : scale.max - scale.min
+  for (const price of ticks) {
+    ctx.fillText(formatAxisPrice(price, step), plot.right + 6, scale.toY(price))
+  }
+
+  ctx.textAlign = "center"
+  for (const tick of visibleTimeTicks(view)) {
+    const x = view.toX(tick.index)
+    if (x < plot.left || x > plot.right) continue
+    ctx.font = tick.major ? `bold ${FONT}` : FONT
+    ctx.fillText(tick.label, x, size.height - 11)
+  }
+  ctx.font = FONT
+}
+
+// Filled tag on an axis, e.g. the crosshair price or the last price
+export function drawAxisLabel(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  background: string,
+  color: string,
+  align: "left" | "center" = "left",
+) {
+  ctx.font = FONT
+  const width = ctx.measureText(text).width + 8
+  const left = align === "center" ? x - width / 2 : x
+  ctx.fillStyle = background
+  ctx.fillRect(left, y - 9, width, 18)
+  ctx.fillStyle = color
+  ctx.textAlign = "left"
+  ctx.textBaseline = "middle"
+  ctx.fillText(text, left + 4, y)
+}
+
+// Dashed line and axis tag at the latest close
+export function drawLastPrice(ctx: CanvasRenderingContext2D, view: ChartView, theme: ChartTheme) {
+  const bar = view.data[view.data.length - 1]
+  if (!bar) return
+  const y = view.scale.toY(bar.close)
+  if (y < view.plot.top || y > view.plot.bottom) return
+
+  const color = bar.close >= bar.open ? theme.up : theme.down
+  ctx.strokeStyle = color
+  ctx.setLineDash([2, 3])
+  ctx.beginPath()
+  ctx.moveTo(view.plot.left, crisp(y))
+  ctx.lineTo(view.plot.right, crisp(y))
+  ctx.stroke()
+  ctx.setLineDash([])
+
+  const step = (view.scale.max - view.scale.min) / 10
+  drawAxisLabel(ctx, formatAxisPrice(bar.close, step), view.plot.right + 2, y, color, "#ffffff")
+}
+
+// Crosshair snapped to the hovered bar, with price and time tags on the axes
+export function drawCrosshair(
+  ctx: CanvasRenderingContext2D,
+  view: ChartView,
+  theme: ChartTheme,
+  pointer: { x: number; y: number },
+  index: number,
+  bottom: number,
+  size: { width: number; height: number },
+) {
+  const { plot, scale } = view
+  const x = crisp(view.toX(index))
+
+  ctx.strokeStyle = theme.crosshair
+  ctx.lineWidth = 1
+  ctx.setLineDash([4, 4])
+  ctx.beginPath()
+  ctx.moveTo(x, plot.top)
+  ctx.lineTo(x, bottom)
+  if (pointer.y >= plot.top && pointer.y <= plot.bottom) {
+    ctx.moveTo(plot.left, crisp(pointer.y))
+    ctx.lineTo(plot.right, crisp(pointer.y))
+  }
+  ctx.stroke()
+  ctx.setLineDash([])
+
+  if (pointer.y >= plot.top && pointer.y <= plot.bottom) {
+    const step = (scale.max - scale.min) / 10
+    const price = formatAxisPrice(scale.fromY(pointer.y), step)
+    drawAxisLabel(ctx, price, plot.right + 2, pointer.y, theme.labelBackground, theme.labelText)
+  }
+
+  const time = view.data[index]?.timestamp ?? view.timeAt(index)
+  const label = formatBarTime(time, view.interval < DAY_MS)
+  drawAxisLabel(ctx, label, x, size.height - 11, theme.labelBackground, theme.labelText, "center")
+}
+
+// Clip drawing to an area so bars scrolled past the edge don't spill over the axes
+export function clipTo(ctx: CanvasRenderingContext2D, area: PlotArea) {
+  ctx.beginPath()
+  ctx.rect(area.left, area.top, area.right - area.left, area.bottom - area.top)
+  ctx.clip()
+}
@@ -0,0 +1,91 @@
+// Price axis maths: value <-> pixel mapping on a linear or logarithmic scale, and readable tick values
+
+export interface PriceScale {
+  log: boolean
+  min: number
+  max: number
+  toY: (price: number) => number
+  fromY: (y: number) => number
+  ticks: (count: number) => number[]
+}
+
+export interface PriceScaleOptions {
+  min: number
+  max: number
+  top: number // Pixel rows the range maps onto
+  bottom: number
+  log?: boolean
+  padding?: number // Fraction of the range left empty above and below
+}
+
+// 1, 2, 2.5 or 5 times a power of ten, whichever is closest to `rough`
+export function niceStep(rough: number): number {
+  if (!(rough > 0)) return 1
+  const power = Math.pow(10, Math.floor(Math.log10(rough)))
+  const fraction = rough / power
+  const nice = fraction < 1.5 ? 1 : fraction < 2.25 ? 2 : fraction < 3.5 ? 2.5 : fraction < 7.5 ? 5 : 10
+  return nice * power
+}
+
+// Round-number ticks inside [min, max], roughly `count` of them
+export function niceTicks(min: number, max: number, count: number): number[] {
+  if (!(max > min) || count < 1) return [min]
+  const step = niceStep((max - min) / count)
+  const ticks: number[] = []
+  // Multiply rather than accumulate so ticks stay round, e.g. 0.30000000000000004
+  for (let i = Math.ceil(min / step); i * step <= max; i++) {
+    ticks.push(Number((i * step).toPrecision(12)))
+  }
+  return ticks
+}
+
+// Spanning more than a decade, log ticks sit on 1-2-5 steps; narrower ranges read better with linear ticks
+function logTicks(min: number, max: number, count: number): number[] {
+  if (max / min < 10) return niceTicks(min, max, count)
+
+  const ticks: number[] = []
+  for (let power = Math.floor(Math.log10(min)); Math.pow(10, power) <= max; power++) {
+    for (const multiple of [1, 2, 5]) {
+      const value = multiple * Math.pow(10, power)
+      if (value >= min && value <= max) ticks.push(Number(value.toPrecision(12)))
+    }
+  }
+  return ticks
+}
+
+// Log scale needs strictly positive prices; callers fall back to linear otherwise
+export function createPriceScale({ min, max, top, bottom, log = false, padding = 0.08 }: PriceScaleOptions): PriceScale {
+  const useLog = log && min > 0
+  const forward = useLog ? Math.log : (value: number) => value
+  const inverse = useLog ? Math.exp : (value: number) => value
+
+  let low = forward(min)
+  let high = forward(max)
+  // A flat range still needs some height to draw into
+  if (high - low < 1e-9) {
+    const spread = Math.abs(low) * 0.01 || 1
+    low -= spread
+    high += spread
+  }
+  const pad = (high - low) * padding
+  low -= pad
+  high += pad
+
+  const height = bottom - top
+
+  return {
+    log: useLog,
+    min: inverse(low),
+    max: inverse(high),
+    toY: (price) => bottom - ((forward(price) - low) / (high - low)) * height,
+    fromY: (y) => inverse(low + ((bottom - y) / height) * (high - low)),
+    ticks: (count) =>
+      useLog ? logTicks(inverse(low), inverse(high), count) : niceTicks(inverse(low), inverse(high), count),
+  }
+}
+
+// Enough decimals to tell neighbouring ticks apart
+export function priceDecimals(step: number): number {
+  if (!(step > 0) || step >= 1) return 2
+  return Math.min(Math.max(2, Math.ceil(-Math.log10(step))), 6)
+}
@@ -0,0 +1,249 @@
+import { atr, lastValue } from "@/lib/indicators"
+import type { ChartData } from "@/lib/market-data/types"
+import { niceStep } from "./scale"
+
+// How a series is drawn. Renko, Kagi and point-and-figure are built from price moves rather than time, so each
+// of their bars spans a variable stretch of the source bars
+export type ChartStyle =
+  | "candles"
+  | "hollow"
+  | "heikin-ashi"
+  | "ohlc"
+  | "line"
+  | "area"
+  | "renko"
+  | "kagi"
+  | "point-figure"
+
+interface ChartStyleInfo {
+  label: string
+  timeBased: boolean // One output bar per source bar, so index-aligned studies still line up
+  boxed: boolean // Uses a box or reversal size
+}
+
+export const CHART_STYLES: Record<ChartStyle, ChartStyleInfo> = {
+  candles: { label: "Candles", timeBased: true, boxed: false },
+  hollow: { label: "Hollow candles", timeBased: true, boxed: false },
+  "heikin-ashi": { label: "Heikin-Ashi", timeBased: true, boxed: false },
+  ohlc: { label: "OHLC bars", timeBased: true, boxed: false },
+  line: { label: "Line", timeBased: true, boxed: false },
+  area: { label: "Area", timeBased: true, boxed: false },
+  renko: { label: "Renko", timeBased: false, boxed: true },
+  kagi: { label: "Kagi", timeBased: false, boxed: true },
+  "point-figure": { label: "Point & figure", timeBased: false, boxed: true },
+}
+
+export const CHART_STYLE_IDS = Object.keys(CHART_STYLES) as ChartStyle[]
+
+export function isChartStyle(value: string): value is ChartStyle {
+  return Object.prototype.hasOwnProperty.call(CHART_STYLES, value)
+}
+
+export interface ChartSeries {
+  style: ChartStyle
+  data: ChartData[] // What the chart plots; for price-move styles each bar is a brick or column
+  boxSize: number | null // Brick, reversal or box size the series was built with
+}
+
+export interface ChartSeriesOptions {
+  boxSize?: number // Fixed size; defaults to the latest ATR(14)
+  reversalBoxes?: number // Point-and-figure reversal, in boxes
+}
+
+const ATR_PERIOD = 14
+const DEFAULT_REVERSAL_BOXES = 3
+// Price-move styles draw one bar per box travelled, so tiny boxes would build millions of bars
+export const MAX_BOX_BARS = 5000
+const MIN_BOX_SHARE = 0.0001 // 0.01% of the last close
+
+// ATR(14) of the latest bar rounded to a readable step, or 1% of price while ATR is warming up
+export function defaultBoxSize(data: ChartData[]): number | null {
+  if (data.length === 0) return null
+  const range = lastValue(atr(data, ATR_PERIOD)) ?? data[data.length - 1].close * 0.01
+  return range > 0 ? niceStep(range) : null
+}
+
+// Smallest box worth drawing: 0.01% of price, and large enough that the closes' total travel fits in MAX_BOX_BARS
+// boxes, which bounds renko's brick count
+export function minBoxSize(data: ChartData[]): number {
+  if (data.length === 0) return 0
+  let travel = 0
+  for (let i = 1; i < data.length; i++) travel += Math.abs(data[i].close - data[i - 1].close)
+  return Math.max(data[data.length - 1].close * MIN_BOX_SHARE, travel / MAX_BOX_BARS)
+}
+
+// Each bar averaged with its predecessor, which smooths out noise while keeping one bar per source bar
+export function heikinAshi(data: ChartData[]): ChartData[] {
+  const result: ChartData[] = []
+
+  data.forEach((bar, index) => {
+    const close = (bar.open + bar.high + bar.low + bar.close) / 4
+    const previous = result[index - 1]
+    const open = previous ? (previous.open + previous.close) / 2 : (bar.open + bar.close) / 2
+    result.push({
+      timestamp: bar.timestamp,
+      open,
+      high: Math.max(bar.high, open, close),
+      low: Math.min(bar.low, open, close),
+      close,
+      volume: bar.volume,
+    })
+  })
+
+  return result
+}
+
+// Fixed-size bricks on closing prices; a reversal needs a move of two bricks from the last brick's close
+export function renko(data: ChartData[], box: number): ChartData[] {
+  const bricks: ChartData[] = []
+  if (data.length === 0 || !(box > 0)) return bricks
+
+  let top = Math.floor(data[0].close / box) * box
+  let bottom = top
+  let volume = 0
+
+  const push = (timestamp: number, open: number, close: number) => {
+    bricks.push({ timestamp, open, close, high: Math.max(open, close), low: Math.min(open, close), volume })
+    volume = 0
+  }
+
+  for (const bar of data) {
+    volume += bar.volume
+    // Callers clamp the box with minBoxSize; this only guards direct calls with a box far below it
+    if (bricks.length >= MAX_BOX_BARS) break
+    while (bar.close >= top + box && bricks.length < MAX_BOX_BARS) {
+      push(bar.timestamp, top, top + box)
+      bottom = top
+      top += box
+    }
+    while (bar.close <= bottom - box && bricks.length < MAX_BOX_BARS) {
+      push(bar.timestamp, bottom, bottom - box)
+      top = bottom
+      bottom -= box
+    }
+  }
+
+  return bricks
+}
+
+// Columns that turn when closes retrace by `reversal` from the column's extreme; open and close are the column's
+// start and end, stamped with the bar that started it
+export function kagi(data: ChartData[], reversal: number): ChartData[] {
+  const columns: ChartData[] = []
+  if (data.length === 0 || !(reversal > 0)) return columns
+
+  let start = data[0].close
+  let extreme = start
+  let direction: 1 | -1 | 0 = 0
+  let startTime = data[0].timestamp
+  let volume = 0
+
+  const push = () => {
+    columns.push({
+      timestamp: startTime,
+      open: start,
+      close: extreme,
+      high: Math.max(start, extreme),
+      low: Math.min(start, extreme),
+      volume,
+    })
+    volume = 0
+  }
+
+  for (const bar of data) {
+    volume += bar.volume
+    const close = bar.close
+
+    if (direction === 0) {
+      if (Math.abs(close - start) >= reversal) {
+        direction = close > start ? 1 : -1
+        extreme = close
+      }
+    } else if (direction * (close - extreme) > 0) {
+      extreme = close
+    } else if (Math.abs(extreme - close) >= reversal) {
+      push()
+      start = extreme
+      extreme = close
+      direction = direction === 1 ? -1 : 1
+      startTime = bar.timestamp
+    }
+  }
+
+  // The column still forming
+  if (direction !== 0) push()
+  return columns
+}
+
+// Columns of X (rising) and O (falling) boxes from highs and lows. open is the column's first box level and close
+// its last, so a column holds |close - open| / box + 1 boxes
+export function pointAndFigure(data: ChartData[], box: number, reversalBoxes = DEFAULT_REVERSAL_BOXES): ChartData[] {
+  const columns: ChartData[] = []
+  if (data.length === 0 || !(box > 0)) return columns
+
+  // Box levels are whole multiples of the box size; the epsilon absorbs floating-point error
+  const levelBelow = (price: number) => Math.floor(price / box + 1e-9) * box
+  const levelAbove = (price: number) => Math.ceil(price / box - 1e-9) * box
+
+  let current: ChartData | null = null
+  let anchor = levelBelow(data[0].close) // Level to measure the first move from
+  let volume = 0
+
+  const startColumn = (timestamp: number, open: number, close: number) => {
+    current = { timestamp, open, close, high: Math.max(open, close), low: Math.min(open, close), volume }
+    columns.push(current)
+    volume = 0
+  }
+
+  for (const bar of data) {
+    volume += bar.volume
+    const column = current as ChartData | null
+
+    if (!column) {
+      if (bar.high >= anchor + box) startColumn(bar.timestamp, anchor, levelBelow(bar.high))
+      else if (bar.low <= anchor - box) startColumn(bar.timestamp, anchor, levelAbove(bar.low))
+      continue
+    }
+
+    if (column.close > column.open) {
+      if (bar.high >= column.close + box) {
+        column.close = levelBelow(bar.high)
+      } else if (bar.low <= column.close - reversalBoxes * box) {
+        startColumn(bar.timestamp, column.close - box, levelAbove(bar.low))
+        continue
+      }
+    } else if (bar.low <= column.close - box) {
+      column.close = levelAbove(bar.low)
+    } else if (bar.high >= column.close + reversalBoxes * box) {
+      startColumn(bar.timestamp, column.close + box, levelBelow(bar.high))
+      continue
+    }
+
+    column.high = Math.max(column.open, column.close)
+    column.low = Math.min(column.open, column.close)
+    column.volume += volume
+    volume = 0
+  }
+
+  return columns
+}
+
+// The bars to plot for a style, all computed from the same source bars
+export function buildSeries(data: ChartData[], style: ChartStyle, options: ChartSeriesOptions = {}): ChartSeries {
+  if (!CHART_STYLES[style].boxed) {
+    return { style, data: style === "heikin-ashi" ? heikinAshi(data) : data, boxSize: null }
+  }
+
+  const requested = options.boxSize && options.boxSize > 0 ? options.boxSize : defaultBoxSize(data)
+  if (requested === null) return { style, data: [], boxSize: null }
+  const boxSize = Math.max(requested, minBoxSize(data))
+
+  switch (style) {
+    case "renko":
+      return { style, data: renko(data, boxSize), boxSize }
+    case "kagi":
+      return { style, data: kagi(data, boxSize), boxSize }
+    default:
+      return { style, data: pointAndFigure(data, boxSize, options.reversalBoxes), boxSize }
+  }
+}
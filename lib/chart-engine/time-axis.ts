@@ -0,0 +1,83 @@
+import { DAY_MS, istDay, toIstDate } from "@/lib/market-calendar"
+
+// Time axis labels for index-spaced bars. Sessions, weekends and holidays take no room on the axis, so ticks
+// are picked by bar index and labelled with whatever calendar unit changed since the previous tick
+
+export interface TimeTick {
+  index: number
+  label: string
+  major: boolean // A new day on intraday charts, a new year on daily and longer ones
+}
+
+const TIME_ZONE = "Asia/Kolkata"
+
+const TIME_FORMAT = new Intl.DateTimeFormat("en-IN", {
+  timeZone: TIME_ZONE,
+  hour: "2-digit",
+  minute: "2-digit",
+  hour12: false,
+})
+const DAY_FORMAT = new Intl.DateTimeFormat("en-IN", { timeZone: TIME_ZONE, day: "numeric", month: "short" })
+const MONTH_FORMAT = new Intl.DateTimeFormat("en-IN", { timeZone: TIME_ZONE, month: "short" })
+const YEAR_FORMAT = new Intl.DateTimeFormat("en-IN", { timeZone: TIME_ZONE, year: "numeric" })
+const FULL_DAY_FORMAT = new Intl.DateTimeFormat("en-IN", {
+  timeZone: TIME_ZONE,
+  weekday: "short",
+  day: "numeric",
+  month: "short",
+  year: "2-digit",
+})
+
+const TICK_STEPS = [1, 2, 3, 5, 10, 15, 20, 30, 50, 75, 100, 150, 200, 300, 500, 1000]
+
+// Typical spacing between bars, in ms; the median ignores overnight and weekend jumps
+export function barInterval(times: number[]): number {
+  const deltas: number[] = []
+  for (let i = Math.max(1, times.length - 50); i < times.length; i++) {
+    // Bricks and columns can share a timestamp; only real gaps say how far apart bars are
+    if (times[i] > times[i - 1]) deltas.push(times[i] - times[i - 1])
+  }
+  if (deltas.length === 0) return DAY_MS
+  deltas.sort((a, b) => a - b)
+  return deltas[Math.floor(deltas.length / 2)]
+}
+
+// Ticks between `first` and `last` no closer than `minSpacing` pixels, aligned to bar indices so they stay put
+// while panning
+export function timeTicks(
+  timeAt: (index: number) => number,
+  first: number,
+  last: number,
+  barSpacing: number,
+  interval: number,
+  minSpacing = 80,
+): TimeTick[] {
+  const needed = Math.ceil(minSpacing / Math.max(barSpacing, 0.01))
+  const step = TICK_STEPS.find((candidate) => candidate >= needed) ?? Math.ceil(needed / 1000) * 1000
+  const intraday = interval < DAY_MS
+  const ticks: TimeTick[] = []
+
+  for (let index = Math.ceil(first / step) * step; index <= last; index += step) {
+    const time = timeAt(index)
+    const previous = index >= step ? timeAt(index - step) : undefined
+
+    if (intraday) {
+      const newDay = previous === undefined || istDay(previous) !== istDay(time)
+      ticks.push({ index, label: newDay ? DAY_FORMAT.format(time) : TIME_FORMAT.format(time), major: newDay })
+      continue
+    }
+
+    // Ticks a few weeks apart read better as month names
+    const date = toIstDate(time)
+    const newYear = previous === undefined || toIstDate(previous).slice(0, 4) !== date.slice(0, 4)
+    const format = newYear ? YEAR_FORMAT : step * interval > 15 * DAY_MS ? MONTH_FORMAT : DAY_FORMAT
+    ticks.push({ index, label: format.format(time), major: newYear })
+  }
+
+  return ticks
+}
+
+// Crosshair label for one bar
+export function formatBarTime(time: number, intraday: boolean): string {
+  return intraday ? `${FULL_DAY_FORMAT.format(time)} ${TIME_FORMAT.format(time)}` : FULL_DAY_FORMAT.format(time)
+}
@@ -0,0 +1,62 @@
+import type { ChartData } from "@/lib/market-data/types"
+import type { PriceScale } from "./scale"
+
+export interface PlotArea {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+// One frame's mapping between bars, prices and canvas pixels; layers and panes draw through it
+export interface ChartView {
+  data: ChartData[]
+  first: number // Inclusive indices of the bars on screen
+  last: number
+  barSpacing: number // Pixels from one bar to the next
+  barWidth: number // Candle body width
+  interval: number // Usual time between bars in ms
+  plot: PlotArea // Price pane, excluding axes and sub-panes
+  scale: PriceScale
+  toX: (index: number) => number
+  indexAtX: (x: number) => number // Fractional
+  timeAt: (index: number) => number // Extrapolated beyond either end at the usual bar spacing
+  indexAtTime: (time: number) => number // Fractional, extrapolated the same way
+}
+
+// Where the pointer is in chart terms; index and time are fractional between bars and extrapolated past the ends
+export interface ChartPointer {
+  x: number
+  y: number
+  index: number
+  time: number
+  price: number
+}
+
+// Extra drawing on the price pane, e.g. studies or drawings
+export interface ChartLayer {
+  id: string
+  // Prices the layer needs on screen for bars first..last, so autoscaling never clips it
+  extent?: (first: number, last: number) => [min: number, max: number] | null
+  draw: (ctx: CanvasRenderingContext2D, view: ChartView) => void
+}
+
+// A band under the price pane sharing its time axis, e.g. RSI or MACD
+export interface ChartPane {
+  id: string
+  height: number
+  draw: (ctx: CanvasRenderingContext2D, view: ChartView, area: PlotArea) => void
+}
+
+export interface ChartTheme {
+  background: string
+  grid: string
+  text: string
+  up: string
+  down: string
+  upVolume: string
+  downVolume: string
+  crosshair: string
+  labelBackground: string
+  labelText: string
+}
@@ -0,0 +1,86 @@
+import type { ChartData } from "@/lib/market-data/types"
+import { createPriceScale } from "./scale"
+import { barInterval } from "./time-axis"
+import type { ChartLayer, ChartView, PlotArea } from "./types"
+import { visibleRange, type Viewport } from "./viewport"
+
+interface ViewOptions {
+  data: ChartData[]
+  viewport: Viewport
+  plot: PlotArea
+  log: boolean
+  layers?: ChartLayer[]
+}
+
+// Index of the last bar at or before `time`, -1 when every bar is later
+function lastAtOrBefore(data: ChartData[], time: number): number {
+  let low = 0
+  let high = data.length - 1
+  let found = -1
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    if (data[middle].timestamp <= time) {
+      found = middle
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+  return found
+}
+
+// Price range and pixel mapping for the bars in the viewport; only the visible slice is scanned
+export function createChartView({ data, viewport, plot, log, layers = [] }: ViewOptions): ChartView | null {
+  const range = visibleRange(viewport, data.length)
+  if (!range) return null
+  const [first, last] = range
+
+  let min = Number.POSITIVE_INFINITY
+  let max = Number.NEGATIVE_INFINITY
+  for (let i = first; i <= last; i++) {
+    if (data[i].low < min) min = data[i].low
+    if (data[i].high > max) max = data[i].high
+  }
+  for (const layer of layers) {
+    const extent = layer.extent?.(first, last)
+    if (!extent) continue
+    min = Math.min(min, extent[0])
+    max = Math.max(max, extent[1])
+  }
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return null
+
+  const barSpacing = (plot.right - plot.left) / viewport.bars
+  const leftBar = viewport.end - viewport.bars
+  const interval = barInterval(data.slice(-51).map((bar) => bar.timestamp))
+  const lastIndex = data.length - 1
+  const time = (index: number) => data[index].timestamp
+
+  const timeAt = (index: number) => {
+    if (index <= 0) return time(0) + index * interval
+    if (index >= lastIndex) return time(lastIndex) + (index - lastIndex) * interval
+    const whole = Math.floor(index)
+    return time(whole) + (index - whole) * (time(whole + 1) - time(whole))
+  }
+
+  const indexAtTime = (at: number) => {
+    const before = lastAtOrBefore(data, at)
+    if (before === -1) return (at - time(0)) / interval
+    if (before === lastIndex) return before + (at - time(before)) / interval
+    return before + (at - time(before)) / (time(before + 1) - time(before))
+  }
+
+  return {
+    data,
+    first,
+    last,
+    barSpacing,
+    barWidth: Math.max(1, Math.min(barSpacing * 0.7, 24)),
+    interval,
+    plot,
+    scale: createPriceScale({ min, max, top: plot.top, bottom: plot.bottom, log }),
+    toX: (index) => plot.left + (index - leftBar + 0.5) * barSpacing,
+    indexAtX: (x) => (x - plot.left) / barSpacing + leftBar - 0.5,
+    timeAt,
+    indexAtTime,
+  }
+}
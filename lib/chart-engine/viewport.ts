@@ -0,0 +1,50 @@
+// Which bars are on screen. The viewport is anchored at its right edge so new bars can scroll in while the
+// user is looking at the latest ones
+
+export interface Viewport {
+  end: number // Bar position of the right edge; total + RIGHT_MARGIN_BARS shows the last bar with some air
+  bars: number // Bars across the plot width, fractional while zooming
+}
+
+export const MIN_VISIBLE_BARS = 10
+export const MAX_VISIBLE_BARS = 5000
+export const DEFAULT_VISIBLE_BARS = 120
+const RIGHT_MARGIN_BARS = 3
+
+export function clampViewport({ end, bars }: Viewport, total: number): Viewport {
+  const clampedBars = Math.min(Math.max(bars, MIN_VISIBLE_BARS), MAX_VISIBLE_BARS)
+  // Keep a few bars on screen at either end, and allow at most half a screen of empty space on the right
+  const minEnd = Math.min(total, MIN_VISIBLE_BARS / 2)
+  const maxEnd = total + Math.max(RIGHT_MARGIN_BARS, clampedBars / 2)
+  return { end: Math.min(Math.max(end, minEnd), maxEnd), bars: clampedBars }
+}
+
+// Latest bars with a small right margin
+export function latestViewport(total: number, bars: number = DEFAULT_VISIBLE_BARS): Viewport {
+  const end = total + RIGHT_MARGIN_BARS
+  return clampViewport({ end, bars: Math.min(bars, end) }, total)
+}
+
+// True when the last bar is on screen, so appended bars should keep it there
+export function isFollowingLatest(viewport: Viewport, total: number): boolean {
+  return viewport.end >= total - 0.5
+}
+
+// Scale the visible bar count by `factor` around a point `anchor` (0 = left edge, 1 = right edge) of the plot
+export function zoomViewport(viewport: Viewport, factor: number, anchor: number, total: number): Viewport {
+  const anchorBar = viewport.end - viewport.bars * (1 - anchor)
+  const bars = Math.min(Math.max(viewport.bars * factor, MIN_VISIBLE_BARS), MAX_VISIBLE_BARS)
+  return clampViewport({ end: anchorBar + bars * (1 - anchor), bars }, total)
+}
+
+// Positive `deltaBars` moves the view back in time, like dragging the chart to the right
+export function panViewport(viewport: Viewport, deltaBars: number, total: number): Viewport {
+  return clampViewport({ ...viewport, end: viewport.end - deltaBars }, total)
+}
+
+// Inclusive indices of the bars at least partly on screen, or null when none are
+export function visibleRange(viewport: Viewport, total: number): [first: number, last: number] | null {
+  const first = Math.max(0, Math.floor(viewport.end - viewport.bars))
+  const last = Math.min(total - 1, Math.ceil(viewport.end))
+  return first <= last ? [first, last] : null
+}
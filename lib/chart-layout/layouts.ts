@@ -0,0 +1,111 @@
+import { isTimeframe } from "@/lib/candles/resample"
+import type { Timeframe } from "@/lib/candles/types"
+import type { ChartLayout, LayoutPane, LayoutSize, LinkedField } from "./types"
+
+export const LAYOUT_SIZES: Record<LayoutSize, { label: string; columns: number }> = {
+  1: { label: "Single", columns: 1 },
+  2: { label: "2 panes", columns: 2 },
+  4: { label: "2 × 2", columns: 2 },
+  6: { label: "3 × 2", columns: 3 },
+}
+
+export const LAYOUT_SIZE_IDS = Object.keys(LAYOUT_SIZES).map(Number) as LayoutSize[]
+
+export function isLayoutSize(value: unknown): value is LayoutSize {
+  return typeof value === "number" && Object.prototype.hasOwnProperty.call(LAYOUT_SIZES, value)
+}
+
+export const MAX_PANES = 6
+
+// The two benchmark indices next to heavyweights, all daily
+const DEFAULT_SYMBOLS = ["^NSEI", "^NSEBANK", "RELIANCE.NS", "TCS.NS", "HDFCBANK.NS", "INFY.NS"]
+
+export function defaultLayout(): ChartLayout {
+  return {
+    size: 2,
+    panes: DEFAULT_SYMBOLS.map((symbol, index) => ({ id: `pane-${index + 1}`, symbol, timeframe: "1d", linked: true })),
+    link: { symbol: false, timeframe: true, crosshair: true },
+  }
+}
+
+// Changes one pane; when that pane is linked and the field is shared, every other linked pane follows
+function updatePane(
+  layout: ChartLayout,
+  paneId: string,
+  field: "symbol" | "timeframe",
+  change: Pick<LayoutPane, "symbol"> | Pick<LayoutPane, "timeframe">,
+): ChartLayout {
+  const source = layout.panes.find((pane) => pane.id === paneId)
+  if (!source) return layout
+  const spread = source.linked && layout.link[field]
+
+  return {
+    ...layout,
+    panes: layout.panes.map((pane) => (pane.id === paneId || (spread && pane.linked) ? { ...pane, ...change } : pane)),
+  }
+}
+
+export function setPaneSymbol(layout: ChartLayout, paneId: string, symbol: string): ChartLayout {
+  return updatePane(layout, paneId, "symbol", { symbol })
+}
+
+export function setPaneTimeframe(layout: ChartLayout, paneId: string, timeframe: Timeframe): ChartLayout {
+  return updatePane(layout, paneId, "timeframe", { timeframe })
+}
+
+// Joining a shared field brings the pane into line with the first other linked pane on screen
+export function setPaneLinked(layout: ChartLayout, paneId: string, linked: boolean): ChartLayout {
+  const leader = layout.panes.slice(0, layout.size).find((pane) => pane.linked && pane.id !== paneId)
+  return {
+    ...layout,
+    panes: layout.panes.map((pane) => {
+      if (pane.id !== paneId) return pane
+      if (!linked || !leader) return { ...pane, linked }
+      return {
+        ...pane,
+        linked,
+        symbol: layout.link.symbol ? leader.symbol : pane.symbol,
+        timeframe: layout.link.timeframe ? leader.timeframe : pane.timeframe,
+      }
+    }),
+  }
+}
+
+// Turning on a shared field lines the linked panes up with the first of them on screen
+export function setLink(layout: ChartLayout, field: LinkedField, enabled: boolean): ChartLayout {
+  const next = { ...layout, link: { ...layout.link, [field]: enabled } }
+  if (!enabled || field === "crosshair") return next
+  const leader = layout.panes.slice(0, layout.size).find((pane) => pane.linked)
+  if (!leader) return next
+  return { ...next, panes: next.panes.map((pane) => (pane.linked ? { ...pane, [field]: leader[field] } : pane)) }
+}
+
+// Saved layouts come from storage or the server, so anything unexpected falls back to the defaults field by field
+export function sanitizeLayout(raw: unknown): ChartLayout {
+  const fallback = defaultLayout()
+  if (!raw || typeof raw !== "object") return fallback
+  const saved = raw as Partial<ChartLayout>
+  const savedPanes = Array.isArray(saved.panes) ? saved.panes : []
+
+  return {
+    size: isLayoutSize(saved.size) ? saved.size : fallback.size,
+    panes: fallback.panes.map((pane, index) => {
+      const candidate = savedPanes[index] as Partial<LayoutPane> | undefined
+      if (!candidate || typeof candidate !== "object") return pane
+      return {
+        id: pane.id,
+        symbol: typeof candidate.symbol === "string" && candidate.symbol.trim() ? candidate.symbol : pane.symbol,
+        timeframe:
+          typeof candidate.timeframe === "string" && isTimeframe(candidate.timeframe)
+            ? candidate.timeframe
+            : pane.timeframe,
+        linked: typeof candidate.linked === "boolean" ? candidate.linked : pane.linked,
+      }
+    }),
+    link: {
+      symbol: typeof saved.link?.symbol === "boolean" ? saved.link.symbol : fallback.link.symbol,
+      timeframe: typeof saved.link?.timeframe === "boolean" ? saved.link.timeframe : fallback.link.timeframe,
+      crosshair: typeof saved.link?.crosshair === "boolean" ? saved.link.crosshair : fallback.link.crosshair,
+    },
+  }
+}
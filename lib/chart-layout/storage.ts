@@ -0,0 +1,19 @@
+import { sanitizeLayout } from "./layouts"
+import type { ChartLayout } from "./types"
+
+// Browser-side persistence: the dashboard has one multi-chart layout
+export const LAYOUT_STORAGE_KEY = "chart-layout"
+export const LAYOUT_CHANGE_EVENT = "chart-layout-change"
+
+export function loadLayout(): ChartLayout {
+  try {
+    return sanitizeLayout(JSON.parse(localStorage.getItem(LAYOUT_STORAGE_KEY) ?? "null"))
+  } catch {
+    return sanitizeLayout(null)
+  }
+}
+
+export function saveLayout(layout: ChartLayout) {
+  localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout))
+  window.dispatchEvent(new Event(LAYOUT_CHANGE_EVENT))
+}
@@ -0,0 +1,22 @@
+import type { Timeframe } from "@/lib/candles/types"
+
+export type LayoutSize = 1 | 2 | 4 | 6
+
+export interface LayoutPane {
+  id: string
+  symbol: string // Yahoo-style, e.g. "TCS.NS" or "^NSEI"
+  timeframe: Timeframe
+  linked: boolean // Takes part in whatever `ChartLayout.link` shares
+}
+
+export interface ChartLayout {
+  size: LayoutSize
+  panes: LayoutPane[] // Always MAX_PANES long; the first `size` are on screen, the rest keep their settings
+  link: {
+    symbol: boolean
+    timeframe: boolean
+    crosshair: boolean
+  }
+}
+
+export type LinkedField = keyof ChartLayout["link"]
@@ -0,0 +1,36 @@
+import type { ChatMessage } from "./types"
+
+// Browser-side persistence: the assistant keeps one conversation, newest messages last
+export const CHAT_HISTORY_STORAGE_KEY = "chat-history"
+export const CHAT_HISTORY_CHANGE_EVENT = "chat-history-change"
+export const MAX_CHAT_MESSAGES = 100
+const MAX_MESSAGE_LENGTH = 8000
+
+export function sanitizeChatHistory(raw: unknown): ChatMessage[] {
+  if (!Array.isArray(raw)) return []
+  return raw
+    .filter(
+      (message): message is ChatMessage =>
+        message &&
+        typeof message.id === "string" &&
+        typeof message.content === "string" &&
+        (message.sender === "user" || message.sender === "ai") &&
+        Number.isFinite(message.timestamp),
+    )
+    .map((message) => ({ ...message, content: message.content.slice(0, MAX_MESSAGE_LENGTH) }))
+    .slice(-MAX_CHAT_MESSAGES)
+}
+
+export function loadChatHistory(): ChatMessage[] {
+  try {
+    return sanitizeChatHistory(JSON.parse(localStorage.getItem(CHAT_HISTORY_STORAGE_KEY) ?? "[]"))
+  } catch {
+    return []
+  }
+}
+
+export function saveChatHistory(messages: ChatMessage[]) {
+  if (messages.length === 0) localStorage.removeItem(CHAT_HISTORY_STORAGE_KEY)
+  else localStorage.setItem(CHAT_HISTORY_STORAGE_KEY, JSON.stringify(sanitizeChatHistory(messages)))
+  window.dispatchEvent(new Event(CHAT_HISTORY_CHANGE_EVENT))
+}
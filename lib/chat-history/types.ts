@@ -0,0 +1,15 @@
+import type { Provenance } from "@/lib/market-data/types"
+
+export interface ChatMessage {
+  id: string
+  content: string
+  sender: "user" | "ai"
+  timestamp: number // ms
+  marketData?: {
+    symbol: string
+    price: number
+    change: number
+    changePercent: number
+    provenance: Provenance | null
+  }
+}
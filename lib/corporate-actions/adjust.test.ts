@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import type { ChartData } from "@/lib/market-data"
+import { adjustCandles, toTradedPrices } from "./adjust"
+import type { CorporateAction } from "./types"
+
+// Daily bars are stamped at the session open, 09:15 IST
+const day = (date: string, close: number, volume = 1000): ChartData => ({
+  timestamp: Date.parse(`${date}T09:15:00+05:30`),
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume,
+})
+
+const split = (exDate: string, ratio: number): CorporateAction => ({ type: "split", exDate, ratio, source: "curated" })
+const bonus = (exDate: string, ratio: number): CorporateAction => ({ type: "bonus", exDate, ratio, source: "curated" })
+const dividend = (exDate: string, amount: number): CorporateAction => ({
+  type: "dividend",
+  exDate,
+  amount,
+  source: "curated",
+})
+
+describe("toTradedPrices", () => {
+  // The provider's series after a 2-for-1 split that went ex on 2025-06-03
+  const restated = [day("2025-05-30", 50, 2000), day("2025-06-02", 51, 2000), day("2025-06-03", 52, 1000)]
+
+  it("undoes the split on every bar before the ex-date, including the one right before it", () => {
+    const traded = toTradedPrices(restated, [split("2025-06-03", 2)])
+
+    expect(traded.map((candle) => candle.close)).toEqual([100, 102, 52])
+    expect(traded.map((candle) => candle.volume)).toEqual([1000, 1000, 1000])
+  })
+
+  it("leaves bars untouched when no share action is later than them", () => {
+    expect(toTradedPrices(restated, [split("2025-05-01", 2), dividend("2025-06-02", 5)])).toEqual(restated)
+  })
+
+  it("compounds several later share actions", () => {
+    const traded = toTradedPrices([day("2025-01-02", 10)], [split("2025-03-03", 5), bonus("2025-06-03", 2)])
+    expect(traded[0].close).toBe(100)
+  })
+})
+
+describe("adjustCandles", () => {
+  it("divides bars before a split by its ratio and scales their volume up", () => {
+    const traded = [day("2025-06-02", 102, 1000), day("2025-06-03", 52, 1000)]
+    const adjusted = adjustCandles(traded, [split("2025-06-03", 2)])
+
+    expect(adjusted.map((candle) => candle.close)).toEqual([51, 52])
+    expect(adjusted.map((candle) => candle.volume)).toEqual([2000, 1000])
+  })
+
+  it("round-trips the provider's restated bars through traded prices", () => {
+    const restated = [day("2025-05-30", 50, 2000), day("2025-06-02", 51, 2000), day("2025-06-03", 52, 1000)]
+    const actions = [split("2025-06-03", 2)]
+
+    expect(adjustCandles(toTradedPrices(restated, actions), actions)).toEqual(restated)
+  })
+
+  it("scales bars before a dividend by the close just before the ex-date", () => {
+    const traded = [day("2025-06-02", 200), day("2025-06-03", 100), day("2025-06-04", 98)]
+    const adjusted = adjustCandles(traded, [dividend("2025-06-04", 10)])
+
+    // 1 - 10 / 100
+    expect(adjusted.map((candle) => candle.close)).toEqual([180, 90, 98])
+    expect(adjusted.map((candle) => candle.volume)).toEqual([1000, 1000, 1000])
+  })
+
+  it("ignores a dividend with no earlier bar or one at least as large as the close", () => {
+    const traded = [day("2025-06-03", 10), day("2025-06-04", 9)]
+    expect(adjustCandles(traded, [dividend("2025-06-03", 1), dividend("2025-06-04", 10)])).toBe(traded)
+  })
+})
@@ -0,0 +1,66 @@
+import type { ChartData } from "@/lib/market-data"
+import { istDay, parseIstDate } from "@/lib/candles/session"
+import type { CorporateAction, ShareAction } from "./types"
+
+function isShareAction(action: CorporateAction): action is ShareAction {
+  return action.type === "split" || action.type === "bonus"
+}
+
+// Product of the ratios of share actions that go ex after the given IST day
+export function laterShareRatio(day: number, actions: CorporateAction[]): number {
+  return actions
+    .filter(isShareAction)
+    .reduce((ratio, action) => (parseIstDate(action.exDate) > day ? ratio * action.ratio : ratio), 1)
+}
+
+function scaleCandle(candle: ChartData, priceFactor: number, volumeFactor: number): ChartData {
+  return {
+    timestamp: candle.timestamp,
+    open: Number((candle.open * priceFactor).toFixed(2)),
+    high: Number((candle.high * priceFactor).toFixed(2)),
+    low: Number((candle.low * priceFactor).toFixed(2)),
+    close: Number((candle.close * priceFactor).toFixed(2)),
+    volume: Math.round(candle.volume * volumeFactor),
+  }
+}
+
+// Yahoo restates bars for every split it knows about; undo that to get prices as traded
+export function toTradedPrices(splitAdjusted: ChartData[], actions: CorporateAction[]): ChartData[] {
+  return splitAdjusted.map((candle) => {
+    const ratio = laterShareRatio(istDay(candle.timestamp), actions)
+    return ratio === 1 ? candle : scaleCandle(candle, ratio, 1 / ratio)
+  })
+}
+
+// Back-adjust traded prices so every bar is comparable with the latest one: bars before a split or bonus are
+// divided by its ratio, and bars before a dividend are scaled by (1 - dividend / close before the ex-date).
+// Needs the whole series, since a dividend's factor depends on the close just before it goes ex
+export function adjustCandles(traded: ChartData[], actions: CorporateAction[]): ChartData[] {
+  const factors = actions
+    .map((action) => {
+      const exDay = parseIstDate(action.exDate)
+      if (isShareAction(action)) {
+        return { exDay, price: 1 / action.ratio, volume: action.ratio }
+      }
+
+      const previous = traded.filter((candle) => istDay(candle.timestamp) < exDay).pop()
+      if (!previous || action.amount >= previous.close) return null
+      return { exDay, price: 1 - action.amount / previous.close, volume: 1 }
+    })
+    .filter((factor): factor is { exDay: number; price: number; volume: number } => factor !== null)
+
+  if (factors.length === 0) return traded
+
+  return traded.map((candle) => {
+    const day = istDay(candle.timestamp)
+    let price = 1
+    let volume = 1
+    for (const factor of factors) {
+      if (factor.exDay > day) {
+        price *= factor.price
+        volume *= factor.volume
+      }
+    }
+    return price === 1 && volume === 1 ? candle : scaleCandle(candle, price, volume)
+  })
+}
@@ -0,0 +1,8 @@
+import type { CorporateAction } from "./types"
+
+// Hand-maintained actions keyed by base symbol. Entries override a provider action of the same kind on the
+// same ex-date, which is how bonuses (reported by Yahoo as splits) get their proper label
+export const CURATED_ACTIONS: Record<string, CorporateAction[]> = {
+  RELIANCE: [{ type: "bonus", exDate: "2024-10-28", ratio: 2, source: "curated", description: "1:1 bonus" }],
+  TATASTEEL: [{ type: "split", exDate: "2022-07-28", ratio: 10, source: "curated", description: "Face value ₹10 to ₹1" }],
+}
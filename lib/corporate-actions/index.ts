@@ -0,0 +1,101 @@
+import { createCache } from "@/lib/cache"
+import { istDay, toIstDate } from "@/lib/candles/session"
+import { fetchYahooChart } from "@/lib/market-data/yahoo"
+import { toBaseSymbol, toYahooSymbol } from "@/lib/market-data/symbols"
+import type { ChartData } from "@/lib/market-data/types"
+import { adjustCandles, laterShareRatio, toTradedPrices } from "./adjust"
+import { CURATED_ACTIONS } from "./curated"
+import type { CorporateAction, ShareAction } from "./types"
+
+export * from "./types"
+export { adjustCandles, toTradedPrices } from "./adjust"
+
+const ACTIONS_CACHE_DURATION = 12 * 60 * 60 * 1000 // Actions are announced weeks ahead; twice a day is plenty
+const RETRY_AFTER_FAILURE = 5 * 60 * 1000
+
+// Symbols whose provider fetch failed recently, so reads don't wait on the provider timeout every time
+const failedAt = new Map<string, number>()
+
+const actionsCache = createCache<CorporateAction[]>({
+  namespace: "corporate-actions",
+  ttl: ACTIONS_CACHE_DURATION,
+  staleTtl: ACTIONS_CACHE_DURATION,
+  maxEntries: 500,
+})
+
+function byExDate(a: CorporateAction, b: CorporateAction): number {
+  return a.exDate.localeCompare(b.exDate)
+}
+
+// Splits and dividends from Yahoo's chart events; bonuses arrive as splits
+async function fetchYahooActions(symbol: string): Promise<CorporateAction[]> {
+  const data = await fetchYahooChart(toYahooSymbol(symbol), "?range=max&interval=3mo&events=div%7Csplit", 15000)
+  const events = data.chart.result[0].events || {}
+
+  const splits: ShareAction[] = Object.values<any>(events.splits || {})
+    .filter((split) => split.numerator > 0 && split.denominator > 0)
+    .map((split) => ({
+      type: "split",
+      exDate: toIstDate(split.date * 1000),
+      ratio: split.numerator / split.denominator,
+      source: "yahoo",
+      description: split.splitRatio,
+    }))
+
+  // Yahoo restates dividends for later splits; scale them back to the amount declared
+  const dividends: CorporateAction[] = Object.values<any>(events.dividends || {})
+    .filter((dividend) => dividend.amount > 0)
+    .map((dividend) => ({
+      type: "dividend",
+      exDate: toIstDate(dividend.date * 1000),
+      amount: Number((dividend.amount * laterShareRatio(istDay(dividend.date * 1000), splits)).toFixed(4)),
+      source: "yahoo",
+    }))
+
+  return [...splits, ...dividends]
+}
+
+// Curated entries win over provider entries of the same kind on the same ex-date
+export function mergeActions(provider: CorporateAction[], curated: CorporateAction[]): CorporateAction[] {
+  const kind = (action: CorporateAction) => (action.type === "dividend" ? "dividend" : "shares")
+  const overridden = new Set(curated.map((action) => `${kind(action)}:${action.exDate}`))
+
+  return [...provider.filter((action) => !overridden.has(`${kind(action)}:${action.exDate}`)), ...curated].sort(
+    byExDate,
+  )
+}
+
+// Known actions for a symbol, oldest first; falls back to the curated list when the provider is unreachable
+export async function getCorporateActions(symbol: string): Promise<CorporateAction[]> {
+  const baseSymbol = toBaseSymbol(symbol)
+  const curated = CURATED_ACTIONS[baseSymbol] ?? []
+  const fallback = [...curated].sort(byExDate)
+
+  if (Date.now() - (failedAt.get(baseSymbol) ?? 0) < RETRY_AFTER_FAILURE) {
+    return (await actionsCache.get(baseSymbol)) ?? fallback
+  }
+
+  try {
+    const { value } = await actionsCache.getOrLoad(baseSymbol, async () =>
+      mergeActions(await fetchYahooActions(baseSymbol), curated),
+    )
+    failedAt.delete(baseSymbol)
+    return value
+  } catch (error) {
+    console.error(`Corporate actions unavailable for ${baseSymbol}:`, error)
+    failedAt.set(baseSymbol, Date.now())
+    return fallback
+  }
+}
+
+// Provider bars (split-restated) as charts show them: traded prices, back-adjusted for every action unless
+// `adjusted` is false
+export async function priceProviderCandles(
+  symbol: string,
+  candles: ChartData[],
+  adjusted: boolean,
+): Promise<ChartData[]> {
+  const actions = await getCorporateActions(symbol)
+  const traded = toTradedPrices(candles, actions)
+  return adjusted ? adjustCandles(traded, actions) : traded
+}
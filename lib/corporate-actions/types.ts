@@ -0,0 +1,20 @@
+export type CorporateActionSource = "yahoo" | "curated"
+
+// Splits and bonuses change the share count; a 1:1 bonus and a 2-for-1 split both have a ratio of 2
+export interface ShareAction {
+  type: "split" | "bonus"
+  exDate: string // "YYYY-MM-DD" on the IST calendar
+  ratio: number // Shares held after the action per share held before
+  source: CorporateActionSource
+  description?: string // As announced, e.g. "1:1 bonus"
+}
+
+export interface DividendAction {
+  type: "dividend"
+  exDate: string
+  amount: number // Per share in rupees as declared, not restated for later splits
+  source: CorporateActionSource
+  description?: string
+}
+
+export type CorporateAction = ShareAction | DividendAction
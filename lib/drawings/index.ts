@@ -0,0 +1,4 @@
+export * from "./types"
+export * from "./tools"
+export * from "./storage"
+export * from "./render"
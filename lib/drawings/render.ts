@@ -0,0 +1,178 @@
+import { formatAxisPrice, type ChartLayer, type ChartView } from "@/lib/chart-engine"
+import {
+  DRAWING_TOOLS,
+  FIB_EXTENSION_LEVELS,
+  FIB_RETRACEMENT_LEVELS,
+  fibExtensionPrice,
+  fibRetracementPrice,
+  measure,
+  priceOnLine,
+} from "./tools"
+import type { AnchorPoint, Drawing } from "./types"
+
+const FONT = "11px ui-sans-serif, system-ui, sans-serif"
+
+// "3d 4h", "2h 15m" or "45m"; only the two largest units matter at chart scale
+function formatDuration(ms: number): string {
+  const minutes = Math.round(Math.abs(ms) / 60000)
+  const days = Math.floor(minutes / (24 * 60))
+  const hours = Math.floor((minutes % (24 * 60)) / 60)
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`
+  if (hours > 0) return minutes % 60 > 0 ? `${hours}h ${minutes % 60}m` : `${hours}h`
+  return `${minutes}m`
+}
+
+function label(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, color: string, background?: string) {
+  ctx.font = FONT
+  ctx.textAlign = "left"
+  ctx.textBaseline = "middle"
+  if (background) {
+    const width = ctx.measureText(text).width + 8
+    ctx.fillStyle = background
+    ctx.fillRect(x - 4, y - 9, width, 18)
+  }
+  ctx.fillStyle = color
+  ctx.fillText(text, x, y)
+}
+
+function segment(ctx: CanvasRenderingContext2D, x1: number, y1: number, x2: number, y2: number, dash: number[] = []) {
+  ctx.setLineDash(dash)
+  ctx.beginPath()
+  ctx.moveTo(x1, y1)
+  ctx.lineTo(x2, y2)
+  ctx.stroke()
+  ctx.setLineDash([])
+}
+
+// One drawing in the view's current mapping; a drawing still being placed may have its later anchors unset
+export function drawDrawing(ctx: CanvasRenderingContext2D, view: ChartView, drawing: Drawing) {
+  const { plot, scale } = view
+  const toPixel = (point: AnchorPoint) => ({ x: view.toX(view.indexAtTime(point.time)), y: scale.toY(point.price) })
+  const price = (value: number) => formatAxisPrice(value, (scale.max - scale.min) / 10)
+  const [a, b, c] = drawing.points
+  if (!a) return
+
+  const pa = toPixel(a)
+  ctx.strokeStyle = drawing.color
+  ctx.fillStyle = drawing.color
+  ctx.lineWidth = 1.5
+
+  switch (drawing.tool) {
+    case "horizontal-ray": {
+      segment(ctx, pa.x, pa.y, plot.right, pa.y)
+      label(ctx, price(a.price), Math.max(pa.x, plot.left) + 4, pa.y - 9, drawing.color)
+      return
+    }
+
+    case "text": {
+      label(ctx, drawing.text || "Note", pa.x, pa.y, drawing.color, "rgba(15, 23, 42, 0.75)")
+      return
+    }
+  }
+
+  if (!b) return
+  const pb = toPixel(b)
+
+  switch (drawing.tool) {
+    case "trend":
+    case "support":
+    case "resistance": {
+      ctx.lineWidth = 2
+      segment(ctx, pa.x, pa.y, pb.x, pb.y, drawing.tool === "trend" ? [] : [5, 5])
+      label(ctx, DRAWING_TOOLS[drawing.tool].label, pa.x + 5, pa.y - 10, drawing.color)
+      return
+    }
+
+    case "fib-retracement": {
+      segment(ctx, pa.x, pa.y, pb.x, pb.y, [3, 3])
+      const left = Math.min(pa.x, pb.x)
+      for (const level of FIB_RETRACEMENT_LEVELS) {
+        const value = fibRetracementPrice(a, b, level)
+        const y = scale.toY(value)
+        segment(ctx, left, y, plot.right, y)
+        label(ctx, `${level} (${price(value)})`, left + 4, y - 8, drawing.color)
+      }
+      return
+    }
+
+    case "fib-extension": {
+      const pc = c ? toPixel(c) : pb
+      segment(ctx, pa.x, pa.y, pb.x, pb.y, [3, 3])
+      segment(ctx, pb.x, pb.y, pc.x, pc.y, [3, 3])
+      if (!c) return
+      for (const level of FIB_EXTENSION_LEVELS) {
+        const value = fibExtensionPrice(a, b, c, level)
+        const y = scale.toY(value)
+        segment(ctx, pc.x, y, plot.right, y)
+        label(ctx, `${level} (${price(value)})`, pc.x + 4, y - 8, drawing.color)
+      }
+      return
+    }
+
+    case "channel": {
+      // The second line runs parallel to the first through the third anchor
+      const offset = c ? c.price - priceOnLine(a, b, c.time) : 0
+      const ya2 = scale.toY(a.price + offset)
+      const yb2 = scale.toY(b.price + offset)
+
+      ctx.save()
+      ctx.globalAlpha = 0.12
+      ctx.beginPath()
+      ctx.moveTo(pa.x, pa.y)
+      ctx.lineTo(pb.x, pb.y)
+      ctx.lineTo(pb.x, yb2)
+      ctx.lineTo(pa.x, ya2)
+      ctx.closePath()
+      ctx.fill()
+      ctx.restore()
+
+      segment(ctx, pa.x, pa.y, pb.x, pb.y)
+      segment(ctx, pa.x, ya2, pb.x, yb2)
+      segment(ctx, pa.x, (pa.y + ya2) / 2, pb.x, (pb.y + yb2) / 2, [4, 4])
+      return
+    }
+
+    case "rectangle": {
+      ctx.save()
+      ctx.globalAlpha = 0.12
+      ctx.fillRect(pa.x, pa.y, pb.x - pa.x, pb.y - pa.y)
+      ctx.restore()
+      ctx.strokeRect(pa.x, pa.y, pb.x - pa.x, pb.y - pa.y)
+      return
+    }
+
+    case "measure": {
+      const { change, percent, duration } = measure(a, b)
+      const color = change >= 0 ? "#10b981" : "#ef4444"
+      ctx.save()
+      ctx.globalAlpha = 0.15
+      ctx.fillStyle = color
+      ctx.fillRect(pa.x, pa.y, pb.x - pa.x, pb.y - pa.y)
+      ctx.restore()
+
+      ctx.strokeStyle = color
+      segment(ctx, pa.x, pa.y, pb.x, pb.y, [4, 3])
+
+      const bars = Math.round(view.indexAtTime(b.time) - view.indexAtTime(a.time))
+      const sign = change >= 0 ? "+" : "-"
+      const move = `${sign}${price(Math.abs(change))} (${sign}${Math.abs(percent).toFixed(2)}%)`
+      const text = `${move} · ${bars} bars, ${formatDuration(duration)}`
+      ctx.font = FONT
+      const width = ctx.measureText(text).width
+      label(ctx, text, (pa.x + pb.x) / 2 - width / 2, Math.max(pa.y, pb.y) + 14, "#ffffff", color)
+      return
+    }
+  }
+}
+
+// Saved drawings plus any being placed, on the price pane. They don't join autoscaling, so a stray drawing far
+// from the price can't squash the candles
+export function drawingsLayer(drawings: Drawing[], draft?: Drawing | null): ChartLayer {
+  return {
+    id: "drawings",
+    draw: (ctx, view) => {
+      for (const drawing of draft ? [...drawings, draft] : drawings) drawDrawing(ctx, view, drawing)
+      ctx.lineWidth = 1
+    },
+  }
+}
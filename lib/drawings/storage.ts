@@ -0,0 +1,76 @@
+import { toYahooSymbol } from "@/lib/market-data/symbols"
+import { DRAWING_TOOLS, isDrawingTool } from "./tools"
+import type { AnchorPoint, Drawing } from "./types"
+
+// Browser-side persistence: one localStorage entry per symbol and timeframe
+const STORAGE_PREFIX = "chart-drawings:"
+export const DRAWINGS_CHANGE_EVENT = "chart-drawings-change"
+export const MAX_DRAWINGS = 200 // Per symbol and timeframe
+const MAX_TEXT_LENGTH = 500
+const MAX_COLOR_LENGTH = 32
+
+// "reliance", "NSE:RELIANCE" and "RELIANCE.NS" all share drawings
+export function drawingsKey(symbol: string, timeframe: string): string {
+  return `${toYahooSymbol(symbol)}:${timeframe}`
+}
+
+export function drawingsStorageKey(key: string): string {
+  return `${STORAGE_PREFIX}${key}`
+}
+
+const isAnchorPoint = (point: AnchorPoint | null): point is AnchorPoint =>
+  !!point && Number.isFinite(point.time) && Number.isFinite(point.price)
+
+// Anything unreadable is dropped rather than breaking the chart. The server stores what passes and every synced
+// browser renders it, so each drawing must have exactly the anchors its tool places
+export function sanitizeDrawings(raw: unknown): Drawing[] {
+  if (!Array.isArray(raw)) return []
+  return raw
+    .filter(
+      (drawing): drawing is Drawing =>
+        drawing &&
+        typeof drawing.id === "string" &&
+        typeof drawing.tool === "string" &&
+        isDrawingTool(drawing.tool) &&
+        Array.isArray(drawing.points) &&
+        drawing.points.length === DRAWING_TOOLS[drawing.tool as Drawing["tool"]].points &&
+        drawing.points.every(isAnchorPoint),
+    )
+    .map((drawing) => ({
+      id: drawing.id,
+      tool: drawing.tool,
+      points: drawing.points.map(({ time, price }) => ({ time, price })),
+      color:
+        typeof drawing.color === "string" && drawing.color.length <= MAX_COLOR_LENGTH
+          ? drawing.color
+          : DRAWING_TOOLS[drawing.tool].color,
+      ...(typeof drawing.text === "string" ? { text: drawing.text.slice(0, MAX_TEXT_LENGTH) } : {}),
+      createdAt: Number.isFinite(drawing.createdAt) ? drawing.createdAt : 0,
+    }))
+    .slice(-MAX_DRAWINGS)
+}
+
+export function loadDrawings(key: string): Drawing[] {
+  try {
+    return sanitizeDrawings(JSON.parse(localStorage.getItem(drawingsStorageKey(key)) ?? "[]"))
+  } catch {
+    return []
+  }
+}
+
+// Every symbol and timeframe that has drawings saved in this browser
+export function savedDrawingKeys(): string[] {
+  const keys: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const storageKey = localStorage.key(i)
+    if (storageKey?.startsWith(STORAGE_PREFIX)) keys.push(storageKey.slice(STORAGE_PREFIX.length))
+  }
+  return keys
+}
+
+// Saves and tells every chart on the page showing the same key; other tabs hear about it through "storage"
+export function saveDrawings(key: string, drawings: Drawing[]) {
+  if (drawings.length === 0) localStorage.removeItem(drawingsStorageKey(key))
+  else localStorage.setItem(drawingsStorageKey(key), JSON.stringify(drawings))
+  window.dispatchEvent(new CustomEvent(DRAWINGS_CHANGE_EVENT, { detail: { key } }))
+}
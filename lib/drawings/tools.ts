@@ -0,0 +1,55 @@
+import type { AnchorPoint, DrawingTool } from "./types"
+
+interface DrawingToolInfo {
+  label: string
+  points: 1 | 2 | 3 // Anchors placed: a click, a drag, or a drag then a click
+  color: string
+}
+
+export const DRAWING_TOOLS: Record<DrawingTool, DrawingToolInfo> = {
+  trend: { label: "Trend", points: 2, color: "#3b82f6" },
+  support: { label: "Support", points: 2, color: "#10b981" },
+  resistance: { label: "Resistance", points: 2, color: "#ef4444" },
+  "horizontal-ray": { label: "Horizontal ray", points: 1, color: "#f59e0b" },
+  "fib-retracement": { label: "Fib retracement", points: 2, color: "#a855f7" },
+  "fib-extension": { label: "Fib extension", points: 3, color: "#ec4899" },
+  channel: { label: "Parallel channel", points: 3, color: "#06b6d4" },
+  rectangle: { label: "Rectangle", points: 2, color: "#8b5cf6" },
+  text: { label: "Text note", points: 1, color: "#e2e8f0" },
+  measure: { label: "Measure", points: 2, color: "#3b82f6" },
+}
+
+export const DRAWING_TOOL_IDS = Object.keys(DRAWING_TOOLS) as DrawingTool[]
+
+export function isDrawingTool(value: string): value is DrawingTool {
+  return Object.prototype.hasOwnProperty.call(DRAWING_TOOLS, value)
+}
+
+export const FIB_RETRACEMENT_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1]
+export const FIB_EXTENSION_LEVELS = [0, 0.618, 1, 1.272, 1.618, 2, 2.618]
+
+// Retracement of the swing from `start` to `end`: level 0 sits at the end of the swing and 1 back at its start
+export function fibRetracementPrice(start: AnchorPoint, end: AnchorPoint, level: number): number {
+  return end.price - (end.price - start.price) * level
+}
+
+// Projection of the `start`-to-`end` swing from the pullback at `from`
+export function fibExtensionPrice(start: AnchorPoint, end: AnchorPoint, from: AnchorPoint, level: number): number {
+  return from.price + (end.price - start.price) * level
+}
+
+// Price on the line through `start` and `end` at `time`, extended either way
+export function priceOnLine(start: AnchorPoint, end: AnchorPoint, time: number): number {
+  if (end.time === start.time) return end.price
+  return start.price + ((end.price - start.price) * (time - start.time)) / (end.time - start.time)
+}
+
+// Price change, percentage and span between two anchors, as the measure tool reports them
+export function measure(start: AnchorPoint, end: AnchorPoint) {
+  const change = end.price - start.price
+  return {
+    change,
+    percent: start.price !== 0 ? (change / start.price) * 100 : 0,
+    duration: end.time - start.time,
+  }
+}
@@ -0,0 +1,26 @@
+// A place on the chart in market terms, so drawings survive zoom, pan, resize and timeframe changes
+export interface AnchorPoint {
+  time: number // ms; may fall between bars or past the latest one
+  price: number
+}
+
+export type DrawingTool =
+  | "trend"
+  | "support"
+  | "resistance"
+  | "horizontal-ray"
+  | "fib-retracement"
+  | "fib-extension"
+  | "channel"
+  | "rectangle"
+  | "text"
+  | "measure"
+
+export interface Drawing {
+  id: string
+  tool: DrawingTool
+  points: AnchorPoint[] // As many as the tool takes, in the order they were placed
+  color: string
+  text?: string // Text notes only
+  createdAt: number
+}
@@ -0,0 +1,340 @@
+import type { ChartData } from "@/lib/market-data/types"
+
+// Every series is aligned with its input: index i belongs to bar i, null while the indicator warms up
+export type Series = (number | null)[]
+
+export interface MACDResult {
+  macd: Series
+  signal: Series
+  histogram: Series
+}
+
+export interface BollingerResult {
+  upper: Series
+  middle: Series
+  lower: Series
+}
+
+export interface StochasticResult {
+  k: Series
+  d: Series
+}
+
+export interface SuperTrendResult {
+  value: Series
+  direction: (1 | -1 | null)[] // 1 = uptrend (line below price), -1 = downtrend
+}
+
+export interface ADXResult {
+  adx: Series
+  plusDI: Series
+  minusDI: Series
+}
+
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function emptySeries(length: number): Series {
+  return new Array(length).fill(null)
+}
+
+export function sma(values: Series, period: number): Series {
+  const result = emptySeries(values.length)
+  let sum = 0
+  let count = 0
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]
+    if (value === null) {
+      sum = 0
+      count = 0
+      continue
+    }
+
+    sum += value
+    count++
+    if (count > period) {
+      sum -= values[i - period] as number
+      count = period
+    }
+    if (count === period) {
+      result[i] = sum / period
+    }
+  }
+
+  return result
+}
+
+// Exponential moving average seeded with the SMA of the first `period` values; leading nulls are skipped
+export function ema(values: Series, period: number): Series {
+  const result = emptySeries(values.length)
+  const k = 2 / (period + 1)
+  let previous: number | null = null
+  let seedSum = 0
+  let seedCount = 0
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]
+    if (value === null) continue
+
+    if (previous === null) {
+      seedSum += value
+      seedCount++
+      if (seedCount === period) {
+        previous = seedSum / period
+        result[i] = previous
+      }
+      continue
+    }
+
+    previous = value * k + previous * (1 - k)
+    result[i] = previous
+  }
+
+  return result
+}
+
+// Wilder's smoothing (RMA): seeded with a simple average, then avg = (prev * (n - 1) + value) / n
+function wilderSmooth(values: Series, period: number): Series {
+  const result = emptySeries(values.length)
+  let previous: number | null = null
+  let seedSum = 0
+  let seedCount = 0
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]
+    if (value === null) continue
+
+    if (previous === null) {
+      seedSum += value
+      seedCount++
+      if (seedCount === period) {
+        previous = seedSum / period
+        result[i] = previous
+      }
+      continue
+    }
+
+    previous = (previous * (period - 1) + value) / period
+    result[i] = previous
+  }
+
+  return result
+}
+
+export function closes(data: ChartData[]): number[] {
+  return data.map((d) => d.close)
+}
+
+export function rsi(values: Series, period = 14): Series {
+  const gains = emptySeries(values.length)
+  const losses = emptySeries(values.length)
+
+  for (let i = 1; i < values.length; i++) {
+    const current = values[i]
+    const previous = values[i - 1]
+    if (current === null || previous === null) continue
+    const change = current - previous
+    gains[i] = Math.max(change, 0)
+    losses[i] = Math.max(-change, 0)
+  }
+
+  const avgGain = wilderSmooth(gains, period)
+  const avgLoss = wilderSmooth(losses, period)
+
+  return values.map((_, i) => {
+    const gain = avgGain[i]
+    const loss = avgLoss[i]
+    if (gain === null || loss === null) return null
+    if (loss === 0) return gain === 0 ? 50 : 100
+    return 100 - 100 / (1 + gain / loss)
+  })
+}
+
+export function macd(values: Series, fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): MACDResult {
+  const fast = ema(values, fastPeriod)
+  const slow = ema(values, slowPeriod)
+  const line = values.map((_, i) => {
+    const f = fast[i]
+    const s = slow[i]
+    return f === null || s === null ? null : f - s
+  })
+  const signal = ema(line, signalPeriod)
+  const histogram = line.map((value, i) => {
+    const sig = signal[i]
+    return value === null || sig === null ? null : value - sig
+  })
+
+  return { macd: line, signal, histogram }
+}
+
+export function bollingerBands(values: Series, period = 20, multiplier = 2): BollingerResult {
+  const middle = sma(values, period)
+  const upper = emptySeries(values.length)
+  const lower = emptySeries(values.length)
+
+  for (let i = period - 1; i < values.length; i++) {
+    const mean = middle[i]
+    if (mean === null) continue
+
+    let variance = 0
+    for (let j = i - period + 1; j <= i; j++) {
+      variance += ((values[j] as number) - mean) ** 2
+    }
+    const deviation = Math.sqrt(variance / period)
+
+    upper[i] = mean + multiplier * deviation
+    lower[i] = mean - multiplier * deviation
+  }
+
+  return { upper, middle, lower }
+}
+
+export function trueRange(data: ChartData[]): Series {
+  return data.map((bar, i) => {
+    if (i === 0) return bar.high - bar.low
+    const previousClose = data[i - 1].close
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose))
+  })
+}
+
+export function atr(data: ChartData[], period = 14): Series {
+  return wilderSmooth(trueRange(data), period)
+}
+
+export function stochastic(data: ChartData[], kPeriod = 14, dPeriod = 3, smoothing = 1): StochasticResult {
+  const rawK = emptySeries(data.length)
+
+  for (let i = kPeriod - 1; i < data.length; i++) {
+    let highest = -Infinity
+    let lowest = Infinity
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      highest = Math.max(highest, data[j].high)
+      lowest = Math.min(lowest, data[j].low)
+    }
+    const range = highest - lowest
+    rawK[i] = range === 0 ? 50 : ((data[i].close - lowest) / range) * 100
+  }
+
+  const k = smoothing > 1 ? sma(rawK, smoothing) : rawK
+  return { k, d: sma(k, dPeriod) }
+}
+
+// Session VWAP, reset at the start of every IST trading day
+export function vwap(data: ChartData[]): Series {
+  const result = emptySeries(data.length)
+  let session = -1
+  let cumulativeVolume = 0
+  let cumulativeValue = 0
+
+  for (let i = 0; i < data.length; i++) {
+    const bar = data[i]
+    const day = Math.floor((bar.timestamp + IST_OFFSET_MS) / DAY_MS)
+    if (day !== session) {
+      session = day
+      cumulativeVolume = 0
+      cumulativeValue = 0
+    }
+
+    const typicalPrice = (bar.high + bar.low + bar.close) / 3
+    cumulativeVolume += bar.volume
+    cumulativeValue += typicalPrice * bar.volume
+    result[i] = cumulativeVolume > 0 ? cumulativeValue / cumulativeVolume : typicalPrice
+  }
+
+  return result
+}
+
+export function superTrend(data: ChartData[], period = 10, multiplier = 3): SuperTrendResult {
+  const atrValues = atr(data, period)
+  const value = emptySeries(data.length)
+  const direction: (1 | -1 | null)[] = new Array(data.length).fill(null)
+
+  let finalUpper = 0
+  let finalLower = 0
+  let trend: 1 | -1 = 1
+  let started = false
+
+  for (let i = 0; i < data.length; i++) {
+    const range = atrValues[i]
+    if (range === null) continue
+
+    const bar = data[i]
+    const mid = (bar.high + bar.low) / 2
+    const basicUpper = mid + multiplier * range
+    const basicLower = mid - multiplier * range
+
+    if (!started) {
+      finalUpper = basicUpper
+      finalLower = basicLower
+      trend = bar.close >= mid ? 1 : -1
+      started = true
+    } else {
+      const previousClose = data[i - 1].close
+      finalUpper = basicUpper < finalUpper || previousClose > finalUpper ? basicUpper : finalUpper
+      finalLower = basicLower > finalLower || previousClose < finalLower ? basicLower : finalLower
+
+      if (trend === 1 && bar.close < finalLower) trend = -1
+      else if (trend === -1 && bar.close > finalUpper) trend = 1
+    }
+
+    value[i] = trend === 1 ? finalLower : finalUpper
+    direction[i] = trend
+  }
+
+  return { value, direction }
+}
+
+export function adx(data: ChartData[], period = 14): ADXResult {
+  const plusDM = emptySeries(data.length)
+  const minusDM = emptySeries(data.length)
+  const tr = trueRange(data)
+  tr[0] = null // Directional movement starts at the second bar
+
+  for (let i = 1; i < data.length; i++) {
+    const upMove = data[i].high - data[i - 1].high
+    const downMove = data[i - 1].low - data[i].low
+    plusDM[i] = upMove > downMove && upMove > 0 ? upMove : 0
+    minusDM[i] = downMove > upMove && downMove > 0 ? downMove : 0
+  }
+
+  const smoothedTR = wilderSmooth(tr, period)
+  const smoothedPlus = wilderSmooth(plusDM, period)
+  const smoothedMinus = wilderSmooth(minusDM, period)
+
+  const plusDI = emptySeries(data.length)
+  const minusDI = emptySeries(data.length)
+  const dx = emptySeries(data.length)
+
+  for (let i = 0; i < data.length; i++) {
+    const range = smoothedTR[i]
+    const plus = smoothedPlus[i]
+    const minus = smoothedMinus[i]
+    if (range === null || plus === null || minus === null || range === 0) continue
+
+    plusDI[i] = (plus / range) * 100
+    minusDI[i] = (minus / range) * 100
+    const sum = (plusDI[i] as number) + (minusDI[i] as number)
+    dx[i] = sum === 0 ? 0 : (Math.abs((plusDI[i] as number) - (minusDI[i] as number)) / sum) * 100
+  }
+
+  return { adx: wilderSmooth(dx, period), plusDI, minusDI }
+}
+
+export function obv(data: ChartData[]): Series {
+  let total = 0
+  return data.map((bar, i) => {
+    if (i > 0) {
+      if (bar.close > data[i - 1].close) total += bar.volume
+      else if (bar.close < data[i - 1].close) total -= bar.volume
+    }
+    return total
+  })
+}
+
+export function lastValue(series: Series): number | null {
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (series[i] !== null) return series[i]
+  }
+  return null
+}
@@ -0,0 +1,261 @@
+import type { ChartData } from "@/lib/market-data/types"
+import {
+  adx,
+  atr,
+  bollingerBands,
+  closes,
+  ema,
+  macd,
+  obv,
+  rsi,
+  sma,
+  stochastic,
+  superTrend,
+  vwap,
+  type Series,
+} from "./core"
+
+export type StudyId =
+  | "sma"
+  | "ema"
+  | "bollinger"
+  | "vwap"
+  | "supertrend"
+  | "rsi"
+  | "macd"
+  | "stochastic"
+  | "atr"
+  | "adx"
+  | "obv"
+
+// "overlay" studies share the price scale; "pane" studies get their own sub-pane below the candles
+export type StudyPlacement = "overlay" | "pane"
+
+export interface StudyLine {
+  key: string
+  values: Series
+  color: string
+  style?: "line" | "histogram" | "dashed"
+}
+
+export interface StudyDefinition {
+  id: StudyId
+  name: string
+  placement: StudyPlacement
+  defaultParams: number[]
+  fractionalParams?: number[] // Positions of params that may be fractional, e.g. the band multiplier; the rest are periods
+  levels?: number[] // Reference lines for bounded oscillators, e.g. RSI 30/70
+  compute(data: ChartData[], params: number[]): StudyLine[]
+}
+
+export interface StudyRequest {
+  id: StudyId
+  params: number[]
+}
+
+export interface StudyResult {
+  id: StudyId
+  name: string
+  label: string
+  placement: StudyPlacement
+  params: number[]
+  levels?: number[]
+  lines: StudyLine[]
+}
+
+export const STUDIES: Record<StudyId, StudyDefinition> = {
+  sma: {
+    id: "sma",
+    name: "SMA",
+    placement: "overlay",
+    defaultParams: [20],
+    compute: (data, [period]) => [{ key: "sma", values: sma(closes(data), period), color: "#3b82f6" }],
+  },
+  ema: {
+    id: "ema",
+    name: "EMA",
+    placement: "overlay",
+    defaultParams: [20],
+    compute: (data, [period]) => [{ key: "ema", values: ema(closes(data), period), color: "#f59e0b" }],
+  },
+  bollinger: {
+    id: "bollinger",
+    name: "Bollinger Bands",
+    placement: "overlay",
+    defaultParams: [20, 2],
+    fractionalParams: [1],
+    compute: (data, [period, multiplier]) => {
+      const bands = bollingerBands(closes(data), period, multiplier)
+      return [
+        { key: "upper", values: bands.upper, color: "#a855f7", style: "dashed" },
+        { key: "middle", values: bands.middle, color: "#a855f7" },
+        { key: "lower", values: bands.lower, color: "#a855f7", style: "dashed" },
+      ]
+    },
+  },
+  vwap: {
+    id: "vwap",
+    name: "VWAP",
+    placement: "overlay",
+    defaultParams: [],
+    compute: (data) => [{ key: "vwap", values: vwap(data), color: "#06b6d4" }],
+  },
+  supertrend: {
+    id: "supertrend",
+    name: "SuperTrend",
+    placement: "overlay",
+    defaultParams: [10, 3],
+    fractionalParams: [1],
+    compute: (data, [period, multiplier]) => {
+      const result = superTrend(data, period, multiplier)
+      return [
+        {
+          key: "up",
+          values: result.value.map((v, i) => (result.direction[i] === 1 ? v : null)),
+          color: "#10b981",
+        },
+        {
+          key: "down",
+          values: result.value.map((v, i) => (result.direction[i] === -1 ? v : null)),
+          color: "#ef4444",
+        },
+      ]
+    },
+  },
+  rsi: {
+    id: "rsi",
+    name: "RSI",
+    placement: "pane",
+    defaultParams: [14],
+    levels: [30, 70],
+    compute: (data, [period]) => [{ key: "rsi", values: rsi(closes(data), period), color: "#eab308" }],
+  },
+  macd: {
+    id: "macd",
+    name: "MACD",
+    placement: "pane",
+    defaultParams: [12, 26, 9],
+    levels: [0],
+    compute: (data, [fast, slow, signal]) => {
+      const result = macd(closes(data), fast, slow, signal)
+      return [
+        { key: "histogram", values: result.histogram, color: "#64748b", style: "histogram" },
+        { key: "macd", values: result.macd, color: "#3b82f6" },
+        { key: "signal", values: result.signal, color: "#f97316" },
+      ]
+    },
+  },
+  stochastic: {
+    id: "stochastic",
+    name: "Stochastic",
+    placement: "pane",
+    defaultParams: [14, 3, 3],
+    levels: [20, 80],
+    compute: (data, [kPeriod, dPeriod, smoothing]) => {
+      const result = stochastic(data, kPeriod, dPeriod, smoothing)
+      return [
+        { key: "k", values: result.k, color: "#3b82f6" },
+        { key: "d", values: result.d, color: "#f97316" },
+      ]
+    },
+  },
+  atr: {
+    id: "atr",
+    name: "ATR",
+    placement: "pane",
+    defaultParams: [14],
+    compute: (data, [period]) => [{ key: "atr", values: atr(data, period), color: "#ec4899" }],
+  },
+  adx: {
+    id: "adx",
+    name: "ADX",
+    placement: "pane",
+    defaultParams: [14],
+    levels: [25],
+    compute: (data, [period]) => {
+      const result = adx(data, period)
+      return [
+        { key: "adx", values: result.adx, color: "#f8fafc" },
+        { key: "plusDI", values: result.plusDI, color: "#10b981" },
+        { key: "minusDI", values: result.minusDI, color: "#ef4444" },
+      ]
+    },
+  },
+  obv: {
+    id: "obv",
+    name: "OBV",
+    placement: "pane",
+    defaultParams: [],
+    compute: (data) => [{ key: "obv", values: obv(data), color: "#14b8a6" }],
+  },
+}
+
+export function isStudyId(id: string): id is StudyId {
+  return Object.prototype.hasOwnProperty.call(STUDIES, id)
+}
+
+export function runStudy(data: ChartData[], request: StudyRequest): StudyResult {
+  const definition = STUDIES[request.id]
+  // Missing trailing params fall back to the defaults, so "macd:12" means MACD(12, 26, 9)
+  const params = definition.defaultParams.map((fallback, i) => request.params[i] ?? fallback)
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    label: params.length > 0 ? `${definition.name} (${params.join(", ")})` : definition.name,
+    placement: definition.placement,
+    params,
+    levels: definition.levels,
+    lines: definition.compute(data, params),
+  }
+}
+
+// Parse "rsi:14,ema:20,macd:12,26,9,vwap": bare numbers continue the previous study's parameter list
+export function parseStudies(spec: string): StudyRequest[] {
+  const requests: StudyRequest[] = []
+
+  for (const rawToken of spec.split(",")) {
+    const token = rawToken.trim().toLowerCase()
+    if (!token) continue
+
+    const numeric = Number(token)
+    if (!Number.isNaN(numeric)) {
+      const previous = requests[requests.length - 1]
+      if (!previous) {
+        throw new Error(`Parameter "${token}" has no study before it`)
+      }
+      previous.params.push(numeric)
+      continue
+    }
+
+    const [id, firstParam] = token.split(":")
+    if (!isStudyId(id)) {
+      throw new Error(`Unknown study "${id}". Available: ${Object.keys(STUDIES).join(", ")}`)
+    }
+
+    const params: number[] = []
+    if (firstParam !== undefined) {
+      const value = Number(firstParam)
+      if (Number.isNaN(value)) {
+        throw new Error(`Invalid parameter "${firstParam}" for ${id}`)
+      }
+      params.push(value)
+    }
+
+    requests.push({ id, params })
+  }
+
+  for (const request of requests) {
+    const fractional = STUDIES[request.id].fractionalParams ?? []
+    request.params.forEach((value, i) => {
+      if (!fractional.includes(i) && !Number.isInteger(value)) {
+        throw new Error(`Invalid parameter "${value}" for ${request.id}: periods must be whole numbers`)
+      }
+      if (value <= 0 || value > 500) {
+        throw new Error(`Parameters for ${request.id} must be between 0 and 500`)
+      }
+    })
+  }
+
+  return requests
+}
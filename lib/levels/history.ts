@@ -0,0 +1,39 @@
+import { getTimeframeHistory } from "@/lib/candles"
+import type { Timeframe } from "@/lib/candles/types"
+import type { Provenance } from "@/lib/market-data/types"
+import type { LevelOptions, LevelZone, NearestLevels } from "./types"
+import { detectZones, nearestLevels } from "./zones"
+
+// Server side only: reads the candle store. Charts compute zones from the bars they already hold
+const DEFAULT_BARS = 250
+
+export interface SymbolLevels {
+  symbol: string
+  interval: Timeframe
+  zones: LevelZone[]
+  nearest: NearestLevels
+  bars: number
+  provenance: Provenance | null
+  asOf: number // Open time of the latest bar
+}
+
+export async function getSymbolLevels(
+  symbol: string,
+  interval: Timeframe = "1d",
+  { bars = DEFAULT_BARS, ...options }: LevelOptions & { bars?: number } = {},
+): Promise<SymbolLevels> {
+  const history = await getTimeframeHistory(symbol, interval, { limit: bars })
+  const candles = history.candles
+  const zones = detectZones(candles, options)
+  const last = candles[candles.length - 1]
+
+  return {
+    symbol: history.symbol,
+    interval,
+    zones,
+    nearest: nearestLevels(zones, last?.close ?? 0),
+    bars: candles.length,
+    provenance: history.provenance,
+    asOf: last?.timestamp ?? 0,
+  }
+}
@@ -0,0 +1,45 @@
+import { formatAxisPrice, type ChartLayer } from "@/lib/chart-engine"
+import type { LevelZone } from "./types"
+
+const FONT = "10px ui-sans-serif, system-ui, sans-serif"
+const SUPPORT_COLOR = "16, 185, 129"
+const RESISTANCE_COLOR = "239, 68, 68"
+
+// Shaded bands across the price pane, more opaque the stronger the zone, tagged with the strength at the right edge.
+// Zones off screen don't stretch the price scale
+export function levelsLayer(zones: LevelZone[]): ChartLayer {
+  return {
+    id: "levels",
+    draw: (ctx, view) => {
+      const { plot, scale } = view
+      const step = (scale.max - scale.min) / 10
+
+      for (const zone of zones) {
+        const top = scale.toY(zone.high)
+        const bottom = scale.toY(zone.low)
+        if (bottom < plot.top || top > plot.bottom) continue
+
+        const rgb = zone.kind === "support" ? SUPPORT_COLOR : RESISTANCE_COLOR
+        const alpha = 0.06 + (zone.strength / 100) * 0.18
+        ctx.fillStyle = `rgba(${rgb}, ${alpha})`
+        ctx.fillRect(plot.left, top, plot.right - plot.left, Math.max(bottom - top, 2))
+
+        ctx.strokeStyle = `rgba(${rgb}, ${alpha + 0.25})`
+        ctx.lineWidth = 1
+        ctx.setLineDash([2, 4])
+        ctx.beginPath()
+        ctx.moveTo(plot.left, Math.round(scale.toY(zone.price)) + 0.5)
+        ctx.lineTo(plot.right, Math.round(scale.toY(zone.price)) + 0.5)
+        ctx.stroke()
+        ctx.setLineDash([])
+
+        const label = `${zone.kind === "support" ? "S" : "R"} ${formatAxisPrice(zone.price, step)} · ${zone.strength}`
+        ctx.font = FONT
+        ctx.textAlign = "right"
+        ctx.textBaseline = "bottom"
+        ctx.fillStyle = `rgba(${rgb}, 0.9)`
+        ctx.fillText(label, plot.right - 4, top - 2)
+      }
+    },
+  }
+}
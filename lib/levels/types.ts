@@ -0,0 +1,37 @@
+// A swing high or low: the extreme of the bars `strength` either side of it
+export interface Pivot {
+  index: number
+  time: number
+  price: number
+  kind: "high" | "low"
+  volume: number
+}
+
+// A price band where swings keep turning. Its role is relative to the latest close: below it acts as support,
+// above it as resistance
+export interface LevelZone {
+  id: string
+  kind: "support" | "resistance"
+  low: number
+  high: number
+  price: number // Volume-weighted centre of the pivots in the zone
+  touches: number // Pivots that turned inside the zone
+  firstTouch: number // ms
+  lastTouch: number
+  strength: number // 0-100 from touches, the volume at the turns and how recent the last one was
+  components: { touches: number; volume: number; recency: number } // Each 0-1, before weighting
+}
+
+export interface LevelOptions {
+  pivotStrength?: number // Bars either side a swing must exceed; default 3
+  tolerance?: number // Widest gap between neighbouring pivots in one zone, in price; default half of ATR(14)
+  minTouches?: number // Zones with fewer pivots are dropped; default 2
+  maxZones?: number // Strongest kept; default 8
+}
+
+// The zones either side of a price, e.g. for alerts or the chat assistant
+export interface NearestLevels {
+  price: number
+  support: LevelZone | null // Closest zone centred at or below the price
+  resistance: LevelZone | null // Closest zone centred above it
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest"
+import type { ChartData } from "@/lib/market-data/types"
+import { detectZones, findPivots, nearestLevels } from "./zones"
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Bars from [high, low] pairs, one a day, closing mid-range
+const bars = (ranges: [number, number][], volume = 1000): ChartData[] =>
+  ranges.map(([high, low], i) => ({
+    timestamp: i * DAY,
+    open: (high + low) / 2,
+    high,
+    low,
+    close: (high + low) / 2,
+    volume,
+  }))
+
+// Highs turn near 100 and lows near 90; the last close is 95
+const ranging = bars([
+  [95, 93],
+  [100, 96],
+  [95, 90],
+  [100.5, 95],
+  [94, 90.4],
+  [96, 94],
+])
+
+describe("findPivots", () => {
+  it("finds a swing high that beats the bars either side", () => {
+    const pivots = findPivots(
+      bars([
+        [1, 0],
+        [2, 1],
+        [5, 4],
+        [2, 1],
+        [1, 0],
+      ]),
+      2,
+    )
+
+    expect(pivots).toEqual([{ index: 2, time: 2 * DAY, price: 5, kind: "high", volume: 1000 }])
+  })
+
+  it("keeps one pivot for a double top, the first of the tied bars", () => {
+    const pivots = findPivots(
+      bars([
+        [1, 0],
+        [5, 4],
+        [5, 4],
+        [1, 0],
+      ]),
+      1,
+    )
+
+    expect(pivots.map((pivot) => [pivot.index, pivot.kind])).toEqual([[1, "high"]])
+  })
+
+  it("does not confirm a swing in the latest bars", () => {
+    const pivots = findPivots(
+      bars([
+        [2, 1],
+        [2, 0],
+        [2, 1],
+        [9, 1.5],
+      ]),
+      1,
+    )
+
+    expect(pivots.map((pivot) => [pivot.index, pivot.kind])).toEqual([[1, "low"]])
+  })
+})
+
+describe("detectZones", () => {
+  it("clusters nearby pivots into support below the close and resistance above it", () => {
+    const zones = detectZones(ranging, { pivotStrength: 1, tolerance: 1 })
+
+    expect(zones.map((zone) => [zone.kind, zone.touches])).toEqual([
+      ["support", 2],
+      ["resistance", 2],
+    ])
+    expect(zones[0].low).toBeLessThanOrEqual(90)
+    expect(zones[0].high).toBeGreaterThanOrEqual(90.4)
+    expect(zones[0].price).toBeCloseTo(90.2)
+    expect(zones[1].price).toBeCloseTo(100.25)
+  })
+
+  it("ranks the more recently respected zone first when touches and volume match", () => {
+    const [support, resistance] = detectZones(ranging, { pivotStrength: 1, tolerance: 1 })
+    expect(support.components.recency).toBeGreaterThan(resistance.components.recency)
+    expect(support.strength).toBeGreaterThan(resistance.strength)
+  })
+
+  it("drops zones with too few touches", () => {
+    expect(detectZones(ranging, { pivotStrength: 1, tolerance: 1, minTouches: 3 })).toEqual([])
+  })
+
+  it("stops a steady run of pivots from chaining into one wide zone", () => {
+    // Pivot lows step up 100, 101, 102, 103, 104 between highs of 115
+    const ranges: [number, number][] = [[115, 110]]
+    for (let low = 100; low <= 104; low++) ranges.push([low + 5, low], [115, 110])
+
+    const support = detectZones(bars(ranges), { pivotStrength: 1, tolerance: 1 }).find((zone) => zone.low === 100)
+    expect(support).toMatchObject({ touches: 4, high: 103 })
+  })
+
+  it("needs enough bars to confirm a pivot", () => {
+    expect(detectZones(ranging.slice(0, 2), { pivotStrength: 1 })).toEqual([])
+  })
+})
+
+describe("nearestLevels", () => {
+  it("picks the closest zone on each side of the price", () => {
+    const zones = detectZones(ranging, { pivotStrength: 1, tolerance: 1 })
+    const { support, resistance } = nearestLevels(zones, 95)
+
+    expect(support?.price).toBeCloseTo(90.2)
+    expect(resistance?.price).toBeCloseTo(100.25)
+  })
+})
@@ -0,0 +1,121 @@
+import { atr, lastValue } from "@/lib/indicators"
+import type { ChartData } from "@/lib/market-data/types"
+import type { LevelOptions, LevelZone, NearestLevels, Pivot } from "./types"
+
+const DEFAULT_PIVOT_STRENGTH = 3
+const DEFAULT_MIN_TOUCHES = 2
+const DEFAULT_MAX_ZONES = 8
+const MAX_ZONE_WIDTH = 3 // In tolerances, so a steady trend of pivots doesn't chain into one huge zone
+
+// Weights of the strength components; touches matter most, then how recently price respected the zone
+const TOUCH_WEIGHT = 0.5
+const RECENCY_WEIGHT = 0.3
+const VOLUME_WEIGHT = 0.2
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1)
+
+// Swing highs and lows that beat the `strength` bars on either side. Ties on the right don't disqualify a bar,
+// so a double top still yields one pivot; the latest `strength` bars can't be confirmed yet
+export function findPivots(data: ChartData[], strength = DEFAULT_PIVOT_STRENGTH): Pivot[] {
+  const pivots: Pivot[] = []
+
+  for (let i = strength; i < data.length - strength; i++) {
+    const bar = data[i]
+    let isHigh = true
+    let isLow = true
+    for (let j = 1; j <= strength && (isHigh || isLow); j++) {
+      if (data[i - j].high >= bar.high || data[i + j].high > bar.high) isHigh = false
+      if (data[i - j].low <= bar.low || data[i + j].low < bar.low) isLow = false
+    }
+    if (isHigh) pivots.push({ index: i, time: bar.timestamp, price: bar.high, kind: "high", volume: bar.volume })
+    if (isLow) pivots.push({ index: i, time: bar.timestamp, price: bar.low, kind: "low", volume: bar.volume })
+  }
+
+  return pivots
+}
+
+// Pivots grouped by price into zones and scored, strongest first
+export function detectZones(data: ChartData[], options: LevelOptions = {}): LevelZone[] {
+  const strength = options.pivotStrength ?? DEFAULT_PIVOT_STRENGTH
+  const minTouches = options.minTouches ?? DEFAULT_MIN_TOUCHES
+  const maxZones = options.maxZones ?? DEFAULT_MAX_ZONES
+  if (data.length < strength * 2 + 1) return []
+
+  const lastClose = data[data.length - 1].close
+  const tolerance = options.tolerance ?? (lastValue(atr(data)) ?? lastClose * 0.01) * 0.5
+  if (!(tolerance > 0)) return []
+
+  // Neighbouring pivots within the tolerance share a zone
+  const clusters: Pivot[][] = []
+  for (const pivot of findPivots(data, strength).sort((a, b) => a.price - b.price)) {
+    const cluster = clusters[clusters.length - 1]
+    const previous = cluster?.[cluster.length - 1]
+    if (
+      cluster &&
+      pivot.price - previous.price <= tolerance &&
+      pivot.price - cluster[0].price <= tolerance * MAX_ZONE_WIDTH
+    ) {
+      cluster.push(pivot)
+    } else {
+      clusters.push([pivot])
+    }
+  }
+
+  const averageVolume = data.reduce((sum, bar) => sum + bar.volume, 0) / data.length
+  const lastIndex = data.length - 1
+
+  const zones = clusters
+    .filter((cluster) => cluster.length >= minTouches)
+    .map((cluster): LevelZone => {
+      const totalVolume = cluster.reduce((sum, pivot) => sum + pivot.volume, 0)
+      // Without volume (e.g. indices) every pivot counts the same
+      const weight = (pivot: Pivot) => (totalVolume > 0 ? pivot.volume / totalVolume : 1 / cluster.length)
+      const price = cluster.reduce((sum, pivot) => sum + pivot.price * weight(pivot), 0)
+
+      // Thin zones still get a visible band around their centre
+      const half = tolerance / 4
+      const low = Math.min(cluster[0].price, price - half)
+      const high = Math.max(cluster[cluster.length - 1].price, price + half)
+
+      const latest = cluster.reduce((a, b) => (b.index > a.index ? b : a))
+      const earliest = cluster.reduce((a, b) => (b.index < a.index ? b : a))
+
+      const components = {
+        touches: clamp01((cluster.length - 1) / 4), // Five touches score full marks
+        volume: averageVolume > 0 ? clamp01(totalVolume / cluster.length / averageVolume / 2) : 0.5,
+        recency: lastIndex > 0 ? clamp01(1 - (lastIndex - latest.index) / lastIndex) : 1,
+      }
+      const score =
+        components.touches * TOUCH_WEIGHT + components.recency * RECENCY_WEIGHT + components.volume * VOLUME_WEIGHT
+
+      return {
+        id: `${low.toFixed(2)}-${high.toFixed(2)}`,
+        kind: lastClose >= price ? "support" : "resistance",
+        low,
+        high,
+        price,
+        touches: cluster.length,
+        firstTouch: earliest.time,
+        lastTouch: latest.time,
+        strength: Math.round(score * 100),
+        components,
+      }
+    })
+
+  return zones.sort((a, b) => b.strength - a.strength).slice(0, maxZones)
+}
+
+export function nearestLevels(zones: LevelZone[], price: number): NearestLevels {
+  let support: LevelZone | null = null
+  let resistance: LevelZone | null = null
+
+  for (const zone of zones) {
+    if (zone.price <= price) {
+      if (!support || zone.price > support.price) support = zone
+    } else if (!resistance || zone.price < resistance.price) {
+      resistance = zone
+    }
+  }
+
+  return { price, support, resistance }
+}
@@ -0,0 +1,42 @@
+// Equity-segment trading holidays shared by NSE and BSE, from the exchanges' annual circulars. Dates are IST.
+// Weekend holidays are left out since weekends are closed anyway. Extend this list when the next year's
+// circular is published
+export const EXCHANGE_HOLIDAYS: Record<string, string> = {
+  "2025-02-26": "Mahashivratri",
+  "2025-03-14": "Holi",
+  "2025-03-31": "Id-Ul-Fitr (Ramadan Eid)",
+  "2025-04-10": "Shri Mahavir Jayanti",
+  "2025-04-14": "Dr. Baba Saheb Ambedkar Jayanti",
+  "2025-04-18": "Good Friday",
+  "2025-05-01": "Maharashtra Day",
+  "2025-08-15": "Independence Day",
+  "2025-08-27": "Ganesh Chaturthi",
+  "2025-10-02": "Mahatma Gandhi Jayanti / Dussehra",
+  "2025-10-21": "Diwali Laxmi Pujan",
+  "2025-10-22": "Diwali Balipratipada",
+  "2025-11-05": "Prakash Gurpurb Sri Guru Nanak Dev",
+  "2025-12-25": "Christmas",
+
+  "2026-01-26": "Republic Day",
+  "2026-03-03": "Holi",
+  "2026-03-26": "Shri Ram Navami",
+  "2026-03-31": "Shri Mahavir Jayanti",
+  "2026-04-03": "Good Friday",
+  "2026-04-14": "Dr. Baba Saheb Ambedkar Jayanti",
+  "2026-05-01": "Maharashtra Day",
+  "2026-05-28": "Bakri Id",
+  "2026-06-26": "Muharram",
+  "2026-09-14": "Ganesh Chaturthi",
+  "2026-10-02": "Mahatma Gandhi Jayanti",
+  "2026-10-20": "Dussehra",
+  "2026-11-08": "Diwali Laxmi Pujan", // A Sunday, listed so the Muhurat session carries the holiday's name
+  "2026-11-10": "Diwali Balipratipada",
+  "2026-11-24": "Prakash Gurpurb Sri Guru Nanak Dev",
+  "2026-12-25": "Christmas",
+}
+
+// One-hour Diwali sessions held on an otherwise closed day, as "HH:MM" IST
+export const MUHURAT_SESSIONS: Record<string, { open: string; close: string }> = {
+  "2025-10-21": { open: "13:45", close: "14:45" },
+  "2026-11-08": { open: "18:00", close: "19:00" },
+}
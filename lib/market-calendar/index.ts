@@ -0,0 +1,178 @@
+import { EXCHANGE_HOLIDAYS, MUHURAT_SESSIONS } from "./holidays"
+
+export { EXCHANGE_HOLIDAYS, MUHURAT_SESSIONS } from "./holidays"
+
+// IST is UTC+5:30 with no daylight saving, so IST days are fixed-length slices of epoch time
+export const IST_OFFSET_MS = 330 * 60 * 1000
+export const DAY_MS = 24 * 60 * 60 * 1000
+const MINUTE_MS = 60 * 1000
+
+// NSE/BSE equity session, minutes after IST midnight
+const PRE_OPEN_MINUTE = 9 * 60 // Order entry 09:00-09:08, then call-auction matching until the open
+const OPEN_MINUTE = 9 * 60 + 15
+const CLOSE_MINUTE = 15 * 60 + 30
+const POST_CLOSE_MINUTES = 30 // Closing-price and post-close orders until 16:00
+const MUHURAT_PRE_OPEN_MINUTES = 15
+
+// How far ahead to look for the next session; longer than any run of holidays and weekends
+const SEARCH_DAYS = 15
+
+export type MarketPhase = "pre-open" | "open" | "post-close" | "closed"
+
+export const MARKET_PHASE_LABELS: Record<MarketPhase, string> = {
+  "pre-open": "PRE-OPEN",
+  open: "OPEN",
+  "post-close": "POST-CLOSE",
+  closed: "CLOSED",
+}
+
+export interface TradingSession {
+  day: number // istDay of the session
+  date: string // "YYYY-MM-DD" IST
+  kind: "regular" | "muhurat"
+  preOpen: number // Epoch ms of each boundary
+  open: number
+  close: number
+  postClose: number // End of the post-close session
+}
+
+export interface MarketStatus {
+  phase: MarketPhase
+  isOpen: boolean // Continuous trading, i.e. phase === "open"
+  session: TradingSession | null // Today's session, null on weekends and holidays
+  holiday: string | null // Name of today's exchange holiday, also set on a Muhurat day
+  nextOpen: number // Next continuous-trading open after asOf
+  nextClose: number // Close of the current session, or of the next one when closed
+  nextChange: { phase: MarketPhase; at: number } // Next phase boundary after asOf
+  asOf: number
+}
+
+// Days since the epoch on the IST calendar
+export function istDay(timestamp: number): number {
+  return Math.floor((timestamp + IST_OFFSET_MS) / DAY_MS)
+}
+
+// "YYYY-MM-DD" on the IST calendar
+export function toIstDate(timestamp: number): string {
+  return new Date(timestamp + IST_OFFSET_MS).toISOString().split("T")[0]
+}
+
+// Inverse of toIstDate, as an istDay number
+export function parseIstDate(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS)
+}
+
+// First instant of an IST day
+export function istDayStart(day: number): number {
+  return day * DAY_MS - IST_OFFSET_MS
+}
+
+function dayDate(day: number): string {
+  return new Date(day * DAY_MS).toISOString().split("T")[0]
+}
+
+function parseMinute(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+export function isWeekend(day: number): boolean {
+  const weekday = (day + 4) % 7 // 1970-01-01 was a Thursday
+  return weekday === 0 || weekday === 6
+}
+
+// Name of the exchange holiday on an IST day, or null
+export function getHoliday(day: number): string | null {
+  return EXCHANGE_HOLIDAYS[dayDate(day)] ?? null
+}
+
+// Session bounds for an IST day, or null when the exchange does not trade; a Muhurat session replaces the
+// holiday it falls on
+export function getTradingSession(day: number): TradingSession | null {
+  const date = dayDate(day)
+  const muhurat = MUHURAT_SESSIONS[date]
+  const start = istDayStart(day)
+
+  if (muhurat) {
+    const open = start + parseMinute(muhurat.open) * MINUTE_MS
+    const close = start + parseMinute(muhurat.close) * MINUTE_MS
+    return {
+      day,
+      date,
+      kind: "muhurat",
+      preOpen: open - MUHURAT_PRE_OPEN_MINUTES * MINUTE_MS,
+      open,
+      close,
+      postClose: close + POST_CLOSE_MINUTES * MINUTE_MS,
+    }
+  }
+
+  if (isWeekend(day) || getHoliday(day)) return null
+
+  return {
+    day,
+    date,
+    kind: "regular",
+    preOpen: start + PRE_OPEN_MINUTE * MINUTE_MS,
+    open: start + OPEN_MINUTE * MINUTE_MS,
+    close: start + CLOSE_MINUTE * MINUTE_MS,
+    postClose: start + (CLOSE_MINUTE + POST_CLOSE_MINUTES) * MINUTE_MS,
+  }
+}
+
+export function isTradingDay(day: number): boolean {
+  return getTradingSession(day) !== null
+}
+
+// Most recent session that has reached its open by `at`, e.g. the one intraday charts should show
+export function getLatestSession(at: number = Date.now()): TradingSession | null {
+  for (let day = istDay(at); day > istDay(at) - SEARCH_DAYS; day--) {
+    const session = getTradingSession(day)
+    if (session && session.open <= at) return session
+  }
+  return null
+}
+
+// Phase boundaries after `at`, in order, across upcoming sessions
+function upcomingChanges(at: number): { phase: MarketPhase; at: number }[] {
+  const changes: { phase: MarketPhase; at: number }[] = []
+
+  for (let day = istDay(at); day <= istDay(at) + SEARCH_DAYS; day++) {
+    const session = getTradingSession(day)
+    if (!session) continue
+
+    changes.push(
+      { phase: "pre-open", at: session.preOpen },
+      { phase: "open", at: session.open },
+      { phase: "post-close", at: session.close },
+      { phase: "closed", at: session.postClose },
+    )
+  }
+
+  return changes.filter((change) => change.at > at)
+}
+
+export function getMarketStatus(at: number = Date.now()): MarketStatus {
+  const session = getTradingSession(istDay(at))
+  const changes = upcomingChanges(at)
+
+  let phase: MarketPhase = "closed"
+  if (session && at >= session.preOpen && at < session.postClose) {
+    phase = at < session.open ? "pre-open" : at < session.close ? "open" : "post-close"
+  }
+
+  // The search window always spans several sessions, so these are found unless the calendar is all holidays
+  const nextOpen = changes.find((change) => change.phase === "open")?.at ?? at + SEARCH_DAYS * DAY_MS
+  const nextClose = changes.find((change) => change.phase === "post-close")?.at ?? nextOpen
+
+  return {
+    phase,
+    isOpen: phase === "open",
+    session,
+    holiday: getHoliday(istDay(at)),
+    nextOpen,
+    nextClose,
+    nextChange: changes[0] ?? { phase: "open", at: nextOpen },
+    asOf: at,
+  }
+}
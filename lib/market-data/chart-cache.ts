@@ -0,0 +1,29 @@
+import type { ChartResponse } from "./chart"
+import { asCached } from "./provenance"
+import { createCache, type CacheResult } from "@/lib/cache"
+
+// Candle cache shared by /api/yahoo-chart and /api/indicators, keyed by symbol, range and interval
+const CHART_CACHE_DURATION = 60000 // 1 minute
+const CHART_STALE_DURATION = 60000
+
+const chartCache = createCache<ChartResponse>({
+  namespace: "chart",
+  ttl: CHART_CACHE_DURATION,
+  staleTtl: CHART_STALE_DURATION,
+  maxEntries: 200,
+})
+
+function chartKey(symbol: string, range: string, interval: string): string {
+  return `${symbol.toUpperCase()}-${range}-${interval}`
+}
+
+// Hits are marked as cached; simulated charts keep their simulated provenance
+export async function loadCachedChart(
+  symbol: string,
+  range: string,
+  interval: string,
+  loader: () => Promise<ChartResponse>,
+): Promise<CacheResult<ChartResponse>> {
+  const result = await chartCache.getOrLoad(chartKey(symbol, range, interval), loader)
+  return result.status === "miss" ? result : { ...result, value: asCached(result.value) }
+}
@@ -0,0 +1,171 @@
+import type { ChartData, Provenance } from "./types"
+import { createProvenance } from "./provenance"
+import { fetchYahooChart } from "./yahoo"
+import { toBaseSymbol, toYahooSymbol } from "./symbols"
+import { getSimulatedBasePrice } from "./simulated"
+
+export interface ChartResponse {
+  symbol: string
+  data: ChartData[]
+  interval: string
+  source: string
+  provenance: Provenance
+}
+
+// Ranges and intervals Yahoo's chart endpoint understands; anything else is refused before it reaches the query
+export const CHART_RANGES = ["1d", "5d", "1mo", "3mo", "6mo", "1y", "2y", "5y", "10y", "ytd", "max"]
+export const CHART_INTERVALS = ["1m", "2m", "5m", "15m", "30m", "60m", "90m", "1h", "1d", "5d", "1wk", "1mo", "3mo"]
+
+export function isChartRange(value: string): boolean {
+  return CHART_RANGES.includes(value)
+}
+
+export function isChartInterval(value: string): boolean {
+  return CHART_INTERVALS.includes(value)
+}
+
+// Enhanced Yahoo Finance chart data fetching
+export async function fetchRealChartData(symbol: string, range = "1mo", interval = "1d"): Promise<ChartResponse> {
+  const data = await fetchYahooChart(toYahooSymbol(symbol), `?range=${range}&interval=${interval}`, 15000)
+  const parsed = parseChartData(data, symbol, interval)
+
+  if (!parsed || parsed.data.length === 0) {
+    throw new Error("Invalid chart data structure")
+  }
+
+  return parsed
+}
+
+// Bars whose open time falls between two instants in milliseconds; an empty range (e.g. a holiday) is not an error
+export async function fetchChartRange(symbol: string, interval: string, from: number, to: number): Promise<ChartResponse> {
+  const query = `?period1=${Math.floor(from / 1000)}&period2=${Math.ceil(to / 1000)}&interval=${interval}`
+  const data = await fetchYahooChart(toYahooSymbol(symbol), query, 15000)
+  const parsed = parseChartData(data, symbol, interval)
+
+  if (!parsed) {
+    throw new Error("Invalid chart data structure")
+  }
+
+  return parsed
+}
+
+// Enhanced simulation for chart data
+export function generateSimulatedChart(symbol: string, range: string, interval: string): ChartResponse {
+  const now = Date.now()
+  const dataPoints = getDataPointsForRange(range)
+  const intervalMs = getIntervalMs(interval)
+
+  let basePrice = getSimulatedBasePrice(symbol)
+  const data: ChartData[] = []
+
+  for (let i = 0; i < dataPoints; i++) {
+    const timestamp = now - (dataPoints - i - 1) * intervalMs
+
+    // Add realistic price movement
+    const volatility = (Math.random() - 0.5) * 0.02 // -1% to +1%
+    const open = basePrice
+    const change = basePrice * volatility
+    const close = open + change
+    const high = Math.max(open, close) * (1 + Math.random() * 0.01)
+    const low = Math.min(open, close) * (1 - Math.random() * 0.01)
+    const volume = Math.floor(Math.random() * 1000000) + 10000
+
+    data.push({
+      timestamp,
+      open: Number.parseFloat(open.toFixed(2)),
+      high: Number.parseFloat(high.toFixed(2)),
+      low: Number.parseFloat(low.toFixed(2)),
+      close: Number.parseFloat(close.toFixed(2)),
+      volume,
+    })
+
+    basePrice = close
+  }
+
+  return {
+    symbol: toBaseSymbol(symbol),
+    data,
+    interval,
+    source: "Enhanced Simulation",
+    provenance: createProvenance("simulated", now),
+  }
+}
+
+export function parseChartData(data: any, symbol: string, interval: string): ChartResponse | null {
+  try {
+    const result = data.chart.result[0]
+    const timestamps = result.timestamp || []
+    const indicators = result.indicators?.quote?.[0] || {}
+
+    const opens = indicators.open || []
+    const highs = indicators.high || []
+    const lows = indicators.low || []
+    const closes = indicators.close || []
+    const volumes = indicators.volume || []
+
+    const chartData: ChartData[] = timestamps
+      .map((timestamp: number, index: number) => ({
+        timestamp: timestamp * 1000, // Convert to milliseconds
+        open: Number.parseFloat((opens[index] || 0).toFixed(2)),
+        high: Number.parseFloat((highs[index] || 0).toFixed(2)),
+        low: Number.parseFloat((lows[index] || 0).toFixed(2)),
+        close: Number.parseFloat((closes[index] || 0).toFixed(2)),
+        volume: volumes[index] || 0,
+      }))
+      .filter((item: ChartData) => item.open > 0 && item.high > 0 && item.low > 0 && item.close > 0)
+
+    const lastBar = chartData[chartData.length - 1]
+    const asOf = result.meta?.regularMarketTime ? result.meta.regularMarketTime * 1000 : lastBar?.timestamp
+
+    return {
+      symbol: toBaseSymbol(symbol),
+      data: chartData,
+      interval,
+      source: "Yahoo Finance API",
+      provenance: createProvenance("delayed", asOf ?? Date.now()),
+    }
+  } catch (error) {
+    console.error("Error parsing chart data:", error)
+    return null
+  }
+}
+
+export function getDataPointsForRange(range: string): number {
+  switch (range) {
+    case "1d":
+      return 78 // 5-minute intervals in a trading day
+    case "5d":
+      return 390 // 5 days of 5-minute intervals
+    case "1mo":
+      return 22 // Daily data for a month
+    case "3mo":
+      return 66 // Daily data for 3 months
+    case "6mo":
+      return 132 // Daily data for 6 months
+    case "1y":
+      return 252 // Daily data for a year
+    case "2y":
+      return 504 // Daily data for 2 years
+    default:
+      return 78
+  }
+}
+
+export function getIntervalMs(interval: string): number {
+  switch (interval) {
+    case "1m":
+      return 60 * 1000
+    case "5m":
+      return 5 * 60 * 1000
+    case "15m":
+      return 15 * 60 * 1000
+    case "30m":
+      return 30 * 60 * 1000
+    case "1h":
+      return 60 * 60 * 1000
+    case "1d":
+      return 24 * 60 * 60 * 1000
+    default:
+      return 5 * 60 * 1000
+  }
+}
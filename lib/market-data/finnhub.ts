@@ -0,0 +1,108 @@
+import type { MarketDataProvider, Quote } from "./types"
+import { createProvenance } from "./provenance"
+import { getExchange, roundPrice, toBaseSymbol, toYahooSymbol } from "./symbols"
+
+interface FinnhubQuote {
+  c: number // Current price
+  d: number // Change
+  dp: number // Percent change
+  h: number // High price of the day
+  l: number // Low price of the day
+  o: number // Open price of the day
+  pc: number // Previous close price
+  t: number // Timestamp
+}
+
+interface FinnhubProfile {
+  country: string
+  currency: string
+  exchange: string
+  ipo: string
+  marketCapitalization: number
+  name: string
+  phone: string
+  shareOutstanding: number
+  ticker: string
+  weburl: string
+  logo: string
+  finnhubIndustry: string
+}
+
+const FINNHUB_API_KEY = process.env.FINNHUB_API_KEY || "demo"
+const BASE_URL = "https://finnhub.io/api/v1"
+
+async function fetchFinnhubQuote(symbol: string): Promise<FinnhubQuote> {
+  const response = await fetch(`${BASE_URL}/quote?symbol=${symbol}&token=${FINNHUB_API_KEY}`, {
+    headers: {
+      Accept: "application/json",
+    },
+    next: { revalidate: 30 },
+  })
+
+  if (!response.ok) {
+    throw new Error(`Finnhub API error: ${response.status}`)
+  }
+
+  const data = await response.json()
+
+  // Finnhub answers unknown symbols with an all-zero quote
+  if (!data.c || (data.c === 0 && data.d === 0 && data.dp === 0)) {
+    throw new Error(`Finnhub returned no quote for ${symbol}`)
+  }
+
+  return data
+}
+
+async function fetchFinnhubProfile(symbol: string): Promise<FinnhubProfile | null> {
+  try {
+    const response = await fetch(`${BASE_URL}/stock/profile2?symbol=${symbol}&token=${FINNHUB_API_KEY}`, {
+      headers: {
+        Accept: "application/json",
+      },
+      next: { revalidate: 3600 }, // Cache profile for 1 hour
+    })
+
+    if (!response.ok) {
+      throw new Error(`Finnhub Profile API error: ${response.status}`)
+    }
+
+    const data = await response.json()
+    return data.name ? data : null
+  } catch (error) {
+    console.error("Error fetching Finnhub profile:", error)
+    return null
+  }
+}
+
+export const finnhubProvider: MarketDataProvider = {
+  id: "finnhub",
+  name: "Finnhub",
+
+  async getQuote(symbol: string): Promise<Quote> {
+    const finnhubSymbol = toYahooSymbol(symbol)
+
+    const [quote, profile] = await Promise.all([fetchFinnhubQuote(finnhubSymbol), fetchFinnhubProfile(finnhubSymbol)])
+
+    const asOf = quote.t ? quote.t * 1000 : Date.now()
+
+    return {
+      symbol: toBaseSymbol(symbol),
+      companyName: profile?.name || `${toBaseSymbol(symbol)} Limited`,
+      price: roundPrice(quote.c),
+      change: roundPrice(quote.d),
+      changePercent: roundPrice(quote.dp),
+      open: roundPrice(quote.o),
+      high: roundPrice(quote.h),
+      low: roundPrice(quote.l),
+      previousClose: roundPrice(quote.pc),
+      volume: 0, // Finnhub doesn't provide volume for Indian stocks
+      currency: profile?.currency || "INR",
+      exchange: getExchange(symbol),
+      source: "finnhub",
+      timestamp: asOf,
+      // Finnhub prices for non-US exchanges are delayed on the standard plans
+      provenance: createProvenance("delayed", asOf),
+      marketCap: profile?.marketCapitalization,
+    }
+  },
+}
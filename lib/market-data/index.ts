@@ -0,0 +1,90 @@
+import type { MarketDataProvider, Quote, QuoteSource } from "./types"
+import { yahooProvider } from "./yahoo"
+import { finnhubProvider } from "./finnhub"
+import { nseProvider } from "./nse"
+import { simulatedProvider } from "./simulated"
+
+export type {
+  ChartData,
+  MarketDataProvider,
+  MarketIndex,
+  Provenance,
+  ProvenanceKind,
+  Quote,
+  QuoteSource,
+} from "./types"
+export { asCached, createProvenance, isSimulated, weakestProvenance } from "./provenance"
+export { toBaseSymbol, toYahooSymbol, getExchange } from "./symbols"
+
+const PROVIDERS: Record<QuoteSource, MarketDataProvider> = {
+  yahoo: yahooProvider,
+  finnhub: finnhubProvider,
+  nse: nseProvider,
+  simulated: simulatedProvider,
+}
+
+const DEFAULT_PRIORITY: QuoteSource[] = ["yahoo", "finnhub", "nse", "simulated"]
+
+export function getProvider(id: QuoteSource): MarketDataProvider {
+  return PROVIDERS[id]
+}
+
+// Build a provider chain from ids, e.g. MARKET_DATA_PROVIDERS="nse,yahoo,simulated"
+export function createProviderChain(ids: readonly string[] = DEFAULT_PRIORITY): MarketDataProvider[] {
+  const chain = ids
+    .map((id) => id.trim().toLowerCase())
+    .filter((id): id is QuoteSource => Object.prototype.hasOwnProperty.call(PROVIDERS, id))
+    .map((id) => PROVIDERS[id])
+
+  return chain.length > 0 ? chain : DEFAULT_PRIORITY.map((id) => PROVIDERS[id])
+}
+
+export const defaultProviderChain = createProviderChain(
+  process.env.MARKET_DATA_PROVIDERS ? process.env.MARKET_DATA_PROVIDERS.split(",") : DEFAULT_PRIORITY,
+)
+
+// Walk the chain in priority order and return the first quote that succeeds
+export async function getQuote(symbol: string, chain: MarketDataProvider[] = defaultProviderChain): Promise<Quote> {
+  const errors: string[] = []
+
+  for (const provider of chain) {
+    try {
+      return await provider.getQuote(symbol)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error"
+      console.error(`${provider.name} quote failed for ${symbol}:`, message)
+      errors.push(`${provider.id}: ${message}`)
+    }
+  }
+
+  throw new Error(`All market data providers failed for ${symbol} (${errors.join("; ")})`)
+}
+
+export interface QuoteBatch {
+  quotes: Record<string, Quote>
+  errors: Record<string, string>
+}
+
+// Fan a symbol list out over the chain with bounded concurrency; failures are reported per symbol
+export async function getQuotes(
+  symbols: string[],
+  chain: MarketDataProvider[] = defaultProviderChain,
+  concurrency = 8,
+): Promise<QuoteBatch> {
+  const batch: QuoteBatch = { quotes: {}, errors: {} }
+  const queue = [...symbols]
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const symbol = queue.shift() as string
+      try {
+        batch.quotes[symbol] = await getQuote(symbol, chain)
+      } catch (error) {
+        batch.errors[symbol] = error instanceof Error ? error.message : "Unknown error"
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, symbols.length) }, worker))
+  return batch
+}
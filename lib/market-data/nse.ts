@@ -0,0 +1,93 @@
+import type { MarketDataProvider, Quote } from "./types"
+import { createProvenance } from "./provenance"
+import { roundPrice, toBaseSymbol } from "./symbols"
+
+const NSE_BASE_URL = "https://www.nseindia.com"
+
+const NSE_HEADERS = {
+  "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36",
+  Accept: "application/json, text/plain, */*",
+  "Accept-Language": "en-US,en;q=0.9",
+  Referer: `${NSE_BASE_URL}/`,
+}
+
+// NSE only serves its JSON API to clients holding session cookies from the main site
+let sessionCookies: { value: string; expiresAt: number } | null = null
+const SESSION_DURATION = 5 * 60 * 1000
+
+async function getSessionCookies(): Promise<string> {
+  if (sessionCookies && Date.now() < sessionCookies.expiresAt) {
+    return sessionCookies.value
+  }
+
+  const response = await fetch(NSE_BASE_URL, {
+    headers: NSE_HEADERS,
+    signal: AbortSignal.timeout(8000),
+  })
+
+  // Multiple Set-Cookie headers arrive comma-joined; split only on commas that start a new name=value pair
+  const cookies = (response.headers.get("set-cookie") || "")
+    .split(/,(?=\s*[^;=\s]+=)/)
+    .map((cookie) => cookie.split(";")[0].trim())
+    .filter(Boolean)
+    .join("; ")
+
+  if (!cookies) {
+    throw new Error("NSE did not issue session cookies")
+  }
+
+  sessionCookies = { value: cookies, expiresAt: Date.now() + SESSION_DURATION }
+  return cookies
+}
+
+export const nseProvider: MarketDataProvider = {
+  id: "nse",
+  name: "NSE India",
+
+  async getQuote(symbol: string): Promise<Quote> {
+    const baseSymbol = toBaseSymbol(symbol)
+    const cookies = await getSessionCookies()
+
+    const response = await fetch(`${NSE_BASE_URL}/api/quote-equity?symbol=${encodeURIComponent(baseSymbol)}`, {
+      headers: { ...NSE_HEADERS, Cookie: cookies },
+      signal: AbortSignal.timeout(8000),
+    })
+
+    if (!response.ok) {
+      // Session cookies are likely stale; force a refresh on the next call
+      sessionCookies = null
+      throw new Error(`NSE API error: ${response.status}`)
+    }
+
+    const data = await response.json()
+    const priceInfo = data?.priceInfo
+
+    if (!priceInfo?.lastPrice) {
+      throw new Error(`NSE returned no quote for ${baseSymbol}`)
+    }
+
+    const lastUpdate = Date.parse(data.metadata?.lastUpdateTime || "")
+
+    const asOf = Number.isNaN(lastUpdate) ? Date.now() : lastUpdate
+
+    return {
+      symbol: baseSymbol,
+      companyName: data.info?.companyName || `${baseSymbol} Limited`,
+      price: roundPrice(priceInfo.lastPrice),
+      change: roundPrice(priceInfo.change || 0),
+      changePercent: roundPrice(priceInfo.pChange || 0),
+      open: roundPrice(priceInfo.open || priceInfo.lastPrice),
+      high: roundPrice(priceInfo.intraDayHighLow?.max || priceInfo.lastPrice),
+      low: roundPrice(priceInfo.intraDayHighLow?.min || priceInfo.lastPrice),
+      previousClose: roundPrice(priceInfo.previousClose || priceInfo.lastPrice),
+      volume: 0, // quote-equity does not carry traded volume; it lives in the trade_info section
+      currency: "INR",
+      exchange: "NSE",
+      source: "nse",
+      timestamp: asOf,
+      provenance: createProvenance("live", asOf),
+      yearHigh: priceInfo.weekHighLow?.max,
+      yearLow: priceInfo.weekHighLow?.min,
+    }
+  },
+}
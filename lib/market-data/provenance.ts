@@ -0,0 +1,34 @@
+import type { Provenance, ProvenanceKind } from "./types"
+
+export function createProvenance(kind: ProvenanceKind, asOf = Date.now()): Provenance {
+  return { kind, asOf }
+}
+
+// Anything without provenance is treated as simulated so it can never pass for real data
+export function isSimulated(provenance: Provenance | null | undefined): boolean {
+  return !provenance || provenance.kind === "simulated"
+}
+
+// Mark a payload replayed from a cache; simulated data stays simulated
+export function asCached<T extends { provenance: Provenance }>(item: T): T {
+  if (isSimulated(item.provenance)) return item
+  return { ...item, provenance: { ...item.provenance, kind: "cached" } }
+}
+
+// The least trustworthy provenance of a set, e.g. for a header summarising several indices
+export function weakestProvenance(items: Array<Provenance | null | undefined>): Provenance | null {
+  const rank: Record<ProvenanceKind, number> = { live: 0, delayed: 1, cached: 2, simulated: 3 }
+  let weakest: Provenance | null = null
+
+  for (const item of items) {
+    const provenance = item ?? createProvenance("simulated", 0)
+    if (
+      !weakest ||
+      rank[provenance.kind] > rank[weakest.kind] ||
+      (provenance.kind === weakest.kind && provenance.asOf < weakest.asOf)
+    ) {
+      weakest = provenance
+    }
+  }
+  return weakest
+}
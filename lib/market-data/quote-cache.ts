@@ -0,0 +1,33 @@
+import type { Quote } from "./types"
+import { asCached, isSimulated } from "./provenance"
+import { createCache, type CacheResult } from "@/lib/cache"
+
+// Process-wide quote cache shared by /api/yahoo-quote and /api/quotes
+export const QUOTE_CACHE_DURATION = 10000 // 10 seconds; also the quote stream's poll period
+const QUOTE_STALE_DURATION = 30000 // Served while a refresh is in flight
+
+const quoteCache = createCache<Quote>({
+  namespace: "quote",
+  ttl: QUOTE_CACHE_DURATION,
+  staleTtl: QUOTE_STALE_DURATION,
+  maxEntries: 1000,
+  // A simulated fallback would hide the provider's recovery for a whole TTL
+  shouldStore: (quote) => !isSimulated(quote.provenance),
+})
+
+// Get a fresh cached quote, marked as cached
+export async function getCachedQuote(symbol: string): Promise<Quote | null> {
+  const quote = await quoteCache.get(symbol.toUpperCase())
+  return quote && asCached(quote)
+}
+
+// Set cached data
+export function setCachedQuote(symbol: string, data: Quote): Promise<void> {
+  return quoteCache.set(symbol.toUpperCase(), data)
+}
+
+// Cached quote, falling back to the loader on a miss; hits are marked as cached
+export async function loadCachedQuote(symbol: string, loader: () => Promise<Quote>): Promise<CacheResult<Quote>> {
+  const result = await quoteCache.getOrLoad(symbol.toUpperCase(), loader)
+  return result.status === "miss" ? result : { ...result, value: asCached(result.value) }
+}
@@ -0,0 +1,161 @@
+import { getMarketStatus } from "@/lib/market-calendar"
+import type { Quote } from "./types"
+import { getQuote } from "./index"
+import { QUOTE_CACHE_DURATION, loadCachedQuote } from "./quote-cache"
+
+// Server-side fan-out for /api/stream/quotes: one poll loop shared by every connected client
+
+export interface StreamClient {
+  id: string
+  symbols: Set<string>
+  send: (event: string, data: unknown) => void
+  close: () => void
+  maxSymbols?: number // Server-side consumers like the alert engine may watch more than a browser stream
+}
+
+// Polls once per quote-cache period, since a faster loop would only re-read the cached quote; the cache period is
+// kept short for the stream's sake instead of giving the stream a cache of its own
+const POLL_INTERVAL = QUOTE_CACHE_DURATION
+const FLUSH_INTERVAL = 1000 // Coalesced ticks are pushed to clients at most this often
+const HEARTBEAT_INTERVAL = 15000
+export const MAX_STREAM_SYMBOLS = 50
+
+const clients = new Map<string, StreamClient>()
+
+// Latest tick per symbol waiting to be flushed; a newer tick replaces an unsent older one
+const pendingTicks = new Map<string, Quote>()
+const lastSentPrices = new Map<string, number>()
+
+let pollTimer: NodeJS.Timeout | null = null
+let flushTimer: NodeJS.Timeout | null = null
+let heartbeatTimer: NodeJS.Timeout | null = null
+let polling = false
+
+// Through the shared quote cache, so the loop costs upstream at most one request per symbol per cache period
+// however many streams or /api/quotes callers want it, and concurrent misses share one request
+async function streamQuote(symbol: string): Promise<Quote> {
+  return (await loadCachedQuote(symbol, () => getQuote(symbol))).value
+}
+
+function subscribedSymbols(): Set<string> {
+  const symbols = new Set<string>()
+  clients.forEach((client) => client.symbols.forEach((symbol) => symbols.add(symbol)))
+  return symbols
+}
+
+async function pollQuotes() {
+  // Skip a cycle rather than stacking requests when upstream is slow
+  if (polling) return
+  // Prices cannot move while the exchange is shut; subscribers already got a snapshot and keep their heartbeats
+  if (getMarketStatus().phase === "closed") return
+  polling = true
+
+  try {
+    const symbols = Array.from(subscribedSymbols())
+    const results = await Promise.allSettled(symbols.map(streamQuote))
+
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        pendingTicks.set(symbols[index], result.value)
+      }
+    })
+  } finally {
+    polling = false
+  }
+}
+
+function flushTicks() {
+  if (pendingTicks.size === 0) return
+
+  pendingTicks.forEach((quote, symbol) => {
+    // Unchanged prices are not worth a frame
+    if (lastSentPrices.get(symbol) === quote.price) return
+    lastSentPrices.set(symbol, quote.price)
+
+    clients.forEach((client) => {
+      if (client.symbols.has(symbol)) {
+        client.send("quote", { symbol, quote })
+      }
+    })
+  })
+
+  pendingTicks.clear()
+}
+
+function sendHeartbeats() {
+  const now = Date.now()
+  clients.forEach((client) => client.send("heartbeat", { timestamp: now }))
+}
+
+function startLoops() {
+  if (!pollTimer) {
+    pollTimer = setInterval(pollQuotes, POLL_INTERVAL)
+    flushTimer = setInterval(flushTicks, FLUSH_INTERVAL)
+    heartbeatTimer = setInterval(sendHeartbeats, HEARTBEAT_INTERVAL)
+  }
+}
+
+function stopLoopsIfIdle() {
+  if (clients.size > 0) return
+
+  if (pollTimer) clearInterval(pollTimer)
+  if (flushTimer) clearInterval(flushTimer)
+  if (heartbeatTimer) clearInterval(heartbeatTimer)
+  pollTimer = null
+  flushTimer = null
+  heartbeatTimer = null
+  pendingTicks.clear()
+  lastSentPrices.clear()
+}
+
+// Send the current quote straight away so a new subscriber doesn't wait for the next poll
+async function sendSnapshot(client: StreamClient, symbols: string[]) {
+  const results = await Promise.allSettled(symbols.map(streamQuote))
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled" && clients.has(client.id)) {
+      client.send("quote", { symbol: symbols[index], quote: result.value })
+    }
+  })
+}
+
+export function addStreamClient(client: StreamClient) {
+  clients.set(client.id, client)
+  startLoops()
+  void sendSnapshot(client, Array.from(client.symbols))
+}
+
+export function removeStreamClient(id: string) {
+  clients.delete(id)
+  stopLoopsIfIdle()
+}
+
+export function hasStreamClient(id: string): boolean {
+  return clients.has(id)
+}
+
+export function subscribeSymbols(id: string, symbols: string[]): string[] {
+  const client = clients.get(id)
+  if (!client) {
+    throw new Error(`Unknown stream connection ${id}`)
+  }
+
+  const added = symbols.filter((symbol) => !client.symbols.has(symbol))
+  const maxSymbols = client.maxSymbols ?? MAX_STREAM_SYMBOLS
+  if (client.symbols.size + added.length > maxSymbols) {
+    throw new Error(`A stream can carry at most ${maxSymbols} symbols`)
+  }
+
+  added.forEach((symbol) => client.symbols.add(symbol))
+  void sendSnapshot(client, added)
+  return Array.from(client.symbols)
+}
+
+export function unsubscribeSymbols(id: string, symbols: string[]): string[] {
+  const client = clients.get(id)
+  if (!client) {
+    throw new Error(`Unknown stream connection ${id}`)
+  }
+
+  symbols.forEach((symbol) => client.symbols.delete(symbol))
+  return Array.from(client.symbols)
+}
@@ -0,0 +1,114 @@
+import type { MarketDataProvider, Quote } from "./types"
+import { createProvenance } from "./provenance"
+import { getExchange, roundPrice, toBaseSymbol } from "./symbols"
+
+// Base prices for realistic simulation
+const BASE_PRICES: { [key: string]: number } = {
+  RELIANCE: 2450.75,
+  TCS: 3890.2,
+  HDFCBANK: 1685.3,
+  INFY: 1456.85,
+  ITC: 462.15,
+  SBIN: 598.4,
+  BHARTIARTL: 912.65,
+  KOTAKBANK: 1798.9,
+  LT: 2856.75,
+  ASIANPAINT: 3124.5,
+  MARUTI: 9500.25,
+  HCLTECH: 1234.6,
+  AXISBANK: 1098.45,
+  ICICIBANK: 945.8,
+  WIPRO: 398.75,
+  NESTLEIND: 2234.5,
+  HINDUNILVR: 2567.3,
+  BAJFINANCE: 6789.4,
+  TATASTEEL: 134.6,
+  SUNPHARMA: 1123.8,
+}
+
+const COMPANY_NAMES: { [key: string]: string } = {
+  RELIANCE: "Reliance Industries Limited",
+  TCS: "Tata Consultancy Services Limited",
+  HDFCBANK: "HDFC Bank Limited",
+  INFY: "Infosys Limited",
+  ITC: "ITC Limited",
+  SBIN: "State Bank of India",
+  BHARTIARTL: "Bharti Airtel Limited",
+  KOTAKBANK: "Kotak Mahindra Bank Limited",
+  LT: "Larsen & Toubro Limited",
+  ASIANPAINT: "Asian Paints Limited",
+  MARUTI: "Maruti Suzuki India Limited",
+  HCLTECH: "HCL Technologies Limited",
+  AXISBANK: "Axis Bank Limited",
+  ICICIBANK: "ICICI Bank Limited",
+  WIPRO: "Wipro Limited",
+  NESTLEIND: "Nestle India Limited",
+  HINDUNILVR: "Hindustan Unilever Limited",
+  BAJFINANCE: "Bajaj Finance Limited",
+  TATASTEEL: "Tata Steel Limited",
+  SUNPHARMA: "Sun Pharmaceutical Industries Limited",
+}
+
+// Store for maintaining price continuity between calls
+const priceStore = new Map<string, { price: number; open: number; high: number; low: number; volume: number }>()
+
+export function getSimulatedBasePrice(symbol: string): number {
+  const baseSymbol = toBaseSymbol(symbol)
+  if (BASE_PRICES[baseSymbol]) return BASE_PRICES[baseSymbol]
+
+  // Derive a stable pseudo price from the symbol so unknown names don't jump between calls
+  let hash = 0
+  for (const char of baseSymbol) {
+    hash = (hash * 31 + char.charCodeAt(0)) % 100000
+  }
+  return 100 + (hash % 2900)
+}
+
+export const simulatedProvider: MarketDataProvider = {
+  id: "simulated",
+  name: "Simulation",
+
+  async getQuote(symbol: string): Promise<Quote> {
+    const baseSymbol = toBaseSymbol(symbol)
+    const previousClose = getSimulatedBasePrice(baseSymbol)
+
+    let state = priceStore.get(baseSymbol)
+    if (!state) {
+      const open = previousClose * (1 + (Math.random() - 0.5) * 0.01)
+      state = { price: open, open, high: open, low: open, volume: Math.floor(Math.random() * 1000000) + 100000 }
+      priceStore.set(baseSymbol, state)
+    }
+
+    // Generate realistic price movement (smaller changes for continuity)
+    const volatility = 0.005 // 0.5% max change per update
+    const randomChange = (Math.random() - 0.5) * volatility
+    const trendFactor = Math.sin(Date.now() / 100000) * 0.001 // Small trend component
+
+    state.price = state.price * (1 + randomChange + trendFactor)
+    state.high = Math.max(state.high, state.price)
+    state.low = Math.min(state.low, state.price)
+    state.volume += Math.floor(Math.random() * 50000)
+
+    const change = state.price - previousClose
+
+    const asOf = Date.now()
+
+    return {
+      symbol: baseSymbol,
+      companyName: COMPANY_NAMES[baseSymbol] || `${baseSymbol} Limited`,
+      price: roundPrice(state.price),
+      change: roundPrice(change),
+      changePercent: roundPrice((change / previousClose) * 100),
+      open: roundPrice(state.open),
+      high: roundPrice(state.high),
+      low: roundPrice(state.low),
+      previousClose: roundPrice(previousClose),
+      volume: state.volume,
+      currency: "INR",
+      exchange: getExchange(symbol),
+      source: "simulated",
+      timestamp: asOf,
+      provenance: createProvenance("simulated", asOf),
+    }
+  },
+}
@@ -0,0 +1,26 @@
+// Strip exchange prefixes/suffixes: "NSE:RELIANCE", "reliance.ns" -> "RELIANCE"
+export function toBaseSymbol(symbol: string): string {
+  return symbol
+    .trim()
+    .replace(/\.(NS|BO)$/i, "")
+    .replace(/^(NSE|BSE):/i, "")
+    .toUpperCase()
+}
+
+// Yahoo Finance uses .NS for NSE stocks and .BO for BSE stocks; indices (^NSEI) pass through
+export function toYahooSymbol(symbol: string): string {
+  const trimmed = symbol.trim().toUpperCase()
+  if (trimmed.startsWith("^")) return trimmed
+  if (/\.BO$/.test(trimmed) || /^BSE:/.test(trimmed)) return `${toBaseSymbol(trimmed)}.BO`
+  return `${toBaseSymbol(trimmed)}.NS`
+}
+
+export function getExchange(symbol: string): string {
+  const yahooSymbol = toYahooSymbol(symbol)
+  if (yahooSymbol.startsWith("^")) return "INDEX"
+  return yahooSymbol.endsWith(".BO") ? "BSE" : "NSE"
+}
+
+export function roundPrice(value: number): number {
+  return Number.parseFloat(value.toFixed(2))
+}
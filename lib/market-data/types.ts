@@ -0,0 +1,61 @@
+export type QuoteSource = "yahoo" | "finnhub" | "nse" | "simulated"
+
+// How far a payload can be trusted: "live" comes straight from an exchange feed, "delayed" is real data
+// that may lag the exchange, "cached" is real data replayed from a cache, "simulated" is generated locally
+export type ProvenanceKind = "live" | "delayed" | "cached" | "simulated"
+
+export interface Provenance {
+  kind: ProvenanceKind
+  asOf: number // Time the data describes, in milliseconds
+}
+
+// Normalized quote returned by every provider and quote route
+export interface Quote {
+  symbol: string // Base symbol without exchange suffix, e.g. "RELIANCE"
+  companyName: string
+  price: number
+  change: number
+  changePercent: number
+  open: number
+  high: number
+  low: number
+  previousClose: number
+  volume: number
+  currency: string
+  exchange: string
+  source: QuoteSource
+  timestamp: number // As-of time of the price in milliseconds
+  provenance: Provenance
+  yearHigh?: number
+  yearLow?: number
+  marketCap?: number
+}
+
+export interface MarketDataProvider {
+  id: QuoteSource
+  name: string
+  getQuote(symbol: string): Promise<Quote>
+}
+
+// One OHLCV bar; timestamp is the bar open time in milliseconds
+export interface ChartData {
+  timestamp: number
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+// Headline index level from /api/indian-indices
+export interface MarketIndex {
+  symbol: string
+  name: string
+  price: number
+  change: number
+  pChange: number
+  isPositive: boolean
+  lastUpdate: number
+  source: string
+  provenance: Provenance
+}
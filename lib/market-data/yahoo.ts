@@ -0,0 +1,103 @@
+import type { MarketDataProvider, Quote } from "./types"
+import { createProvenance } from "./provenance"
+import { getExchange, roundPrice, toBaseSymbol, toYahooSymbol } from "./symbols"
+
+const YAHOO_HEADERS = {
+  "User-Agent":
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
+  Accept: "application/json, text/plain, */*",
+  "Accept-Language": "en-US,en;q=0.9",
+  "Cache-Control": "no-cache",
+  Pragma: "no-cache",
+}
+
+// Fetch JSON from the first Yahoo chart endpoint that answers
+export async function fetchYahooChart(yahooSymbol: string, query = "", timeoutMs = 8000): Promise<any> {
+  const endpoints = [
+    `https://query1.finance.yahoo.com/v8/finance/chart/${yahooSymbol}${query}`,
+    `https://query2.finance.yahoo.com/v8/finance/chart/${yahooSymbol}${query}`,
+  ]
+
+  for (const endpoint of endpoints) {
+    try {
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+      const response = await fetch(endpoint, {
+        headers: YAHOO_HEADERS,
+        signal: controller.signal,
+      })
+
+      clearTimeout(timeoutId)
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      // Yahoo answers rate limits with an HTML page
+      const contentType = response.headers.get("content-type")
+      if (!contentType || !contentType.includes("application/json")) {
+        const text = await response.text()
+        if (text.includes("Too Many Requests") || text.includes("Rate limit")) {
+          throw new Error("Rate limited by Yahoo Finance")
+        }
+        throw new Error(`Invalid response format from ${endpoint}`)
+      }
+
+      const data = await response.json()
+      if (data.chart?.result?.[0]) {
+        return data
+      }
+
+      throw new Error("Invalid data structure from Yahoo Finance")
+    } catch (error) {
+      console.error(`Error with endpoint ${endpoint}:`, error)
+      continue
+    }
+  }
+
+  throw new Error("All Yahoo Finance endpoints failed")
+}
+
+export const yahooProvider: MarketDataProvider = {
+  id: "yahoo",
+  name: "Yahoo Finance",
+
+  async getQuote(symbol: string): Promise<Quote> {
+    const yahooSymbol = toYahooSymbol(symbol)
+    const data = await fetchYahooChart(yahooSymbol)
+    const meta = data.chart.result[0].meta
+
+    if (!meta) {
+      throw new Error(`No quote metadata from Yahoo Finance for ${yahooSymbol}`)
+    }
+
+    const current = meta.regularMarketPrice || meta.previousClose
+    const previous = meta.previousClose || meta.chartPreviousClose || current
+    const change = current - previous
+    const changePercent = previous ? (change / previous) * 100 : 0
+
+    const asOf = meta.regularMarketTime ? meta.regularMarketTime * 1000 : Date.now()
+
+    return {
+      symbol: toBaseSymbol(symbol),
+      companyName: meta.longName || meta.shortName || toBaseSymbol(symbol),
+      price: roundPrice(current),
+      change: roundPrice(change),
+      changePercent: roundPrice(changePercent),
+      open: roundPrice(meta.regularMarketOpen || current),
+      high: roundPrice(meta.regularMarketDayHigh || current),
+      low: roundPrice(meta.regularMarketDayLow || current),
+      previousClose: roundPrice(previous),
+      volume: meta.regularMarketVolume || 0,
+      currency: meta.currency || "INR",
+      exchange: getExchange(symbol),
+      source: "yahoo",
+      timestamp: asOf,
+      // Yahoo does not guarantee exchange-real-time prices for NSE/BSE
+      provenance: createProvenance("delayed", asOf),
+      yearHigh: meta.fiftyTwoWeekHigh,
+      yearLow: meta.fiftyTwoWeekLow,
+    }
+  },
+}
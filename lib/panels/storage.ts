@@ -0,0 +1,29 @@
+// Which collapsible dashboard cards are open, by panel id
+export type PanelState = Record<string, boolean>
+
+// Browser-side persistence: one entry for every panel on the dashboard
+export const PANELS_STORAGE_KEY = "dashboard-panels"
+export const PANELS_CHANGE_EVENT = "dashboard-panels-change"
+const PANEL_ID = /^[a-z0-9-]{1,40}$/
+
+export function sanitizePanels(raw: unknown): PanelState {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {}
+  const panels: PanelState = {}
+  for (const [id, open] of Object.entries(raw)) {
+    if (PANEL_ID.test(id) && typeof open === "boolean") panels[id] = open
+  }
+  return panels
+}
+
+export function loadPanels(): PanelState {
+  try {
+    return sanitizePanels(JSON.parse(localStorage.getItem(PANELS_STORAGE_KEY) ?? "{}"))
+  } catch {
+    return {}
+  }
+}
+
+export function savePanels(panels: PanelState) {
+  localStorage.setItem(PANELS_STORAGE_KEY, JSON.stringify(panels))
+  window.dispatchEvent(new Event(PANELS_CHANGE_EVENT))
+}
@@ -0,0 +1,126 @@
+import type { ChartData } from "@/lib/market-data/types"
+import { buildMatch, clamp01, flipBars } from "./shared"
+import type { PatternId, PatternMatch } from "./types"
+
+const RANGE_PERIOD = 14
+const TREND_BARS = 5
+
+const body = (bar: ChartData) => Math.abs(bar.close - bar.open)
+const upperShadow = (bar: ChartData) => bar.high - Math.max(bar.open, bar.close)
+const lowerShadow = (bar: ChartData) => Math.min(bar.open, bar.close) - bar.low
+
+function averageRange(data: ChartData[], end: number): number {
+  const start = Math.max(0, end - RANGE_PERIOD + 1)
+  let sum = 0
+  for (let i = start; i <= end; i++) sum += data[i].high - data[i].low
+  return sum / (end - start + 1)
+}
+
+// Direction of the move into bar `i`, -1 to 1 in units of two average ranges
+function priorTrend(data: ChartData[], i: number, range: number): number {
+  if (i - 1 - TREND_BARS < 0 || range <= 0) return 0
+  const change = data[i - 1].close - data[i - 1 - TREND_BARS].close
+  return Math.max(-1, Math.min(1, change / (range * 2)))
+}
+
+// The bearish shapes; the bullish ones are found by running these over flipped bars. Each returns a confidence
+// and how many bars the pattern spans, or null
+type Detector = (data: ChartData[], i: number, range: number) => { confidence: number; bars: number } | null
+
+// Long upper shadow after an advance
+const shootingStar: Detector = (data, i, range) => {
+  const bar = data[i]
+  const total = bar.high - bar.low
+  const trend = priorTrend(data, i, range)
+  if (total <= 0 || trend < 0.2 || body(bar) < total * 0.05) return null
+  if (upperShadow(bar) < body(bar) * 2 || lowerShadow(bar) > total * 0.25) return null
+  const shadowRatio = upperShadow(bar) / body(bar)
+  return { confidence: 0.45 + 0.25 * clamp01((shadowRatio - 2) / 3) + 0.3 * clamp01(trend), bars: 1 }
+}
+
+// A falling body covering the previous rising one
+const bearishEngulfing: Detector = (data, i, range) => {
+  if (i < 1) return null
+  const previous = data[i - 1]
+  const bar = data[i]
+  if (!(previous.close > previous.open && bar.close < bar.open)) return null
+  if (bar.open < previous.close || bar.close > previous.open || body(bar) <= body(previous)) return null
+  const trend = priorTrend(data, i - 1, range)
+  const cover = body(previous) > 0 ? body(bar) / body(previous) - 1 : 1
+  return { confidence: 0.5 + 0.25 * clamp01(cover) + 0.25 * clamp01(trend), bars: 2 }
+}
+
+// Long rising bar, small bar, then a falling bar closing below the middle of the first
+const eveningStar: Detector = (data, i, range) => {
+  if (i < 2) return null
+  const [first, middle, last] = [data[i - 2], data[i - 1], data[i]]
+  const firstBody = body(first)
+  if (!(first.close > first.open) || firstBody < range * 0.6) return null
+  if (body(middle) > firstBody * 0.3 || !(last.close < last.open)) return null
+  const midpoint = (first.open + first.close) / 2
+  if (last.close > midpoint) return null
+  const depth = (midpoint - last.close) / (firstBody / 2)
+  return { confidence: 0.5 + 0.3 * clamp01(depth) + 0.2 * clamp01(priorTrend(data, i - 2, range)), bars: 3 }
+}
+
+const BEARISH: [Detector, PatternId, PatternId][] = [
+  [shootingStar, "shooting-star", "hammer"],
+  [bearishEngulfing, "bearish-engulfing", "bullish-engulfing"],
+  [eveningStar, "evening-star", "morning-star"],
+]
+
+// The next bar closed beyond the pattern's last close in the direction it points
+function followedThrough(data: ChartData[], i: number): boolean {
+  return i + 1 < data.length && data[i + 1].close < data[i].close
+}
+
+// Candlestick patterns completing on the latest `bars` bars
+export function detectCandlesticks(data: ChartData[], bars: number): PatternMatch[] {
+  const matches: PatternMatch[] = []
+  const from = Math.max(0, data.length - bars)
+  const flipped = flipBars(data)
+
+  for (let i = from; i < data.length; i++) {
+    const range = averageRange(data, i)
+    if (range <= 0) continue
+
+    const bar = data[i]
+    const total = bar.high - bar.low
+    if (total > 0 && body(bar) <= total * 0.1 && total >= range * 0.3) {
+      const trend = Math.abs(priorTrend(data, i, range))
+      matches.push(
+        buildMatch(data, 1, {
+          pattern: "doji",
+          start: i,
+          end: i,
+          confidence: 0.5 + 0.3 * (1 - body(bar) / (total * 0.1)) + 0.2 * trend,
+          confirmed: false,
+          points: [{ index: i, price: bar.high }],
+        }),
+      )
+    }
+
+    for (const [detect, bearish, bullish] of BEARISH) {
+      for (const [series, sign, pattern] of [
+        [data, 1, bearish],
+        [flipped, -1, bullish],
+      ] as const) {
+        const found = detect(series, i, range)
+        if (!found) continue
+        matches.push(
+          buildMatch(series, sign, {
+            pattern,
+            start: i - found.bars + 1,
+            end: i,
+            confidence: found.confidence,
+            confirmed: followedThrough(series, i),
+            // Markers sit above bearish bars and below bullish ones, which is the high of the bar either way up
+            points: [{ index: i, price: series[i].high }],
+          }),
+        )
+      }
+    }
+  }
+
+  return matches
+}
@@ -0,0 +1,131 @@
+import type { PatternBias, PatternId, PatternKind } from "./types"
+
+interface PatternInfo {
+  label: string
+  short: string // Marker text on the chart
+  kind: PatternKind
+  bias: PatternBias
+  description: string
+}
+
+export const PATTERNS: Record<PatternId, PatternInfo> = {
+  doji: {
+    label: "Doji",
+    short: "Doji",
+    kind: "candlestick",
+    bias: "neutral",
+    description: "Open and close almost equal: buyers and sellers in balance, often before a turn",
+  },
+  hammer: {
+    label: "Hammer",
+    short: "Hammer",
+    kind: "candlestick",
+    bias: "bullish",
+    description: "Long lower shadow after a decline: sellers pushed down but buyers closed it near the high",
+  },
+  "shooting-star": {
+    label: "Shooting star",
+    short: "Star",
+    kind: "candlestick",
+    bias: "bearish",
+    description: "Long upper shadow after an advance: the rally was rejected and closed near the low",
+  },
+  "bullish-engulfing": {
+    label: "Bullish engulfing",
+    short: "Engulf",
+    kind: "candlestick",
+    bias: "bullish",
+    description: "A rising body that covers the previous falling body",
+  },
+  "bearish-engulfing": {
+    label: "Bearish engulfing",
+    short: "Engulf",
+    kind: "candlestick",
+    bias: "bearish",
+    description: "A falling body that covers the previous rising body",
+  },
+  "morning-star": {
+    label: "Morning star",
+    short: "M-Star",
+    kind: "candlestick",
+    bias: "bullish",
+    description: "Long falling bar, small indecisive bar, then a rising bar closing well into the first",
+  },
+  "evening-star": {
+    label: "Evening star",
+    short: "E-Star",
+    kind: "candlestick",
+    bias: "bearish",
+    description: "Long rising bar, small indecisive bar, then a falling bar closing well into the first",
+  },
+  "ascending-triangle": {
+    label: "Ascending triangle",
+    short: "Asc △",
+    kind: "chart",
+    bias: "bullish",
+    description: "Flat resistance with rising lows; usually resolves upward",
+  },
+  "descending-triangle": {
+    label: "Descending triangle",
+    short: "Desc △",
+    kind: "chart",
+    bias: "bearish",
+    description: "Flat support with falling highs; usually resolves downward",
+  },
+  "symmetrical-triangle": {
+    label: "Symmetrical triangle",
+    short: "Sym △",
+    kind: "chart",
+    bias: "neutral",
+    description: "Falling highs and rising lows converging; breaks either way",
+  },
+  "bull-flag": {
+    label: "Bull flag",
+    short: "Flag",
+    kind: "chart",
+    bias: "bullish",
+    description: "A sharp advance followed by a tight, slightly falling consolidation",
+  },
+  "bear-flag": {
+    label: "Bear flag",
+    short: "Flag",
+    kind: "chart",
+    bias: "bearish",
+    description: "A sharp decline followed by a tight, slightly rising consolidation",
+  },
+  "head-and-shoulders": {
+    label: "Head and shoulders",
+    short: "H&S",
+    kind: "chart",
+    bias: "bearish",
+    description: "Three peaks with the middle one highest; a close below the neckline completes it",
+  },
+  "inverse-head-and-shoulders": {
+    label: "Inverse head and shoulders",
+    short: "Inv H&S",
+    kind: "chart",
+    bias: "bullish",
+    description: "Three troughs with the middle one lowest; a close above the neckline completes it",
+  },
+  "double-top": {
+    label: "Double top",
+    short: "2×Top",
+    kind: "chart",
+    bias: "bearish",
+    description: "Two peaks at about the same price; a close below the low between them completes it",
+  },
+  "double-bottom": {
+    label: "Double bottom",
+    short: "2×Bottom",
+    kind: "chart",
+    bias: "bullish",
+    description: "Two troughs at about the same price; a close above the high between them completes it",
+  },
+  "cup-and-handle": {
+    label: "Cup and handle",
+    short: "Cup",
+    kind: "chart",
+    bias: "bullish",
+    description: "A rounded base between two similar highs, then a shallow pullback before the breakout",
+  },
+}
@@ -0,0 +1,334 @@
+import { atr, lastValue } from "@/lib/indicators"
+import { findPivots } from "@/lib/levels"
+import type { Pivot } from "@/lib/levels"
+import type { ChartData } from "@/lib/market-data/types"
+import { buildMatch, clamp01, extremeBetween, fitLine, flipBars } from "./shared"
+import type { PatternMatch } from "./types"
+
+const TRIANGLE_WINDOW = 80
+const MAX_TRIANGLE_CONVERGENCE = 0.8 // End width as a fraction of the start width
+const FLAG_BARS = { min: 5, max: 20 }
+const POLE_BARS = { min: 3, max: 12 }
+const MAX_HANDLE_BARS = 30
+
+// Detectors look for the bearish (or, for the cup, the only) form; `sign` is -1 when running over flipped bars
+interface Series {
+  data: ChartData[]
+  sign: 1 | -1
+  highs: Pivot[]
+  lows: Pivot[]
+  tolerance: number
+}
+
+// First bar after `from` closing below `level(i)`, or -1. Returns -1 too if price first trades above `ceiling`,
+// which invalidates the pattern
+function breakBelow(data: ChartData[], from: number, level: (i: number) => number, ceiling: number): number {
+  for (let i = from + 1; i < data.length; i++) {
+    if (data[i].high > ceiling) return -1
+    if (data[i].close < level(i)) return i
+  }
+  return -1
+}
+
+function invalidated(data: ChartData[], from: number, ceiling: number): boolean {
+  for (let i = from + 1; i < data.length; i++) if (data[i].high > ceiling) return true
+  return false
+}
+
+function doubleTops({ data, sign, highs, tolerance }: Series): PatternMatch[] {
+  const matches: PatternMatch[] = []
+  for (let k = 1; k < highs.length; k++) {
+    const [a, b] = [highs[k - 1], highs[k]]
+    const gap = b.index - a.index
+    const difference = Math.abs(a.price - b.price)
+    if (gap < 5 || gap > 100 || difference > tolerance) continue
+
+    const top = Math.max(a.price, b.price)
+    const trough = extremeBetween(data, a.index, b.index, "low")
+    const height = top - trough.price
+    if (height < tolerance * 2) continue
+
+    const ceiling = top + tolerance
+    const breakout = breakBelow(data, b.index, () => trough.price, ceiling)
+    if (breakout < 0 && invalidated(data, b.index, ceiling)) continue
+    const confirmed = breakout >= 0
+    const end = confirmed ? breakout : data.length - 1
+
+    matches.push(
+      buildMatch(data, sign, {
+        pattern: sign === 1 ? "double-top" : "double-bottom",
+        start: a.index,
+        end,
+        confidence:
+          0.45 + 0.2 * (1 - difference / tolerance) + 0.2 * clamp01(height / (tolerance * 4)) + (confirmed ? 0.15 : 0),
+        confirmed,
+        points: [a, trough, b],
+        lines: [[trough, { index: end, price: trough.price }]],
+        target: trough.price - height,
+      }),
+    )
+  }
+  return matches
+}
+
+function headAndShoulders({ data, sign, highs, tolerance }: Series): PatternMatch[] {
+  const matches: PatternMatch[] = []
+  for (let k = 2; k < highs.length; k++) {
+    const [left, head, right] = [highs[k - 2], highs[k - 1], highs[k]]
+    const span = right.index - left.index
+    const shoulderGap = Math.abs(left.price - right.price)
+    const headRise = head.price - Math.max(left.price, right.price)
+    if (span < 10 || span > 150 || shoulderGap > tolerance * 1.5 || headRise < tolerance) continue
+
+    const troughs = [
+      extremeBetween(data, left.index, head.index, "low"),
+      extremeBetween(data, head.index, right.index, "low"),
+    ]
+    const neckline = fitLine(troughs)
+    if (neckline.at(right.index) >= right.price) continue
+
+    const breakout = breakBelow(data, right.index, neckline.at, head.price)
+    if (breakout < 0 && invalidated(data, right.index, head.price)) continue
+    const confirmed = breakout >= 0
+    const end = confirmed ? breakout : data.length - 1
+    const timeBalance = 1 - Math.abs(head.index - left.index - (right.index - head.index)) / span
+
+    matches.push(
+      buildMatch(data, sign, {
+        pattern: sign === 1 ? "head-and-shoulders" : "inverse-head-and-shoulders",
+        start: left.index,
+        end,
+        confidence:
+          0.45 +
+          0.15 * (1 - shoulderGap / (tolerance * 1.5)) +
+          0.15 * clamp01(headRise / (tolerance * 2)) +
+          0.1 * clamp01(timeBalance) +
+          (confirmed ? 0.15 : 0),
+        confirmed,
+        points: [left, troughs[0], head, troughs[1], right],
+        lines: [[troughs[0], { index: end, price: neckline.at(end) }]],
+        target: neckline.at(end) - (head.price - neckline.at(head.index)),
+      }),
+    )
+  }
+  return matches
+}
+
+type Slope = "flat" | "rising" | "falling"
+
+// Converging boundaries over the latest bars. Over the normal bars this finds descending and symmetrical
+// triangles; the flipped run finds ascending ones
+function triangles({ data, sign, highs, lows, tolerance }: Series): PatternMatch[] {
+  const last = data.length - 1
+  const from = Math.max(0, data.length - TRIANGLE_WINDOW)
+  const upper = highs.filter((p) => p.index >= from)
+  const lower = lows.filter((p) => p.index >= from)
+  if (upper.length < 2 || lower.length < 2) return []
+
+  const start = Math.min(upper[0].index, lower[0].index)
+  const top = fitLine(upper)
+  const bottom = fitLine(lower)
+  const slope = (line: typeof top): Slope => {
+    const rise = line.slope * (last - start)
+    return Math.abs(rise) <= tolerance ? "flat" : rise > 0 ? "rising" : "falling"
+  }
+
+  let pattern: PatternMatch["pattern"]
+  if (slope(top) === "falling" && slope(bottom) === "flat") {
+    pattern = sign === 1 ? "descending-triangle" : "ascending-triangle"
+  } else if (sign === 1 && slope(top) === "falling" && slope(bottom) === "rising") {
+    pattern = "symmetrical-triangle"
+  } else {
+    return []
+  }
+
+  const startWidth = top.at(start) - bottom.at(start)
+  const endWidth = top.at(last) - bottom.at(last)
+  if (startWidth <= 0 || endWidth <= 0 || endWidth > startWidth * MAX_TRIANGLE_CONVERGENCE) return []
+  if (top.residual > tolerance || bottom.residual > tolerance) return []
+
+  const close = data[last].close
+  const brokeDown = close < bottom.at(last)
+  const confirmed = pattern === "symmetrical-triangle" ? brokeDown || close > top.at(last) : brokeDown
+  const points = [...upper, ...lower].sort((a, b) => a.index - b.index)
+
+  return [
+    buildMatch(data, sign, {
+      pattern,
+      start,
+      end: last,
+      confidence:
+        0.45 +
+        0.15 * clamp01((points.length - 4) / 2) +
+        0.2 * (1 - (top.residual + bottom.residual) / (tolerance * 2)) +
+        (confirmed ? 0.15 : 0),
+      confirmed,
+      points,
+      lines: [
+        [
+          { index: start, price: top.at(start) },
+          { index: last, price: top.at(last) },
+        ],
+        [
+          { index: start, price: bottom.at(start) },
+          { index: last, price: bottom.at(last) },
+        ],
+      ],
+      target: pattern === "symmetrical-triangle" ? null : bottom.at(last) - startWidth,
+    }),
+  ]
+}
+
+// A sharp drop into the latest bars, then a tight drift back up that hasn't retraced half of it
+function flags({ data, sign, tolerance }: Series): PatternMatch[] {
+  const last = data.length - 1
+  let best: PatternMatch | null = null
+
+  for (let length = FLAG_BARS.min; length <= FLAG_BARS.max; length++) {
+    const poleEnd = last - length
+    if (poleEnd - POLE_BARS.min < 0) break
+
+    // The flag's extremes, leaving out the latest bar so it can be the breakout
+    let flagHigh = -Infinity
+    let flagLow = Infinity
+    for (let i = poleEnd + 1; i < last; i++) {
+      flagHigh = Math.max(flagHigh, data[i].high)
+      flagLow = Math.min(flagLow, data[i].low)
+    }
+    if (flagLow < data[poleEnd].low) continue
+
+    for (let pole = POLE_BARS.min; pole <= POLE_BARS.max && poleEnd - pole >= 0; pole++) {
+      const poleStart = poleEnd - pole
+      const drop = data[poleStart].high - data[poleEnd].low
+      const range = flagHigh - flagLow
+      if (drop < tolerance * 3 || range > drop * 0.5 || flagHigh > data[poleEnd].low + drop * 0.5) continue
+
+      const confirmed = data[last].close < data[poleEnd].low
+      const flagLine = (kind: "high" | "low") =>
+        fitLine(
+          data
+            .slice(poleEnd + 1, last)
+            .map((bar, offset) => ({ index: poleEnd + 1 + offset, price: kind === "high" ? bar.high : bar.low })),
+        )
+      const [upper, lower] = [flagLine("high"), flagLine("low")]
+      const match = buildMatch(data, sign, {
+        pattern: sign === 1 ? "bear-flag" : "bull-flag",
+        start: poleStart,
+        end: last,
+        confidence:
+          0.45 +
+          0.2 * clamp01(drop / (tolerance * 6)) +
+          0.2 * (1 - range / (drop * 0.5)) +
+          (confirmed ? 0.15 : 0),
+        confirmed,
+        points: [
+          { index: poleStart, price: data[poleStart].high },
+          { index: poleEnd, price: data[poleEnd].low },
+        ],
+        lines: [
+          [
+            { index: poleEnd + 1, price: upper.at(poleEnd + 1) },
+            { index: last, price: upper.at(last) },
+          ],
+          [
+            { index: poleEnd + 1, price: lower.at(poleEnd + 1) },
+            { index: last, price: lower.at(last) },
+          ],
+        ],
+        target: data[poleEnd].low - drop,
+      })
+      if (!best || match.confidence > best.confidence) best = match
+    }
+  }
+
+  return best ? [best] : []
+}
+
+// Two similar highs with a rounded base between them and a shallow pullback after the second
+function cupsAndHandles({ data, highs, tolerance }: Series): PatternMatch[] {
+  const matches: PatternMatch[] = []
+  for (let k = 1; k < highs.length; k++) {
+    const right = highs[k]
+    for (let j = k - 1; j >= 0; j--) {
+      const left = highs[j]
+      const span = right.index - left.index
+      if (span < 20) continue
+      if (span > 200) break
+
+      const rim = Math.max(left.price, right.price)
+      const rimGap = Math.abs(left.price - right.price)
+      if (rimGap > tolerance * 2) continue
+      // Nothing between the rims may stand above them
+      if (extremeBetween(data, left.index, right.index, "high").price > rim) continue
+
+      const bottom = extremeBetween(data, left.index, right.index, "low")
+      const position = (bottom.index - left.index) / span
+      const depth = Math.min(left.price, right.price) - bottom.price
+      if (position < 0.25 || position > 0.75 || depth < tolerance * 4) continue
+
+      // The handle runs from the right rim until a close clears the rim
+      const handleEnd = Math.min(data.length - 1, right.index + MAX_HANDLE_BARS)
+      let breakout = -1
+      let handle = { index: right.index, price: right.price }
+      for (let i = right.index + 1; i <= handleEnd; i++) {
+        if (data[i].low < handle.price) handle = { index: i, price: data[i].low }
+        if (data[i].close > rim && handle.index > right.index) {
+          breakout = i
+          break
+        }
+      }
+      const retrace = (right.price - handle.price) / depth
+      if (handle.index === right.index || retrace > 0.5) continue
+
+      const confirmed = breakout >= 0
+      if (!confirmed && handleEnd === right.index + MAX_HANDLE_BARS) continue
+      const end = confirmed ? breakout : data.length - 1
+
+      matches.push(
+        buildMatch(data, 1, {
+          pattern: "cup-and-handle",
+          start: left.index,
+          end,
+          confidence:
+            0.45 +
+            0.15 * (1 - rimGap / (tolerance * 2)) +
+            0.15 * (1 - Math.abs(position - 0.5) * 4) +
+            0.1 * (1 - retrace * 2) +
+            (confirmed ? 0.15 : 0),
+          confirmed,
+          points: [left, bottom, right, handle],
+          lines: [[left, { index: end, price: right.price }]],
+          target: rim + depth,
+        }),
+      )
+      break
+    }
+  }
+  return matches
+}
+
+function series(data: ChartData[], sign: 1 | -1, strength: number, tolerance: number): Series {
+  const pivots = findPivots(data, strength)
+  return {
+    data,
+    sign,
+    highs: pivots.filter((p) => p.kind === "high"),
+    lows: pivots.filter((p) => p.kind === "low"),
+    tolerance,
+  }
+}
+
+// Chart patterns over the whole series. Price tolerances scale with ATR(14), or 1% of price without enough bars
+export function detectChartPatterns(data: ChartData[], pivotStrength: number): PatternMatch[] {
+  if (data.length < pivotStrength * 2 + 10) return []
+  const tolerance = lastValue(atr(data)) ?? data[data.length - 1].close * 0.01
+  if (!(tolerance > 0)) return []
+
+  const normal = series(data, 1, pivotStrength, tolerance)
+  const flipped = series(flipBars(data), -1, pivotStrength, tolerance)
+
+  return [
+    ...[normal, flipped].flatMap((s) => [...doubleTops(s), ...headAndShoulders(s), ...triangles(s), ...flags(s)]),
+    ...cupsAndHandles(normal),
+  ]
+}
@@ -0,0 +1,27 @@
+import type { ChartData } from "@/lib/market-data/types"
+import { detectCandlesticks } from "./candlestick"
+import { detectChartPatterns } from "./chart"
+import type { PatternMatch, PatternOptions } from "./types"
+
+const DEFAULT_MIN_CONFIDENCE = 0.5
+const DEFAULT_CANDLESTICK_BARS = 30
+const DEFAULT_PIVOT_STRENGTH = 3
+
+// Candlestick and chart patterns in the bars, most recent first and the more confident first among ties. Where a
+// detector finds the same pattern twice from one starting bar, the stronger match is kept
+export function detectPatterns(data: ChartData[], options: PatternOptions = {}): PatternMatch[] {
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE
+  const found = [
+    ...detectCandlesticks(data, options.candlestickBars ?? DEFAULT_CANDLESTICK_BARS),
+    ...detectChartPatterns(data, options.pivotStrength ?? DEFAULT_PIVOT_STRENGTH),
+  ]
+
+  const byId = new Map<string, PatternMatch>()
+  for (const match of found) {
+    if (match.confidence < minConfidence) continue
+    const existing = byId.get(match.id)
+    if (!existing || match.confidence > existing.confidence) byId.set(match.id, match)
+  }
+
+  return [...byId.values()].sort((a, b) => b.endTime - a.endTime || b.confidence - a.confidence)
+}
@@ -0,0 +1,35 @@
+import { getTimeframeHistory } from "@/lib/candles"
+import type { Timeframe } from "@/lib/candles/types"
+import type { Provenance } from "@/lib/market-data/types"
+import { detectPatterns } from "./detect"
+import type { PatternMatch, PatternOptions } from "./types"
+
+// Server side only: reads the candle store. Charts run detection over the bars they already hold
+const DEFAULT_BARS = 250
+
+export interface SymbolPatterns {
+  symbol: string
+  interval: Timeframe
+  patterns: PatternMatch[]
+  bars: number
+  provenance: Provenance | null
+  asOf: number // Open time of the latest bar
+}
+
+export async function getSymbolPatterns(
+  symbol: string,
+  interval: Timeframe = "1d",
+  { bars = DEFAULT_BARS, ...options }: PatternOptions & { bars?: number } = {},
+): Promise<SymbolPatterns> {
+  const history = await getTimeframeHistory(symbol, interval, { limit: bars })
+  const candles = history.candles
+
+  return {
+    symbol: history.symbol,
+    interval,
+    patterns: detectPatterns(candles, options),
+    bars: candles.length,
+    provenance: history.provenance,
+    asOf: candles[candles.length - 1]?.timestamp ?? 0,
+  }
+}
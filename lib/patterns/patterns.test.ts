@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest"
+import type { ChartData } from "@/lib/market-data/types"
+import { detectCandlesticks } from "./candlestick"
+import { detectChartPatterns } from "./chart"
+import { detectPatterns } from "./detect"
+
+const DAY = 24 * 60 * 60 * 1000
+
+type Ohlc = [open: number, high: number, low: number, close: number]
+
+const candles = (rows: Ohlc[]): ChartData[] =>
+  rows.map(([open, high, low, close], i) => ({ timestamp: i * DAY, open, high, low, close, volume: 1000 }))
+
+// Eight steady bars up (or down) by 2 a bar, each with a body of 2 and small shadows
+const trend = (from: number, direction: 1 | -1): Ohlc[] =>
+  Array.from({ length: 8 }, (_, k) => {
+    const open = from + direction * 2 * k
+    const close = open + direction * 2
+    return [open, Math.max(open, close) + 0.5, Math.min(open, close) - 0.5, close]
+  })
+
+// Bars following a path of closes, each opening at the previous close with half a point of shadow either side
+const path = (closes: number[]): ChartData[] =>
+  candles(
+    closes.map((close, i) => {
+      const open = closes[i - 1] ?? close
+      return [open, Math.max(open, close) + 0.5, Math.min(open, close) - 0.5, close]
+    }),
+  )
+
+const steps = (from: number, to: number, step = 2): number[] => {
+  const values: number[] = []
+  const direction = to > from ? step : -step
+  for (let value = from; direction > 0 ? value <= to : value >= to; value += direction) values.push(value)
+  return values
+}
+
+describe("detectCandlesticks", () => {
+  it("finds a shooting star after an advance", () => {
+    const data = candles([...trend(100, 1), [117, 121, 116.3, 116.5]])
+    const [match] = detectCandlesticks(data, 1)
+
+    expect(match).toMatchObject({ pattern: "shooting-star", bias: "bearish", confirmed: false })
+    expect(match.points).toEqual([{ time: 8 * DAY, price: 121 }])
+  })
+
+  it("finds the same shape upside down as a hammer after a decline", () => {
+    const data = candles([...trend(200, -1), [183, 183.7, 179, 183.5]])
+    const [match] = detectCandlesticks(data, 1)
+
+    expect(match).toMatchObject({ pattern: "hammer", bias: "bullish" })
+    // Below the bar, at its low
+    expect(match.points).toEqual([{ time: 8 * DAY, price: 179 }])
+  })
+
+  it("ignores a long upper shadow without an advance into it", () => {
+    const data = candles([...trend(200, -1), [183, 187, 182.8, 182.5]])
+    expect(detectCandlesticks(data, 1).map((match) => match.pattern)).not.toContain("shooting-star")
+  })
+
+  it("spans both bars of an engulfing pattern and confirms it on follow-through", () => {
+    const rows: Ohlc[] = [...trend(100, 1), [116.5, 116.8, 112.8, 113]]
+    const [pending] = detectCandlesticks(candles(rows), 1)
+
+    expect(pending).toMatchObject({ pattern: "bearish-engulfing", startTime: 7 * DAY, endTime: 8 * DAY })
+    expect(pending.confirmed).toBe(false)
+
+    const [confirmed] = detectCandlesticks(candles([...rows, [113, 113.2, 110.8, 111]]), 2)
+    expect(confirmed).toMatchObject({ pattern: "bearish-engulfing", confirmed: true })
+  })
+})
+
+describe("detectChartPatterns", () => {
+  // Up to 120, back to 110, up to 120 again, then down through the trough
+  const closes = [...steps(100, 120), ...steps(118, 110), ...steps(112, 120), ...steps(118, 100)]
+
+  it("finds a confirmed double top with a measured-move target", () => {
+    const match = detectChartPatterns(path(closes), 3).find((found) => found.pattern === "double-top")
+
+    expect(match).toMatchObject({ bias: "bearish", confirmed: true })
+    expect(match?.points.map((point) => point.price)).toEqual([120.5, 109.5, 120.5])
+    expect(match?.target).toBeCloseTo(98.5)
+  })
+
+  it("finds the mirror image as a double bottom in real prices", () => {
+    const mirrored = path(closes.map((close) => 220 - close))
+    const match = detectChartPatterns(mirrored, 3).find((found) => found.pattern === "double-bottom")
+
+    expect(match).toMatchObject({ bias: "bullish", confirmed: true })
+    expect(match?.points.map((point) => point.price)).toEqual([99.5, 110.5, 99.5])
+    expect(match?.target).toBeCloseTo(121.5)
+  })
+
+  it("needs enough bars for the pivots", () => {
+    expect(detectChartPatterns(path(closes.slice(0, 15)), 3)).toEqual([])
+  })
+})
+
+describe("detectPatterns", () => {
+  it("drops weak matches and lists the most recent first", () => {
+    const data = candles([...trend(100, 1), [116.5, 116.8, 112.8, 113], [113, 113.2, 110.8, 111]])
+    const matches = detectPatterns(data, { minConfidence: 0.5 })
+
+    expect(matches.every((match) => match.confidence >= 0.5)).toBe(true)
+    const ends = matches.map((match) => match.endTime)
+    expect(ends).toEqual([...ends].sort((a, b) => b - a))
+    expect(detectPatterns(data, { minConfidence: 1.01 })).toEqual([])
+  })
+})
@@ -0,0 +1,74 @@
+import type { ChartLayer, ChartView } from "@/lib/chart-engine"
+import { PATTERNS } from "./catalog"
+import type { PatternBias, PatternMatch, PatternPoint } from "./types"
+
+const FONT = "10px ui-sans-serif, system-ui, sans-serif"
+const BIAS_COLORS: Record<PatternBias, string> = {
+  bullish: "16, 185, 129",
+  bearish: "239, 68, 68",
+  neutral: "148, 163, 184",
+}
+const MARKER_GAP = 6 // Pixels between a bar extreme and its candlestick marker
+
+function toPixel(view: ChartView, point: PatternPoint) {
+  return { x: view.toX(view.indexAtTime(point.time)), y: view.scale.toY(point.price) }
+}
+
+function text(ctx: CanvasRenderingContext2D, value: string, x: number, y: number, baseline: CanvasTextBaseline) {
+  ctx.font = FONT
+  ctx.textAlign = "center"
+  ctx.textBaseline = baseline
+  ctx.fillText(value, x, y)
+}
+
+// Candlestick patterns get a triangle and short name beside the bar, below it for bullish ones. Chart patterns get
+// a line through their turning points, their necklines or boundaries dashed, and the name with its confidence
+export function patternsLayer(matches: PatternMatch[]): ChartLayer {
+  return {
+    id: "patterns",
+    draw: (ctx, view) => {
+      for (const match of matches) {
+        const rgb = BIAS_COLORS[match.bias]
+        const info = PATTERNS[match.pattern]
+        ctx.strokeStyle = `rgba(${rgb}, 0.9)`
+        ctx.fillStyle = `rgba(${rgb}, 0.9)`
+        ctx.lineWidth = 1.5
+
+        if (match.kind === "candlestick") {
+          const { x, y } = toPixel(view, match.points[0])
+          const below = match.bias === "bullish"
+          const tip = below ? y + MARKER_GAP : y - MARKER_GAP
+          const base = below ? tip + 6 : tip - 6
+          ctx.beginPath()
+          ctx.moveTo(x, tip)
+          ctx.lineTo(x - 4, base)
+          ctx.lineTo(x + 4, base)
+          ctx.closePath()
+          ctx.fill()
+          text(ctx, info.short, x, below ? base + 2 : base - 2, below ? "top" : "bottom")
+          continue
+        }
+
+        const points = match.points.map((point) => toPixel(view, point))
+        ctx.beginPath()
+        points.forEach(({ x, y }, i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)))
+        ctx.stroke()
+
+        ctx.setLineDash([4, 3])
+        for (const [from, to] of match.lines) {
+          const a = toPixel(view, from)
+          const b = toPixel(view, to)
+          ctx.beginPath()
+          ctx.moveTo(a.x, a.y)
+          ctx.lineTo(b.x, b.y)
+          ctx.stroke()
+        }
+        ctx.setLineDash([])
+
+        const top = points.reduce((highest, point) => (point.y < highest.y ? point : highest), points[0])
+        const label = `${info.short} ${Math.round(match.confidence * 100)}%${match.confirmed ? " ✓" : ""}`
+        text(ctx, label, top.x, top.y - 4, "bottom")
+      }
+    },
+  }
+}
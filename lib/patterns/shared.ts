@@ -0,0 +1,71 @@
+import type { ChartData } from "@/lib/market-data/types"
+import { PATTERNS } from "./catalog"
+import type { PatternId, PatternMatch, PatternPoint } from "./types"
+
+export const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1)
+
+// Bearish and bullish versions of a pattern are the same shape upside down, so each detector only looks for one
+// of them and runs again over the flipped bars. `sign` maps flipped prices back when building the match
+export function flipBars(data: ChartData[]): ChartData[] {
+  return data.map((bar) => ({ ...bar, open: -bar.open, high: -bar.low, low: -bar.high, close: -bar.close }))
+}
+
+interface MatchInput {
+  pattern: PatternId
+  start: number // Bar indices
+  end: number
+  confidence: number
+  confirmed: boolean
+  points: { index: number; price: number }[]
+  lines?: [{ index: number; price: number }, { index: number; price: number }][]
+  target?: number | null
+}
+
+// Builds the match in real prices from indices and prices in the (possibly flipped) series
+export function buildMatch(data: ChartData[], sign: 1 | -1, input: MatchInput): PatternMatch {
+  const point = ({ index, price }: { index: number; price: number }): PatternPoint => ({
+    time: data[index].timestamp,
+    price: price * sign,
+  })
+  const info = PATTERNS[input.pattern]
+
+  return {
+    id: `${input.pattern}-${data[input.start].timestamp}`,
+    pattern: input.pattern,
+    kind: info.kind,
+    bias: info.bias,
+    startTime: data[input.start].timestamp,
+    endTime: data[input.end].timestamp,
+    confidence: Math.round(clamp01(input.confidence) * 100) / 100,
+    confirmed: input.confirmed,
+    points: input.points.map(point),
+    lines: (input.lines ?? []).map(([a, b]) => [point(a), point(b)]),
+    target: input.target === undefined || input.target === null ? null : input.target * sign,
+  }
+}
+
+// Least-squares line through (index, price) pairs, with the mean distance of the points from it
+export function fitLine(points: { index: number; price: number }[]) {
+  const n = points.length
+  const meanX = points.reduce((sum, p) => sum + p.index, 0) / n
+  const meanY = points.reduce((sum, p) => sum + p.price, 0) / n
+  let numerator = 0
+  let denominator = 0
+  for (const p of points) {
+    numerator += (p.index - meanX) * (p.price - meanY)
+    denominator += (p.index - meanX) ** 2
+  }
+  const slope = denominator === 0 ? 0 : numerator / denominator
+  const at = (index: number) => meanY + slope * (index - meanX)
+  const residual = points.reduce((sum, p) => sum + Math.abs(p.price - at(p.index)), 0) / n
+  return { slope, at, residual }
+}
+
+// Lowest low (or highest high) strictly between two bars
+export function extremeBetween(data: ChartData[], from: number, to: number, kind: "low" | "high") {
+  let index = from + 1
+  for (let i = from + 1; i < to; i++) {
+    if (kind === "low" ? data[i].low < data[index].low : data[i].high > data[index].high) index = i
+  }
+  return { index, price: kind === "low" ? data[index].low : data[index].high }
+}
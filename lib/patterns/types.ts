@@ -0,0 +1,46 @@
+export type PatternId =
+  | "doji"
+  | "hammer"
+  | "shooting-star"
+  | "bullish-engulfing"
+  | "bearish-engulfing"
+  | "morning-star"
+  | "evening-star"
+  | "ascending-triangle"
+  | "descending-triangle"
+  | "symmetrical-triangle"
+  | "bull-flag"
+  | "bear-flag"
+  | "head-and-shoulders"
+  | "inverse-head-and-shoulders"
+  | "double-top"
+  | "double-bottom"
+  | "cup-and-handle"
+
+export type PatternKind = "candlestick" | "chart"
+export type PatternBias = "bullish" | "bearish" | "neutral"
+
+export interface PatternPoint {
+  time: number
+  price: number
+}
+
+export interface PatternMatch {
+  id: string
+  pattern: PatternId
+  kind: PatternKind
+  bias: PatternBias
+  startTime: number // Open time of the first bar in the pattern
+  endTime: number // And of the last
+  confidence: number // 0-1
+  confirmed: boolean // Price has already broken out the way the pattern points
+  points: PatternPoint[] // Turning points in order, e.g. shoulder, head, shoulder; one bar extreme for candlesticks
+  lines: [PatternPoint, PatternPoint][] // Necklines and boundaries
+  target: number | null // Measured-move objective where the pattern has one
+}
+
+export interface PatternOptions {
+  minConfidence?: number // Weaker matches are dropped; default 0.5
+  candlestickBars?: number // Only the latest N bars are checked for candlestick patterns; default 30
+  pivotStrength?: number // Bars either side of a swing for chart patterns; default 3
+}
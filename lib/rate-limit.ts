@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server"
+
+// Token bucket per (policy, client): a bucket holds up to `capacity` requests and refills continuously,
+// so clients get short bursts without exceeding the sustained per-minute rate
+
+export interface RateLimitPolicy {
+  capacity: number // Burst size, reported as X-RateLimit-Limit
+  refillPerMinute: number // Sustained rate
+}
+
+export const RATE_LIMIT_POLICIES = {
+  quote: { capacity: 20, refillPerMinute: 60 },
+  quotes: { capacity: 30, refillPerMinute: 120 }, // One batch request counts once regardless of its size
+  stream: { capacity: 10, refillPerMinute: 30 }, // Connects (repeated on every drop) and subscription changes
+  chart: { capacity: 10, refillPerMinute: 30 },
+  candles: { capacity: 10, refillPerMinute: 30 },
+  indicators: { capacity: 10, refillPerMinute: 30 },
+  levels: { capacity: 10, refillPerMinute: 30 },
+  patterns: { capacity: 10, refillPerMinute: 30 },
+  workspace: { capacity: 30, refillPerMinute: 60 }, // Clients debounce their writes, so this is generous
+  alerts: { capacity: 20, refillPerMinute: 60 },
+  indices: { capacity: 10, refillPerMinute: 30 },
+  finnhub: { capacity: 20, refillPerMinute: 60 },
+  news: { capacity: 10, refillPerMinute: 30 },
+} satisfies Record<string, RateLimitPolicy>
+
+export type RateLimitPolicyName = keyof typeof RATE_LIMIT_POLICIES
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  resetAt: number // When the bucket is full again, ms since epoch
+  retryAfter: number // Seconds until the next request is allowed; 0 when allowed
+}
+
+interface Bucket {
+  tokens: number
+  updatedAt: number
+}
+
+const MAX_BUCKETS = 10000
+const buckets = new Map<string, Bucket>()
+
+// Full buckets carry no state worth keeping
+function pruneBuckets(now: number) {
+  buckets.forEach((bucket, key) => {
+    const [policyName] = key.split(":")
+    const policy = RATE_LIMIT_POLICIES[policyName as RateLimitPolicyName]
+    if (!policy || refill(bucket, policy, now) >= policy.capacity) {
+      buckets.delete(key)
+    }
+  })
+}
+
+function refill(bucket: Bucket, policy: RateLimitPolicy, now: number): number {
+  const elapsedMinutes = (now - bucket.updatedAt) / 60000
+  return Math.min(policy.capacity, bucket.tokens + elapsedMinutes * policy.refillPerMinute)
+}
+
+// Client identity: first hop of x-forwarded-for, then x-real-ip
+export function getClientKey(request: Request): string {
+  const forwarded = request.headers.get("x-forwarded-for")
+  if (forwarded) {
+    return forwarded.split(",")[0].trim()
+  }
+  return request.headers.get("x-real-ip") || "unknown"
+}
+
+// Take one token from the caller's bucket for this policy
+export function consumeRateLimit(policyName: RateLimitPolicyName, clientKey: string): RateLimitResult {
+  const policy: RateLimitPolicy = RATE_LIMIT_POLICIES[policyName]
+  const now = Date.now()
+  const key = `${policyName}:${clientKey}`
+
+  if (!buckets.has(key) && buckets.size >= MAX_BUCKETS) {
+    pruneBuckets(now)
+  }
+
+  const bucket = buckets.get(key) ?? { tokens: policy.capacity, updatedAt: now }
+  const tokens = refill(bucket, policy, now)
+  const msPerToken = 60000 / policy.refillPerMinute
+  const allowed = tokens >= 1
+  const remaining = allowed ? tokens - 1 : tokens
+
+  buckets.set(key, { tokens: remaining, updatedAt: now })
+
+  return {
+    allowed,
+    limit: policy.capacity,
+    remaining: Math.floor(remaining),
+    resetAt: now + Math.ceil((policy.capacity - remaining) * msPerToken),
+    retryAfter: allowed ? 0 : Math.ceil(((1 - tokens) * msPerToken) / 1000),
+  }
+}
+
+export function checkRateLimit(request: Request, policyName: RateLimitPolicyName): RateLimitResult {
+  return consumeRateLimit(policyName, getClientKey(request))
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(result.resetAt / 1000)),
+  }
+  if (!result.allowed) {
+    headers["Retry-After"] = String(result.retryAfter)
+  }
+  return headers
+}
+
+export function rateLimitExceeded(result: RateLimitResult) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: `Rate limit exceeded. Please retry in ${result.retryAfter}s.`,
+      retryAfter: result.retryAfter,
+    },
+    { status: 429, headers: rateLimitHeaders(result) },
+  )
+}
@@ -0,0 +1,105 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// Keyed JSON documents on disk or in memory: the shape under the candle, workspace and alert-log stores
+
+export interface JsonStore<T> {
+  read(key: string): Promise<T | undefined>
+  write(key: string, value: T): Promise<void>
+  remove(key: string): Promise<void>
+  list(): Promise<string[]> // Every key with a stored document
+}
+
+export interface JsonFileStoreOptions<T> {
+  dir: string
+  // Where a key's file goes; by default one file per key directly in `dir`, which is also the only layout list()
+  // can read keys back from
+  fileFor?: (key: string) => string
+  // Checks a parsed file; undefined counts as missing
+  parse?: (raw: unknown, key: string) => T | undefined
+}
+
+let tempCounter = 0
+
+// Undefined when the file doesn't exist
+export async function readJsonFile(file: string): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8"))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined
+    throw error
+  }
+}
+
+// Written to a temp file and renamed over the old one, so readers never see a half-written file
+export async function writeJsonAtomic(file: string, value: unknown): Promise<void> {
+  const tempFile = `${file}.${process.pid}.${++tempCounter}.tmp`
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.writeFile(tempFile, JSON.stringify(value))
+  await fs.rename(tempFile, file)
+}
+
+export function createJsonFileStore<T>({
+  dir,
+  fileFor = (key) => path.join(dir, `${encodeURIComponent(key)}.json`),
+  parse = (raw) => raw as T,
+}: JsonFileStoreOptions<T>): JsonStore<T> {
+  return {
+    async read(key) {
+      const raw = await readJsonFile(fileFor(key))
+      return raw === undefined ? undefined : parse(raw, key)
+    },
+
+    write(key, value) {
+      return writeJsonAtomic(fileFor(key), value)
+    },
+
+    async remove(key) {
+      await fs.rm(fileFor(key), { force: true })
+    },
+
+    async list() {
+      try {
+        const files = await fs.readdir(dir)
+        return files.filter((file) => file.endsWith(".json")).map((file) => decodeURIComponent(file.slice(0, -5)))
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+        throw error
+      }
+    },
+  }
+}
+
+// Process-local store for read-only filesystems and scripts
+export function createMemoryJsonStore<T>(): JsonStore<T> {
+  const documents = new Map<string, T>()
+
+  return {
+    async read(key) {
+      return documents.get(key)
+    },
+
+    async write(key, value) {
+      documents.set(key, value)
+    },
+
+    async remove(key) {
+      documents.delete(key)
+    },
+
+    async list() {
+      return Array.from(documents.keys())
+    },
+  }
+}
+
+// A module's backing store, made on first use and swappable, e.g. for a memory store on a read-only filesystem
+export function createStoreSlot<S>(create: () => S): { get(): S; set(next: S): void } {
+  let current: S | null = null
+  return {
+    get: () => (current ??= create()),
+    set(next) {
+      current = next
+    },
+  }
+}
@@ -0,0 +1,65 @@
+import { toBaseSymbol } from "@/lib/market-data/symbols"
+import type { Quote } from "@/lib/market-data/types"
+import type { WatchlistColumnId, WatchlistRow, WatchlistSort } from "./types"
+
+export interface WatchlistColumnInfo {
+  label: string
+  numeric: boolean
+  // Sort key; rows without a value always sort last
+  value: (row: WatchlistRow) => number | string | null
+}
+
+// Where the price sits in its 52-week range, 0 at the low and 100 at the high
+export function yearRangePosition(quote: Quote): number | null {
+  if (quote.yearHigh === undefined || quote.yearLow === undefined) return null
+  const span = quote.yearHigh - quote.yearLow
+  if (!(span > 0)) return null
+  return Math.min(100, Math.max(0, ((quote.price - quote.yearLow) / span) * 100))
+}
+
+// Day range sorts by how far the price is from the day's low, as a share of the range
+function dayRangePosition(quote: Quote): number | null {
+  const span = quote.high - quote.low
+  if (!(span > 0)) return null
+  return ((quote.price - quote.low) / span) * 100
+}
+
+export const WATCHLIST_COLUMNS: Record<WatchlistColumnId, WatchlistColumnInfo> = {
+  symbol: { label: "Symbol", numeric: false, value: (row) => toBaseSymbol(row.symbol) },
+  ltp: { label: "LTP", numeric: true, value: (row) => row.quote?.price ?? null },
+  changePercent: { label: "Chg %", numeric: true, value: (row) => row.quote?.changePercent ?? null },
+  dayRange: { label: "Day Range", numeric: true, value: (row) => (row.quote ? dayRangePosition(row.quote) : null) },
+  volume: { label: "Volume", numeric: true, value: (row) => row.quote?.volume ?? null },
+  yearPosition: {
+    label: "52W Position",
+    numeric: true,
+    value: (row) => (row.quote ? yearRangePosition(row.quote) : null),
+  },
+}
+
+export const WATCHLIST_COLUMN_IDS = Object.keys(WATCHLIST_COLUMNS) as WatchlistColumnId[]
+
+export function isWatchlistColumn(value: string): value is WatchlistColumnId {
+  return Object.prototype.hasOwnProperty.call(WATCHLIST_COLUMNS, value)
+}
+
+// Clicking a column sorts by it, numbers largest first; clicking it again flips the direction
+export function nextSort(current: WatchlistSort | null, column: WatchlistColumnId): WatchlistSort {
+  if (current?.column === column) return { column, direction: current.direction === "asc" ? "desc" : "asc" }
+  return { column, direction: WATCHLIST_COLUMNS[column].numeric ? "desc" : "asc" }
+}
+
+// Without a sort the list keeps the order its symbols were added in
+export function sortWatchlistRows(rows: WatchlistRow[], sort: WatchlistSort | null): WatchlistRow[] {
+  if (!sort) return rows
+  const { value } = WATCHLIST_COLUMNS[sort.column]
+  const sign = sort.direction === "asc" ? 1 : -1
+
+  return [...rows].sort((a, b) => {
+    const left = value(a)
+    const right = value(b)
+    if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1
+    if (typeof left === "string" || typeof right === "string") return sign * String(left).localeCompare(String(right))
+    return sign * (left - right)
+  })
+}
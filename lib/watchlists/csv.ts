@@ -0,0 +1,83 @@
+import { toBaseSymbol } from "@/lib/market-data/symbols"
+import { yearRangePosition } from "./columns"
+import type { WatchlistRow } from "./types"
+
+const CSV_HEADER = ["Symbol", "LTP", "Change %", "Day Low", "Day High", "Volume", "52W Low", "52W High", "52W Position"]
+
+function csvCell(value: string | number | undefined | null): string {
+  if (value === undefined || value === null) return ""
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// The list as shown, with the latest quote values; symbols are written in Yahoo form so the file re-imports as is
+export function watchlistToCsv(rows: WatchlistRow[]): string {
+  const lines = rows.map(({ symbol, quote }) => {
+    const position = quote ? yearRangePosition(quote) : null
+    return [
+      symbol,
+      quote?.price,
+      quote?.changePercent.toFixed(2),
+      quote?.low,
+      quote?.high,
+      quote?.volume,
+      quote?.yearLow,
+      quote?.yearHigh,
+      position === null ? null : position.toFixed(1),
+    ]
+      .map(csvCell)
+      .join(",")
+  })
+  return [CSV_HEADER.join(","), ...lines].join("\n")
+}
+
+// One record per line; quoted cells may hold commas and doubled quotes but not line breaks
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let cell = ""
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      cells.push(cell)
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+  cells.push(cell)
+  return cells.map((value) => value.trim())
+}
+
+const SYMBOL_CELL = /^\^?[A-Z0-9&._:-]{1,24}$/i
+
+// Reads the "Symbol" column when there is a header (ours, or a broker's export), otherwise the first column.
+// Cells that can't be a ticker are skipped
+export function symbolsFromCsv(text: string): string[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+  if (lines.length === 0) return []
+
+  const header = parseCsvLine(lines[0]).map((cell) => cell.toLowerCase())
+  const headerColumn = header.findIndex((cell) => cell === "symbol" || cell === "ticker" || cell === "tradingsymbol")
+  const column = Math.max(0, headerColumn)
+  const body = headerColumn >= 0 ? lines.slice(1) : lines
+
+  return body
+    .map((line) => parseCsvLine(line)[column] ?? "")
+    .filter((cell) => SYMBOL_CELL.test(cell) && toBaseSymbol(cell) !== "SYMBOL")
+}
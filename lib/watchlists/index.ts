@@ -0,0 +1,5 @@
+export * from "./types"
+export * from "./lists"
+export * from "./columns"
+export * from "./csv"
+export * from "./storage"
@@ -0,0 +1,132 @@
+import { toYahooSymbol } from "@/lib/market-data/symbols"
+import type { Watchlist, WatchlistState } from "./types"
+
+// A list is quoted in one /api/quotes request, which takes at most 50 symbols
+export const MAX_WATCHLIST_SYMBOLS = 50
+export const MAX_WATCHLISTS = 20
+const MAX_NAME_LENGTH = 40
+
+export function createWatchlistId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function defaultWatchlists(): WatchlistState {
+  const list: Watchlist = { id: "default", name: "My Watchlist", symbols: [] }
+  return { lists: [list], activeId: list.id }
+}
+
+function cleanName(name: string, fallback: string): string {
+  const trimmed = name.trim().slice(0, MAX_NAME_LENGTH)
+  return trimmed || fallback
+}
+
+// Normalized, de-duplicated and capped; order is kept
+export function cleanSymbols(symbols: string[]): string[] {
+  const seen = new Set<string>()
+  for (const symbol of symbols) {
+    if (typeof symbol !== "string" || !symbol.trim()) continue
+    seen.add(toYahooSymbol(symbol))
+    if (seen.size >= MAX_WATCHLIST_SYMBOLS) break
+  }
+  return Array.from(seen)
+}
+
+export function activeWatchlist(state: WatchlistState): Watchlist {
+  return state.lists.find((list) => list.id === state.activeId) ?? state.lists[0]
+}
+
+export function createWatchlist(state: WatchlistState, name: string, symbols: string[] = []): WatchlistState {
+  if (state.lists.length >= MAX_WATCHLISTS) return state
+  const list: Watchlist = {
+    id: createWatchlistId(),
+    name: cleanName(name, `Watchlist ${state.lists.length + 1}`),
+    symbols: cleanSymbols(symbols),
+  }
+  return { lists: [...state.lists, list], activeId: list.id }
+}
+
+export function renameWatchlist(state: WatchlistState, id: string, name: string): WatchlistState {
+  return {
+    ...state,
+    lists: state.lists.map((list) => (list.id === id ? { ...list, name: cleanName(name, list.name) } : list)),
+  }
+}
+
+// Moves a list one place earlier (-1) or later (1) in the tab order
+export function moveWatchlist(state: WatchlistState, id: string, offset: -1 | 1): WatchlistState {
+  const from = state.lists.findIndex((list) => list.id === id)
+  const to = from + offset
+  if (from < 0 || to < 0 || to >= state.lists.length) return state
+  const lists = [...state.lists]
+  ;[lists[from], lists[to]] = [lists[to], lists[from]]
+  return { ...state, lists }
+}
+
+// The last list can't be deleted; it is emptied instead
+export function deleteWatchlist(state: WatchlistState, id: string): WatchlistState {
+  const index = state.lists.findIndex((list) => list.id === id)
+  if (index < 0) return state
+  if (state.lists.length === 1) return { ...state, lists: [{ ...state.lists[0], symbols: [] }] }
+
+  const lists = state.lists.filter((list) => list.id !== id)
+  const activeId = state.activeId === id ? lists[Math.max(0, index - 1)].id : state.activeId
+  return { lists, activeId }
+}
+
+export function setActiveWatchlist(state: WatchlistState, id: string): WatchlistState {
+  return state.lists.some((list) => list.id === id) ? { ...state, activeId: id } : state
+}
+
+function updateSymbols(state: WatchlistState, id: string, change: (symbols: string[]) => string[]): WatchlistState {
+  return {
+    ...state,
+    lists: state.lists.map((list) =>
+      list.id === id ? { ...list, symbols: cleanSymbols(change(list.symbols)) } : list,
+    ),
+  }
+}
+
+export function addToWatchlist(state: WatchlistState, id: string, symbol: string): WatchlistState {
+  return updateSymbols(state, id, (symbols) => [...symbols, symbol])
+}
+
+export function removeFromWatchlist(state: WatchlistState, id: string, symbol: string): WatchlistState {
+  const resolved = toYahooSymbol(symbol)
+  return updateSymbols(state, id, (symbols) => symbols.filter((existing) => existing !== resolved))
+}
+
+export function toggleInWatchlist(state: WatchlistState, id: string, symbol: string): WatchlistState {
+  const list = state.lists.find((existing) => existing.id === id)
+  return list?.symbols.includes(toYahooSymbol(symbol))
+    ? removeFromWatchlist(state, id, symbol)
+    : addToWatchlist(state, id, symbol)
+}
+
+// Adds imported symbols after the ones already in the list
+export function importIntoWatchlist(state: WatchlistState, id: string, symbols: string[]): WatchlistState {
+  return updateSymbols(state, id, (current) => [...current, ...symbols])
+}
+
+// Whatever was stored (or synced) is trusted only as far as its shape; anything unusable falls back to defaults
+export function sanitizeWatchlists(raw: unknown): WatchlistState {
+  const fallback = defaultWatchlists()
+  if (!raw || typeof raw !== "object") return fallback
+  const source = raw as Partial<WatchlistState>
+  if (!Array.isArray(source.lists)) return fallback
+
+  const ids = new Set<string>()
+  const lists: Watchlist[] = []
+  for (const item of source.lists.slice(0, MAX_WATCHLISTS)) {
+    if (!item || typeof item !== "object" || typeof item.id !== "string" || ids.has(item.id)) continue
+    ids.add(item.id)
+    lists.push({
+      id: item.id,
+      name: cleanName(typeof item.name === "string" ? item.name : "", `Watchlist ${lists.length + 1}`),
+      symbols: Array.isArray(item.symbols) ? cleanSymbols(item.symbols) : [],
+    })
+  }
+  if (lists.length === 0) return fallback
+
+  const activeId = typeof source.activeId === "string" && ids.has(source.activeId) ? source.activeId : lists[0].id
+  return { lists, activeId }
+}
@@ -0,0 +1,28 @@
+import { sanitizeWatchlists } from "./lists"
+import type { WatchlistState } from "./types"
+
+// Browser-side persistence: every watchlist lives in one entry
+export const WATCHLISTS_STORAGE_KEY = "watchlists"
+export const WATCHLISTS_CHANGE_EVENT = "watchlists-change"
+// The stock selector's old single list of starred symbols
+const LEGACY_FAVORITES_KEY = "stock-favorites"
+
+// The first load after upgrading turns the old favorites into a list of their own
+export function loadWatchlists(): WatchlistState {
+  try {
+    const saved = localStorage.getItem(WATCHLISTS_STORAGE_KEY)
+    if (saved !== null) return sanitizeWatchlists(JSON.parse(saved))
+
+    const favorites = JSON.parse(localStorage.getItem(LEGACY_FAVORITES_KEY) ?? "[]")
+    const symbols = Array.isArray(favorites) ? favorites : []
+    return sanitizeWatchlists({ lists: [{ id: "default", name: "Favorites", symbols }], activeId: "default" })
+  } catch {
+    return sanitizeWatchlists(null)
+  }
+}
+
+export function saveWatchlists(state: WatchlistState) {
+  localStorage.setItem(WATCHLISTS_STORAGE_KEY, JSON.stringify(state))
+  localStorage.removeItem(LEGACY_FAVORITES_KEY)
+  window.dispatchEvent(new Event(WATCHLISTS_CHANGE_EVENT))
+}
@@ -0,0 +1,25 @@
+import type { Quote } from "@/lib/market-data/types"
+
+export interface Watchlist {
+  id: string
+  name: string
+  symbols: string[] // Yahoo-style, e.g. "TCS.NS", in the order the user added them
+}
+
+export interface WatchlistState {
+  lists: Watchlist[] // In display order; never empty
+  activeId: string
+}
+
+export type WatchlistColumnId = "symbol" | "ltp" | "changePercent" | "dayRange" | "volume" | "yearPosition"
+
+export interface WatchlistSort {
+  column: WatchlistColumnId
+  direction: "asc" | "desc"
+}
+
+// One table row; the quote is missing until the first batch arrives or when the symbol has no data
+export interface WatchlistRow {
+  symbol: string
+  quote: Quote | null
+}
@@ -0,0 +1,114 @@
+import { LAYOUT_CHANGE_EVENT, loadLayout, LAYOUT_STORAGE_KEY, saveLayout } from "@/lib/chart-layout/storage"
+import { CHAT_HISTORY_CHANGE_EVENT, loadChatHistory, saveChatHistory } from "@/lib/chat-history/storage"
+import { DRAWINGS_CHANGE_EVENT, loadDrawings, saveDrawings, savedDrawingKeys } from "@/lib/drawings/storage"
+import { loadPanels, PANELS_CHANGE_EVENT, savePanels } from "@/lib/panels/storage"
+import {
+  loadWatchlists,
+  saveWatchlists,
+  WATCHLISTS_CHANGE_EVENT,
+  WATCHLISTS_STORAGE_KEY,
+} from "@/lib/watchlists/storage"
+import { isWorkspaceUserId, WORKSPACE_SECTIONS } from "./sanitize"
+import type { WorkspaceData, WorkspaceSection } from "./types"
+
+// Browser side of workspace sync: reads and writes the same localStorage entries the panels use, so a synced
+// change shows up through each store's own change event
+
+const USER_ID_KEY = "workspace-user-id"
+const SYNC_STATE_KEY = "workspace-sync"
+
+// Sections kept in this browser, and the event each store fires when it changes. Alert rules live on the server
+export const LOCAL_SECTION_EVENTS: Partial<Record<WorkspaceSection, string>> = {
+  watchlists: WATCHLISTS_CHANGE_EVENT,
+  layout: LAYOUT_CHANGE_EVENT,
+  drawings: DRAWINGS_CHANGE_EVENT,
+  chatHistory: CHAT_HISTORY_CHANGE_EVENT,
+  panels: PANELS_CHANGE_EVENT,
+}
+
+export const LOCAL_SECTIONS = Object.keys(LOCAL_SECTION_EVENTS) as WorkspaceSection[]
+
+// Made up on first use; entering the same id in another browser shares the workspace
+export function getWorkspaceUserId(): string {
+  const saved = localStorage.getItem(USER_ID_KEY)
+  if (isWorkspaceUserId(saved)) return saved
+  const created = crypto.randomUUID().replace(/-/g, "")
+  localStorage.setItem(USER_ID_KEY, created)
+  return created
+}
+
+export function setWorkspaceUserId(userId: string) {
+  localStorage.setItem(USER_ID_KEY, userId)
+}
+
+// Watchlists and layout count as unset until saved, so a fresh browser doesn't push its defaults over real data
+export function readLocalSection<K extends WorkspaceSection>(section: K): WorkspaceData[K] | undefined {
+  const read: { [S in WorkspaceSection]?: () => WorkspaceData[S] } = {
+    watchlists: () => (localStorage.getItem(WATCHLISTS_STORAGE_KEY) !== null ? loadWatchlists() : null),
+    layout: () => (localStorage.getItem(LAYOUT_STORAGE_KEY) !== null ? loadLayout() : null),
+    drawings: () => Object.fromEntries(savedDrawingKeys().map((key) => [key, loadDrawings(key)])),
+    chatHistory: loadChatHistory,
+    panels: loadPanels,
+  }
+  return (read[section] as (() => WorkspaceData[K]) | undefined)?.()
+}
+
+// Whether a section holds anything worth sending up when the server has nothing yet
+export function hasLocalData(section: WorkspaceSection): boolean {
+  const value = readLocalSection(section)
+  if (value === null || value === undefined) return false
+  if (Array.isArray(value)) return value.length > 0
+  return typeof value !== "object" || Object.keys(value).length > 0
+}
+
+export function applyLocalSection<K extends WorkspaceSection>(section: K, value: WorkspaceData[K]) {
+  switch (section) {
+    case "watchlists":
+      if (value) saveWatchlists(value as WorkspaceData["watchlists"] & object)
+      break
+    case "layout":
+      if (value) saveLayout(value as WorkspaceData["layout"] & object)
+      break
+    case "drawings": {
+      const drawings = value as WorkspaceData["drawings"]
+      for (const key of savedDrawingKeys()) if (!drawings[key]) saveDrawings(key, [])
+      for (const [key, list] of Object.entries(drawings)) saveDrawings(key, list)
+      break
+    }
+    case "chatHistory":
+      saveChatHistory(value as WorkspaceData["chatHistory"])
+      break
+    case "panels":
+      savePanels(value as WorkspaceData["panels"])
+      break
+  }
+}
+
+// What this browser last agreed with the server on, and which sections changed here since
+export interface WorkspaceSyncState {
+  userId: string
+  revision: number
+  sectionRevisions: Partial<Record<WorkspaceSection, number>>
+  dirty: WorkspaceSection[]
+}
+
+export function loadSyncState(userId: string): WorkspaceSyncState {
+  const fresh: WorkspaceSyncState = { userId, revision: 0, sectionRevisions: {}, dirty: [] }
+  try {
+    const saved = JSON.parse(localStorage.getItem(SYNC_STATE_KEY) ?? "null") as WorkspaceSyncState | null
+    if (!saved || saved.userId !== userId) return fresh
+    return {
+      userId,
+      revision: Number.isInteger(saved.revision) ? saved.revision : 0,
+      sectionRevisions:
+        saved.sectionRevisions && typeof saved.sectionRevisions === "object" ? saved.sectionRevisions : {},
+      dirty: Array.isArray(saved.dirty) ? saved.dirty.filter((section) => WORKSPACE_SECTIONS.includes(section)) : [],
+    }
+  } catch {
+    return fresh
+  }
+}
+
+export function saveSyncState(state: WorkspaceSyncState) {
+  localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state))
+}
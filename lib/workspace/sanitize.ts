@@ -0,0 +1,113 @@
+import { MAX_ALERT_RULES, parseAlertRule } from "@/lib/alerts/conditions"
+import type { AlertRule } from "@/lib/alerts/types"
+import { sanitizeLayout } from "@/lib/chart-layout/layouts"
+import { sanitizeChatHistory } from "@/lib/chat-history/storage"
+import { sanitizeDrawings } from "@/lib/drawings/storage"
+import { sanitizePanels } from "@/lib/panels/storage"
+import { sanitizeWatchlists } from "@/lib/watchlists/lists"
+import type { ClientWorkspaceSection, Workspace, WorkspaceData, WorkspaceSection } from "./types"
+
+// Ids are chosen by the client, so they only need to be unguessable enough and safe as file names
+const USER_ID = /^[A-Za-z0-9_-]{8,64}$/
+const DRAWING_KEY = /^\^?[A-Z0-9&._-]{1,24}:[0-9a-z]{1,4}$/
+const MAX_DRAWING_KEYS = 500
+
+export function isWorkspaceUserId(value: unknown): value is string {
+  return typeof value === "string" && USER_ID.test(value)
+}
+
+// Each section is checked on its own, so one bad section doesn't cost the rest
+const SECTION_SANITIZERS: { [K in WorkspaceSection]: (raw: unknown) => WorkspaceData[K] } = {
+  watchlists: (raw) => (raw ? sanitizeWatchlists(raw) : null),
+  layout: (raw) => (raw ? sanitizeLayout(raw) : null),
+  drawings: (raw) => {
+    const drawings: Record<string, ReturnType<typeof sanitizeDrawings>> = {}
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) return drawings
+    for (const [key, value] of Object.entries(raw).slice(0, MAX_DRAWING_KEYS)) {
+      const list = sanitizeDrawings(value)
+      if (DRAWING_KEY.test(key) && list.length > 0) drawings[key] = list
+    }
+    return drawings
+  },
+  alertRules: (raw) => {
+    if (!Array.isArray(raw)) return []
+    const rules: AlertRule[] = []
+    for (const item of raw.slice(0, MAX_ALERT_RULES)) {
+      const parsed = parseAlertRule(item)
+      if ("rule" in parsed && !rules.some((rule) => rule.id === parsed.rule.id)) rules.push(parsed.rule)
+    }
+    return rules
+  },
+  chatHistory: (raw) => sanitizeChatHistory(raw),
+  panels: (raw) => sanitizePanels(raw),
+}
+
+export const WORKSPACE_SECTIONS = Object.keys(SECTION_SANITIZERS) as WorkspaceSection[]
+
+export function isWorkspaceSection(value: string): value is WorkspaceSection {
+  return Object.prototype.hasOwnProperty.call(SECTION_SANITIZERS, value)
+}
+
+export const CLIENT_WORKSPACE_SECTIONS = WORKSPACE_SECTIONS.filter(
+  (section): section is ClientWorkspaceSection => section !== "alertRules",
+)
+
+// Only the sections present in `raw` are returned, each cleaned
+export function sanitizeSections(raw: unknown): Partial<WorkspaceData> {
+  const sections: Partial<WorkspaceData> = {}
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return sections
+  for (const [section, value] of Object.entries(raw)) {
+    if (isWorkspaceSection(section)) {
+      ;(sections as Record<WorkspaceSection, unknown>)[section] = SECTION_SANITIZERS[section](value)
+    }
+  }
+  return sections
+}
+
+// As sanitizeSections, for a client write: alert rules sent this way are dropped
+export function sanitizeClientSections(raw: unknown): Partial<WorkspaceData> {
+  const sections = sanitizeSections(raw)
+  delete sections.alertRules
+  return sections
+}
+
+export function emptyWorkspace(userId: string): Workspace {
+  return {
+    userId,
+    revision: 0,
+    updatedAt: 0,
+    sectionRevisions: { watchlists: 0, layout: 0, drawings: 0, alertRules: 0, chatHistory: 0, panels: 0 },
+    watchlists: null,
+    layout: null,
+    drawings: {},
+    alertRules: [],
+    chatHistory: [],
+    panels: {},
+  }
+}
+
+// Stored files are re-checked on read, so a hand-edited or older file can't hand clients bad data
+export function sanitizeWorkspace(userId: string, raw: unknown): Workspace {
+  const workspace = emptyWorkspace(userId)
+  if (!raw || typeof raw !== "object") return workspace
+  const source = raw as Partial<Workspace>
+
+  Object.assign(workspace, sanitizeSections(source))
+  workspace.revision = Number.isInteger(source.revision) && source.revision! > 0 ? source.revision! : 0
+  workspace.updatedAt = Number.isFinite(source.updatedAt) ? source.updatedAt! : 0
+  for (const section of WORKSPACE_SECTIONS) {
+    const revision = source.sectionRevisions?.[section]
+    workspace.sectionRevisions[section] =
+      Number.isInteger(revision) && revision! <= workspace.revision ? revision! : workspace.revision
+  }
+  return workspace
+}
+
+// Sections are replaced whole: the last writer of a section wins, but writes to different sections never clash
+export function applySections(workspace: Workspace, sections: Partial<WorkspaceData>, now = Date.now()): Workspace {
+  const revision = workspace.revision + 1
+  const next: Workspace = { ...workspace, ...sections, revision, updatedAt: now }
+  next.sectionRevisions = { ...workspace.sectionRevisions }
+  for (const section of Object.keys(sections) as WorkspaceSection[]) next.sectionRevisions[section] = revision
+  return next
+}
@@ -0,0 +1,80 @@
+import path from "path"
+import { createJsonFileStore, createMemoryJsonStore, createStoreSlot, type JsonStore } from "@/lib/storage"
+import { emptyWorkspace, sanitizeWorkspace } from "./sanitize"
+import type { Workspace } from "./types"
+
+export interface WorkspaceStore {
+  read(userId: string): Promise<Workspace | undefined>
+  write(workspace: Workspace): Promise<void>
+  remove(userId: string): Promise<void>
+  list(): Promise<string[]> // Every user with a saved workspace
+}
+
+export interface FileWorkspaceStoreOptions {
+  dir?: string
+}
+
+function workspaceStore(documents: JsonStore<Workspace>): WorkspaceStore {
+  return {
+    read: (userId) => documents.read(userId),
+    write: (workspace) => documents.write(workspace.userId, workspace),
+    remove: (userId) => documents.remove(userId),
+    list: () => documents.list(),
+  }
+}
+
+// One JSON file per user, e.g. .data/workspaces/k3x9....json, re-checked on every read
+export function createFileWorkspaceStore({
+  dir = process.env.WORKSPACE_STORE_DIR || path.join(process.cwd(), ".data", "workspaces"),
+}: FileWorkspaceStoreOptions = {}): WorkspaceStore {
+  return workspaceStore(createJsonFileStore({ dir, parse: (raw, userId) => sanitizeWorkspace(userId, raw) }))
+}
+
+export function createMemoryWorkspaceStore(): WorkspaceStore {
+  return workspaceStore(createMemoryJsonStore())
+}
+
+const store = createStoreSlot<WorkspaceStore>(createFileWorkspaceStore)
+
+export function setWorkspaceStore(next: WorkspaceStore) {
+  store.set(next)
+}
+
+export function listWorkspaceUsers(): Promise<string[]> {
+  return store.get().list()
+}
+
+export async function getWorkspace(userId: string): Promise<Workspace> {
+  return (await store.get().read(userId)) ?? emptyWorkspace(userId)
+}
+
+// Writes for one user run one at a time, so two requests can't both build on the same revision
+const pending = new Map<string, Promise<unknown>>()
+
+function enqueue<T>(userId: string, task: () => Promise<T>): Promise<T> {
+  const next = (pending.get(userId) ?? Promise.resolve()).catch(() => undefined).then(task)
+  pending.set(userId, next)
+  next
+    .finally(() => {
+      if (pending.get(userId) === next) pending.delete(userId)
+    })
+    .catch(() => undefined)
+  return next
+}
+
+// A change that hands back the workspace it was given writes nothing and leaves the revision alone
+export function updateWorkspace(
+  userId: string,
+  change: (current: Workspace) => Workspace | Promise<Workspace>,
+): Promise<Workspace> {
+  return enqueue(userId, async () => {
+    const current = await getWorkspace(userId)
+    const updated = await change(current)
+    if (updated !== current) await store.get().write(updated)
+    return updated
+  })
+}
+
+export function deleteWorkspace(userId: string): Promise<void> {
+  return enqueue(userId, () => store.get().remove(userId))
+}
@@ -0,0 +1,27 @@
+import type { AlertRule } from "@/lib/alerts/types"
+import type { ChartLayout } from "@/lib/chart-layout/types"
+import type { ChatMessage } from "@/lib/chat-history/types"
+import type { Drawing } from "@/lib/drawings/types"
+import type { PanelState } from "@/lib/panels/storage"
+import type { WatchlistState } from "@/lib/watchlists/types"
+
+// Everything a user sets up on the dashboard that should follow them between browsers
+export interface WorkspaceData {
+  watchlists: WatchlistState | null // null until the user has saved any
+  layout: ChartLayout | null
+  drawings: Record<string, Drawing[]> // Keyed by drawingsKey(), e.g. "TCS.NS:1d"
+  alertRules: AlertRule[] // Checked by the server's alert engine, so only edited through /api/alerts
+  chatHistory: ChatMessage[]
+  panels: PanelState
+}
+
+export type WorkspaceSection = keyof WorkspaceData
+// What /api/workspace accepts; alert rules go through /api/alerts so the engine validates and tracks them
+export type ClientWorkspaceSection = Exclude<WorkspaceSection, "alertRules">
+
+export interface Workspace extends WorkspaceData {
+  userId: string
+  revision: number // Bumped by every write; 0 for a workspace that has never been saved
+  updatedAt: number // ms
+  sectionRevisions: Record<WorkspaceSection, number> // Revision at which each section last changed
+}
@@ -8,9 +8,15 @@ import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Camera } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { MarketStatusBanner } from "@/components/market-status-banner"
 
-import { ComposedChart, XAxis, YAxis, CartesianGrid, Tooltip as ReTooltip, Customized } from "recharts"
-import { ChartContainer } from "@/components/ui/chart"
+import { CandleChart, type CandleChartHandle } from "@/components/candle-chart"
+import { ChartStyleSelect } from "@/components/chart-style-select"
+import { useChartDrawings } from "@/hooks/use-chart-drawings"
+import type { ChartStyle } from "@/lib/chart-engine"
+import { drawingsLayer } from "@/lib/drawings"
+import { detectZones, levelsLayer } from "@/lib/levels"
+import type { ChartData } from "@/lib/market-data/types"
 
 type Candle = {
   time: number // unix seconds
@@ -33,16 +39,20 @@ const fmtVol = new Intl.NumberFormat("en-US", {
   maximumFractionDigits: 1,
 })
 
+// Keys are /api/candles timeframes; everything but the provider intervals is resampled from stored bars
 const TIMEFRAMES = [
   { key: "1m", label: "1m", points: 240, intervalMs: 60_000 },
+  { key: "3m", label: "3m", points: 240, intervalMs: 3 * 60_000 },
   { key: "5m", label: "5m", points: 240, intervalMs: 5 * 60_000 },
   { key: "15m", label: "15m", points: 200, intervalMs: 15 * 60_000 },
+  { key: "30m", label: "30m", points: 200, intervalMs: 30 * 60_000 },
   { key: "1h", label: "1h", points: 200, intervalMs: 60 * 60_000 },
+  { key: "2h", label: "2h", points: 200, intervalMs: 2 * 60 * 60_000 },
+  { key: "1w", label: "1W", points: 156, intervalMs: 7 * 24 * 60 * 60_000 },
+  { key: "1mo", label: "1M", points: 120, intervalMs: 30 * 24 * 60 * 60_000 },
 ] as const
 const EXCHANGES = ["NSE", "BSE"] as const
 
-const CHART_MARGIN = { top: 8, right: 12, bottom: 20, left: 8 }
-
 export function LiveChart() {
   const [tf, setTf] = React.useState<(typeof TIMEFRAMES)[number]>(TIMEFRAMES[0])
   const [exchange, setExchange] = React.useState<(typeof EXCHANGES)[number]>("NSE")
@@ -82,7 +92,7 @@ export function LiveChart() {
     }
   }, [exchange])
 
-  // Subscribe to SSE candles
+  // Seed the window with stored history, then subscribe to SSE candles
   React.useEffect(() => {
     setData([])
     if (esRef.current) {
@@ -90,6 +100,34 @@ export function LiveChart() {
       esRef.current = null
     }
 
+    let active = true
+    const historyUrl = new URL("/api/candles", window.location.origin)
+    historyUrl.searchParams.set("symbol", symbol.toUpperCase())
+    historyUrl.searchParams.set("interval", tf.key)
+    historyUrl.searchParams.set("limit", String(tf.points))
+    ;(async () => {
+      try {
+        const res = await fetch(historyUrl.toString())
+        const result = await res.json()
+        if (!active || !result.success) return
+        const history: Candle[] = result.data.map((bar: Omit<Candle, "time"> & { timestamp: number }) => ({
+          time: Math.floor(bar.timestamp / 1000),
+          open: bar.open,
+          high: bar.high,
+          low: bar.low,
+          close: bar.close,
+          volume: bar.volume,
+        }))
+        // Streamed candles that arrived first win over history for the same bar
+        setData((arr) => {
+          const streamed = new Set(arr.map((c) => c.time))
+          return [...history.filter((c) => !streamed.has(c.time)), ...arr].slice(-tf.points)
+        })
+      } catch {
+        // ignore
+      }
+    })()
+
     const url = new URL("/api/ohlc", window.location.origin)
     url.searchParams.set("symbol", symbol.toUpperCase())
     url.searchParams.set("exchange", exchange)
@@ -119,6 +157,7 @@ export function LiveChart() {
     }
 
     return () => {
+      active = false
       es.close()
     }
   }, [symbol, tf, exchange])
@@ -133,77 +172,49 @@ export function LiveChart() {
       .slice(0, 200)
   }, [symbols, query])
 
-  // Recharts wrapper ref for capture
-  const svgWrapRef = React.useRef<HTMLDivElement>(null)
+  // The chart engine works in milliseconds
+  const chartData = React.useMemo<ChartData[]>(
+    () => data.map(({ time, ...bar }) => ({ ...bar, timestamp: time * 1000 })),
+    [data],
+  )
+
+  const chartRef = React.useRef<CandleChartHandle>(null)
+  const [chartStyle, setChartStyle] = React.useState<ChartStyle>("candles")
+  const [boxSize, setBoxSize] = React.useState<number | undefined>()
+  const { drawings } = useChartDrawings(exchange === "BSE" ? `BSE:${symbol}` : symbol, tf.key)
+  const [showLevels, setShowLevels] = React.useState(false)
+  const levelZones = React.useMemo(() => (showLevels ? detectZones(chartData) : []), [showLevels, chartData])
+  const layers = React.useMemo(() => [levelsLayer(levelZones), drawingsLayer(drawings)], [levelZones, drawings])
 
-  // Capture + analyze (SVG -> PNG)
+  // Capture the bars on screen, mark their High/Low and hand the image to chat
   async function captureAndAnalyze() {
-    if (!svgWrapRef.current) return
-    // Compute stats on current data window
-    if (data.length === 0) return
-    let low = data[0]
-    let high = data[0]
-    for (const c of data) {
-      if (c.low < low.low) low = c
-      if (c.high > high.high) high = c
+    const canvas = chartRef.current?.getCanvas()
+    const view = chartRef.current?.getView()
+    if (!canvas || !view) return
+    // Marks the bars as plotted, which for Renko and the like are bricks rather than candles
+    const bars = view.data
+    const last = Math.min(view.last, bars.length - 1)
+    if (last < view.first) return
+
+    let low = view.first
+    let high = view.first
+    for (let i = view.first; i <= last; i++) {
+      if (bars[i].low < bars[low].low) low = i
+      if (bars[i].high > bars[high].high) high = i
     }
 
-    const svg = svgWrapRef.current.querySelector("svg")
-    if (!svg) return
-
-    const rect = (svg as SVGSVGElement).getBoundingClientRect()
-    const w = Math.max(320, Math.floor(rect.width))
-    const h = Math.max(200, Math.floor(rect.height))
-
-    // Serialize SVG
-    const clone = svg.cloneNode(true) as SVGSVGElement
-    clone.setAttribute("width", String(w))
-    clone.setAttribute("height", String(h))
-    clone.setAttribute("viewBox", `0 0 ${w} ${h}`)
-
-    const serializer = new XMLSerializer()
-    const svgStr = serializer.serializeToString(clone)
-    const svg64 = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgStr)}`
-
-    // Draw SVG onto canvas
+    const w = canvas.clientWidth
+    const h = canvas.clientHeight
     const out = document.createElement("canvas")
     out.width = w
     out.height = h
     const ctx = out.getContext("2d")
     if (!ctx) return
-    ctx.fillStyle = "#ffffff"
-    ctx.fillRect(0, 0, w, h)
-
-    await new Promise<void>((resolve, reject) => {
-      const img = new Image()
-      img.crossOrigin = "anonymous"
-      img.onload = () => {
-        ctx.drawImage(img, 0, 0, w, h)
-        resolve()
-      }
-      img.onerror = () => reject(new Error("SVG draw failed"))
-      img.src = svg64
-    })
-
-    // Compute pixel coordinates for High/Low using known domains and margins
-    const xMin = data[0]?.time ?? 0
-    const xMax = data[data.length - 1]?.time ?? 1
-    const yMin = data.reduce((a, c) => Math.min(a, c.low), Number.POSITIVE_INFINITY)
-    const yMax = data.reduce((a, c) => Math.max(a, c.high), Number.NEGATIVE_INFINITY)
-
-    const innerW = w - (CHART_MARGIN.left + CHART_MARGIN.right)
-    const innerH = h - (CHART_MARGIN.top + CHART_MARGIN.bottom)
-
-    function xCoord(t: number) {
-      if (xMax === xMin) return CHART_MARGIN.left + innerW / 2
-      return CHART_MARGIN.left + ((t - xMin) / (xMax - xMin)) * Math.max(1, innerW)
-    }
-    function yCoord(price: number) {
-      if (yMax === yMin) return CHART_MARGIN.top + ((yMax - price) / (yMax - yMin)) * Math.max(1, innerH)
-    }
+    ctx.drawImage(canvas, 0, 0, w, h)
 
     // Draw markers
     function drawMarker(x: number, y: number, label: string, color: string) {
+      if (!ctx) return
       ctx.save()
       ctx.fillStyle = color
       ctx.beginPath()
@@ -228,13 +239,8 @@ export function LiveChart() {
       ctx.restore()
     }
 
-    const xLow = xCoord(low.time)
-    const yLow = yCoord(low.low)
-    const xHigh = xCoord(high.time)
-    const yHigh = yCoord(high.high)
-
-    drawMarker(xLow, yLow, `Low: ${fmtPrice.format(low.low)}`, "#ef4444")
-    drawMarker(xHigh, yHigh, `High: ${fmtPrice.format(high.high)}`, "#10b981")
+    drawMarker(view.toX(low), view.scale.toY(bars[low].low), `Low: ${fmtPrice.format(bars[low].low)}`, "#ef4444")
+    drawMarker(view.toX(high), view.scale.toY(bars[high].high), `High: ${fmtPrice.format(bars[high].high)}`, "#10b981")
 
     const dataUrl = out.toDataURL("image/png")
 
@@ -247,88 +253,14 @@ export function LiveChart() {
           symbol,
           timeframe: tf.label,
           stats: {
-            low: { price: low.low, time: low.time },
-            high: { price: high.high, time: high.time },
+            low: { price: data[low].low, time: data[low].time },
+            high: { price: data[high].high, time: data[high].time },
           },
         },
       }),
     )
   }
 
-  // Tooltip content (simple)
-  const tooltipContent = React.useCallback((props: any) => {
-    const p = props?.payload?.[0]?.payload as Candle | undefined
-    if (!props.active || !p) return null
-    return (
-      <div className="rounded-md border bg-white p-2 text-xs shadow-md">
-        <div className="font-medium">{new Date(p.time * 1000).toLocaleString()}</div>
-        <div className="mt-1 grid grid-cols-2 gap-x-4 gap-y-0.5">
-          <div>Open</div>
-          <div className="font-mono tabular-nums">{p.open.toFixed(2)}</div>
-          <div>High</div>
-          <div className="font-mono tabular-nums">{p.high.toFixed(2)}</div>
-          <div>Low</div>
-          <div className="font-mono tabular-nums">{p.low.toFixed(2)}</div>
-          <div>Close</div>
-          <div className="font-mono tabular-nums">{p.close.toFixed(2)}</div>
-        </div>
-      </div>
-    )
-  }, [])
-
-  // Custom candlestick renderer using Recharts' Customized
-  function Candles(props: any) {
-    const { xAxisMap, yAxisMap, offset } = props
-    const xKey = Object.keys(xAxisMap)[0]
-    const yKey = Object.keys(yAxisMap)[0]
-    const xScale = xAxisMap[xKey].scale
-    const yScale = yAxisMap[yKey].scale
-
-    const innerW = (offset?.width ?? 0) || props.chartWidth || 600
-    const bodyW = Math.max(3, Math.min(12, (innerW / Math.max(20, data.length)) * 0.7))
-
-    return (
-      <g>
-        {data.map((d, i) => {
-          const x = xScale(d.time)
-          const yOpen = yScale(d.open)
-          const yClose = yScale(d.close)
-          const yHigh = yScale(d.high)
-          const yLow = yScale(d.low)
-          const up = d.close >= d.open
-          const color = up ? "#10b981" : "#ef4444"
-
-          const top = Math.min(yOpen, yClose)
-          const height = Math.max(1, Math.abs(yClose - yOpen))
-
-          return (
-            <g key={i}>
-              {/* Wick */}
-              <line x1={x} x2={x} y1={yHigh} y2={yLow} stroke={color} strokeWidth={1} shapeRendering="crispEdges" />
-              {/* Body */}
-              <rect
-                x={x - bodyW / 2}
-                y={top}
-                width={bodyW}
-                height={height}
-                fill={color}
-                stroke="none"
-                shapeRendering="crispEdges"
-                rx={1}
-              />
-            </g>
-          )
-        })}
-      </g>
-    )
-  }
-
-  // X/Y domains
-  const xDomain: [number, number] = data.length > 0 ? [data[0].time, data[data.length - 1].time] : [0, 1]
-  const yMin = data.length > 0 ? data.reduce((a, c) => Math.min(a, c.low), Number.POSITIVE_INFINITY) : 0
-  const yMax = data.length > 0 ? data.reduce((a, c) => Math.max(a, c.high), Number.NEGATIVE_INFINITY) : 1
-  const pad = (yMax - yMin) * 0.02
-
   return (
     <div className="flex flex-col gap-3">
       {/* Top bar with price/details */}
@@ -364,6 +296,8 @@ export function LiveChart() {
         </div>
       </div>
 
+      <MarketStatusBanner className="border-border bg-muted/40" />
+
       {/* Controls */}
       <div className="flex flex-wrap items-center gap-2 relative z-10">
         <Select value={exchange} onValueChange={(v) => setExchange(v as (typeof EXCHANGES)[number])}>
@@ -407,6 +341,13 @@ export function LiveChart() {
           </Select>
         </div>
 
+        <ChartStyleSelect
+          value={chartStyle}
+          onValueChange={setChartStyle}
+          boxSize={boxSize}
+          onBoxSizeChange={setBoxSize}
+        />
+
         <div className="ml-auto flex items-center gap-2">
           {TIMEFRAMES.map((t) => (
             <Button
@@ -426,6 +367,20 @@ export function LiveChart() {
               {t.label}
             </Button>
           ))}
+          <Button
+            type="button"
+            size="sm"
+            variant="secondary"
+            onClick={() => setShowLevels((current) => !current)}
+            aria-pressed={showLevels}
+            title="Support and resistance zones detected from swing pivots"
+            className={cn(
+              "rounded-full",
+              showLevels ? "bg-neutral-900 text-white hover:bg-neutral-800" : "bg-neutral-100 hover:bg-neutral-200",
+            )}
+          >
+            S/R
+          </Button>
           <Button
             type="button"
             size="sm"
@@ -440,43 +395,18 @@ export function LiveChart() {
         </div>
       </div>
 
-      {/* Chart (Recharts candlestick) */}
-      <div className="h-72 sm:h-80 md:h-[420px] w-full rounded-md border bg-white overflow-hidden">
-        <div ref={svgWrapRef} className="h-full w-full overflow-hidden">
-          <div className="w-full h-full">
-            <ChartContainer
-              config={{
-                up: { label: "Up", color: "hsl(var(--chart-1))" },
-                down: { label: "Down", color: "hsl(var(--chart-5))" },
-              }}
-              className="h-full w-full max-w-full max-h-full"
-            >
-              <ComposedChart data={data} margin={CHART_MARGIN}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis
-                  dataKey="time"
-                  type="number"
-                  domain={["dataMin", "dataMax"]}
-                  tickFormatter={(t) =>
-                    new Date(Number(t) * 1000).toLocaleTimeString([], {
-                      hour: "2-digit",
-                      minute: "2-digit",
-                    })
-                  }
-                  tick={{ fontSize: 11 }}
-                />
-                <YAxis
-                  domain={[(yMin || 0) - pad || 0, (yMax || 1) + pad || 1]}
-                  tickFormatter={(v) => v.toFixed(2)}
-                  tick={{ fontSize: 11 }}
-                />
-                <ReTooltip content={tooltipContent} />
-                <Customized component={<Candles />} />
-              </ComposedChart>
-            </ChartContainer>
-          </div>
-        </div>
-      </div>
+      <CandleChart
+        ref={chartRef}
+        data={chartData}
+        theme="light"
+        height={396}
+        chartStyle={chartStyle}
+        boxSize={boxSize}
+        layers={layers}
+        resetKey={`${exchange}:${symbol}:${tf.key}`}
+        formatPrice={(price) => fmtPrice.format(price)}
+        className="border"
+      />
     </div>
   )
 }